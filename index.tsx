@@ -1,22 +1,41 @@
-import React, { useState, useRef, useEffect, useMemo, Suspense, memo, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useMemo, Suspense, memo, useCallback, useContext } from 'react';
 import { createRoot } from 'react-dom/client';
-import { GoogleGenAI } from "@google/genai";
-import { Canvas, useFrame, useThree } from '@react-three/fiber';
+import { GoogleGenAI, Schema, Type } from "@google/genai";
+import { Canvas, useFrame, useThree, ThreeEvent } from '@react-three/fiber';
 import { Text, Float, Stars, Grid, Environment, MeshReflectorMaterial, useTexture, Line, Html, Billboard } from '@react-three/drei';
 import * as THREE from 'three';
 
 // --- GLOBAL & TYPES ---
 declare global {
   interface Window {
-    SpeechRecognition: any;
-    webkitSpeechRecognition: any;
+    SpeechRecognition?: new () => Recognizer;
+    webkitSpeechRecognition?: new () => Recognizer;
   }
 }
 
+// The parts of the Web Speech API recognizer the voice hooks use; it is not in TypeScript's DOM lib
+type Recognizer = {
+    lang: string;
+    continuous: boolean;
+    interimResults: boolean;
+    onresult: ((e: { resultIndex: number; results: SpeechRecognitionResultList }) => void) | null;
+    onerror: ((e: { error: string }) => void) | null;
+    onend: (() => void) | null;
+    start(): void;
+    stop(): void;
+    abort(): void;
+};
+
 const APP_CONFIG = {
     version: '4.4.0-Lumina-Governance',
     env: 'production',
-    simulationMode: true, 
+    // Demo only: replaces real task execution with randomized agent activity
+    simulationMode: process.env.SIMULATION_MODE === 'true',
+    storage: {
+        backend: process.env.STORAGE_BACKEND === 'http' ? 'http' : 'indexeddb',
+        url: process.env.STORAGE_URL || 'http://localhost:8787',
+        dbName: 'lumina-os',
+    },
 };
 
 // --- ERROR BOUNDARY ---
@@ -57,26 +76,409 @@ class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundarySta
 }
 
 // --- TRANSLATIONS (i18n) ---
-const TRANSLATIONS = {
-  de: {
-    nav: { home: 'Campus Core', chat: 'Neural Chat', studio: 'Creative Studio', files: 'Archive', notes: 'Mind Palace', tickets: 'Quests', growth: 'Skill Tree', admin: 'Admin Tower' },
-    auth: { title: 'Lumina OS Zugang', wallet_btn: 'Wallet Connect', guest_btn: 'Gast Modus', connecting: 'Verbinde...' },
-    tokens: { rep: 'XP', act: 'Focus', edu: 'Wissen' },
-    placeholders: { chat: 'Befehl eingeben...', search_sources: 'Wissen durchsuchen...' },
-    actions: { summarize: 'Zusammenfassen', workflow: 'Workflow', next_step: 'Nächster Schritt' },
-    meta: { controls: 'WASD: Bewegen • E: Interagieren', loading: 'Lade Module...' },
-    governance: { title: 'Ops Center', agents: 'Agent Swarm', quick_actions: 'Quick Actions' }
-  },
-  en: {
+// Plural entries are picked with Intl.PluralRules from the `count` variable
+type Plural = { one: string; other: string; };
+
+// English is the reference table: its shape defines the valid keys
+const EN = {
     nav: { home: 'Campus Core', chat: 'Neural Chat', studio: 'Creative Studio', files: 'Archive', notes: 'Mind Palace', tickets: 'Quests', growth: 'Skill Tree', admin: 'Admin Tower' },
-    auth: { title: 'Lumina OS Access', wallet_btn: 'Connect Wallet', guest_btn: 'Guest Mode', connecting: 'Connecting...' },
+    modules: { title: 'Modules', dashboard: 'Ops Center', classifier: 'Governance Classifier', tools: 'Tool Registry', pipelines: 'Pipelines', files: 'File Archive', notes: 'Mind Palace', sources: 'Notebook Sources', integrations: 'Messaging', ai: 'AI Providers', initiatives: 'Initiatives', taskbook: 'PM Taskbook', ledger: 'Token Ledger', feedback: 'Agent Feedback' },
+    auth: { title: 'Lumina OS Access', username: 'Username', password: 'Password', login_btn: 'Sign In', register_btn: 'Create Account', guest_btn: 'Guest Mode', connecting: 'Connecting...', to_register: 'No account yet? Register', to_login: 'Already registered? Sign in', logout: 'Sign Out' },
+    header: {
+        guest: 'Guest', level: 'Level {level}', agent_status: 'Agent Status', network_health: 'Network Health', language: 'Language', ledger: 'Open token history',
+        system_health: 'System health {value}%', providers: 'AI Providers', bridges: 'Messaging Bridges', agents: 'Agents', probing: 'Checking providers...',
+        latency: '{ms} ms', failed_probes: '{rate} of checks failed', success_rate: '{rate} successful', no_outcomes: 'No results yet', last_seen: 'Last heartbeat {time}',
+        quality: { optimal: 'optimal', unstable: 'unstable', offline: 'offline' },
+        adapter: { online: 'online', connecting: 'connecting', stale: 'no heartbeat', error: 'error' },
+    },
     tokens: { rep: 'XP', act: 'Focus', edu: 'Knowledge' },
-    placeholders: { chat: 'Enter command...', search_sources: 'Search knowledge...' },
-    actions: { summarize: 'Summarize', workflow: 'Workflow', next_step: 'Next Step' },
-    meta: { controls: 'WASD: Move • E: Interact', loading: 'Loading Modules...' },
-    governance: { title: 'Ops Center', agents: 'Agent Swarm', quick_actions: 'Quick Actions' }
-  }
+    placeholders: { chat: 'Enter command...', search_sources: 'Search knowledge...', task: 'Describe a task for the swarm...', goal: 'What do you want to achieve?', filter_notes: 'Filter notes...' },
+    actions: { summarize: 'Summarize', workflow: 'Workflow', next_step: 'Next Step', generate: 'Generate', thinking: 'Thinking...', failed: 'The action failed.', add_step: '+ Add step', save_note: 'Save as Note', save_task: 'Save as Task', save_tasks: 'Save as Tasks', saved_note: 'Saved as note.', saved_tasks: 'Added to the task queue.', remove_step: 'Remove step' },
+    meta: { controls: 'WASD: Move • E: Interact', loading: 'Loading Modules...', initializing: 'Initializing Lumina OS...' },
+    governance: { title: 'Ops Center', agents: 'Agent Swarm', quick_actions: 'Quick Actions' },
+    classifier: {
+        context: 'Active Context', placeholder: 'Paste governance text, policy draft, or ticket content here for AI analysis...', analyzing: 'Analyzing...', classify: 'Classify Content',
+        select_hint: 'Select at least one initiative.', summary: 'Summary', initiative: 'Initiative', relevance: 'Relevance', rationale: 'Rationale',
+        evidence: 'Evidence', risks: 'Risk Flags', no_risks: 'No risks flagged.', actions: 'Recommended Actions', highlighted: 'Highlighted Text', not_in_text: 'not found in text',
+        history: 'History', history_empty: 'No classifications yet.', export_csv: 'CSV', export_json: 'JSON', delete: 'Delete', link: 'Link', linked: 'Linked',
+        severity: { low: 'low', medium: 'medium', high: 'high' }, failed: 'Classification failed.',
+    },
+    initiatives: {
+        new: 'New Initiative', untitled: 'Untitled initiative', title: 'Title', description: 'Description', owner: 'Owner', deadline: 'Deadline', status: 'Status',
+        statuses: { planned: 'Planned', active: 'Active', on_hold: 'On Hold', completed: 'Completed' },
+        kpis: 'KPIs', add_kpi: '+ Add KPI', kpi_name: 'KPI', current: 'Current', target: 'Target', unit: 'Unit',
+        history: 'Status History', linked: 'Linked Documents', no_linked: 'No documents linked yet. Classify a text to file it here.', unlink: 'Unlink',
+        delete: 'Delete', confirm_delete: 'Delete the initiative "{title}"?', progress: 'Progress', overdue: 'Overdue', due: 'Due {date}',
+        mentor_only: 'Only Mentors can edit initiatives.', select: 'Select an initiative.', empty: 'No initiatives yet.', open: 'Open',
+        documents: { one: '{count} document', other: '{count} documents' } as Plural,
+    },
+    growth: {
+        role: 'Role: {role}', next_role: 'Complete {branches} to become {role}.', top_role: 'You hold the highest role.',
+        eligible: 'You qualify for {role}!', awaiting: 'You qualify for {role}. A Mentor has to confirm the promotion.',
+        pending: 'Pending Promotions', confirm: 'Promote', confirm_promotion: 'Promote {name} to {role}? This grants the permissions of the role.',
+        guest: 'Guests keep no progress. Register to grow your skills.', requires: 'Requires {skills}', unlocked: 'Unlocked', locked: 'Locked',
+        branches: { governance: 'Governance', knowledge: 'Knowledge', execution: 'Execution', community: 'Community' },
+        metrics: { documents_classified: 'Documents classified', notes_linked: 'Notes linked', tasks_completed: 'Tasks completed', feedback_given: 'Feedback given' },
+        skills: {
+            policy_reader: 'Policy Reader', compliance_analyst: 'Compliance Analyst', governance_architect: 'Governance Architect',
+            note_taker: 'Note Taker', knowledge_weaver: 'Knowledge Weaver', cartographer: 'Cartographer',
+            first_quest: 'First Quest', task_runner: 'Task Runner', project_lead: 'Project Lead',
+            first_voice: 'First Voice', critic: 'Critic', coach: 'Coach',
+        },
+    },
+    ledger: {
+        to_next: '{xp} XP to level {level}', budget: 'Daily budget: {budget}', out_of_focus: 'You are out of Focus. It is refilled to your daily budget ({budget}) tomorrow.',
+        history: 'History', all: 'All', empty: 'No transactions yet.', date: 'Date', reason: 'Reason', amount: 'Amount', balance: 'Balance',
+        reasons: { opening: 'Opening balance', carryover: 'Carried over', integration_reply: 'Answered a message', ai_call: 'AI call', source_added: 'Source added', note_created: 'Note created', focus_refill: 'Daily Focus refill' },
+        budgets: 'Focus Budgets', budgets_hint: 'Focus refilled each day. Unset members get {budget}.', member: 'Member', daily_focus: 'Daily Focus',
+    },
+    taskbook: {
+        board: 'Board', list: 'List', all_milestones: 'All milestones', new_task: 'New Task', untitled: 'New task',
+        statuses: { backlog: 'Backlog', todo: 'To Do', in_progress: 'In Progress', review: 'Review', done: 'Done' },
+        priorities: { high: 'High', medium: 'Medium', low: 'Low' },
+        title: 'Title', description: 'Description', status: 'Status', priority: 'Priority', estimate: 'Estimate (h)', token_cost: 'Token Cost', tokens_spent: 'Spent by agents: {tokens} tokens',
+        milestone: 'Milestone', no_milestone: 'No milestone', assignee: 'Assignee', unassigned: 'Unassigned', members: 'Members', agents: 'Agents',
+        delegate: 'Send to agent', delegated: 'Sent to the task queue.', agent_result: 'Agent Result', delete: 'Delete', close: 'Close', confirm_delete: 'Delete the task "{title}"?',
+        open_summary: { one: '{count} open task · {hours} h · {tokens} tokens', other: '{count} open tasks · {hours} h · {tokens} tokens' } as Plural,
+        drop_here: 'Drop tasks here', empty: 'No tasks yet.',
+        ideas: 'Ideas', idea_placeholder: 'Jot down an idea...', add: 'Add', suggest: 'Ask for ideas', suggesting: 'Thinking...', suggest_failed: 'No ideas could be generated.',
+        no_ideas: 'No ideas yet.', promote: 'Make task', dismiss: 'Dismiss', proposed_by: 'Proposed by {name}',
+        milestones: 'Milestones', milestone_placeholder: 'New milestone', confirm_delete_milestone: 'Delete the milestone "{title}"? Its tasks stay on the board.', due: 'Due {date}',
+    },
+    tools: {
+        mentor_only: 'Only Mentors can install or remove modules.', installed: 'Installed', install: 'Install Module',
+        installed_title: 'Installed Plugins', catalog: 'Bundled Plugins', none: 'No plugins installed yet.', api: 'Plugin API {version}',
+        url_placeholder: 'https://example.org/my-plugin/manifest.json', install_url: 'Install from URL', install_folder: 'Install from Folder',
+        enable: 'Enable', disable: 'Disable', uninstall: 'Uninstall', permissions: 'Permissions', no_permissions: 'none', adds: 'Adds',
+        tabs: { one: '{count} module', other: '{count} modules' } as Plural,
+        actions: { one: '{count} quick action', other: '{count} quick actions' } as Plural,
+        agent_tools: { one: '{count} agent tool', other: '{count} agent tools' } as Plural,
+        confirm_install: 'Install {name} {version}?\n\nRequested permissions: {permissions}',
+        confirm_replace: '{name} {installed} is already installed. Replace it with version {version}?',
+        confirm_uninstall: 'Uninstall {name}?',
+        status: { starting: 'Starting', running: 'Running', error: 'Error', incompatible: 'Incompatible', disabled: 'Disabled' },
+        not_running: 'This plugin is not running.', loading: 'Loading...', install_failed: 'The plugin could not be installed.', failed: 'The plugin failed.',
+    },
+    feedback: {
+        approval: 'Approval', ratings: { one: '{count} rating', other: '{count} ratings' } as Plural, no_ratings: 'No ratings yet',
+        over_time: 'Approval over the last {days} days', day_tooltip: '{date}: {rate} of {count}', no_day: '{date}: no ratings',
+        themes: 'Complaint Themes', cluster: 'Find themes', clustering: 'Clustering...', cluster_failed: 'The complaints could not be clustered.',
+        themes_hint: 'Groups the most recent thumbs-down comments into recurring themes.', no_complaints: 'No negative feedback for this agent.',
+        complaints: { one: '{count} complaint', other: '{count} complaints' } as Plural,
+        worst: 'Worst-rated Exchanges', asked: 'Asked', answered: 'Answered', no_comment: 'No comment',
+        prompt: 'Prompt Improvement', suggest: 'Suggest prompt revision', suggesting: 'Revising...', suggest_failed: 'No revision could be proposed.',
+        suggest_hint: 'Proposes a revised persona prompt that addresses the negative feedback. Test it against the current prompt before adopting it.',
+        current_prompt: 'Current prompt', proposed_prompt: 'Proposed prompt', start_test: 'Start A/B test', discard: 'Discard',
+        running: 'A/B test running since {date}', baseline: 'A · Current', candidate: 'B · Candidate',
+        adopt: 'Adopt B', keep: 'Keep A', confirm_adopt: 'Replace the persona prompt of {name} with the candidate?', confirm_keep: 'End the test and keep the current prompt of {name}?',
+        leading: 'Leading', too_few: 'Collect at least {count} ratings per prompt before deciding.',
+        past_tests: 'Past Tests', adopted: 'Candidate adopted', kept: 'Current prompt kept',
+        manager_only: 'Only Mentors can revise agent prompts.',
+    },
+    tasks: {
+        title: 'Task Queue',
+        open: { one: '{count} open', other: '{count} open' } as Plural,
+        total: { one: '{count} task', other: '{count} tasks' } as Plural,
+        any_agent: 'Any agent', any_type: 'Any {type}', enqueue: 'Enqueue', empty: 'No tasks yet.', cancel: 'Cancel', retry: 'Retry', unassigned: 'unassigned',
+        statuses: { queued: 'queued', running: 'running', done: 'done', failed: 'failed', cancelled: 'cancelled' },
+        queued_at: 'queued {time}', ran: 'ran {seconds}s', tokens: '{count} tok',
+    },
+    pipelines: {
+        new: 'New Pipeline', untitled: 'New Pipeline', no_steps: 'No steps', compatible: 'Compatible Types', add_pair: '+ Add pair', remove_rule: 'Remove rule',
+        select: 'Select or create a pipeline.', delete: 'Delete pipeline', step: 'Step {index}', choose_agent: 'Choose an agent...',
+        move_up: 'Move up', move_down: 'Move down', remove_step: 'Remove step', instruction: 'What should this agent do with its input?', add_step: '+ Add step',
+        run: 'Run', free_text: 'Free text input', source: 'Source: {title}', input: 'Input for the first step...', start: 'Start Run',
+        progress: 'step {step}/{total}', cancel: 'Cancel', agent: 'Agent',
+        statuses: { running: 'running', done: 'done', failed: 'failed', cancelled: 'cancelled' },
+        problems: {
+            no_steps: 'Add at least one step.', no_agent: 'Step {index} has no agent.', no_instruction: 'Step {index} has no instruction.',
+            incompatible: '{from} ({fromType}) cannot hand off to {to} ({toType}).',
+        },
+    },
+    sources: {
+        add: 'Add Sources', extracting: 'Extracting...', ask: 'Ask', searching: 'Searching...', search_failed: 'Search failed.',
+        empty: 'No sources yet. Add PDF, Markdown, text or HTML files.', delete: 'Delete source',
+        chunks: { one: '{count} chunk', other: '{count} chunks' } as Plural,
+    },
+    files: {
+        search: 'Search all files...', folder: 'Folder', upload: 'Upload', archive: 'Archive', new_folder: 'New Folder', results: 'Results for "{query}"',
+        summarize_with: 'Summarize with', no_matches: 'No matching files.', empty_folder: 'This folder is empty.', read_only_badge: 'RO',
+        summarize: 'Send to agent for summary', download: 'Download', rename: 'Rename', move: 'Move', delete: 'Delete',
+        folder_read_only: 'This folder is read-only.', read_only: '"{name}" is read-only.', move_read_only: 'Source or destination is read-only.',
+        move_into_self: 'A folder cannot be moved into itself.', subtree_read_only: '"{name}" or something inside it is read-only.', not_readable: '"{name}" is not readable.',
+        not_summarizable: 'Only PDF, Markdown, text and HTML files can be summarized.', skipped: 'Skipped (over {size}): {names}',
+        upload_failed: 'Upload failed.', read_failed: 'Could not read the file.',
+        confirm_delete: { one: 'Delete "{name}" and {count} item inside it?', other: 'Delete "{name}" and {count} items inside it?' } as Plural,
+    },
+    notes: {
+        new: 'New Note', untitled: 'Untitled Note', empty: 'No notes yet.', edit: 'Edit', preview: 'Preview', delete: 'Delete note',
+        placeholder: 'Write Markdown. Link notes with [[Note Title]].', backlinks: 'Backlinks ({count})', no_backlinks: 'No notes link here yet.', select: 'Select or create a note.',
+        links: { one: '{count} link', other: '{count} links' } as Plural,
+    },
+    voice: {
+        hold_to_talk: 'Hold to talk', unsupported: 'Voice input is not supported in this browser.', denied: 'Microphone access was denied.', failed: 'Speech recognition failed.',
+        read_aloud: 'Read aloud', speak_replies: 'Speak replies', hands_free: 'Hands-free', listening: 'Listening...', speaking: 'Speaking...',
+        voice: 'Voice', default_voice: 'Browser default', preview: 'Preview', no_synthesis: 'Speech output is not supported in this browser.',
+    },
+    integrations: {
+        inbox: 'Inbox', rules: 'Routing Rules', bridges: 'Messaging Bridges',
+        all_channels: 'All channels', open: 'Open', escalated: 'Escalated', handled: 'Handled', all: 'All',
+        empty: 'No messages match the filters.', select: 'Select a message.',
+        shown: { one: '{count} message', other: '{count} messages' } as Plural,
+        time: { any: 'Any time', hour: 'Last hour', day: 'Last 24h', week: 'Last 7 days' },
+        statuses: { received: 'received', replying: 'replying', delivered: 'delivered', failed: 'failed', escalated: 'escalated' },
+        chat: '{channel} · chat {chatId} · {sender}', status: 'Status:', agent: 'Agent: {name}', rule: 'Rule: {name}', default_route: 'default route', reply: 'Reply ({by})',
+        choose_agent: 'Choose an agent...', reassign: 'Reassign & Answer', reply_placeholder: 'Reply as operator...', send: 'Send Reply',
+        inbox_mentor_only: 'Only Mentors can reassign or answer messages.',
+        add_rule: 'Add Rule', new_rule: 'New rule', rules_hint: "Rules run top to bottom and the first match wins. Unmatched messages go to the channel's default agent.",
+        rules_mentor_only: 'Only Mentors can edit routing rules.', enabled: 'Enabled', move_up: 'Move up', move_down: 'Move down', delete_rule: 'Delete rule',
+        channels: 'Channels', any: 'any', keywords: 'Keywords', any_message: 'any message', action: 'Action', reply_text: 'Reply text',
+        actions: { route: 'Route to agent', auto_reply: 'Auto-reply', escalate: 'Escalate to a human' },
+        bridges_mentor_only: 'Only Mentors can change bridge settings.', relay: 'Webhook Relay (server.ts)', default_agent: 'Default Agent',
+        bot_token: 'Bot Token', access_token: 'Access Token (optional)', token_hint: 'Kept in this browser only.', api_base: 'Bot API Base',
+        send_endpoint: 'Send Endpoint', inbound: 'Inbound webhooks: POST {url}', disabled: 'disabled',
+    },
+    agents: {
+        persona: 'Persona settings', system_prompt: 'System Prompt', temperature: 'Temperature:', model: 'Model', default_model: 'Default (LLM settings)',
+        reset: 'Reset to default', cancel: 'Cancel', save: 'Save Persona',
+        task: 'Task: {task}', load: 'Load {load}%', energy: 'Energy {energy}', cooldown: 'Cooldown {seconds}s',
+        uplink: 'UPLINK: {name}', established: 'Secure channel established.', select: 'Select an Agent to establish uplink.', processing: 'Agent processing data packet...',
+        feedback: 'Feedback:', comment: 'Add comment (optional)...', ok: 'OK', saved_note: 'Saved to Mind Palace', save_note: 'Save as note',
+        query: 'Query {name}...', stop: 'STOP', cancel_reply: 'Cancel response',
+    },
+    ai: {
+        features: { chat: 'Agent Chat', zone: 'Zone Analysis', classifier: 'Governance Classifier', qa: 'Source Q&A', actions: 'Quick Actions', analytics: 'Feedback Analytics' },
+        test: 'Test', testing: 'Testing...', test_ok: 'OK in {ms}ms: {text}', test_failed: 'Failed: {error}', unknown_error: 'unknown error',
+        openai: 'OpenAI-compatible Endpoint', base_url: 'Base URL', api_key: 'API Key (optional, kept in this browser)',
+        retrieval: 'Retrieval', rerank: 'Embedding rerank', rerank_hint: 'BM25 keyword search always runs locally; the rerank blends in embedding similarity for the top candidates.',
+        no_gemini: 'Gemini is unavailable: no GEMINI_API_KEY was set at build time.',
+        mentor_only: 'Only Mentors can change the AI routes and the endpoint. Your API key stays in this browser.',
+    },
+};
+
+type TranslationTable = typeof EN;
+type PartialTable<T> = { [K in keyof T]?: T[K] extends string | Plural ? T[K] : PartialTable<T[K]> };
+type KeyPaths<T, P extends string = ''> = { [K in keyof T & string]: T[K] extends string | Plural ? `${P}${K}` : KeyPaths<T[K], `${P}${K}.`> }[keyof T & string];
+type TranslationKey = KeyPaths<TranslationTable>;
+
+// Other languages may lag behind; gaps fall back to English at runtime
+const DE: PartialTable<TranslationTable> = {
+    nav: { home: 'Campus Core', chat: 'Neural Chat', studio: 'Creative Studio', files: 'Archive', notes: 'Mind Palace', tickets: 'Quests', growth: 'Skill Tree', admin: 'Admin Tower' },
+    modules: { title: 'Module', dashboard: 'Ops Center', classifier: 'Governance-Klassifikator', tools: 'Tool-Registry', pipelines: 'Pipelines', files: 'Dateiarchiv', notes: 'Mind Palace', sources: 'Notebook-Quellen', integrations: 'Messaging', ai: 'KI-Anbieter', initiatives: 'Initiativen', taskbook: 'PM-Aufgabenbuch', ledger: 'Token-Konto', feedback: 'Agenten-Feedback' },
+    auth: { title: 'Lumina OS Zugang', username: 'Benutzername', password: 'Passwort', login_btn: 'Anmelden', register_btn: 'Konto erstellen', guest_btn: 'Gast Modus', connecting: 'Verbinde...', to_register: 'Noch kein Konto? Registrieren', to_login: 'Bereits registriert? Anmelden', logout: 'Abmelden' },
+    header: {
+        guest: 'Gast', level: 'Level {level}', agent_status: 'Agentenstatus', network_health: 'Netzwerkzustand', language: 'Sprache', ledger: 'Token-Verlauf öffnen',
+        system_health: 'Systemzustand {value}%', providers: 'KI-Anbieter', bridges: 'Messaging-Brücken', agents: 'Agenten', probing: 'Prüfe Anbieter...',
+        latency: '{ms} ms', failed_probes: '{rate} der Prüfungen fehlgeschlagen', success_rate: '{rate} erfolgreich', no_outcomes: 'Noch keine Ergebnisse', last_seen: 'Letztes Lebenszeichen {time}',
+        quality: { optimal: 'optimal', unstable: 'instabil', offline: 'offline' },
+        adapter: { online: 'online', connecting: 'verbinde', stale: 'kein Lebenszeichen', error: 'Fehler' },
+    },
+    tokens: { rep: 'XP', act: 'Focus', edu: 'Wissen' },
+    placeholders: { chat: 'Befehl eingeben...', search_sources: 'Wissen durchsuchen...', task: 'Aufgabe für den Schwarm beschreiben...', goal: 'Was möchtest du erreichen?', filter_notes: 'Notizen filtern...' },
+    actions: { summarize: 'Zusammenfassen', workflow: 'Workflow', next_step: 'Nächster Schritt', generate: 'Erstellen', thinking: 'Denke nach...', failed: 'Die Aktion ist fehlgeschlagen.', add_step: '+ Schritt hinzufügen', save_note: 'Als Notiz speichern', save_task: 'Als Aufgabe speichern', save_tasks: 'Als Aufgaben speichern', saved_note: 'Als Notiz gespeichert.', saved_tasks: 'Zur Aufgabenliste hinzugefügt.', remove_step: 'Schritt entfernen' },
+    meta: { controls: 'WASD: Bewegen • E: Interagieren', loading: 'Lade Module...', initializing: 'Lumina OS wird gestartet...' },
+    governance: { title: 'Ops Center', agents: 'Agent Swarm', quick_actions: 'Quick Actions' },
+    classifier: {
+        context: 'Aktiver Kontext', placeholder: 'Governance-Text, Richtlinienentwurf oder Ticket hier einfügen...', analyzing: 'Analysiere...', classify: 'Inhalt klassifizieren',
+        select_hint: 'Wähle mindestens eine Initiative aus.', summary: 'Zusammenfassung', initiative: 'Initiative', relevance: 'Relevanz', rationale: 'Begründung',
+        evidence: 'Belege', risks: 'Risiken', no_risks: 'Keine Risiken erkannt.', actions: 'Empfohlene Maßnahmen', highlighted: 'Markierter Text', not_in_text: 'nicht im Text gefunden',
+        history: 'Verlauf', history_empty: 'Noch keine Klassifizierungen.', export_csv: 'CSV', export_json: 'JSON', delete: 'Löschen', link: 'Verknüpfen', linked: 'Verknüpft',
+        severity: { low: 'niedrig', medium: 'mittel', high: 'hoch' }, failed: 'Klassifizierung fehlgeschlagen.',
+    },
+    initiatives: {
+        new: 'Neue Initiative', untitled: 'Unbenannte Initiative', title: 'Titel', description: 'Beschreibung', owner: 'Verantwortlich', deadline: 'Frist', status: 'Status',
+        statuses: { planned: 'Geplant', active: 'Aktiv', on_hold: 'Pausiert', completed: 'Abgeschlossen' },
+        kpis: 'KPIs', add_kpi: '+ KPI hinzufügen', kpi_name: 'KPI', current: 'Ist', target: 'Ziel', unit: 'Einheit',
+        history: 'Statusverlauf', linked: 'Verknüpfte Dokumente', no_linked: 'Noch keine Dokumente verknüpft. Klassifiziere einen Text, um ihn hier abzulegen.', unlink: 'Lösen',
+        delete: 'Löschen', confirm_delete: 'Initiative "{title}" löschen?', progress: 'Fortschritt', overdue: 'Überfällig', due: 'Fällig {date}',
+        mentor_only: 'Nur Mentoren können Initiativen bearbeiten.', select: 'Initiative auswählen.', empty: 'Noch keine Initiativen.', open: 'Öffnen',
+        documents: { one: '{count} Dokument', other: '{count} Dokumente' },
+    },
+    growth: {
+        role: 'Rolle: {role}', next_role: 'Schließe {branches} ab, um {role} zu werden.', top_role: 'Du hast die höchste Rolle erreicht.',
+        eligible: 'Du erfüllst die Voraussetzungen für {role}!', awaiting: 'Du erfüllst die Voraussetzungen für {role}. Ein Mentor muss die Beförderung bestätigen.',
+        pending: 'Ausstehende Beförderungen', confirm: 'Befördern', confirm_promotion: '{name} zu {role} befördern? Damit erhält die Person die Berechtigungen der Rolle.',
+        guest: 'Gäste behalten keinen Fortschritt. Registriere dich, um deine Fähigkeiten auszubauen.', requires: 'Benötigt {skills}', unlocked: 'Freigeschaltet', locked: 'Gesperrt',
+        branches: { governance: 'Governance', knowledge: 'Wissen', execution: 'Umsetzung', community: 'Gemeinschaft' },
+        metrics: { documents_classified: 'Klassifizierte Dokumente', notes_linked: 'Verknüpfte Notizen', tasks_completed: 'Erledigte Aufgaben', feedback_given: 'Gegebenes Feedback' },
+        skills: {
+            policy_reader: 'Richtlinienleser', compliance_analyst: 'Compliance-Analyst', governance_architect: 'Governance-Architekt',
+            note_taker: 'Notizenschreiber', knowledge_weaver: 'Wissensweber', cartographer: 'Kartograf',
+            first_quest: 'Erste Quest', task_runner: 'Aufgabenläufer', project_lead: 'Projektleitung',
+            first_voice: 'Erste Stimme', critic: 'Kritiker', coach: 'Coach',
+        },
+    },
+    ledger: {
+        to_next: 'Noch {xp} XP bis Level {level}', budget: 'Tagesbudget: {budget}', out_of_focus: 'Dein Focus ist aufgebraucht. Er wird morgen auf dein Tagesbudget ({budget}) aufgefüllt.',
+        history: 'Verlauf', all: 'Alle', empty: 'Noch keine Buchungen.', date: 'Datum', reason: 'Grund', amount: 'Betrag', balance: 'Stand',
+        reasons: { opening: 'Anfangsbestand', carryover: 'Übertrag', integration_reply: 'Nachricht beantwortet', ai_call: 'KI-Aufruf', source_added: 'Quelle hinzugefügt', note_created: 'Notiz erstellt', focus_refill: 'Tägliche Focus-Aufladung' },
+        budgets: 'Focus-Budgets', budgets_hint: 'Täglich aufgefüllter Focus. Mitglieder ohne Eintrag erhalten {budget}.', member: 'Mitglied', daily_focus: 'Focus pro Tag',
+    },
+    taskbook: {
+        board: 'Board', list: 'Liste', all_milestones: 'Alle Meilensteine', new_task: 'Neue Aufgabe', untitled: 'Neue Aufgabe',
+        statuses: { backlog: 'Backlog', todo: 'Offen', in_progress: 'In Arbeit', review: 'Prüfung', done: 'Erledigt' },
+        priorities: { high: 'Hoch', medium: 'Mittel', low: 'Niedrig' },
+        title: 'Titel', description: 'Beschreibung', status: 'Status', priority: 'Priorität', estimate: 'Schätzung (h)', token_cost: 'Token-Kosten', tokens_spent: 'Von Agenten verbraucht: {tokens} Token',
+        milestone: 'Meilenstein', no_milestone: 'Kein Meilenstein', assignee: 'Zuständig', unassigned: 'Nicht zugewiesen', members: 'Mitglieder', agents: 'Agenten',
+        delegate: 'An Agenten senden', delegated: 'In die Aufgabenwarteschlange gestellt.', agent_result: 'Ergebnis des Agenten', delete: 'Löschen', close: 'Schließen', confirm_delete: 'Aufgabe "{title}" löschen?',
+        open_summary: { one: '{count} offene Aufgabe · {hours} h · {tokens} Token', other: '{count} offene Aufgaben · {hours} h · {tokens} Token' },
+        drop_here: 'Aufgaben hierher ziehen', empty: 'Noch keine Aufgaben.',
+        ideas: 'Ideen', idea_placeholder: 'Idee notieren...', add: 'Hinzufügen', suggest: 'Ideen anfragen', suggesting: 'Denkt nach...', suggest_failed: 'Es konnten keine Ideen erzeugt werden.',
+        no_ideas: 'Noch keine Ideen.', promote: 'Als Aufgabe', dismiss: 'Verwerfen', proposed_by: 'Vorgeschlagen von {name}',
+        milestones: 'Meilensteine', milestone_placeholder: 'Neuer Meilenstein', confirm_delete_milestone: 'Meilenstein "{title}" löschen? Seine Aufgaben bleiben auf dem Board.', due: 'Fällig {date}',
+    },
+    tools: {
+        mentor_only: 'Nur Mentoren können Module installieren oder entfernen.', installed: 'Installiert', install: 'Modul installieren',
+        installed_title: 'Installierte Plugins', catalog: 'Mitgelieferte Plugins', none: 'Noch keine Plugins installiert.', api: 'Plugin-API {version}',
+        url_placeholder: 'https://example.org/mein-plugin/manifest.json', install_url: 'Von URL installieren', install_folder: 'Aus Ordner installieren',
+        enable: 'Aktivieren', disable: 'Deaktivieren', uninstall: 'Entfernen', permissions: 'Berechtigungen', no_permissions: 'keine', adds: 'Fügt hinzu',
+        tabs: { one: '{count} Modul', other: '{count} Module' },
+        actions: { one: '{count} Schnellaktion', other: '{count} Schnellaktionen' },
+        agent_tools: { one: '{count} Agenten-Werkzeug', other: '{count} Agenten-Werkzeuge' },
+        confirm_install: '{name} {version} installieren?\n\nAngeforderte Berechtigungen: {permissions}',
+        confirm_replace: '{name} {installed} ist bereits installiert. Durch Version {version} ersetzen?',
+        confirm_uninstall: '{name} entfernen?',
+        status: { starting: 'Startet', running: 'Läuft', error: 'Fehler', incompatible: 'Inkompatibel', disabled: 'Deaktiviert' },
+        not_running: 'Dieses Plugin läuft nicht.', loading: 'Lade...', install_failed: 'Das Plugin konnte nicht installiert werden.', failed: 'Das Plugin ist fehlgeschlagen.',
+    },
+    feedback: {
+        approval: 'Zustimmung', ratings: { one: '{count} Bewertung', other: '{count} Bewertungen' }, no_ratings: 'Noch keine Bewertungen',
+        over_time: 'Zustimmung der letzten {days} Tage', day_tooltip: '{date}: {rate} von {count}', no_day: '{date}: keine Bewertungen',
+        themes: 'Beschwerde-Themen', cluster: 'Themen finden', clustering: 'Gruppiere...', cluster_failed: 'Die Beschwerden konnten nicht gruppiert werden.',
+        themes_hint: 'Fasst die neuesten negativen Kommentare zu wiederkehrenden Themen zusammen.', no_complaints: 'Kein negatives Feedback für diesen Agenten.',
+        complaints: { one: '{count} Beschwerde', other: '{count} Beschwerden' },
+        worst: 'Am schlechtesten bewertet', asked: 'Frage', answered: 'Antwort', no_comment: 'Kein Kommentar',
+        prompt: 'Prompt-Verbesserung', suggest: 'Prompt-Überarbeitung vorschlagen', suggesting: 'Überarbeite...', suggest_failed: 'Es konnte keine Überarbeitung vorgeschlagen werden.',
+        suggest_hint: 'Schlägt einen überarbeiteten Persona-Prompt vor, der das negative Feedback aufgreift. Teste ihn gegen den aktuellen Prompt, bevor du ihn übernimmst.',
+        current_prompt: 'Aktueller Prompt', proposed_prompt: 'Vorgeschlagener Prompt', start_test: 'A/B-Test starten', discard: 'Verwerfen',
+        running: 'A/B-Test läuft seit {date}', baseline: 'A · Aktuell', candidate: 'B · Kandidat',
+        adopt: 'B übernehmen', keep: 'A behalten', confirm_adopt: 'Den Persona-Prompt von {name} durch den Kandidaten ersetzen?', confirm_keep: 'Test beenden und den aktuellen Prompt von {name} behalten?',
+        leading: 'Vorne', too_few: 'Sammle mindestens {count} Bewertungen pro Prompt, bevor du entscheidest.',
+        past_tests: 'Frühere Tests', adopted: 'Kandidat übernommen', kept: 'Aktueller Prompt behalten',
+        manager_only: 'Nur Mentoren können Agenten-Prompts überarbeiten.',
+    },
+    tasks: {
+        title: 'Aufgaben',
+        open: { one: '{count} offen', other: '{count} offen' },
+        total: { one: '{count} Aufgabe', other: '{count} Aufgaben' },
+        any_agent: 'Beliebiger Agent', any_type: 'Beliebig: {type}', enqueue: 'Einreihen', empty: 'Noch keine Aufgaben.', cancel: 'Abbrechen', retry: 'Wiederholen', unassigned: 'nicht zugewiesen',
+        statuses: { queued: 'wartet', running: 'läuft', done: 'erledigt', failed: 'fehlgeschlagen', cancelled: 'abgebrochen' },
+        queued_at: 'eingereiht {time}', ran: 'lief {seconds} s', tokens: '{count} Token',
+    },
+    pipelines: {
+        new: 'Neue Pipeline', untitled: 'Neue Pipeline', no_steps: 'Keine Schritte', compatible: 'Kompatible Typen', add_pair: '+ Paar hinzufügen', remove_rule: 'Regel entfernen',
+        select: 'Pipeline auswählen oder erstellen.', delete: 'Pipeline löschen', step: 'Schritt {index}', choose_agent: 'Agenten wählen...',
+        move_up: 'Nach oben', move_down: 'Nach unten', remove_step: 'Schritt entfernen', instruction: 'Was soll dieser Agent mit seiner Eingabe tun?', add_step: '+ Schritt hinzufügen',
+        run: 'Ausführen', free_text: 'Freitext-Eingabe', source: 'Quelle: {title}', input: 'Eingabe für den ersten Schritt...', start: 'Lauf starten',
+        progress: 'Schritt {step}/{total}', cancel: 'Abbrechen', agent: 'Agent',
+        statuses: { running: 'läuft', done: 'erledigt', failed: 'fehlgeschlagen', cancelled: 'abgebrochen' },
+        problems: {
+            no_steps: 'Füge mindestens einen Schritt hinzu.', no_agent: 'Schritt {index} hat keinen Agenten.', no_instruction: 'Schritt {index} hat keine Anweisung.',
+            incompatible: '{from} ({fromType}) kann nicht an {to} ({toType}) übergeben.',
+        },
+    },
+    sources: {
+        add: 'Quellen hinzufügen', extracting: 'Extrahiere...', ask: 'Fragen', searching: 'Suche...', search_failed: 'Die Suche ist fehlgeschlagen.',
+        empty: 'Noch keine Quellen. Füge PDF-, Markdown-, Text- oder HTML-Dateien hinzu.', delete: 'Quelle löschen',
+        chunks: { one: '{count} Abschnitt', other: '{count} Abschnitte' },
+    },
+    files: {
+        search: 'Alle Dateien durchsuchen...', folder: 'Ordner', upload: 'Hochladen', archive: 'Archiv', new_folder: 'Neuer Ordner', results: 'Ergebnisse für "{query}"',
+        summarize_with: 'Zusammenfassen mit', no_matches: 'Keine passenden Dateien.', empty_folder: 'Dieser Ordner ist leer.', read_only_badge: 'RO',
+        summarize: 'Zur Zusammenfassung an Agenten senden', download: 'Herunterladen', rename: 'Umbenennen', move: 'Verschieben', delete: 'Löschen',
+        folder_read_only: 'Dieser Ordner ist schreibgeschützt.', read_only: '"{name}" ist schreibgeschützt.', move_read_only: 'Quelle oder Ziel ist schreibgeschützt.',
+        move_into_self: 'Ein Ordner kann nicht in sich selbst verschoben werden.', subtree_read_only: '"{name}" oder etwas darin ist schreibgeschützt.', not_readable: '"{name}" ist nicht lesbar.',
+        not_summarizable: 'Nur PDF-, Markdown-, Text- und HTML-Dateien können zusammengefasst werden.', skipped: 'Übersprungen (über {size}): {names}',
+        upload_failed: 'Das Hochladen ist fehlgeschlagen.', read_failed: 'Die Datei konnte nicht gelesen werden.',
+        confirm_delete: { one: '"{name}" und {count} Element darin löschen?', other: '"{name}" und {count} Elemente darin löschen?' },
+    },
+    notes: {
+        new: 'Neue Notiz', untitled: 'Unbenannte Notiz', empty: 'Noch keine Notizen.', edit: 'Bearbeiten', preview: 'Vorschau', delete: 'Notiz löschen',
+        placeholder: 'In Markdown schreiben. Notizen mit [[Notiztitel]] verknüpfen.', backlinks: 'Rückverweise ({count})', no_backlinks: 'Noch keine Notiz verweist hierher.', select: 'Notiz auswählen oder erstellen.',
+        links: { one: '{count} Verknüpfung', other: '{count} Verknüpfungen' },
+    },
+    voice: {
+        hold_to_talk: 'Gedrückt halten zum Sprechen', unsupported: 'Spracheingabe wird von diesem Browser nicht unterstützt.', denied: 'Der Mikrofonzugriff wurde verweigert.', failed: 'Spracherkennung fehlgeschlagen.',
+        read_aloud: 'Vorlesen', speak_replies: 'Antworten vorlesen', hands_free: 'Freihändig', listening: 'Höre zu...', speaking: 'Spreche...',
+        voice: 'Stimme', default_voice: 'Browser-Standard', preview: 'Probehören', no_synthesis: 'Sprachausgabe wird von diesem Browser nicht unterstützt.',
+    },
+    integrations: {
+        inbox: 'Posteingang', rules: 'Routing-Regeln', bridges: 'Messaging-Brücken',
+        all_channels: 'Alle Kanäle', open: 'Offen', escalated: 'Eskaliert', handled: 'Erledigt', all: 'Alle',
+        empty: 'Keine Nachrichten für diese Filter.', select: 'Nachricht auswählen.',
+        shown: { one: '{count} Nachricht', other: '{count} Nachrichten' },
+        time: { any: 'Beliebige Zeit', hour: 'Letzte Stunde', day: 'Letzte 24 h', week: 'Letzte 7 Tage' },
+        statuses: { received: 'empfangen', replying: 'antwortet', delivered: 'zugestellt', failed: 'fehlgeschlagen', escalated: 'eskaliert' },
+        chat: '{channel} · Chat {chatId} · {sender}', status: 'Status:', agent: 'Agent: {name}', rule: 'Regel: {name}', default_route: 'Standardroute', reply: 'Antwort ({by})',
+        choose_agent: 'Agenten wählen...', reassign: 'Neu zuweisen & beantworten', reply_placeholder: 'Als Operator antworten...', send: 'Antwort senden',
+        inbox_mentor_only: 'Nur Mentoren können Nachrichten neu zuweisen oder beantworten.',
+        add_rule: 'Regel hinzufügen', new_rule: 'Neue Regel', rules_hint: 'Regeln werden von oben nach unten geprüft, der erste Treffer gewinnt. Nachrichten ohne Treffer gehen an den Standardagenten des Kanals.',
+        rules_mentor_only: 'Nur Mentoren können Routing-Regeln bearbeiten.', enabled: 'Aktiv', move_up: 'Nach oben', move_down: 'Nach unten', delete_rule: 'Regel löschen',
+        channels: 'Kanäle', any: 'alle', keywords: 'Stichwörter', any_message: 'jede Nachricht', action: 'Aktion', reply_text: 'Antworttext',
+        actions: { route: 'An Agenten weiterleiten', auto_reply: 'Automatische Antwort', escalate: 'An einen Menschen eskalieren' },
+        bridges_mentor_only: 'Nur Mentoren können die Brücken-Einstellungen ändern.', relay: 'Webhook-Relay (server.ts)', default_agent: 'Standardagent',
+        bot_token: 'Bot-Token', access_token: 'Zugriffstoken (optional)', token_hint: 'Nur in diesem Browser gespeichert.', api_base: 'Bot-API-Basis',
+        send_endpoint: 'Sende-Endpunkt', inbound: 'Eingehende Webhooks: POST {url}', disabled: 'deaktiviert',
+    },
+    agents: {
+        persona: 'Persona-Einstellungen', system_prompt: 'System-Prompt', temperature: 'Temperatur:', model: 'Modell', default_model: 'Standard (KI-Einstellungen)',
+        reset: 'Auf Standard zurücksetzen', cancel: 'Abbrechen', save: 'Persona speichern',
+        task: 'Aufgabe: {task}', load: 'Last {load}%', energy: 'Energie {energy}', cooldown: 'Abkühlung {seconds}s',
+        uplink: 'UPLINK: {name}', established: 'Sicherer Kanal aufgebaut.', select: 'Agenten auswählen, um eine Verbindung aufzubauen.', processing: 'Agent verarbeitet Datenpaket...',
+        feedback: 'Feedback:', comment: 'Kommentar hinzufügen (optional)...', ok: 'OK', saved_note: 'Im Mind Palace gespeichert', save_note: 'Als Notiz speichern',
+        query: '{name} fragen...', stop: 'STOPP', cancel_reply: 'Antwort abbrechen',
+    },
+    ai: {
+        features: { chat: 'Agenten-Chat', zone: 'Zonenanalyse', classifier: 'Governance-Klassifikator', qa: 'Quellen-Q&A', actions: 'Schnellaktionen', analytics: 'Feedback-Analyse' },
+        test: 'Testen', testing: 'Teste...', test_ok: 'OK in {ms} ms: {text}', test_failed: 'Fehlgeschlagen: {error}', unknown_error: 'unbekannter Fehler',
+        openai: 'OpenAI-kompatibler Endpunkt', base_url: 'Basis-URL', api_key: 'API-Schlüssel (optional, nur in diesem Browser gespeichert)',
+        retrieval: 'Suche', rerank: 'Embedding-Reranking', rerank_hint: 'Die BM25-Stichwortsuche läuft immer lokal; das Reranking bezieht für die besten Treffer die Embedding-Ähnlichkeit ein.',
+        no_gemini: 'Gemini ist nicht verfügbar: Beim Build wurde kein GEMINI_API_KEY gesetzt.',
+        mentor_only: 'Nur Mentoren können die KI-Routen und den Endpunkt ändern. Dein API-Schlüssel bleibt in diesem Browser.',
+    },
+};
+
+const TRANSLATIONS = { de: DE, en: EN };
+type Language = keyof typeof TRANSLATIONS;
+
+// promptName is what the model is told to answer in
+const LANGUAGES: { id: Language; label: string; promptName: string; }[] = [
+    { id: 'en', label: 'EN', promptName: 'English' },
+    { id: 'de', label: 'DE', promptName: 'German (Deutsch)' },
+];
+
+const browserLanguage = (): Language => navigator.language?.toLowerCase().startsWith('de') ? 'de' : 'en';
+
+// Reported once per language/key so the console stays readable
+const missingTranslations = new Set<string>();
+
+const isPlural = (value: unknown): value is Plural =>
+    !!value && typeof value === 'object' && typeof (value as Plural).one === 'string' && typeof (value as Plural).other === 'string';
+
+const lookupTranslation = (table: object, key: string): string | Plural | undefined => {
+    const value = key.split('.').reduce<unknown>((node, part) => node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined, table);
+    return typeof value === 'string' || isPlural(value) ? value : undefined;
+};
+
+const createTranslator = (lang: Language) => (key: TranslationKey, vars: Record<string, string | number> = {}): string => {
+    let value = lookupTranslation(TRANSLATIONS[lang], key);
+    if (value === undefined) {
+        if (!missingTranslations.has(`${lang}:${key}`)) {
+            missingTranslations.add(`${lang}:${key}`);
+            console.warn(`[i18n] Missing "${lang}" translation for ${key}`);
+        }
+        value = lookupTranslation(TRANSLATIONS.en, key);
+    }
+    if (value === undefined) return key;
+    const text = typeof value === 'string' ? value : value[new Intl.PluralRules(lang).select(Number(vars.count ?? 0)) as keyof Plural] ?? value.other;
+    return text.replace(/\{(\w+)\}/g, (match, name) => name in vars ? String(vars[name]) : match);
 };
+type Translator = ReturnType<typeof createTranslator>;
+
+const I18nContext = React.createContext<{ lang: Language; t: Translator; }>({ lang: 'en', t: createTranslator('en') });
+const useI18n = () => useContext(I18nContext);
+
+const languageInstruction = (lang: Language) => `Always answer in ${LANGUAGES.find(l => l.id === lang)!.promptName}.`;
 
 // --- DATA MODELS ---
 type User = { 
@@ -85,39 +487,185 @@ type User = {
     avatar: string; 
     role: 'Scholar' | 'Mentor' | 'Pioneer'; 
     tokens: { rep: number; act: number; edu: number; }; 
+    isGuest?: boolean;
+    language?: Language;
 };
 
+// rep = XP, act = Focus, edu = Knowledge; User.tokens mirrors the balances of the ledger
+type TokenCurrency = keyof User['tokens'];
+type LedgerReason = 'opening' | 'carryover' | 'integration_reply' | 'ai_call' | 'source_added' | 'note_created' | 'focus_refill';
+type LedgerEntry = { id: string; userId: string; currency: TokenCurrency; amount: number; reason: LedgerReason; detail: string; at: number; };
+
+// Local accounts: PBKDF2 password hashes, never the password itself
+type Account = { user: User; username: string; passwordHash: string; salt: string; iterations: number; createdAt: number; };
+type Session = { token: string; userId: string; expiresAt: number; };
+
 type Message = { 
     id: number; 
     role: 'user' | 'model'; 
     text: string; 
     isStreaming?: boolean; 
-    feedback?: 'up' | 'down';
+    isError?: boolean;
+    // Stopped by the user; says nothing about the agent's health
+    cancelled?: boolean;
+    citations?: Citation[];
+    savedNoteId?: string;
+    feedback?: FeedbackRating;
     feedbackComment?: string;
+    // Set on replies written while a prompt A/B test was running for the agent
+    experimentId?: string;
+    variant?: PromptVariant;
 };
 
+// Measured per client by the health monitor, so it is never stored on the shared agents
+type ConnectionQuality = 'optimal' | 'unstable' | 'offline';
 type Agent = {
     id: string;
     name: string;
     role: string;
     status: 'Active' | 'Idle' | 'Learning' | 'Optimizing';
-    connectionQuality: 'optimal' | 'unstable' | 'offline'; 
     type: 'security' | 'analyst' | 'creative' | 'manager';
-    load: number;
+    load: number; // % of AGENT_QUEUE_CAPACITY taken by open tasks
     energy: number;
-    cooldown: number;
-    currentTask: string; // AI Suggested
+    cooldown: number; // seconds until the agent accepts its next task
+    currentTask: string;
     zoneId: string;
     position?: THREE.Vector3;
+    persona: AgentPersona;
+};
+
+// An empty model inherits the chat model from the LLM settings; voice is a speechSynthesis voiceURI
+// modelProvider is the provider the model override was written for
+type AgentPersona = { systemPrompt: string; temperature: number; model: string; modelProvider?: LLMProviderId; voice?: string; };
+
+type AgentTask = {
+    id: string;
+    title: string;
+    prompt: string;
+    source: 'user' | 'integration' | 'pipeline';
+    preferredType?: Agent['type'];
+    agentId?: string;
+    eventId?: string; // integration event answered by this task
+    runId?: string; // pipeline run and step this task executes
+    step?: number;
+    projectTaskId?: string; // Taskbook task this run works on
+    status: 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+    createdAt: number;
+    startedAt?: number;
+    finishedAt?: number;
+    result?: string;
+    error?: string;
+    usage?: LLMUsage;
+};
+
+// Unordered pair of agent types that may hand work to each other
+type CompatibilityRule = { id: string; a: Agent['type']; b: Agent['type']; };
+type PipelineStep = { agentId: string; instruction: string; };
+type Pipeline = { id: string; name: string; steps: PipelineStep[]; };
+// steps is a snapshot so editing a pipeline never changes a run in flight
+type PipelineRun = {
+    id: string;
+    pipelineId: string;
+    name: string;
+    steps: PipelineStep[];
+    input: string;
+    status: 'running' | 'done' | 'failed' | 'cancelled';
+    currentStep: number;
+    outputs: string[];
+    startedAt: number;
+    finishedAt?: number;
+    error?: string;
 };
+// A live hand-off between two agents, drawn as a pulsing line in the swarm
+type AgentFlow = { key: string; from: string; to: string; };
 
 type IntegrationType = 'whatsapp' | 'telegram' | 'viber';
-type IntegrationEvent = { id: string; type: IntegrationType; message: string; handled: boolean; timestamp: number };
-type Source = { id: string; title: string; type: string; content: string; };
-type FileNode = { id: string; parentId: string | null; name: string; type: 'folder' | 'file'; size: string; date: string; perm: string; };
+// handled flips only once the channel accepted the agent's reply
+type IntegrationEvent = {
+    id: string;
+    type: IntegrationType;
+    message: string;
+    handled: boolean;
+    timestamp: number;
+    chatId: string;
+    sender: string;
+    agentId?: string;
+    ruleId?: string;
+    reply?: string;
+    repliedBy?: 'agent' | 'auto' | 'operator';
+    status: 'received' | 'replying' | 'delivered' | 'failed' | 'escalated';
+    error?: string;
+};
+type SourceType = 'pdf' | 'md' | 'txt' | 'html';
+type SourceChunk = { id: string; index: number; text: string; };
+type Source = { id: string; title: string; type: SourceType; content: string; chunks: SourceChunk[]; size: number; addedAt: number; };
+// Links an inline [marker] in a model answer back to the passage it was grounded on
+type Citation = { marker: number; sourceId: string; chunkId: string; title: string; excerpt: string; };
+type SourceFocus = { sourceId: string; chunkId?: string; };
+// perm is 'r'/'w' flags, e.g. 'rw' or 'r-'; file bodies are stored inline as data URLs
+type FileNode = { id: string; parentId: string | null; name: string; type: 'folder' | 'file'; size: string; date: string; perm: string; mime?: string; };
+// links holds the IDs of notes referenced via [[Title]] in content
 type Note = { id: string; title: string; content: string; updatedAt: number; links: string[]; };
-type Extension = { id: string; name: string; description: string; version: string; installed: boolean; category: string; };
-type GovernanceInitiative = { id: string; title: string; active: boolean; };
+type InitiativeStatus = 'planned' | 'active' | 'on_hold' | 'completed';
+type InitiativeKpi = { id: string; name: string; current: number; target: number; unit: string; };
+type InitiativeStatusChange = { status: InitiativeStatus; at: number; by: string; };
+type GovernanceInitiative = {
+    id: string;
+    title: string;
+    description: string;
+    owner: string;
+    deadline: string; // YYYY-MM-DD, empty when open-ended
+    status: InitiativeStatus;
+    kpis: InitiativeKpi[];
+    history: InitiativeStatusChange[];
+    createdAt: number;
+};
+type TaskPriority = 'high' | 'medium' | 'low';
+type ProjectTaskStatus = 'backlog' | 'todo' | 'in_progress' | 'review' | 'done';
+type TaskAssignee = { kind: 'user' | 'agent'; id: string; };
+// A Taskbook entry; tokenCost is the estimate, tokensSpent what agent runs actually used
+type ProjectTask = {
+    id: string;
+    title: string;
+    description: string;
+    status: ProjectTaskStatus;
+    priority: TaskPriority;
+    estimateHours: number;
+    tokenCost: number;
+    tokensSpent: number;
+    milestoneId?: string;
+    assignee?: TaskAssignee;
+    agentResult?: string; // latest answer of an agent the task was sent to
+    createdAt: number;
+    updatedAt: number;
+};
+type Milestone = { id: string; title: string; dueDate: string; };
+// The yellow "idea" notes on the board; agentId is set when an agent proposed it
+type StickyNote = { id: string; text: string; detail: string; priority: TaskPriority; estimateHours: number; tokenCost: number; author: string; agentId?: string; createdAt: number; };
+type Member = Pick<User, 'id' | 'name' | 'avatar' | 'role'>;
+
+// --- PERMISSIONS ---
+type Permission = 'initiatives:edit' | 'tools:install' | 'files:manage' | 'integrations:manage' | 'budgets:manage' | 'personas:manage' | 'members:promote' | 'ai:manage';
+
+const ROLE_RANK: Record<User['role'], number> = { Scholar: 0, Mentor: 1, Pioneer: 2 };
+
+// Minimum role required for each permission; guests never hold permissions
+const PERMISSION_ROLES: Record<Permission, User['role']> = {
+    'initiatives:edit': 'Mentor',
+    'tools:install': 'Mentor',
+    'files:manage': 'Mentor',
+    'integrations:manage': 'Mentor',
+    'budgets:manage': 'Mentor',
+    'personas:manage': 'Mentor',
+    'members:promote': 'Mentor',
+    'ai:manage': 'Mentor',
+};
+
+const can = (user: User | null, permission: Permission) =>
+    !!user && !user.isGuest && ROLE_RANK[user.role] >= ROLE_RANK[PERMISSION_ROLES[permission]];
+
+// Promoters can grant at most their own role
+const canGrantRole = (user: User | null, role: User['role']) => !!user && can(user, 'members:promote') && ROLE_RANK[role] <= ROLE_RANK[user.role];
 
 // --- ICONS ---
 const Icons = {
@@ -151,354 +699,4633 @@ const Icons = {
     ThumbsDown: () => <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M10 15v4a3 3 0 0 0 3 3l4-9V2H5.72a2 2 0 0 0-2 1.7l-1.38 9a2 2 0 0 0 2 2.3zm7-13h2.67A2.31 2.31 0 0 1 22 4v7a2.31 2.31 0 0 1-2.33 2"/></svg>,
     Phone: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M22 16.92v3a2 2 0 0 1-2.18 2 19.79 19.79 0 0 1-8.63-3.07 19.5 19.5 0 0 1-6-6 19.79 19.79 0 0 1-3.07-8.67A2 2 0 0 1 4.11 2h3a2 2 0 0 1 2 1.72 12.84 12.84 0 0 0 .7 2.81 2 2 0 0 1-.45 2.11L8.09 9.91a16 16 0 0 0 6 6l1.27-1.27a2 2 0 0 1 2.11-.45 12.84 12.84 0 0 0 2.81.7A2 2 0 0 1 22 16.92z"/></svg>,
     Settings: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="12" r="3"/><path d="M19.4 15a1.65 1.65 0 0 0 .33 1.82l.06.06a2 2 0 0 1 0 2.83 2 2 0 0 1-2.83 0l-.06-.06a1.65 1.65 0 0 0-1.82-.33 1.65 1.65 0 0 0-1 1.51V21a2 2 0 0 1-2 2 2 2 0 0 1-2-2v-.09A1.65 1.65 0 0 0 9 19.4a1.65 1.65 0 0 0-1.82.33l-.06.06a2 2 0 0 1-2.83 0 2 2 0 0 1 0-2.83l.06-.06a1.65 1.65 0 0 0 .33-1.82 1.65 1.65 0 0 0-1.51-1H3a2 2 0 0 1-2-2 2 2 0 0 1 2-2h.09A1.65 1.65 0 0 0 4.6 9a1.65 1.65 0 0 0-.33-1.82l-.06-.06a2 2 0 0 1 0-2.83 2 2 0 0 1 2.83 0l.06.06a1.65 1.65 0 0 0 1.82.33H9a1.65 1.65 0 0 0 1-1.51V3a2 2 0 0 1 2-2 2 2 0 0 1 2 2v.09a1.65 1.65 0 0 0 1.51 1H21a2 2 0 0 1 2 2 2 2 0 0 1-2 2h-.09a1.65 1.65 0 0 0-1.51 1z"/></svg>,
+    Volume: () => <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"/><path d="M15.54 8.46a5 5 0 0 1 0 7.07"/><path d="M19.07 4.93a10 10 0 0 1 0 14.14"/></svg>,
+    Kanban: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><rect x="3" y="3" width="18" height="18" rx="2"/><line x1="9" y1="3" x2="9" y2="21"/><line x1="15" y1="3" x2="15" y2="21"/></svg>,
+    Award: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><circle cx="12" cy="8" r="6"/><path d="M15.477 12.89 17 22l-5-3-5 3 1.523-9.11"/></svg>,
+    Flag: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M4 15s1-1 4-1 5 2 8 2 4-1 4-1V3s-1 1-4 1-5-2-8-2-4 1-4 1z"/><line x1="4" y1="22" x2="4" y2="15"/></svg>,
     Check: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><polyline points="20 6 9 17 4 12"/></svg>,
     Wifi: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><path d="M5 12.55a11 11 0 0 1 14.08 0"/><path d="M1.42 9a16 16 0 0 1 21.16 0"/><path d="M8.53 16.11a6 6 0 0 1 6.95 0"/><line x1="12" y1="20" x2="12.01" y2="20"/></svg>,
     WifiOff: () => <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2"><line x1="1" y1="1" x2="23" y2="23"/><path d="M16.72 11.06A10.94 10.94 0 0 1 19 12.55"/><path d="M5 12.55a10.94 10.94 0 0 1 5.17-2.39"/><path d="M10.71 5.05A16 16 0 0 1 22.58 9"/><path d="M1.42 9a15.91 15.91 0 0 1 4.7-2.88"/><path d="M8.53 16.11a6 6 0 0 1 6.95 0"/><line x1="12" y1="20" x2="12.01" y2="20"/></svg>
 };
 
-// --- SERVICE LAYER ---
-class BackendService {
-    static async login(method: 'wallet' | 'guest'): Promise<User> {
-        await new Promise(r => setTimeout(r, 800)); 
-        return {
-            id: 'u_01', name: method === 'wallet' ? 'Neo Scholar' : 'Guest Student', avatar: '🎓', role: 'Scholar',
-            tokens: { rep: 1250, act: 85, edu: 42 }
-        };
-    }
+// --- AGENT MEMORY ---
+const CHAT_HISTORY_TOKEN_BUDGET = 6000;
 
-    static async syncData() {
-        return {
-            sources: [
-                { id: 's1', title: 'Calculus 101 Notes', type: 'pdf', content: 'Derivatives...' },
-            ],
-            agents: [
-                { id: 'a1', name: 'Logic-Bot', role: 'Tutor', status: 'Active', connectionQuality: 'optimal', type: 'analyst', load: 45, energy: 90, cooldown: 0, currentTask: 'Calculating', zoneId: 'dashboard' },
-                { id: 'a2', name: 'Muse', role: 'Artist', status: 'Idle', connectionQuality: 'unstable', type: 'creative', load: 10, energy: 40, cooldown: 30, currentTask: 'Dreaming', zoneId: 'studio' },
-                { id: 'a3', name: 'Archivist', role: 'Librarian', status: 'Optimizing', connectionQuality: 'optimal', type: 'manager', load: 80, energy: 65, cooldown: 0, currentTask: 'Indexing', zoneId: 'files' },
-                { id: 'a4', name: 'Sentinel', role: 'Flow Guard', status: 'Active', connectionQuality: 'offline', type: 'security', load: 60, energy: 80, cooldown: 10, currentTask: 'Patrol', zoneId: 'chat' }
-            ],
-            extensions: [
-                { id: 'e1', name: 'WhatsApp Bridge', description: 'Route messages to agents.', version: '1.0', installed: true, category: 'plugin' },
-                { id: 'e2', name: 'Telegram Bot', description: 'BotFather integration.', version: '0.9', installed: true, category: 'plugin' },
-                { id: 'e3', name: 'Viber Connect', description: 'Community management.', version: '0.5', installed: false, category: 'plugin' },
-                { id: 'e4', name: 'GitHub Sync', description: 'Auto-commit code changes.', version: '2.1', installed: false, category: 'dev' },
-                { id: 'e5', name: 'Notion Import', description: 'Sync workspace docs.', version: '1.2', installed: false, category: 'productivity' }
-            ],
-            initiatives: [
-                { id: 'i1', title: 'Sustainability 2025', active: true },
-                { id: 'i2', title: 'GDPR Compliance', active: false },
-                { id: 'i3', title: 'Campus Diversity', active: true },
-                { id: 'i4', title: 'Budget Optimization', active: false }
-            ]
-        };
+// Rough heuristic (~4 chars per token) - good enough for budgeting, not billing
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+type ChatContent = { role: 'user' | 'model'; parts: { text: string }[] };
+
+// Keeps the newest turns that fit the budget; older turns are condensed into a short recap
+const buildChatHistory = (history: Message[], query: string, budget = CHAT_HISTORY_TOKEN_BUDGET): { contents: ChatContent[]; recap: string | null } => {
+    const turns = history.filter(m => !m.isStreaming && !m.isError && m.text.trim());
+    let used = estimateTokens(query);
+    let cut = turns.length;
+    while (cut > 0 && used + estimateTokens(turns[cut - 1].text) <= budget) {
+        used += estimateTokens(turns[cut - 1].text);
+        cut--;
     }
-}
+    // Conversations must open with a user turn
+    while (cut < turns.length && turns[cut].role !== 'user') cut++;
 
-// --- 3D COMPONENTS (Advanced) ---
-const AgentAvatar3D: React.FC<{ position: THREE.Vector3, color: string, task: string, targetPosition?: THREE.Vector3 }> = ({ position, color, task, targetPosition }) => {
-    const ref = useRef<THREE.Group>(null);
-    useFrame((state) => {
-        if(ref.current) {
-            ref.current.position.lerp(position, 0.05);
-            ref.current.position.y = 1 + Math.sin(state.clock.elapsedTime * 3) * 0.1;
-        }
+    const dropped = turns.slice(0, cut);
+    const recap = dropped.length === 0 ? null : dropped
+        .filter(m => m.role === 'user')
+        .map(m => `- ${m.text.split(/(?<=[.!?])\s/)[0].slice(0, 160)}`)
+        .slice(-10)
+        .join('\n');
+
+    const contents: ChatContent[] = [];
+    [...turns.slice(cut), { role: 'user' as const, text: query }].forEach(m => {
+        const last = contents[contents.length - 1];
+        if (last && last.role === m.role) last.parts.push({ text: m.text });
+        else contents.push({ role: m.role, parts: [{ text: m.text }] });
     });
-    return (
-        <group ref={ref} position={position}>
-            {/* AI Task Suggestion Billboard */}
-            <Billboard position={[0, 1.5, 0]} follow={true} lockX={false} lockY={false} lockZ={false}>
-                 <Text fontSize={0.25} color="white" anchorX="center" anchorY="middle" outlineWidth={0.02} outlineColor="#000000">
-                    {task}
-                 </Text>
-            </Billboard>
-            <mesh>
-                <sphereGeometry args={[0.4, 16, 16]} />
-                <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.8} />
-            </mesh>
-            <mesh rotation={[-Math.PI/2, 0, 0]} position={[0, -0.4, 0]}>
-                <ringGeometry args={[0.5, 0.6, 32]} />
-                <meshBasicMaterial color={color} opacity={0.5} transparent />
-            </mesh>
-            {/* Visual Path Prediction */}
-            {targetPosition && <Line points={[new THREE.Vector3(0,0,0), targetPosition.clone().sub(position)]} color={color} opacity={0.5} transparent dashed dashScale={2} dashSize={0.5} gapSize={0.2} />}
-        </group>
-    );
+    return { contents, recap };
 };
 
-// Interaction Pulse Line
-const InteractionLine: React.FC<{ start: THREE.Vector3; end: THREE.Vector3 }> = ({ start, end }) => {
-    const ref = useRef<any>(null);
-    useFrame((state) => {
-        if (ref.current && ref.current.material) {
-            ref.current.material.dashOffset -= 0.02; // Pulsating animation
-        }
-    });
-    return <Line ref={ref} points={[start, end]} color="cyan" opacity={0.6} transparent dashed dashScale={1} dashSize={1} gapSize={0.5} lineWidth={2} />;
+const buildSystemInstruction = (agent: Agent, recap: string | null) =>
+    recap ? `${agent.persona.systemPrompt}\n\nEarlier in this conversation the user asked about:\n${recap}` : agent.persona.systemPrompt;
+
+// --- LLM PROVIDERS ---
+type LLMProviderId = 'gemini' | 'openai' | 'mock';
+type LLMFeature = 'chat' | 'zone' | 'classifier' | 'qa' | 'actions' | 'analytics';
+type LLMRoute = { provider: LLMProviderId; model: string; };
+type LLMSettings = {
+    features: Record<LLMFeature, LLMRoute>;
+    openai: { baseUrl: string; };
+    // Optional embedding rerank on top of BM25 retrieval
+    retrieval: { embeddings: boolean; provider: LLMProviderId; model: string; };
 };
+// Credentials stay in this browser, per user; they are never part of the shared workspace
+type LLMSecrets = { openaiApiKey: string; };
 
-const AgentSwarm3D = memo(({ agents }: { agents: Agent[] }) => {
-    const zonePositions: {[key: string]: [number, number, number]} = useMemo(() => ({
-        'dashboard': [0, 0, 0], 'studio': [-12, 0, -5], 'files': [12, 0, -5], 'chat': [0, 0, -15],
-    }), []);
+// Provider-neutral subset of JSON Schema for structured replies
+type JsonSchema = {
+    type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    enum?: string[];
+    minimum?: number;
+    maximum?: number;
+};
+// responseSchema asks the provider for a JSON reply matching the schema
+type LLMRequest = { model: string; contents: ChatContent[]; systemInstruction?: string; temperature?: number; signal?: AbortSignal; responseSchema?: JsonSchema; };
+type LLMUsage = { inputTokens: number; outputTokens: number; };
+type LLMResult = { text: string; usage: LLMUsage; };
 
-    // Proximity Interactions with Logic Check
-    const interactions = useMemo(() => {
-        const lines: {s: THREE.Vector3, e: THREE.Vector3, key: string}[] = [];
-        agents.forEach((a1, i) => {
-             const zp1 = zonePositions[a1.zoneId] || [0,0,0];
-             const p1 = new THREE.Vector3(zp1[0] + Math.cos(i)*3, 1, zp1[2] + Math.sin(i)*3);
-             agents.forEach((a2, j) => {
-                 if (i < j) {
-                    const zp2 = zonePositions[a2.zoneId] || [0,0,0];
-                    const p2 = new THREE.Vector3(zp2[0] + Math.cos(j)*3, 1, zp2[2] + Math.sin(j)*3);
-                    
-                    // Task Compatibility Logic
-                    const compatible = (a1.type === 'analyst' && a2.type === 'manager') || (a1.type === 'creative' && a2.type === 'creative');
-                    
-                    if (p1.distanceTo(p2) < 15 && compatible) {
-                        lines.push({ s: p1, e: p2, key: `${a1.id}-${a2.id}` });
-                    }
-                 }
-             });
-        });
-        return lines;
-    }, [agents, zonePositions]);
+interface LLMProvider {
+    readonly id: LLMProviderId;
+    isConfigured(): boolean;
+    generate(req: LLMRequest): Promise<LLMResult>;
+    stream(req: LLMRequest, onDelta: (text: string) => void): Promise<LLMResult>;
+    embed(texts: string[], model: string): Promise<number[][]>;
+    // Cheap reachability check for the health monitor; must not spend tokens
+    ping(model: string, signal: AbortSignal): Promise<void>;
+}
 
-    return (
-        <group>
-            {agents.map((agent, i) => {
-                const basePos = zonePositions[agent.zoneId] || [0, 0, 0];
-                const angle = (Date.now() * 0.0005) + (i * (Math.PI * 2 / agents.length));
-                const currentPos = new THREE.Vector3(basePos[0] + Math.cos(angle)*3, 1, basePos[2] + Math.sin(angle)*3);
-                const targetPos = new THREE.Vector3(basePos[0], 1, basePos[2]);
-                
-                return <AgentAvatar3D key={agent.id} position={currentPos} color={agent.type === 'security' ? '#ef4444' : agent.type === 'creative' ? '#a855f7' : '#3b82f6'} task={agent.currentTask} targetPosition={targetPos} />;
-            })}
-            {interactions.map(line => <InteractionLine key={line.key} start={line.s} end={line.e} />)}
-        </group>
-    );
-});
+const LLM_FEATURES: LLMFeature[] = ['chat', 'zone', 'classifier', 'qa', 'actions', 'analytics'];
 
-const Building = ({ position, color, label, type, onEnter, agentCount = 0, onHoverZone }: any) => {
-    const meshRef = useRef<THREE.Mesh>(null);
-    const auraRef = useRef<THREE.Mesh>(null);
-    const [hovered, setHovered] = useState(false);
-    const [summary, setSummary] = useState<string | null>(null);
+const LLM_PROVIDERS: { id: LLMProviderId; label: string; defaultModel: string; }[] = [
+    { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-3-flash-preview' },
+    { id: 'openai', label: 'OpenAI-compatible (Ollama, llama.cpp)', defaultModel: 'llama3.1' },
+    { id: 'mock', label: 'Offline Mock', defaultModel: 'mock-1' },
+];
 
-    useFrame((state) => {
-        // Visual Effect: Pulse scale based on agent count
-        const pulse = 1 + Math.sin(state.clock.elapsedTime * 2) * (0.05 + agentCount * 0.05); // More intense scaling
-        if (meshRef.current) meshRef.current.scale.setScalar(pulse);
-        if (auraRef.current) {
-            auraRef.current.rotation.z += 0.01;
-            auraRef.current.scale.setScalar(1 + agentCount * 0.3); 
-            // @ts-ignore
-            auraRef.current.material.opacity = 0.2 + (agentCount * 0.1);
-        }
-    });
+const EMBEDDING_MODELS: Record<LLMProviderId, string> = { gemini: 'text-embedding-004', openai: 'nomic-embed-text', mock: 'mock-embed' };
 
-    const handlePointerOver = useCallback(() => {
-        setHovered(true);
-        if (!summary) onHoverZone(type).then(setSummary); // AI Lazy Load
-    }, [summary, type, onHoverZone]);
+const defaultLLMSettings = (): LLMSettings => {
+    const route: LLMRoute = process.env.API_KEY ? { provider: 'gemini', model: 'gemini-3-flash-preview' } : { provider: 'mock', model: 'mock-1' };
+    return {
+        features: { chat: { ...route }, zone: { ...route }, classifier: { ...route }, qa: { ...route }, actions: { ...route }, analytics: { ...route } },
+        openai: { baseUrl: 'http://localhost:11434/v1' },
+        retrieval: { embeddings: false, provider: route.provider, model: EMBEDDING_MODELS[route.provider] },
+    };
+};
 
-    return (
-        <group position={position} onPointerOver={handlePointerOver} onPointerOut={() => setHovered(false)}>
-            <mesh ref={meshRef} position={[0, 3, 0]}>
-                <boxGeometry args={[5, 6, 5]} />
-                <meshStandardMaterial color={color} metalness={0.7} roughness={0.2} emissive={color} emissiveIntensity={agentCount > 0 ? 0.3 + (agentCount * 0.2) : 0.1} />
-            </mesh>
-            <mesh ref={auraRef} rotation={[-Math.PI/2, 0, 0]} position={[0, 0.1, 0]}>
-                <ringGeometry args={[4, 7, 32]} />
-                <meshBasicMaterial color={color} transparent opacity={0.3} />
-            </mesh>
-            <Text position={[0, 7, 0]} fontSize={0.8} color="white" anchorX="center">{label}</Text>
-            {hovered && (
-                <Html position={[0, 5, 0]} center distanceFactor={15} style={{pointerEvents: 'none'}}>
-                    <div className="bg-black/80 backdrop-blur text-white p-3 rounded-lg border border-indigo-500 w-64 text-xs font-mono shadow-[0_0_15px_rgba(99,102,241,0.5)] z-50">
-                        <div className="font-bold text-indigo-400 mb-1 flex items-center gap-2"><Icons.Activity/> AI Zone Analysis</div>
-                        <div className="mb-2 flex justify-between">
-                            <span>Agents Active:</span>
-                            <span className="font-bold text-white">{agentCount}</span>
-                        </div>
-                        <div className="text-gray-300 italic animate-pulse border-t border-gray-700 pt-2">
-                            {summary || "Analyzing neural activity..."}
-                        </div>
-                    </div>
-                </Html>
-            )}
-        </group>
-    );
+const lastUserText = (contents: ChatContent[]) =>
+    [...contents].reverse().find(c => c.role === 'user')?.parts.map(p => p.text).join('\n') || '';
+
+// Models sometimes wrap JSON in a Markdown fence even when asked not to
+const parseJsonReply = (text: string): unknown => {
+    const body = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+    try {
+        return JSON.parse(body);
+    } catch {
+        throw new Error('The model did not return valid JSON.');
+    }
 };
 
-const MetaScene = ({ systemHealth, agents, onGetZoneSummary }: { systemHealth: number, agents: Agent[], onGetZoneSummary: (zone: string) => Promise<string> }) => {
-    const getAgentCount = (zone: string) => agents.filter(a => a.zoneId === zone).length;
+// Parsed replies are untyped; readers narrow them field by field
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
 
-    return (
-        <>
-            <ambientLight intensity={0.3} />
-            <pointLight position={[10, 10, 10]} intensity={1} color="#4f46e5" />
-            <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
-            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]}>
-                <planeGeometry args={[100, 100]} />
-                <MeshReflectorMaterial blur={[300, 100]} resolution={1024} mixBlur={1} mixStrength={50} roughness={1} depthScale={1.2} minDepthThreshold={0.4} maxDepthThreshold={1.4} color="#0f172a" metalness={0.5} mirror={0} />
-            </mesh>
-            <Grid infiniteGrid sectionSize={1} cellSize={1} cellColor="#3b82f6" sectionColor="#1d4ed8" fadeDistance={30} />
-            
-            <Building position={[0, 0, 0]} color="#4f46e5" label="Governance Core" type="dashboard" agentCount={getAgentCount('dashboard')} onHoverZone={onGetZoneSummary} />
-            <Building position={[-15, 0, -5]} color="#ec4899" label="Creative Studio" type="studio" agentCount={getAgentCount('studio')} onHoverZone={onGetZoneSummary} />
-            <Building position={[15, 0, -5]} color="#10b981" label="Data Archive" type="files" agentCount={getAgentCount('files')} onHoverZone={onGetZoneSummary} />
-            <Building position={[0, 0, -20]} color="#f59e0b" label="Chat Nexus" type="chat" agentCount={getAgentCount('chat')} onHoverZone={onGetZoneSummary} />
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    minimum: schema.minimum,
+    maximum: schema.maximum,
+    required: schema.required,
+    items: schema.items && toGeminiSchema(schema.items),
+    properties: schema.properties && Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])),
+});
 
-            <AgentSwarm3D agents={agents} />
-        </>
-    );
-};
+class GeminiProvider implements LLMProvider {
+    readonly id = 'gemini';
 
-// --- 2D UI COMPONENTS ---
+    constructor(private apiKey: string | undefined) {}
 
-const Header = ({ user, integrations, agents }: { user: User, integrations: string[], agents: Agent[] }) => {
-    const [showStatus, setShowStatus] = useState(false);
+    isConfigured() { return !!this.apiKey; }
 
-    return (
-        <div className="h-16 bg-white/90 backdrop-blur border-b border-slate-200 flex items-center justify-between px-6 shadow-sm z-10 shrink-0 relative">
-            <div className="flex items-center gap-3">
-            <div className="bg-indigo-600 text-white p-2 rounded-lg shadow-lg shadow-indigo-500/30"><Icons.Brain /></div>
-            <div>
-                <div className="text-xs text-slate-500 font-bold uppercase tracking-wider">Lumina OS</div>
-                <div className="font-bold text-slate-800">{user.role} <span className="text-indigo-600">Level 4</span></div>
-            </div>
-            </div>
-            <div className="flex items-center gap-6">
-                <div className="relative">
-                    <button 
-                        onClick={() => setShowStatus(!showStatus)}
-                        className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors text-xs font-bold text-slate-600"
-                    >
-                        <span className="relative flex h-2 w-2">
-                          <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-green-400 opacity-75"></span>
-                          <span className="relative inline-flex rounded-full h-2 w-2 bg-green-500"></span>
-                        </span>
-                        Agent Status
-                    </button>
-                    {showStatus && (
-                        <div className="absolute top-10 right-0 w-64 bg-white rounded-xl shadow-xl border border-slate-200 p-3 z-50">
-                            <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">Network Health</h4>
-                            <div className="space-y-2">
-                                {agents.map(agent => (
-                                    <div key={agent.id} className="flex justify-between items-center text-sm">
-                                        <div className="flex items-center gap-2">
-                                            <div className={`w-2 h-2 rounded-full ${agent.connectionQuality === 'optimal' ? 'bg-green-500' : agent.connectionQuality === 'unstable' ? 'bg-yellow-500' : 'bg-red-500'}`}></div>
-                                            <span className="text-slate-700 font-medium">{agent.name}</span>
-                                        </div>
-                                        <span className="text-xs text-slate-400">{agent.connectionQuality}</span>
-                                    </div>
-                                ))}
-                            </div>
-                        </div>
-                    )}
-                </div>
+    private client() {
+        if (!this.apiKey) throw new Error('No Gemini API key configured.');
+        return new GoogleGenAI({ apiKey: this.apiKey });
+    }
 
-                <div className="hidden md:flex gap-2">
-                    <div className={`p-1.5 rounded-full ${integrations.includes('whatsapp') ? 'bg-green-100 text-green-600' : 'bg-slate-100 text-slate-300'}`} title="WhatsApp"><Icons.Phone /></div>
-                    <div className={`p-1.5 rounded-full ${integrations.includes('telegram') ? 'bg-blue-100 text-blue-500' : 'bg-slate-100 text-slate-300'}`} title="Telegram"><Icons.Send /></div>
-                </div>
-                <div className="flex gap-4">
-                    <div className="flex flex-col items-end">
-                        <span className="text-[10px] uppercase font-bold text-slate-400">XP</span>
-                        <span className="text-xl font-black text-indigo-600">{user.tokens.rep}</span>
-                    </div>
-                </div>
-            </div>
-        </div>
-    );
-};
+    private params(req: LLMRequest) {
+        const structured = req.responseSchema ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(req.responseSchema) } : {};
+        return { model: req.model, contents: req.contents, config: { systemInstruction: req.systemInstruction, temperature: req.temperature, ...structured } };
+    }
 
-const AIClassifier = ({ initiatives, onClassify }: { initiatives: GovernanceInitiative[], onClassify: (text: string, context: string[]) => Promise<string> }) => {
-    const [selectedIds, setSelectedIds] = useState<string[]>([]);
-    const [input, setInput] = useState("");
-    const [result, setResult] = useState<string | null>(null);
-    const [isProcessing, setIsProcessing] = useState(false);
+    async generate(req: LLMRequest): Promise<LLMResult> {
+        const result = await this.client().models.generateContent(this.params(req));
+        return { text: result.text || '', usage: { inputTokens: result.usageMetadata?.promptTokenCount || 0, outputTokens: result.usageMetadata?.candidatesTokenCount || 0 } };
+    }
 
-    const handleClassify = async () => {
-        if (!input.trim()) return;
-        setIsProcessing(true);
-        const contextTitles = initiatives.filter(i => selectedIds.includes(i.id)).map(i => i.title);
-        const res = await onClassify(input, contextTitles);
-        setResult(res);
-        setIsProcessing(false);
-    };
+    // The SDK takes no abort signal, so cancellation stops reading the stream
+    async stream(req: LLMRequest, onDelta: (text: string) => void): Promise<LLMResult> {
+        const stream = await this.client().models.generateContentStream(this.params(req));
+        let text = '';
+        let usage: LLMUsage = { inputTokens: 0, outputTokens: 0 };
+        for await (const chunk of stream) {
+            if (req.signal?.aborted) break;
+            const delta = chunk.text || '';
+            if (delta) { text += delta; onDelta(delta); }
+            if (chunk.usageMetadata) usage = { inputTokens: chunk.usageMetadata.promptTokenCount || 0, outputTokens: chunk.usageMetadata.candidatesTokenCount || 0 };
+        }
+        return { text, usage };
+    }
 
-    return (
-        <div className="h-full flex flex-col p-6 overflow-hidden">
-            <h2 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2"><Icons.Brain /> Governance Classifier</h2>
-            <div className="grid grid-cols-3 gap-6 h-full">
-                <div className="col-span-1 bg-white border border-slate-200 rounded-xl p-4 overflow-y-auto">
-                    <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">Active Context</h3>
-                    <div className="space-y-2">
-                        {initiatives.map(init => (
-                            <label key={init.id} className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${selectedIds.includes(init.id) ? 'bg-indigo-50 border-indigo-500' : 'bg-slate-50 border-slate-200 hover:border-indigo-300'}`}>
-                                <input 
-                                    type="checkbox" 
-                                    checked={selectedIds.includes(init.id)} 
-                                    onChange={() => setSelectedIds(prev => prev.includes(init.id) ? prev.filter(id => id !== init.id) : [...prev, init.id])}
-                                    className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
-                                />
-                                <span className="text-sm font-medium text-slate-700">{init.title}</span>
-                            </label>
-                        ))}
-                    </div>
-                </div>
-                <div className="col-span-2 flex flex-col gap-4">
-                    <textarea 
-                        className="flex-1 w-full bg-slate-50 border border-slate-200 rounded-xl p-4 text-slate-700 resize-none focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm"
-                        placeholder="Paste governance text, policy draft, or ticket content here for AI analysis..."
-                        value={input}
-                        onChange={e => setInput(e.target.value)}
-                    />
-                    <div className="flex justify-end">
-                        <button 
-                            onClick={handleClassify} 
-                            disabled={isProcessing}
-                            className={`px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold flex items-center gap-2 transition-all ${isProcessing ? 'opacity-70 cursor-wait' : 'hover:bg-indigo-700'}`}
-                        >
-                            {isProcessing ? 'Analyzing...' : <><Icons.Spark /> Classify Content</>}
-                        </button>
-                    </div>
-                    {result && (
-                        <div className="bg-slate-900 text-green-400 p-4 rounded-xl font-mono text-sm border-l-4 border-green-500 overflow-y-auto max-h-40 shadow-lg">
-                            <div className="font-bold mb-1 text-white">AI ANALYSIS RESULT:</div>
-                            {result}
-                        </div>
-                    )}
-                </div>
-            </div>
-        </div>
-    );
+    async embed(texts: string[], model: string): Promise<number[][]> {
+        const result = await this.client().models.embedContent({ model, contents: texts });
+        return (result.embeddings || []).map(e => e.values || []);
+    }
+
+    // The SDK has no model lookup, so this asks the REST API for the model's metadata
+    async ping(model: string, signal: AbortSignal) {
+        if (!this.apiKey) throw new Error('No Gemini API key configured.');
+        const res = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}`, { headers: { 'x-goog-api-key': this.apiKey }, signal });
+        if (!res.ok) throw new Error(`Gemini responded ${res.status}`);
+    }
+}
+
+// Reads choices[0].message.content (or .delta.content when streaming) from a Chat Completions payload
+const choiceContent = (payload: unknown, field: 'message' | 'delta') => {
+    const choice = isRecord(payload) && Array.isArray(payload.choices) ? payload.choices[0] : undefined;
+    const part = isRecord(choice) ? choice[field] : undefined;
+    return isRecord(part) && typeof part.content === 'string' ? part.content : '';
 };
 
-const ToolRegistry = ({ tools, onInstall }: { tools: Extension[], onInstall: (id: string) => void }) => {
-    return (
-        <div className="p-6 h-full overflow-y-auto">
-            <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-2"><Icons.Settings /> Tool Registry</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {tools.map(tool => (
-                    <div key={tool.id} className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm hover:shadow-md transition-shadow relative overflow-hidden group">
-                        {tool.installed && <div className="absolute top-0 right-0 bg-green-500 text-white text-[10px] font-bold px-2 py-1 rounded-bl-lg"><Icons.Check /></div>}
-                        <div className="flex justify-between items-start mb-3">
-                            <div className="bg-slate-100 p-3 rounded-lg text-indigo-600">
-                                {tool.category === 'plugin' ? <Icons.Cpu /> : tool.category === 'dev' ? <Icons.Git /> : <Icons.Activity />}
-                            </div>
-                            <span className="text-xs font-mono text-slate-400 bg-slate-50 px-2 py-1 rounded">{tool.version}</span>
-                        </div>
-                        <h3 className="font-bold text-slate-800 mb-1">{tool.name}</h3>
-                        <p className="text-sm text-slate-500 mb-4 h-10">{tool.description}</p>
-                        <button 
-                            onClick={() => onInstall(tool.id)}
-                            className={`w-full py-2 rounded-lg font-bold text-sm transition-all ${tool.installed ? 'bg-slate-100 text-slate-400 cursor-default' : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-200'}`}
+const isVector = (value: unknown): value is number[] => Array.isArray(value) && value.every(x => typeof x === 'number');
+
+// Chat Completions API as served by Ollama, llama.cpp server, vLLM, LM Studio...
+class OpenAICompatibleProvider implements LLMProvider {
+    readonly id = 'openai';
+
+    constructor(private baseUrl: string, private apiKey: string) {}
+
+    isConfigured() { return !!this.baseUrl; }
+
+    private async request(req: LLMRequest, stream: boolean) {
+        const messages = [
+            ...(req.systemInstruction ? [{ role: 'system', content: req.systemInstruction }] : []),
+            ...req.contents.map(c => ({ role: c.role === 'model' ? 'assistant' : 'user', content: c.parts.map(p => p.text).join('\n') })),
+        ];
+        const res = await fetch(`${this.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}) },
+            body: JSON.stringify({
+                model: req.model, messages, temperature: req.temperature, stream,
+                ...(stream ? { stream_options: { include_usage: true } } : {}),
+                ...(req.responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: req.responseSchema } } } : {}),
+            }),
+            signal: req.signal,
+        });
+        if (!res.ok) throw new Error(`LLM endpoint responded ${res.status}: ${(await res.text()).slice(0, 200)}`);
+        return res;
+    }
+
+    private static usage(raw: unknown, req: LLMRequest, text: string): LLMUsage {
+        const count = (value: unknown) => typeof value === 'number' ? value : 0;
+        return isRecord(raw)
+            ? { inputTokens: count(raw.prompt_tokens), outputTokens: count(raw.completion_tokens) }
+            : { inputTokens: estimateTokens(JSON.stringify(req.contents)), outputTokens: estimateTokens(text) };
+    }
+
+    async generate(req: LLMRequest): Promise<LLMResult> {
+        const data: unknown = await (await this.request(req, false)).json();
+        const text = choiceContent(data, 'message');
+        return { text, usage: OpenAICompatibleProvider.usage(isRecord(data) ? data.usage : null, req, text) };
+    }
+
+    async stream(req: LLMRequest, onDelta: (text: string) => void): Promise<LLMResult> {
+        const res = await this.request(req, true);
+        const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+        let buffer = '';
+        let text = '';
+        let rawUsage: unknown = null;
+        try {
+            while (true) {
+                const { value, done } = await reader.read();
+                if (done) break;
+                buffer += value;
+                const lines = buffer.split('\n');
+                buffer = lines.pop() || '';
+                for (const line of lines) {
+                    const payload = line.replace(/^data:\s*/, '').trim();
+                    if (!line.startsWith('data:') || !payload || payload === '[DONE]') continue;
+                    const event: unknown = JSON.parse(payload);
+                    const delta = choiceContent(event, 'delta');
+                    if (delta) { text += delta; onDelta(delta); }
+                    if (isRecord(event) && event.usage) rawUsage = event.usage;
+                }
+            }
+        } catch (e) {
+            if (!req.signal?.aborted) throw e;
+        }
+        return { text, usage: OpenAICompatibleProvider.usage(rawUsage, req, text) };
+    }
+
+    async embed(texts: string[], model: string): Promise<number[][]> {
+        const res = await fetch(`${this.baseUrl.replace(/\/$/, '')}/embeddings`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...(this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}) },
+            body: JSON.stringify({ model, input: texts }),
+        });
+        if (!res.ok) throw new Error(`Embedding endpoint responded ${res.status}`);
+        const data: unknown = await res.json();
+        const vectors = isRecord(data) && Array.isArray(data.data) ? data.data.map(d => isRecord(d) ? d.embedding : undefined) : [];
+        if (vectors.length !== texts.length || !vectors.every(isVector)) throw new Error('Embedding endpoint returned no usable vectors.');
+        return vectors;
+    }
+
+    async ping(_model: string, signal: AbortSignal) {
+        const res = await fetch(`${this.baseUrl.replace(/\/$/, '')}/models`, { headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {}, signal });
+        if (!res.ok) throw new Error(`LLM endpoint responded ${res.status}`);
+    }
+}
+
+// Deterministic canned answers for tests and offline demos: same request, same reply
+class MockProvider implements LLMProvider {
+    readonly id = 'mock';
+
+    isConfigured() { return true; }
+
+    // Fills the schema from the prompt: strings quote its sentences, so evidence spans are real substrings
+    private static fromSchema(schema: JsonSchema, sentences: string[], seed: number): unknown {
+        switch (schema.type) {
+            case 'object': return Object.fromEntries(Object.entries(schema.properties || {}).map(([key, value], i) => [key, MockProvider.fromSchema(value, sentences, seed + i * 7)]));
+            case 'array': return [0, 1].map(i => MockProvider.fromSchema(schema.items!, sentences, seed + i * 13 + 1));
+            case 'string': return schema.enum ? schema.enum[seed % schema.enum.length] : sentences[seed % sentences.length].slice(0, 120);
+            case 'boolean': return seed % 2 === 0;
+            default: {
+                const min = schema.minimum ?? 0, max = schema.maximum ?? 1;
+                const value = min + (seed % 101) / 100 * (max - min);
+                return schema.type === 'integer' ? Math.round(value) : Math.round(value * 100) / 100;
+            }
+        }
+    }
+
+    private static reply(req: LLMRequest) {
+        const prompt = lastUserText(req.contents);
+        const hash = Array.from(prompt).reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+        if (req.responseSchema) {
+            const sentences = prompt.split(/(?<=[.!?])\s+/).map(l => l.trim()).filter(Boolean);
+            return JSON.stringify(MockProvider.fromSchema(req.responseSchema, sentences.length ? sentences : ['(empty)'], hash));
+        }
+        const openers = ['Understood.', 'Here is my take.', 'Noted.', 'Good question.'];
+        const topic = prompt.replace(/\s+/g, ' ').trim().slice(0, 80);
+        return `${openers[hash % openers.length]} [${req.model}] You asked about "${topic}". This is a deterministic offline reply.`;
+    }
+
+    async generate(req: LLMRequest): Promise<LLMResult> {
+        const text = MockProvider.reply(req);
+        return { text, usage: { inputTokens: estimateTokens(JSON.stringify(req.contents)), outputTokens: estimateTokens(text) } };
+    }
+
+    async stream(req: LLMRequest, onDelta: (text: string) => void): Promise<LLMResult> {
+        const text = MockProvider.reply(req);
+        let sent = '';
+        for (const word of text.split(/(?<= )/)) {
+            if (req.signal?.aborted) break;
+            await new Promise(r => setTimeout(r, 30));
+            sent += word;
+            onDelta(word);
+        }
+        return { text: sent, usage: { inputTokens: estimateTokens(JSON.stringify(req.contents)), outputTokens: estimateTokens(sent) } };
+    }
+
+    // Hashed bag-of-words: crude, but stable and good enough to exercise the rerank path
+    async embed(texts: string[]): Promise<number[][]> {
+        return texts.map(text => {
+            const vec = new Array(64).fill(0);
+            tokenize(text).forEach(term => { vec[parseInt(hashText(term).slice(0, 6), 16) % 64] += 1; });
+            const norm = Math.hypot(...vec) || 1;
+            return vec.map(v => v / norm);
+        });
+    }
+
+    async ping() {}
+}
+
+const createProvider = (id: LLMProviderId, settings: LLMSettings, secrets: LLMSecrets): LLMProvider => {
+    switch (id) {
+        case 'gemini': return new GeminiProvider(process.env.API_KEY);
+        case 'openai': return new OpenAICompatibleProvider(settings.openai.baseUrl, secrets.openaiApiKey);
+        case 'mock': return new MockProvider();
+    }
+};
+
+// Picks the provider and model for a feature; a non-empty override (e.g. an agent persona) wins over the
+// feature model, but only while the feature still routes to the provider the override was written for
+const resolveLLM = (settings: LLMSettings, secrets: LLMSecrets, feature: LLMFeature, override?: { model: string; modelProvider?: LLMProviderId }) => {
+    const route = settings.features[feature];
+    const model = override?.modelProvider === route.provider && override.model.trim();
+    return { provider: createProvider(route.provider, settings, secrets), model: model || route.model };
+};
+
+const LLM_SECRETS_KEY = (userId: string) => `lumina-llm-secrets:${userId}`;
+
+const loadLLMSecrets = (userId: string): LLMSecrets => {
+    try {
+        return { openaiApiKey: '', ...JSON.parse(localStorage.getItem(LLM_SECRETS_KEY(userId)) || '{}') };
+    } catch {
+        return { openaiApiKey: '' };
+    }
+};
+
+const saveLLMSecrets = (userId: string, secrets: LLMSecrets) => localStorage.setItem(LLM_SECRETS_KEY(userId), JSON.stringify(secrets));
+
+// --- INTEGRATIONS ---
+// apiBase is the Telegram Bot API root, outboundUrl the WhatsApp/Viber send endpoint
+type ChannelConfig = { enabled: boolean; agentId: string; apiBase: string; outboundUrl: string; };
+// The Telegram bot token, WhatsApp Cloud API access token or Viber auth token. Kept in the operator's
+// browser like the LLM keys, since the shared settings are readable by every member
+type IntegrationSecrets = Record<IntegrationType, string>;
+// relayUrl is the server.ts instance that receives WhatsApp/Viber webhooks for the browser
+type IntegrationSettings = { relayUrl: string; channels: Record<IntegrationType, ChannelConfig>; };
+type InboundMessage = { channel: IntegrationType; chatId: string; sender: string; text: string; externalId: string; };
+// Empty channels/keywords match everything; escalations wait for a human operator
+type RoutingRule = {
+    id: string;
+    name: string;
+    enabled: boolean;
+    channels: IntegrationType[];
+    keywords: string[];
+    action: 'route' | 'auto_reply' | 'escalate';
+    agentId: string;
+    replyText: string;
+};
+
+interface IntegrationAdapter {
+    readonly channel: IntegrationType;
+    poll(signal: AbortSignal): Promise<InboundMessage[]>;
+    send(chatId: string, text: string): Promise<void>;
+}
+
+const INTEGRATION_CHANNELS: { id: IntegrationType; label: string; }[] = [
+    { id: 'whatsapp', label: 'WhatsApp' },
+    { id: 'telegram', label: 'Telegram' },
+    { id: 'viber', label: 'Viber' },
+];
+
+const INTEGRATION_POLL_MS = 3000;
+const MAX_INTEGRATION_EVENTS = 1000;
+
+// Defaults point at the mock endpoints of server.ts so every bridge works offline
+const defaultIntegrationSettings = (): IntegrationSettings => {
+    const relayUrl = APP_CONFIG.storage.url;
+    return {
+        relayUrl,
+        channels: {
+            whatsapp: { enabled: false, agentId: 'a1', apiBase: '', outboundUrl: `${relayUrl}/mock/whatsapp/send` },
+            telegram: { enabled: false, agentId: 'a1', apiBase: `${relayUrl}/mock/telegram`, outboundUrl: '' },
+            viber: { enabled: false, agentId: 'a1', apiBase: '', outboundUrl: `${relayUrl}/mock/viber/send` },
+        },
+    };
+};
+
+const INTEGRATION_SECRETS_KEY = (userId: string) => `lumina-integration-secrets:${userId}`;
+
+// The mock Telegram endpoint accepts any token
+const defaultIntegrationSecrets = (): IntegrationSecrets => ({ whatsapp: '', telegram: 'mock-token', viber: '' });
+
+const loadIntegrationSecrets = (userId: string): IntegrationSecrets => {
+    try {
+        return { ...defaultIntegrationSecrets(), ...JSON.parse(localStorage.getItem(INTEGRATION_SECRETS_KEY(userId)) || '{}') };
+    } catch {
+        return defaultIntegrationSecrets();
+    }
+};
+
+const saveIntegrationSecrets = (userId: string, secrets: IntegrationSecrets) => localStorage.setItem(INTEGRATION_SECRETS_KEY(userId), JSON.stringify(secrets));
+
+type TelegramUpdate = {
+    update_id: number;
+    message?: { chat: { id: number | string }; from?: { first_name?: string; last_name?: string }; text?: string };
+};
+
+// Telegram Bot API over getUpdates long polling; works against api.telegram.org or the local mock
+class TelegramAdapter implements IntegrationAdapter {
+    readonly channel = 'telegram';
+    private offset = 0;
+
+    constructor(private config: ChannelConfig, private token: string) {}
+
+    private async call<T>(method: string, body: object, signal?: AbortSignal): Promise<T> {
+        if (!this.token) throw new Error('No bot token configured.');
+        const res = await fetch(`${this.config.apiBase.replace(/\/$/, '')}/bot${this.token}/${method}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal,
+        });
+        const data = await res.json().catch(() => null);
+        if (!res.ok || !data?.ok) throw new Error(`Telegram ${method} failed: ${data?.description || res.status}`);
+        return data.result;
+    }
+
+    async poll(signal: AbortSignal): Promise<InboundMessage[]> {
+        const updates = await this.call<TelegramUpdate[]>('getUpdates', { offset: this.offset, timeout: 25, allowed_updates: ['message'] }, signal);
+        if (updates.length) this.offset = updates[updates.length - 1].update_id + 1;
+        return updates.flatMap(({ update_id, message }) => typeof message?.text === 'string' ? [{
+            channel: this.channel,
+            chatId: String(message.chat.id),
+            sender: [message.from?.first_name, message.from?.last_name].filter(Boolean).join(' ') || String(message.chat.id),
+            text: message.text,
+            externalId: String(update_id),
+        }] : []);
+    }
+
+    async send(chatId: string, text: string) {
+        await this.call<unknown>('sendMessage', { chat_id: chatId, text });
+    }
+}
+
+// WhatsApp Cloud API / Viber REST bridge. Webhooks land on the relay and are polled from there with the
+// storage session, which needs integrations:manage. The inbox cursor is kept per relay and channel so a
+// reload does not replay the whole inbox.
+class WebhookAdapter implements IntegrationAdapter {
+    private after: number;
+
+    constructor(readonly channel: 'whatsapp' | 'viber', private config: ChannelConfig, private token: string, private relayUrl: string, private relayToken: string | null) {
+        this.after = Number(localStorage.getItem(this.cursorKey)) || 0;
+    }
+
+    private get cursorKey() { return `lumina-relay-cursor:${this.relayUrl}:${this.channel}`; }
+
+    async poll(signal: AbortSignal): Promise<InboundMessage[]> {
+        const res = await fetch(`${this.relayUrl.replace(/\/$/, '')}/webhook/${this.channel}/inbox?after=${this.after}`, {
+            headers: this.relayToken ? { Authorization: `Bearer ${this.relayToken}` } : {},
+            signal,
+        });
+        if (!res.ok) throw new Error(`Relay responded ${res.status}`);
+        const messages: (InboundMessage & { seq: number })[] = await res.json();
+        if (messages.length) {
+            this.after = messages[messages.length - 1].seq;
+            localStorage.setItem(this.cursorKey, String(this.after));
+        }
+        return messages.map(({ seq, ...m }) => ({ ...m, channel: this.channel }));
+    }
+
+    async send(chatId: string, text: string) {
+        if (!this.config.outboundUrl) throw new Error('No outbound URL configured.');
+        const whatsapp = this.channel === 'whatsapp';
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.token) headers[whatsapp ? 'Authorization' : 'X-Viber-Auth-Token'] = whatsapp ? `Bearer ${this.token}` : this.token;
+        const res = await fetch(this.config.outboundUrl, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(whatsapp
+                ? { messaging_product: 'whatsapp', to: chatId, type: 'text', text: { body: text } }
+                : { receiver: chatId, type: 'text', text, sender: { name: 'Lumina OS' } }),
+        });
+        const data = await res.json().catch(() => null);
+        // Viber reports failures with HTTP 200 and a non-zero status
+        if (!res.ok || (!whatsapp && data?.status !== 0)) throw new Error(`${this.channel} send failed: ${data?.error?.message || data?.status_message || res.status}`);
+    }
+}
+
+// Rules are evaluated top to bottom; the first enabled match wins
+const matchRoutingRule = (rules: RoutingRule[], msg: InboundMessage) => {
+    const text = msg.text.toLowerCase();
+    return rules.find(r => r.enabled
+        && (!r.channels.length || r.channels.includes(msg.channel))
+        && (!r.keywords.length || r.keywords.some(k => text.includes(k.toLowerCase()))));
+};
+
+const createIntegrationAdapter = (channel: IntegrationType, settings: IntegrationSettings, secrets: IntegrationSecrets, relayToken: string | null): IntegrationAdapter =>
+    channel === 'telegram'
+        ? new TelegramAdapter(settings.channels.telegram, secrets.telegram)
+        : new WebhookAdapter(channel, settings.channels[channel], secrets[channel], settings.relayUrl, relayToken);
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+    const handle = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => { clearTimeout(handle); resolve(); }, { once: true });
+});
+
+// Polls until aborted; failures are reported and retried on the next tick
+const runIntegrationAdapter = async (adapter: IntegrationAdapter, onMessage: (msg: InboundMessage) => void, onStatus: (status: string) => void, signal: AbortSignal) => {
+    while (!signal.aborted) {
+        try {
+            const messages = await adapter.poll(signal);
+            onStatus('online');
+            messages.forEach(onMessage);
+        } catch (e) {
+            if (signal.aborted) return;
+            onStatus(`error: ${e instanceof Error ? e.message : 'unreachable'}`);
+        }
+        await sleep(INTEGRATION_POLL_MS, signal);
+    }
+};
+
+// --- TASK QUEUE ---
+const AGENT_QUEUE_CAPACITY = 4;
+const AGENT_MIN_ENERGY = 15;
+const AGENT_TICK_MS = 5000;
+const TASK_COOLDOWN_S = 5;
+const FAILED_TASK_COOLDOWN_S = 20;
+const MAX_AGENT_TASKS = 500;
+
+const AGENT_TYPES: Agent['type'][] = ['analyst', 'creative', 'manager', 'security'];
+
+const openTaskCount = (agentId: string, tasks: AgentTask[]) =>
+    tasks.filter(t => t.agentId === agentId && (t.status === 'queued' || t.status === 'running')).length;
+
+// Prefers agents of the requested type, then the shortest queue, then the most energy
+const pickAgentForTask = (agents: Agent[], tasks: AgentTask[], type?: Agent['type']) => {
+    const pool = type && agents.some(a => a.type === type) ? agents.filter(a => a.type === type) : agents;
+    return [...pool].sort((a, b) => openTaskCount(a.id, tasks) - openTaskCount(b.id, tasks) || b.energy - a.energy)[0];
+};
+
+// Returns the same array when nothing changed so the caller's state update is a no-op
+const withAgentLoad = (agents: Agent[], tasks: AgentTask[]) => {
+    const next = agents.map(a => {
+        const load = Math.min(100, Math.round(openTaskCount(a.id, tasks) / AGENT_QUEUE_CAPACITY * 100));
+        return load === a.load ? a : { ...a, load };
+    });
+    return next.some((a, i) => a !== agents[i]) ? next : agents;
+};
+
+// Energy is spent per token, so long answers tire agents more than short ones
+const taskEnergyCost = (usage: LLMUsage) => Math.min(30, Math.max(1, Math.round((usage.inputTokens + usage.outputTokens) / 200)));
+
+const restingState = (energy: number, cooldown: number): Pick<Agent, 'status' | 'currentTask'> =>
+    energy < AGENT_MIN_ENERGY ? { status: 'Idle', currentTask: 'Recharging' }
+    : cooldown > 0 ? { status: 'Optimizing', currentTask: 'Cooling down' }
+    : { status: 'Idle', currentTask: 'Waiting for tasks' };
+
+// --- HEALTH MONITOR ---
+type ProviderProbe = { provider: LLMProviderId; ok: boolean; latencyMs: number; error?: string; at: number; };
+type AdapterState = 'online' | 'connecting' | 'stale' | 'error';
+type ProviderHealth = { provider: LLMProviderId; ok: boolean; latencyMs: number; failureRate: number; error?: string; };
+type AdapterHealth = { channel: IntegrationType; state: AdapterState; lastSeen?: number; error?: string; };
+type AgentHealth = { quality: ConnectionQuality; successRate: number | null; outcomes: number; };
+type HealthReport = { systemHealth: number; providers: ProviderHealth[]; adapters: AdapterHealth[]; agents: Record<string, AgentHealth>; };
+
+type HealthInputs = {
+    probes: ProviderProbe[];
+    llmSettings: LLMSettings;
+    integrationSettings: IntegrationSettings;
+    integrationStatus: Partial<Record<IntegrationType, string>>;
+    heartbeats: Partial<Record<IntegrationType, number>>; // last successful poll per channel
+    agents: Agent[];
+    agentTasks: AgentTask[];
+    agentChats: Record<string, Message[]>;
+    now: number;
+};
+
+const HEALTH_PROBE_MS = 60000;
+const HEALTH_TICK_MS = 10000;
+const PROBE_TIMEOUT_MS = 8000;
+const SLOW_PROBE_MS = 2500;
+const PROBE_HISTORY = 10; // per provider
+// Telegram long-polls for up to 25 s, so a heartbeat only counts as missed well after that
+const HEARTBEAT_TIMEOUT_MS = 45000;
+const AGENT_OUTCOME_WINDOW = 20;
+// Fewer outcomes than this do not affect an agent's connection quality
+const MIN_AGENT_OUTCOMES = 3;
+const QUALITY_SCORES: Record<ConnectionQuality, number> = { optimal: 1, unstable: 0.5, offline: 0 };
+const ADAPTER_SCORES: Record<AdapterState, number> = { online: 1, connecting: 0.5, stale: 0.25, error: 0 };
+
+// Every provider behind a configured route, with one of its models to probe
+const probeTargets = (settings: LLMSettings) => [...new Map(LLM_FEATURES.map(f => [settings.features[f].provider, settings.features[f].model] as const)).entries()];
+
+const probeProvider = async (provider: LLMProvider, model: string): Promise<ProviderProbe> => {
+    const started = performance.now();
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+    try {
+        if (!provider.isConfigured()) throw new Error('Not configured.');
+        await provider.ping(model, controller.signal);
+        return { provider: provider.id, ok: true, latencyMs: Math.round(performance.now() - started), at: Date.now() };
+    } catch (e) {
+        const error = controller.signal.aborted ? `No answer within ${PROBE_TIMEOUT_MS / 1000} s.` : e instanceof Error ? e.message : 'Unreachable.';
+        return { provider: provider.id, ok: false, latencyMs: Math.round(performance.now() - started), error, at: Date.now() };
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+// Keeps the newest PROBE_HISTORY probes of each provider
+const appendProbes = (probes: ProviderProbe[], results: ProviderProbe[]) => {
+    const all = [...probes, ...results];
+    return all.filter((probe, i) => all.slice(i + 1).filter(p => p.provider === probe.provider).length < PROBE_HISTORY);
+};
+
+const providerHealth = (probes: ProviderProbe[]): ProviderHealth[] => [...new Set(probes.map(p => p.provider))].map(provider => {
+    const own = probes.filter(p => p.provider === provider);
+    const latest = own[own.length - 1];
+    return { provider, ok: latest.ok, latencyMs: latest.latencyMs, failureRate: own.filter(p => !p.ok).length / own.length, error: latest.error };
+});
+
+const adapterHealth = ({ integrationSettings, integrationStatus, heartbeats, now }: HealthInputs): AdapterHealth[] =>
+    INTEGRATION_CHANNELS.filter(c => integrationSettings.channels[c.id].enabled).map(({ id }) => {
+        const status = integrationStatus[id] || 'connecting';
+        const lastSeen = heartbeats[id];
+        if (status.startsWith('error')) return { channel: id, state: 'error', lastSeen, error: status.replace(/^error:\s*/, '') };
+        if (status !== 'online') return { channel: id, state: 'connecting', lastSeen };
+        return { channel: id, state: now - (lastSeen || 0) > HEARTBEAT_TIMEOUT_MS ? 'stale' : 'online', lastSeen };
+    });
+
+// Finished queue tasks and chat replies, newest first; cancellations say nothing about health
+const agentOutcomes = (agentId: string, tasks: AgentTask[], chat: Message[]) => [
+    ...tasks.filter(t => t.agentId === agentId && (t.status === 'done' || t.status === 'failed')).map(t => ({ at: t.finishedAt || 0, ok: t.status === 'done' })),
+    ...chat.filter(m => m.role === 'model' && !m.isStreaming && !m.cancelled).map(m => ({ at: m.id, ok: !m.isError })),
+].sort((a, b) => b.at - a.at).slice(0, AGENT_OUTCOME_WINDOW);
+
+const agentQuality = (provider: ProviderHealth | undefined, successRate: number | null): ConnectionQuality => {
+    if (provider && !provider.ok) return 'offline';
+    if (successRate !== null && successRate < 0.5) return 'offline';
+    if (provider && (provider.latencyMs > SLOW_PROBE_MS || provider.failureRate > 0)) return 'unstable';
+    if (successRate !== null && successRate < 0.8) return 'unstable';
+    return 'optimal';
+};
+
+const average = (values: number[]) => values.length ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+
+// systemHealth is the weighted mean of the parts that exist: providers and agents count double, bridges once
+const computeHealth = (inputs: HealthInputs): HealthReport => {
+    const { probes, llmSettings, agents, agentTasks, agentChats } = inputs;
+    const inUse = new Set(probeTargets(llmSettings).map(([provider]) => provider));
+    const providers = providerHealth(probes.filter(p => inUse.has(p.provider)));
+    const adapters = adapterHealth(inputs);
+    // Agents answer through the chat route; a persona only overrides the model
+    const chatProvider = providers.find(p => p.provider === llmSettings.features.chat.provider);
+    const agentHealth = Object.fromEntries(agents.map(agent => {
+        const outcomes = agentOutcomes(agent.id, agentTasks, agentChats[agent.id] || []);
+        const successRate = outcomes.length ? outcomes.filter(o => o.ok).length / outcomes.length : null;
+        return [agent.id, { quality: agentQuality(chatProvider, outcomes.length >= MIN_AGENT_OUTCOMES ? successRate : null), successRate, outcomes: outcomes.length }];
+    })) as Record<string, AgentHealth>;
+    const parts = [
+        { score: average(providers.map(p => p.ok ? (1 - p.failureRate) * (p.latencyMs > SLOW_PROBE_MS ? 0.7 : 1) : 0)), weight: 2 },
+        { score: average(adapters.map(a => ADAPTER_SCORES[a.state])), weight: 1 },
+        { score: average(Object.values(agentHealth).map(a => QUALITY_SCORES[a.quality])), weight: 2 },
+    ].filter((part): part is { score: number; weight: number } => part.score !== null);
+    const weight = parts.reduce((sum, part) => sum + part.weight, 0);
+    const systemHealth = weight ? Math.round(100 * parts.reduce((sum, part) => sum + part.score * part.weight, 0) / weight) : 100;
+    return { systemHealth, providers, adapters, agents: agentHealth };
+};
+
+const qualityOf = (health: HealthReport, agentId: string): ConnectionQuality => health.agents[agentId]?.quality ?? 'optimal';
+
+// --- PIPELINES ---
+const MAX_PIPELINE_RUNS = 100;
+const PIPELINE_INPUT_LIMIT = 12000;
+
+const areCompatible = (rules: CompatibilityRule[], a: Agent['type'], b: Agent['type']) =>
+    rules.some(r => (r.a === a && r.b === b) || (r.a === b && r.b === a));
+
+// Reasons a pipeline cannot run; an agent may always hand work to itself
+const pipelineProblems = (steps: PipelineStep[], agents: Agent[], rules: CompatibilityRule[], t: Translator): string[] => {
+    if (!steps.length) return [t('pipelines.problems.no_steps')];
+    const problems: string[] = [];
+    steps.forEach((step, i) => {
+        const agent = agents.find(a => a.id === step.agentId);
+        if (!agent) return problems.push(t('pipelines.problems.no_agent', { index: i + 1 }));
+        if (!step.instruction.trim()) problems.push(t('pipelines.problems.no_instruction', { index: i + 1 }));
+        const prev = i > 0 ? agents.find(a => a.id === steps[i - 1].agentId) : undefined;
+        if (prev && prev.id !== agent.id && !areCompatible(rules, prev.type, agent.type)) {
+            problems.push(t('pipelines.problems.incompatible', { from: prev.name, fromType: prev.type, to: agent.name, toType: agent.type }));
+        }
+    });
+    return problems;
+};
+
+const buildStepPrompt = (run: PipelineRun, index: number, input: string) =>
+    `${run.steps[index].instruction}\n\n## ${index === 0 ? 'Input' : 'Output of the previous step'}\n${input}`;
+
+const agentFlowsOf = (runs: PipelineRun[]): AgentFlow[] =>
+    runs.filter(r => r.status === 'running' && r.currentStep > 0 && r.steps[r.currentStep - 1].agentId !== r.steps[r.currentStep].agentId)
+        .map(r => ({ key: r.id, from: r.steps[r.currentStep - 1].agentId, to: r.steps[r.currentStep].agentId }));
+
+// --- QUICK ACTIONS ---
+type QuickAction = 'summarize' | 'workflow' | 'next_step';
+type WorkspaceSnapshot = {
+    agents: Agent[];
+    agentChats: Record<string, Message[]>;
+    integrationEvents: IntegrationEvent[];
+    initiatives: GovernanceInitiative[];
+    agentTasks: AgentTask[];
+    notes: Note[];
+};
+
+const clip = (text: string, max: number) => {
+    const flat = text.replace(/\s+/g, ' ').trim();
+    return flat.length > max ? `${flat.slice(0, max)}…` : flat;
+};
+
+// Compact plain-text view of recent activity for the quick action prompts
+const buildWorkspaceContext = ({ agents, agentChats, integrationEvents, initiatives, agentTasks, notes }: WorkspaceSnapshot) => {
+    const chats = agents.flatMap(a => (agentChats[a.id] || []).filter(m => !m.isError).slice(-4).map(m => `- ${m.role === 'user' ? `User → ${a.name}` : a.name}: ${clip(m.text, 200)}`));
+    const events = integrationEvents.slice(0, 10).map(e => `- [${e.type}, ${e.status}] ${e.sender}: ${clip(e.message, 160)}`);
+    const goals = initiatives.map(i => `- ${i.title} (${i.status.replace('_', ' ')}${i.deadline ? `, due ${i.deadline}` : ''})`);
+    const tasks = agentTasks.filter(t => t.status === 'queued' || t.status === 'running').slice(0, 10).map(t => `- ${t.title} (${t.status})`);
+    const recentNotes = [...notes].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, 5).map(n => `- ${n.title}`);
+    return [
+        ['Recent agent chats', chats],
+        ['Messaging inbox', events],
+        ['Governance initiatives', goals],
+        ['Open tasks', tasks],
+        ['Recently edited notes', recentNotes],
+    ].map(([title, lines]) => `## ${title}\n${(lines as string[]).join('\n') || '- none'}`).join('\n\n');
+};
+
+const QUICK_ACTION_PROMPTS: Record<QuickAction, string> = {
+    summarize: 'Write a short digest of the workspace activity below for the user. Group it into chats, inbox and initiatives and point out anything that needs attention.',
+    workflow: 'Turn the goal below into a practical step-by-step workflow. Answer with a numbered list only, one concrete step per line, at most 8 steps.',
+    next_step: 'Based on the workspace activity below, suggest the single most useful next action for the user. Answer in one or two sentences and start with a verb.',
+};
+
+// Accepts "1." / "1)" / "-" / "*" list items and falls back to non-empty lines
+const parseWorkflowSteps = (text: string) => {
+    const lines = text.split('\n').map(l => l.trim()).filter(Boolean);
+    const items = lines.map(l => l.match(/^(?:\d+[.)]|[-*])\s+(.+)$/)?.[1]).filter((l): l is string => !!l);
+    return (items.length ? items : lines).map(l => l.replace(/\*\*/g, ''));
+};
+
+// --- TASKBOOK ---
+const PROJECT_TASK_STATUSES: ProjectTaskStatus[] = ['backlog', 'todo', 'in_progress', 'review', 'done'];
+const TASK_PRIORITIES: TaskPriority[] = ['high', 'medium', 'low'];
+const MAX_STICKY_NOTES = 50;
+const IDEAS_PER_REQUEST = 3;
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(tokens >= 10000 ? 0 : 1)}k` : String(tokens);
+
+const milestoneProgress = (milestoneId: string, tasks: ProjectTask[]) => {
+    const own = tasks.filter(task => task.milestoneId === milestoneId);
+    return own.length ? own.filter(task => task.status === 'done').length / own.length : 0;
+};
+
+const ideaSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        ideas: { type: 'array', items: { type: 'object', properties: {
+            title: { type: 'string', description: 'A short, actionable task title.' },
+            detail: { type: 'string', description: 'Why it helps and how to start.' },
+            priority: { type: 'string', enum: TASK_PRIORITIES },
+            estimateHours: { type: 'number', minimum: 0.5, maximum: 40 },
+            tokenCost: { type: 'integer', minimum: 0, maximum: 50000, description: 'LLM tokens agents would need to help with it.' },
+        }, required: ['title', 'detail', 'priority', 'estimateHours', 'tokenCost'] } },
+    },
+    required: ['ideas'],
+};
+
+const buildIdeaInstruction = () => [
+    `Propose up to ${IDEAS_PER_REQUEST} new tasks that would move the project forward, based on the board and the workspace activity below.`,
+    'Do not repeat tasks that are already on the board. Keep titles short and start them with a verb.',
+].join('\n');
+
+const buildBoardContext = (tasks: ProjectTask[], milestones: Milestone[]) => {
+    const lines = tasks.map(task => `- ${task.title} (${task.status.replace('_', ' ')}, ${task.priority}${task.milestoneId ? `, ${milestones.find(m => m.id === task.milestoneId)?.title}` : ''})`);
+    return `## Milestones\n${milestones.map(m => `- ${m.title}${m.dueDate ? ` (due ${m.dueDate})` : ''}`).join('\n') || '- none'}\n\n## Board\n${lines.join('\n') || '- none'}`;
+};
+
+const toStickyNotes = (raw: unknown, agent: Agent): StickyNote[] => (isRecord(raw) && Array.isArray(raw.ideas) ? raw.ideas : [])
+    .filter(isRecord)
+    .flatMap(idea => typeof idea.title === 'string' && idea.title.trim() ? [{
+        id: `st_${randomHex(6)}`,
+        text: idea.title.trim(),
+        detail: typeof idea.detail === 'string' ? idea.detail : '',
+        priority: TASK_PRIORITIES.find(p => p === idea.priority) || 'medium',
+        estimateHours: Math.max(0, Number(idea.estimateHours) || 0),
+        tokenCost: Math.max(0, Math.round(Number(idea.tokenCost) || 0)),
+        author: agent.name,
+        agentId: agent.id,
+        createdAt: Date.now(),
+    }] : [])
+    .slice(0, IDEAS_PER_REQUEST);
+
+const stickyToTask = (note: StickyNote, milestoneId?: string): ProjectTask => ({
+    id: `pt_${randomHex(6)}`, title: note.text, description: note.detail, status: 'todo', priority: note.priority,
+    estimateHours: note.estimateHours, tokenCost: note.tokenCost, tokensSpent: 0, milestoneId, createdAt: Date.now(), updatedAt: Date.now(),
+});
+
+const buildProjectTaskPrompt = (task: ProjectTask) =>
+    `Work on this project task and report what you did or found.\n\n# ${task.title}\n${task.description || '(no description)'}`;
+
+// --- TOKEN LEDGER ---
+const TOKEN_CURRENCIES: TokenCurrency[] = ['rep', 'act', 'edu'];
+// XP needed for levels 1..10; later levels keep the last step size
+const LEVEL_THRESHOLDS = [0, 25, 75, 150, 300, 500, 800, 1200, 1800, 2500];
+const XP_PER_REPLY = 5;
+const KNOWLEDGE_PER_SOURCE = 5;
+const KNOWLEDGE_PER_NOTE = 2;
+const TOKENS_PER_FOCUS = 1000;
+const DEFAULT_FOCUS_BUDGET = 100;
+const GUEST_FOCUS_BUDGET = 20;
+const MAX_LEDGER_ENTRIES = 2000;
+
+const focusCost = (usage: LLMUsage) => Math.max(1, Math.ceil((usage.inputTokens + usage.outputTokens) / TOKENS_PER_FOCUS));
+
+const levelThreshold = (level: number) => {
+    const last = LEVEL_THRESHOLDS.length - 1;
+    return level - 1 <= last ? LEVEL_THRESHOLDS[level - 1] : LEVEL_THRESHOLDS[last] + (level - 1 - last) * (LEVEL_THRESHOLDS[last] - LEVEL_THRESHOLDS[last - 1]);
+};
+
+const levelFor = (xp: number) => {
+    let level = 1;
+    while (xp >= levelThreshold(level + 1)) level++;
+    return { level, floor: levelThreshold(level), next: levelThreshold(level + 1) };
+};
+
+const focusBudgetOf = (user: User, budgets: Record<string, number>) => budgets[user.id] ?? (user.isGuest ? GUEST_FOCUS_BUDGET : DEFAULT_FOCUS_BUDGET);
+
+const ledgerEntry = (userId: string, currency: TokenCurrency, amount: number, reason: LedgerReason, detail = ''): LedgerEntry =>
+    ({ id: `l_${randomHex(6)}`, userId, currency, amount, reason, detail, at: Date.now() });
+
+const ledgerBalances = (ledger: LedgerEntry[], userId: string) => {
+    const balances = { rep: 0, act: 0, edu: 0 };
+    ledger.forEach(e => { if (e.userId === userId) balances[e.currency] += e.amount; });
+    return balances;
+};
+
+// Balances from before the ledger existed (or a fresh account) enter it once as opening entries
+const openingEntries = (user: User) => TOKEN_CURRENCIES.map(currency => ledgerEntry(user.id, currency, user.tokens[currency], 'opening'));
+
+// Focus is topped up to the budget once per day; returns the amount still due today
+const focusRefillDue = (ledger: LedgerEntry[], userId: string, focus: number, budget: number) => {
+    const last = ledger.find(e => e.userId === userId && e.currency === 'act' && (e.reason === 'focus_refill' || e.reason === 'opening'));
+    if (last && new Date(last.at).toDateString() === new Date().toDateString()) return 0;
+    return Math.max(0, budget - focus);
+};
+
+// Newest first. The oldest entries are folded into one carry-over per user and currency so balances stay exact
+const appendLedger = (ledger: LedgerEntry[], entries: LedgerEntry[]) => {
+    const next = [...entries, ...ledger];
+    if (next.length <= MAX_LEDGER_ENTRIES) return next;
+    const keep = next.slice(0, MAX_LEDGER_ENTRIES * 0.9);
+    const carried = new Map<string, LedgerEntry>();
+    next.slice(keep.length).forEach(e => {
+        const key = `${e.userId}:${e.currency}`;
+        const carry = carried.get(key);
+        carried.set(key, carry ? { ...carry, amount: carry.amount + e.amount } : { ...e, id: `l_${randomHex(6)}`, reason: 'carryover', detail: '' });
+    });
+    return [...keep, ...carried.values()];
+};
+
+// --- SKILL TREE ---
+type SkillMetric = 'documents_classified' | 'notes_linked' | 'tasks_completed' | 'feedback_given';
+type SkillBranch = 'governance' | 'knowledge' | 'execution' | 'community';
+type SkillId =
+    | 'policy_reader' | 'compliance_analyst' | 'governance_architect'
+    | 'note_taker' | 'knowledge_weaver' | 'cartographer'
+    | 'first_quest' | 'task_runner' | 'project_lead'
+    | 'first_voice' | 'critic' | 'coach';
+// A skill unlocks once its metric reaches target and every prerequisite is unlocked
+type SkillNode = { id: SkillId; branch: SkillBranch; tier: number; metric: SkillMetric; target: number; requires: SkillId[]; };
+type SkillActivity = Record<SkillMetric, number>;
+// Distinct keys per metric (a note→target pair, a task id, ...) so repeating the same action counts once
+type SkillLog = Record<SkillMetric, string[]>;
+
+const SKILL_BRANCHES: SkillBranch[] = ['governance', 'knowledge', 'execution', 'community'];
+
+// Ordered tier by tier so every prerequisite comes before the skills that need it
+const SKILL_TREE: SkillNode[] = [
+    { id: 'policy_reader', branch: 'governance', tier: 0, metric: 'documents_classified', target: 1, requires: [] },
+    { id: 'note_taker', branch: 'knowledge', tier: 0, metric: 'notes_linked', target: 1, requires: [] },
+    { id: 'first_quest', branch: 'execution', tier: 0, metric: 'tasks_completed', target: 1, requires: [] },
+    { id: 'first_voice', branch: 'community', tier: 0, metric: 'feedback_given', target: 1, requires: [] },
+    { id: 'compliance_analyst', branch: 'governance', tier: 1, metric: 'documents_classified', target: 10, requires: ['policy_reader'] },
+    { id: 'knowledge_weaver', branch: 'knowledge', tier: 1, metric: 'notes_linked', target: 10, requires: ['note_taker'] },
+    { id: 'task_runner', branch: 'execution', tier: 1, metric: 'tasks_completed', target: 10, requires: ['first_quest'] },
+    { id: 'critic', branch: 'community', tier: 1, metric: 'feedback_given', target: 10, requires: ['first_voice'] },
+    { id: 'governance_architect', branch: 'governance', tier: 2, metric: 'documents_classified', target: 25, requires: ['compliance_analyst', 'knowledge_weaver'] },
+    { id: 'cartographer', branch: 'knowledge', tier: 2, metric: 'notes_linked', target: 30, requires: ['knowledge_weaver'] },
+    { id: 'project_lead', branch: 'execution', tier: 2, metric: 'tasks_completed', target: 25, requires: ['task_runner', 'compliance_analyst'] },
+    { id: 'coach', branch: 'community', tier: 2, metric: 'feedback_given', target: 25, requires: ['critic', 'task_runner'] },
+];
+
+// Completed branches make a member eligible; a Mentor confirms the promotion. The first matching entry from the top wins
+const ROLE_PROMOTIONS: { role: User['role']; branches: SkillBranch[]; }[] = [
+    { role: 'Pioneer', branches: SKILL_BRANCHES },
+    { role: 'Mentor', branches: ['knowledge', 'community'] },
+];
+
+const emptySkillLog = (): SkillLog => ({ documents_classified: [], notes_linked: [], tasks_completed: [], feedback_given: [] });
+
+const activityOf = (log?: Partial<SkillLog>): SkillActivity => {
+    const full = { ...emptySkillLog(), ...log };
+    return { documents_classified: full.documents_classified.length, notes_linked: full.notes_linked.length, tasks_completed: full.tasks_completed.length, feedback_given: full.feedback_given.length };
+};
+
+const unlockedSkills = (activity: SkillActivity) => {
+    const unlocked = new Set<SkillId>();
+    SKILL_TREE.forEach(node => {
+        if (activity[node.metric] >= node.target && node.requires.every(id => unlocked.has(id))) unlocked.add(node.id);
+    });
+    return unlocked;
+};
+
+const branchComplete = (branch: SkillBranch, unlocked: Set<SkillId>) => SKILL_TREE.filter(n => n.branch === branch).every(n => unlocked.has(n.id));
+
+const earnedRole = (unlocked: Set<SkillId>) => ROLE_PROMOTIONS.find(p => p.branches.every(b => branchComplete(b, unlocked)))?.role;
+
+// The earned role, if it is above the member's current one
+const pendingPromotion = (member: Pick<User, 'role'>, log?: Partial<SkillLog>) => {
+    const role = earnedRole(unlockedSkills(activityOf(log)));
+    return role && ROLE_RANK[role] > ROLE_RANK[member.role] ? role : undefined;
+};
+
+// --- FEEDBACK ANALYTICS ---
+type FeedbackRating = 'up' | 'down';
+type PromptVariant = 'baseline' | 'candidate';
+// The exchange is copied so feedback keeps its context after the chat is gone
+type FeedbackRecord = {
+    id: string;
+    agentId: string;
+    messageId: number;
+    userId: string;
+    rating: FeedbackRating;
+    comment: string;
+    question: string;
+    answer: string;
+    at: number;
+    experimentId?: string;
+    variant?: PromptVariant;
+};
+type ComplaintTheme = { label: string; summary: string; feedbackIds: string[]; };
+type PromptRevision = { systemPrompt: string; rationale: string; changes: string[]; };
+// While a test runs, each chat reply uses one of the two prompts at random; adopting the candidate replaces the persona prompt
+type PromptExperiment = { id: string; agentId: string; baseline: string; candidate: string; rationale: string; startedAt: number; endedAt?: number; winner?: PromptVariant; };
+
+const MAX_FEEDBACK = 1000;
+const APPROVAL_DAYS = 14;
+const WORST_EXCHANGES = 5;
+// Most recent complaints sent to the model for clustering and prompt revisions
+const MAX_COMPLAINTS = 40;
+const MAX_THEMES = 5;
+// Ratings per prompt before a test result is worth acting on
+const MIN_TEST_RATINGS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Chat message ids are their creation timestamps
+const feedbackFromChats = (chats: Record<string, Message[]>): FeedbackRecord[] => Object.entries(chats).flatMap(([agentId, msgs]) => msgs
+    .filter(m => m.role === 'model' && m.feedback)
+    .map(m => ({
+        id: `fb_${agentId}_${m.id}`, agentId, messageId: m.id, userId: '', rating: m.feedback!, comment: m.feedbackComment || '',
+        question: [...msgs].reverse().find(q => q.role === 'user' && q.id < m.id)?.text || '', answer: m.text, at: m.id,
+    })))
+    .sort((a, b) => b.at - a.at)
+    .slice(0, MAX_FEEDBACK);
+
+const approvalRate = (records: FeedbackRecord[]) => records.length ? records.filter(r => r.rating === 'up').length / records.length : null;
+
+// One bucket per calendar day, oldest first
+const approvalSeries = (records: FeedbackRecord[], days = APPROVAL_DAYS) => {
+    const today = new Date().setHours(0, 0, 0, 0);
+    return Array.from({ length: days }, (_, i) => {
+        const from = today - (days - 1 - i) * DAY_MS;
+        const day = records.filter(r => r.at >= from && r.at < from + DAY_MS);
+        return { from, count: day.length, rate: approvalRate(day) };
+    });
+};
+
+// Downvotes with a comment say the most, so they rank before bare ones
+const worstExchanges = (records: FeedbackRecord[]) => records
+    .filter(r => r.rating === 'down')
+    .sort((a, b) => Number(!!b.comment) - Number(!!a.comment) || b.at - a.at)
+    .slice(0, WORST_EXCHANGES);
+
+const recentComplaints = (records: FeedbackRecord[]) => records.filter(r => r.rating === 'down').sort((a, b) => b.at - a.at).slice(0, MAX_COMPLAINTS);
+
+const formatComplaints = (complaints: FeedbackRecord[]) => complaints.map((r, i) =>
+    `${i + 1}. Comment: ${r.comment || '(none)'}\n   User asked: ${clip(r.question, 200) || '(unknown)'}\n   Agent replied: ${clip(r.answer, 300)}`).join('\n');
+
+// Complaints are numbered in the prompt; the bounds keep the model to numbers that exist
+const themeSchema = (complaints: FeedbackRecord[]): JsonSchema => ({
+    type: 'object',
+    properties: {
+        themes: { type: 'array', items: { type: 'object', properties: {
+            label: { type: 'string', description: 'A short name for the complaint, e.g. "Too verbose".' },
+            summary: { type: 'string', description: 'What users criticise, in one sentence.' },
+            complaints: { type: 'array', items: { type: 'integer', minimum: 1, maximum: complaints.length, description: 'Number of a complaint with this theme.' } },
+        }, required: ['label', 'summary', 'complaints'] } },
+    },
+    required: ['themes'],
+});
+
+const buildThemeInstruction = () => [
+    'You analyse negative user feedback on an AI agent.',
+    `Group the numbered complaints below into at most ${MAX_THEMES} recurring themes. Every complaint belongs to at most one theme.`,
+].join('\n');
+
+// Complaint numbers are 1-based positions in the list the model was shown
+const toComplaintThemes = (raw: unknown, complaints: FeedbackRecord[]): ComplaintTheme[] => (isRecord(raw) && Array.isArray(raw.themes) ? raw.themes : [])
+    .filter(isRecord)
+    .flatMap((theme): ComplaintTheme[] => typeof theme.label === 'string' && theme.label.trim() ? [{
+        label: theme.label.trim(),
+        summary: typeof theme.summary === 'string' ? theme.summary : '',
+        feedbackIds: [...new Set((Array.isArray(theme.complaints) ? theme.complaints : []).flatMap((n: unknown) => {
+            const complaint = complaints[Number(n) - 1];
+            return complaint ? [complaint.id] : [];
+        }))],
+    }] : [])
+    .filter(theme => theme.feedbackIds.length)
+    .sort((a, b) => b.feedbackIds.length - a.feedbackIds.length)
+    .slice(0, MAX_THEMES);
+
+const revisionSchema: JsonSchema = {
+    type: 'object',
+    properties: {
+        systemPrompt: { type: 'string', description: 'The complete revised system prompt.' },
+        rationale: { type: 'string', description: 'Why the revision should be rated better, in one or two sentences.' },
+        changes: { type: 'array', items: { type: 'string', description: 'One concrete change and the complaint it addresses.' } },
+    },
+    required: ['systemPrompt', 'rationale', 'changes'],
+};
+
+const buildRevisionInstruction = (agent: Agent) => [
+    `You improve the system prompt of the AI agent "${agent.name}" (${agent.role}) based on negative user feedback.`,
+    'Keep its role, tone and everything users did not complain about. Address the recurring complaints with concrete instructions and return the complete revised prompt.',
+].join('\n');
+
+const buildRevisionContext = (agent: Agent, complaints: FeedbackRecord[], themes: ComplaintTheme[]) => [
+    `## Current system prompt\n${agent.persona.systemPrompt}`,
+    themes.length ? `## Complaint themes\n${themes.map(th => `- ${th.label} (${th.feedbackIds.length}): ${th.summary}`).join('\n')}` : '',
+    `## Complaints\n${formatComplaints(complaints)}`,
+].filter(Boolean).join('\n\n');
+
+const toPromptRevision = (raw: unknown): PromptRevision => {
+    const reply = isRecord(raw) ? raw : {};
+    const systemPrompt = typeof reply.systemPrompt === 'string' ? reply.systemPrompt.trim() : '';
+    if (!systemPrompt) throw new Error('The model did not propose a prompt.');
+    return {
+        systemPrompt,
+        rationale: typeof reply.rationale === 'string' ? reply.rationale : '',
+        changes: (Array.isArray(reply.changes) ? reply.changes : []).filter((c: unknown): c is string => typeof c === 'string' && !!c.trim()),
+    };
+};
+
+const runningExperiment = (experiments: PromptExperiment[], agentId: string) => experiments.find(e => e.agentId === agentId && !e.endedAt);
+
+const variantStats = (experiment: PromptExperiment, feedback: FeedbackRecord[], variant: PromptVariant) => {
+    const records = feedback.filter(r => r.experimentId === experiment.id && r.variant === variant);
+    return { count: records.length, rate: approvalRate(records) };
+};
+
+// --- GOVERNANCE CLASSIFIER ---
+type RiskSeverity = 'low' | 'medium' | 'high';
+type InitiativeScore = { initiativeId: string; title: string; relevance: number; rationale: string; evidence: string[]; };
+type RiskFlag = { label: string; severity: RiskSeverity; evidence: string; };
+type Classification = {
+    id: string;
+    text: string;
+    createdAt: number;
+    model: string;
+    summary: string;
+    scores: InitiativeScore[];
+    risks: RiskFlag[];
+    actions: string[];
+    links: string[]; // initiatives this document is filed under
+};
+type HighlightSegment = { text: string; kind?: 'evidence' | 'risk'; };
+
+const MAX_CLASSIFICATIONS = 200;
+// Relevance from which a classified document is filed under an initiative automatically
+const LINK_THRESHOLD = 0.5;
+const RISK_SEVERITIES: RiskSeverity[] = ['low', 'medium', 'high'];
+
+// Initiative titles are an enum so the model cannot score initiatives that were not selected
+const classificationSchema = (initiatives: GovernanceInitiative[]): JsonSchema => ({
+    type: 'object',
+    properties: {
+        summary: { type: 'string', description: 'One or two sentences on what the text is about.' },
+        scores: { type: 'array', items: { type: 'object', properties: {
+            initiative: { type: 'string', enum: initiatives.map(i => i.title) },
+            relevance: { type: 'number', minimum: 0, maximum: 1, description: '0 = unrelated, 1 = central to the initiative.' },
+            rationale: { type: 'string' },
+            evidence: { type: 'array', items: { type: 'string', description: 'Verbatim quote from the text.' } },
+        }, required: ['initiative', 'relevance', 'rationale', 'evidence'] } },
+        risks: { type: 'array', items: { type: 'object', properties: {
+            label: { type: 'string' },
+            severity: { type: 'string', enum: RISK_SEVERITIES },
+            evidence: { type: 'string', description: 'Verbatim quote from the text.' },
+        }, required: ['label', 'severity', 'evidence'] } },
+        actions: { type: 'array', items: { type: 'string', description: 'A recommended next action.' } },
+    },
+    required: ['summary', 'scores', 'risks', 'actions'],
+});
+
+const buildClassifierInstruction = (initiatives: GovernanceInitiative[]) => [
+    'You classify governance texts (policies, drafts, tickets) against the initiatives below.',
+    'Score the relevance of the text to every initiative, flag compliance, privacy, budget or reputational risks and recommend concrete actions.',
+    'Evidence must be copied verbatim from the text, in its original language, so it can be highlighted.',
+    `## Initiatives\n${initiatives.map(i => `- ${i.title}`).join('\n')}`,
+].join('\n\n');
+
+const autoLinks = (scores: InitiativeScore[]) => scores.filter(s => s.relevance >= LINK_THRESHOLD).map(s => s.initiativeId);
+
+// Normalizes whatever the model returned; every selected initiative gets a row, even if the model skipped it
+const toClassification = (raw: unknown, text: string, initiatives: GovernanceInitiative[], model: string): Classification => {
+    const reply = isRecord(raw) ? raw : {};
+    const strings = (value: unknown) => Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string' && !!v.trim()) : [];
+    const records = (value: unknown) => Array.isArray(value) ? value.filter(isRecord) : [];
+    const rawScores = records(reply.scores);
+    const scores: InitiativeScore[] = initiatives.map(initiative => {
+        const score = rawScores.find(s => typeof s.initiative === 'string' && s.initiative.trim().toLowerCase() === initiative.title.toLowerCase());
+        const relevance = Number(score?.relevance) || 0;
+        return {
+            initiativeId: initiative.id,
+            title: initiative.title,
+            // Some models answer in percent despite the schema
+            relevance: Math.min(1, Math.max(0, relevance > 1 ? relevance / 100 : relevance)),
+            rationale: typeof score?.rationale === 'string' ? score.rationale : '',
+            evidence: strings(score?.evidence),
+        };
+    }).sort((a, b) => b.relevance - a.relevance);
+    return {
+        id: `cl_${randomHex(6)}`,
+        text,
+        createdAt: Date.now(),
+        model,
+        summary: typeof reply.summary === 'string' ? reply.summary : '',
+        scores,
+        links: autoLinks(scores),
+        risks: records(reply.risks).flatMap(r => typeof r.label === 'string' ? [{
+            label: r.label,
+            severity: RISK_SEVERITIES.find(s => s === r.severity) || 'medium',
+            evidence: typeof r.evidence === 'string' ? r.evidence : '',
+        }] : []),
+        actions: strings(reply.actions),
+    };
+};
+
+// Mean KPI attainment; without KPIs only a completed initiative counts as done
+const initiativeProgress = (initiative: GovernanceInitiative) => {
+    const kpis = initiative.kpis.filter(k => k.target > 0);
+    if (initiative.status === 'completed') return 1;
+    if (!kpis.length) return 0;
+    return kpis.reduce((sum, k) => sum + Math.min(1, Math.max(0, k.current / k.target)), 0) / kpis.length;
+};
+
+const isOverdue = (initiative: GovernanceInitiative) =>
+    !!initiative.deadline && initiative.status !== 'completed' && new Date(`${initiative.deadline}T23:59:59`).getTime() < Date.now();
+
+const findQuote = (text: string, quote: string) => quote.trim() ? text.toLowerCase().indexOf(quote.trim().toLowerCase()) : -1;
+
+// Splits the text into plain and highlighted runs; risk quotes win where they overlap evidence
+const highlightSegments = (text: string, classification: Classification): HighlightSegment[] => {
+    const kinds: HighlightSegment['kind'][] = new Array(text.length).fill(undefined);
+    const mark = (quote: string, kind: 'evidence' | 'risk') => {
+        const start = findQuote(text, quote);
+        if (start < 0) return;
+        for (let i = start; i < start + quote.trim().length; i++) if (kinds[i] !== 'risk') kinds[i] = kind;
+    };
+    classification.scores.forEach(s => s.evidence.forEach(q => mark(q, 'evidence')));
+    classification.risks.forEach(r => mark(r.evidence, 'risk'));
+    const segments: HighlightSegment[] = [];
+    for (let i = 0; i < text.length; i++) {
+        const last = segments[segments.length - 1];
+        if (last && last.kind === kinds[i]) last.text += text[i];
+        else segments.push({ text: text[i], kind: kinds[i] });
+    }
+    return segments;
+};
+
+// Cells that a spreadsheet would read as a formula (including a leading tab or carriage return) are prefixed with an apostrophe
+const csvCell = (value: string | number) => {
+    const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per classification and initiative, the shape governance reports pivot on
+const classificationsToCsv = (classifications: Classification[]) => {
+    const header = ['date', 'classification_id', 'model', 'text', 'initiative', 'relevance', 'rationale', 'evidence', 'risks', 'actions'];
+    const rows = classifications.flatMap(c => c.scores.map(s => [
+        new Date(c.createdAt).toISOString(), c.id, c.model, clip(c.text, 300), s.title, s.relevance.toFixed(2), s.rationale,
+        s.evidence.join(' | '), c.risks.map(r => `[${r.severity}] ${r.label}`).join(' | '), c.actions.join(' | '),
+    ]));
+    return [header, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+};
+
+const downloadBlob = (filename: string, blob: Blob) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    a.click();
+    // Some browsers start the download only after click() returns
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const downloadText = (filename: string, content: string, mime: string) => downloadBlob(filename, new Blob([content], { type: mime }));
+
+// --- VOICE ---
+// Web Speech API: recognition exists in Chromium and Safari only, synthesis almost everywhere
+const SPEECH_LOCALES: Record<Language, string> = { en: 'en-US', de: 'de-DE' };
+
+const getSpeechRecognition = () => window.SpeechRecognition || window.webkitSpeechRecognition;
+const canSynthesize = () => 'speechSynthesis' in window;
+
+// Markdown, code and citation markers read badly aloud
+const toSpeakableText = (text: string) =>
+    text.replace(/```[\s\S]*?```/g, ' ').replace(/\[\d+\]/g, '').replace(/[*_#>`|]/g, '').replace(/\s+/g, ' ').trim();
+
+// An unknown or empty voiceURI falls back to the browser default for the language
+const speak = (text: string, lang: Language, voiceURI = '', onEnd?: () => void) => {
+    if (!canSynthesize()) { onEnd?.(); return; }
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(toSpeakableText(text));
+    utterance.voice = window.speechSynthesis.getVoices().find(v => v.voiceURI === voiceURI) || null;
+    utterance.lang = utterance.voice?.lang || SPEECH_LOCALES[lang];
+    utterance.onend = utterance.onerror = () => onEnd?.();
+    window.speechSynthesis.speak(utterance);
+};
+
+const stopSpeaking = () => { if (canSynthesize()) window.speechSynthesis.cancel(); };
+
+// Chrome loads voices asynchronously and announces them with voiceschanged
+const useVoices = () => {
+    const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+    useEffect(() => {
+        if (!canSynthesize()) return;
+        const load = () => setVoices(window.speechSynthesis.getVoices());
+        load();
+        window.speechSynthesis.addEventListener('voiceschanged', load);
+        return () => window.speechSynthesis.removeEventListener('voiceschanged', load);
+    }, []);
+    return voices;
+};
+
+// start() listens for one utterance (push-to-talk) or, with continuous, until stop().
+// Browsers end sessions after a silence, so continuous sessions restart themselves.
+const useSpeechRecognition = (lang: Language, onFinal: (text: string) => void) => {
+    const Recognition = getSpeechRecognition();
+    const [listening, setListening] = useState(false);
+    const [error, setError] = useState<'denied' | 'failed' | null>(null);
+    const recognition = useRef<Recognizer | null>(null);
+    const keepAlive = useRef(false);
+    const onFinalRef = useRef(onFinal);
+    onFinalRef.current = onFinal;
+
+    const start = useCallback((continuous = false) => {
+        if (!Recognition || recognition.current) return;
+        const r = new Recognition();
+        r.lang = SPEECH_LOCALES[lang];
+        r.continuous = continuous;
+        r.interimResults = false;
+        r.onresult = e => {
+            for (let i = e.resultIndex; i < e.results.length; i++) {
+                const text = e.results[i][0].transcript.trim();
+                if (e.results[i].isFinal && text) onFinalRef.current(text);
+            }
+        };
+        // 'no-speech' and 'aborted' are routine; a blocked microphone ends continuous mode
+        r.onerror = e => {
+            if (e.error === 'not-allowed' || e.error === 'service-not-allowed') { keepAlive.current = false; setError('denied'); }
+            else if (e.error !== 'no-speech' && e.error !== 'aborted') setError('failed');
+        };
+        r.onend = () => {
+            recognition.current = null;
+            if (keepAlive.current) start(true);
+            else setListening(false);
+        };
+        recognition.current = r;
+        keepAlive.current = continuous;
+        setError(null);
+        setListening(true);
+        r.start();
+    }, [Recognition, lang]);
+
+    const stop = useCallback(() => {
+        keepAlive.current = false;
+        recognition.current?.stop();
+    }, []);
+
+    useEffect(() => () => { keepAlive.current = false; recognition.current?.abort(); }, []);
+
+    return { supported: !!Recognition, listening, error, start, stop };
+};
+
+// --- PLUGINS ---
+// Plugins run in a sandboxed iframe with an opaque origin and only reach the app through the host methods below
+type PluginPermission = 'workspace:read' | 'llm' | 'notes:write' | 'network';
+type PluginContributions = {
+    tabs: { id: string; title: string; }[];
+    actions: { id: string; title: string; input?: string; }[]; // input: placeholder of an optional text field
+    tools: { id: string; description: string; }[];
+};
+type PluginManifest = {
+    id: string;
+    name: string;
+    version: string;
+    description: string;
+    main: string; // script path relative to the manifest
+    engines: { lumina: string }; // plugin API range, e.g. "^1.0.0"
+    permissions: PluginPermission[];
+    contributes: PluginContributions;
+};
+// codeHash is the SHA-256 of the code as installed; a plugin whose stored code no longer matches is not started
+type LoadedPlugin = { manifest: PluginManifest; code: string; codeHash: string; source: string; };
+type Extension = LoadedPlugin & { id: string; enabled: boolean; installedAt: number; };
+type PluginState = { state: 'starting' | 'running' | 'error' | 'incompatible'; error?: string; };
+// A contribution of a running plugin as the app lists it; key is unique across plugins
+type PluginContribution = { key: string; pluginId: string; id: string; title: string; input?: string; };
+type PluginHook = 'activate' | 'deactivate' | 'tab' | 'action' | 'tool';
+type PluginBlock =
+    | { type: 'heading'; text: string; }
+    | { type: 'text'; text: string; }
+    | { type: 'metric'; label: string; value: string; }
+    | { type: 'list'; items: string[]; }
+    | { type: 'table'; columns: string[]; rows: string[][]; }
+    | { type: 'button'; id: string; label: string; };
+// Read-only copy of the workspace handed to plugins with workspace:read
+type PluginWorkspace = {
+    agents: { id: string; name: string; role: string; type: string; status: string; }[];
+    notes: { id: string; title: string; content: string; updatedAt: number; }[];
+    sources: { id: string; title: string; type: string; size: number; }[];
+    initiatives: { id: string; title: string; status: string; deadline: string; }[];
+    openTasks: number;
+};
+type PluginHostApi = {
+    snapshot: () => PluginWorkspace;
+    generate: (prompt: string, system?: string) => Promise<string>;
+    createNote: (title: string, content: string) => void;
+};
+
+const PLUGIN_API_VERSION = '1.0.0';
+const PLUGIN_PERMISSIONS: PluginPermission[] = ['workspace:read', 'llm', 'notes:write', 'network'];
+const PLUGIN_CALL_TIMEOUT_MS = 30000;
+const MAX_TOOL_ROUNDS = 3;
+
+// Shipped in public/plugins and installed like any other plugin URL
+const PLUGIN_CATALOG = [
+    { url: '/plugins/github-sync/manifest.json', name: 'GitHub Sync', description: 'Commit digests and a commit lookup tool for agents.' },
+    { url: '/plugins/workspace-stats/manifest.json', name: 'Workspace Stats', description: 'A module with note and source statistics.' },
+];
+
+// Host method -> permission it needs (null: always allowed)
+const PLUGIN_HOST_METHODS: Record<string, PluginPermission | null> = {
+    'workspace.snapshot': 'workspace:read',
+    'llm.generate': 'llm',
+    'notes.create': 'notes:write',
+    log: null,
+};
+
+const parseVersion = (version: string) => {
+    const m = version.trim().match(/^(\d+)\.(\d+)\.(\d+)$/);
+    return m ? [Number(m[1]), Number(m[2]), Number(m[3])] : null;
+};
+
+const compareVersions = (a: string, b: string) => {
+    const [va, vb] = [parseVersion(a) || [0, 0, 0], parseVersion(b) || [0, 0, 0]];
+    return va[0] - vb[0] || va[1] - vb[1] || va[2] - vb[2];
+};
+
+// Supports exact, ">=", "^" and "~" ranges, which is all manifests need
+const satisfiesRange = (version: string, range: string) => {
+    const m = range.trim().match(/^(\^|~|>=)?\s*(\d+\.\d+\.\d+)$/);
+    const v = parseVersion(version);
+    if (!m || !v) return false;
+    const base = parseVersion(m[2])!;
+    const cmp = compareVersions(version, m[2]);
+    switch (m[1]) {
+        case '>=': return cmp >= 0;
+        case '^': return cmp >= 0 && (base[0] > 0 ? v[0] === base[0] : v[0] === 0 && v[1] === base[1]);
+        case '~': return cmp >= 0 && v[0] === base[0] && v[1] === base[1];
+        default: return cmp === 0;
+    }
+};
+
+const isPluginCompatible = (manifest: PluginManifest) => satisfiesRange(PLUGIN_API_VERSION, manifest.engines.lumina);
+
+const isPluginPermission = (value: unknown): value is PluginPermission => PLUGIN_PERMISSIONS.some(p => p === value);
+
+const validateManifest = (raw: unknown): PluginManifest => {
+    const fail = (reason: string): never => { throw new Error(`Invalid plugin manifest: ${reason}.`); };
+    if (!isRecord(raw)) return fail('not a JSON object');
+    const { id, name, version, engines, contributes } = raw;
+    if (typeof id !== 'string' || !/^[a-z0-9][a-z0-9-]{1,40}$/.test(id)) return fail('"id" must be lowercase letters, digits and dashes');
+    if (typeof name !== 'string' || !name.trim()) return fail('"name" is missing');
+    if (typeof version !== 'string' || !parseVersion(version)) return fail('"version" must look like 1.2.3');
+    if (!isRecord(engines) || typeof engines.lumina !== 'string') return fail('"engines.lumina" is missing');
+    const permissions: unknown[] = Array.isArray(raw.permissions) ? raw.permissions : [];
+    const unknown = permissions.filter(p => !isPluginPermission(p));
+    if (unknown.length) fail(`unknown permission ${unknown.join(', ')}`);
+    const list = (key: keyof PluginContributions, fields: string[]) => {
+        const items: unknown[] = isRecord(contributes) && Array.isArray(contributes[key]) ? contributes[key] : [];
+        const entries = items.filter(isRecord);
+        if (entries.length !== items.length || entries.some(item => fields.some(f => typeof item[f] !== 'string') || !/^[a-z0-9_-]+$/.test(String(item.id)))) fail(`every "contributes.${key}" entry needs ${fields.join(' and ')}`);
+        return entries;
+    };
+    const manifest: PluginManifest = {
+        id,
+        name: name.trim(),
+        version,
+        description: typeof raw.description === 'string' ? raw.description : '',
+        main: typeof raw.main === 'string' ? raw.main : 'main.js',
+        engines: { lumina: engines.lumina },
+        permissions: permissions.filter(isPluginPermission),
+        contributes: {
+            tabs: list('tabs', ['id', 'title']).map(item => ({ id: String(item.id), title: String(item.title) })),
+            actions: list('actions', ['id', 'title']).map(item => ({ id: String(item.id), title: String(item.title), input: typeof item.input === 'string' ? item.input : undefined })),
+            tools: list('tools', ['id', 'description']).map(item => ({ id: String(item.id), description: String(item.description) })),
+        },
+    };
+    if (!isPluginCompatible(manifest)) throw new Error(`${manifest.name} ${manifest.version} needs plugin API ${manifest.engines.lumina}; this Lumina OS provides ${PLUGIN_API_VERSION}.`);
+    return manifest;
+};
+
+const sha256Hex = async (text: string) =>
+    Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))), b => b.toString(16).padStart(2, '0')).join('');
+
+const loadPluginFromUrl = async (url: string): Promise<LoadedPlugin> => {
+    const manifestUrl = new URL(url, window.location.href);
+    const res = await fetch(manifestUrl);
+    if (!res.ok) throw new Error(`Could not load ${manifestUrl.href} (${res.status}).`);
+    const manifest = validateManifest(await res.json().catch(() => null));
+    const main = await fetch(new URL(manifest.main, manifestUrl));
+    if (!main.ok) throw new Error(`Could not load the plugin script ${manifest.main} (${main.status}).`);
+    const code = await main.text();
+    return { manifest, code, codeHash: await sha256Hex(code), source: manifestUrl.href };
+};
+
+// Folder pickers report paths like "my-plugin/manifest.json"; the shallowest manifest wins
+const loadPluginFromFolder = async (files: File[]): Promise<LoadedPlugin> => {
+    const depth = (f: File) => f.webkitRelativePath.split('/').length;
+    const manifestFile = files.filter(f => f.name === 'manifest.json').sort((a, b) => depth(a) - depth(b))[0];
+    if (!manifestFile) throw new Error('The folder has no manifest.json.');
+    const dir = manifestFile.webkitRelativePath.slice(0, -'manifest.json'.length);
+    const manifest = validateManifest(await manifestFile.text().then(JSON.parse).catch(() => null));
+    const main = files.find(f => f.webkitRelativePath === `${dir}${manifest.main.replace(/^\.\//, '')}`);
+    if (!main) throw new Error(`The folder has no ${manifest.main}.`);
+    const code = await main.text();
+    return { manifest, code, codeHash: await sha256Hex(code), source: `folder:${dir.replace(/\/$/, '')}` };
+};
+
+// Runs inside the sandbox frame before the plugin code. The frame has an opaque origin, so the workspace
+// database and storage are out of reach; its CSP blocks network access unless the plugin holds "network".
+const PLUGIN_PRELUDE = String.raw`
+const pending = new Map();
+let seq = 0;
+let definition = null;
+const toHost = (msg) => parent.postMessage(msg, '*');
+const deny = (what) => () => { throw new Error(what + ' is not available to plugins.'); };
+for (const name of ['indexedDB', 'caches', 'BroadcastChannel', 'localStorage', 'sessionStorage', 'Worker', 'SharedWorker', 'importScripts', 'WebTransport']) Object.defineProperty(self, name, { get: deny(name) });
+if (!NETWORK) {
+    self.fetch = () => Promise.reject(new Error('This plugin has no "network" permission.'));
+    for (const name of ['XMLHttpRequest', 'WebSocket', 'EventSource']) Object.defineProperty(self, name, { get: deny(name) });
+}
+const host = (method, ...args) => new Promise((resolve, reject) => {
+    const id = ++seq;
+    pending.set(id, { resolve, reject });
+    toHost({ kind: 'host', id, method, args });
+});
+self.lumina = Object.freeze({
+    apiVersion: API_VERSION,
+    definePlugin: (def) => { definition = def; },
+    workspace: { snapshot: () => host('workspace.snapshot') },
+    llm: { generate: (prompt, system) => host('llm.generate', String(prompt), system === undefined ? undefined : String(system)) },
+    notes: { create: (title, content) => host('notes.create', String(title), String(content)) },
+    log: (...parts) => host('log', parts.map(String).join(' ')),
+});
+self.addEventListener('error', (event) => toHost({ kind: 'crash', error: event.message || 'The plugin crashed.' }));
+self.addEventListener('message', async (event) => {
+    if (event.source !== parent) return;
+    const msg = event.data;
+    if (msg.kind === 'host-result') {
+        const call = pending.get(msg.id);
+        pending.delete(msg.id);
+        if (call) msg.error ? call.reject(new Error(msg.error)) : call.resolve(msg.value);
+        return;
+    }
+    if (msg.kind !== 'invoke') return;
+    try {
+        if (!definition) throw new Error('The plugin never called lumina.definePlugin().');
+        const lifecycle = msg.hook === 'activate' || msg.hook === 'deactivate';
+        const fn = lifecycle ? definition[msg.hook] : (definition[msg.hook + 's'] || {})[msg.name];
+        if (!fn && !lifecycle) throw new Error('No ' + msg.hook + ' handler named "' + msg.name + '".');
+        const value = fn ? await fn(msg.payload) : null;
+        toHost({ kind: 'result', id: msg.id, value: value === undefined ? null : JSON.parse(JSON.stringify(value)) });
+    } catch (e) {
+        toHost({ kind: 'result', id: msg.id, error: (e && e.message) || String(e) });
+    }
+});
+try {
+    new Function('"use strict";\n' + CODE)();
+    toHost({ kind: 'ready' });
+} catch (e) {
+    toHost({ kind: 'crash', error: (e && e.message) || String(e) });
+}
+`;
+
+// JSON with "<" escaped cannot close the script element it is embedded in
+const scriptLiteral = (value: unknown) => JSON.stringify(value).replace(/</g, '\\u003c');
+
+const buildSandboxDocument = (plugin: Extension) => {
+    const network = plugin.manifest.permissions.includes('network');
+    const csp = `default-src 'none'; script-src 'unsafe-inline' 'unsafe-eval'; connect-src ${network ? '*' : "'none'"}`;
+    return `<!doctype html><meta http-equiv="Content-Security-Policy" content="${csp}"><script>\n"use strict";\nconst NETWORK = ${network};\nconst API_VERSION = ${scriptLiteral(PLUGIN_API_VERSION)};\nconst CODE = ${scriptLiteral(plugin.code)};\n${PLUGIN_PRELUDE}</script>`;
+};
+
+class PluginSandbox {
+    private frame: HTMLIFrameElement | null = null;
+    private ready: Promise<void>;
+    private loaded: { resolve: () => void; reject: (error: Error) => void; } | null = null;
+    private disposed = false;
+    private seq = 0;
+    private pending = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void; timer: number; }>();
+
+    constructor(readonly plugin: Extension, private api: () => PluginHostApi, private onCrash: (error: string) => void) {
+        this.ready = this.start();
+        this.ready.catch(() => {});
+    }
+
+    private readonly onMessage = (e: MessageEvent) => {
+        if (this.frame && e.source === this.frame.contentWindow) this.handle(e.data);
+    };
+
+    private async start() {
+        if (await sha256Hex(this.plugin.code) !== this.plugin.codeHash) throw new Error('The plugin code changed after it was installed. Reinstall the plugin to run it.');
+        if (this.disposed) throw new Error('The plugin was stopped.');
+        const frame = document.createElement('iframe');
+        frame.sandbox.add('allow-scripts');
+        frame.style.display = 'none';
+        frame.srcdoc = buildSandboxDocument(this.plugin);
+        this.frame = frame;
+        window.addEventListener('message', this.onMessage);
+        await new Promise<void>((resolve, reject) => {
+            this.loaded = { resolve, reject };
+            document.body.appendChild(frame);
+        });
+    }
+
+    private post(msg: object) {
+        this.frame?.contentWindow?.postMessage(msg, '*');
+    }
+
+    invoke(hook: PluginHook, name = '', payload?: unknown, timeoutMs = PLUGIN_CALL_TIMEOUT_MS): Promise<unknown> {
+        const id = ++this.seq;
+        return new Promise((resolve, reject) => {
+            const timer = window.setTimeout(() => {
+                this.pending.delete(id);
+                reject(new Error(`${this.plugin.manifest.name} did not answer within ${timeoutMs / 1000}s.`));
+            }, timeoutMs);
+            this.pending.set(id, { resolve, reject, timer });
+            this.ready.then(() => this.post({ kind: 'invoke', id, hook, name, payload }), (error: Error) => {
+                this.pending.delete(id);
+                clearTimeout(timer);
+                reject(error);
+            });
+        });
+    }
+
+    private async handle(msg: unknown) {
+        if (!isRecord(msg)) return;
+        if (msg.kind === 'ready') {
+            this.loaded?.resolve();
+        } else if (msg.kind === 'crash') {
+            const error = String(msg.error || 'The plugin crashed.');
+            this.loaded?.reject(new Error(error));
+            this.onCrash(error);
+        } else if (msg.kind === 'result' && typeof msg.id === 'number') {
+            const call = this.pending.get(msg.id);
+            if (!call) return;
+            this.pending.delete(msg.id);
+            clearTimeout(call.timer);
+            if (msg.error) call.reject(new Error(String(msg.error)));
+            else call.resolve(msg.value);
+        } else if (msg.kind === 'host') {
+            try {
+                const value = await this.callHost(String(msg.method), Array.isArray(msg.args) ? msg.args : []);
+                this.post({ kind: 'host-result', id: msg.id, value: value ?? null });
+            } catch (e) {
+                this.post({ kind: 'host-result', id: msg.id, error: e instanceof Error ? e.message : 'Host call failed.' });
+            }
+        }
+    }
+
+    private async callHost(method: string, args: unknown[]) {
+        const permission = PLUGIN_HOST_METHODS[method];
+        if (permission === undefined) throw new Error(`Unknown host method "${method}".`);
+        if (permission && !this.plugin.manifest.permissions.includes(permission)) throw new Error(`Permission "${permission}" was not requested in the manifest.`);
+        const api = this.api();
+        switch (method) {
+            case 'workspace.snapshot': return api.snapshot();
+            case 'llm.generate': return api.generate(String(args[0] ?? ''), args[1] === undefined ? undefined : String(args[1]));
+            case 'notes.create': return api.createNote(String(args[0] ?? 'Untitled'), String(args[1] ?? ''));
+            case 'log': console.info(`[Plugin ${this.plugin.id}]`, String(args[0] ?? ''));
+        }
+    }
+
+    // deactivate gets a short grace period; a hung plugin is removed regardless
+    async dispose() {
+        this.disposed = true;
+        if (this.frame) await this.invoke('deactivate', '', undefined, 1000).catch(() => {});
+        window.removeEventListener('message', this.onMessage);
+        this.frame?.remove();
+        this.pending.forEach(call => { clearTimeout(call.timer); call.reject(new Error('The plugin was stopped.')); });
+        this.pending.clear();
+    }
+}
+
+// Plugin views are data, never markup: unknown blocks are dropped and every value is stringified
+const sanitizeBlocks = (raw: unknown): PluginBlock[] => (Array.isArray(raw) ? raw : []).filter(isRecord).flatMap((b): PluginBlock[] => {
+    const str = (v: unknown) => v === undefined || v === null ? '' : String(v);
+    switch (b.type) {
+        case 'heading': case 'text': return [{ type: b.type, text: str(b.text) }];
+        case 'metric': return [{ type: 'metric', label: str(b.label), value: str(b.value) }];
+        case 'list': return [{ type: 'list', items: (Array.isArray(b.items) ? b.items : []).map(str) }];
+        case 'table': return [{ type: 'table', columns: (Array.isArray(b.columns) ? b.columns : []).map(str), rows: (Array.isArray(b.rows) ? b.rows : []).map((r: unknown) => (Array.isArray(r) ? r : []).map(str)) }];
+        case 'button': return [{ type: 'button', id: str(b.id), label: str(b.label) }];
+        default: return [];
+    }
+});
+
+// Agent tool protocol: the model answers with a single <tool> tag and gets the output back as a user turn
+const buildToolInstruction = (tools: { name: string; description: string; }[]) => !tools.length ? '' : [
+    'You can use tools. To call one, answer with nothing but <tool name="TOOL">input</tool>; the result is sent back to you as <tool_result>.',
+    ...tools.map(tool => `- ${tool.name}: ${tool.description}`),
+].join('\n');
+
+const parseToolCall = (text: string) => {
+    const m = text.match(/<tool name="([\w.-]+)">([\s\S]*?)<\/tool>/);
+    return m ? { name: m[1], input: m[2].trim() } : null;
+};
+
+const formatToolResult = (name: string, output: string) => `<tool_result name="${name}">\n${output}\n</tool_result>`;
+
+// --- SERVICE LAYER ---
+type AppData = {
+    sources: Source[];
+    agents: Agent[];
+    extensions: Extension[];
+    initiatives: GovernanceInitiative[];
+    agentChats: Record<string, Message[]>;
+    llmSettings: LLMSettings;
+    files: FileNode[];
+    notes: Note[];
+    integrationSettings: IntegrationSettings;
+    integrationEvents: IntegrationEvent[];
+    routingRules: RoutingRule[];
+    agentTasks: AgentTask[];
+    compatibilityRules: CompatibilityRule[];
+    pipelines: Pipeline[];
+    pipelineRuns: PipelineRun[];
+    classifications: Classification[];
+    projectTasks: ProjectTask[];
+    milestones: Milestone[];
+    stickyNotes: StickyNote[];
+    ledger: LedgerEntry[];
+    focusBudgets: Record<string, number>; // daily Focus per user id; unset users get the default
+    skillActivity: Record<string, SkillLog>; // per user id
+    feedback: FeedbackRecord[];
+    promptExperiments: PromptExperiment[];
+};
+type AppDataKey = keyof AppData;
+
+// Distinct default voices for the seeded swarm; unknown agents fall back to their type
+const PERSONA_PRESETS: Record<string, Omit<AgentPersona, 'model'>> = {
+    'Logic-Bot': { temperature: 0.2, systemPrompt: 'You are Logic-Bot, an analytical tutor. Reason step by step, show intermediate results and point out assumptions. Prefer precise, verifiable answers.' },
+    'Muse': { temperature: 0.9, systemPrompt: 'You are Muse, a creative collaborator. Offer bold ideas, vivid language and several alternatives. Build on what the user already tried.' },
+    'Archivist': { temperature: 0.3, systemPrompt: 'You are Archivist, the librarian. Organize information, summarize faithfully and name where knowledge comes from. Keep answers structured.' },
+    'Sentinel': { temperature: 0.2, systemPrompt: 'You are Sentinel, the flow guard. Watch for risks, policy issues and security concerns. Be brief and flag anything that needs a human.' },
+};
+
+const defaultPersona = (agent: Pick<Agent, 'name' | 'role' | 'type'>): AgentPersona => ({
+    model: '',
+    ...(PERSONA_PRESETS[agent.name] || { temperature: agent.type === 'creative' ? 0.8 : 0.4, systemPrompt: `You are ${agent.name}, the ${agent.role} agent of Lumina OS.` }),
+});
+type StoredState = Partial<AppData> & { meta?: { schemaVersion: number }; accounts?: Account[]; sessions?: Session[] };
+
+const SEED_DATA: AppData = {
+    sources: [
+        { id: 's1', title: 'Calculus 101 Notes', type: 'pdf', content: 'Derivatives...', chunks: [], size: 14, addedAt: 0 },
+    ],
+    agents: ([
+        { id: 'a1', name: 'Logic-Bot', role: 'Tutor', status: 'Idle', type: 'analyst', load: 0, energy: 100, cooldown: 0, currentTask: 'Waiting for tasks', zoneId: 'dashboard' },
+        { id: 'a2', name: 'Muse', role: 'Artist', status: 'Idle', type: 'creative', load: 0, energy: 100, cooldown: 0, currentTask: 'Waiting for tasks', zoneId: 'studio' },
+        { id: 'a3', name: 'Archivist', role: 'Librarian', status: 'Idle', type: 'manager', load: 0, energy: 100, cooldown: 0, currentTask: 'Waiting for tasks', zoneId: 'files' },
+        { id: 'a4', name: 'Sentinel', role: 'Flow Guard', status: 'Idle', type: 'security', load: 0, energy: 100, cooldown: 0, currentTask: 'Waiting for tasks', zoneId: 'chat' }
+    ] as Omit<Agent, 'persona'>[]).map(a => ({ ...a, persona: defaultPersona(a) })),
+    extensions: [],
+    initiatives: [
+        { id: 'i1', title: 'Sustainability 2025', description: 'Cut the campus carbon footprint and move teaching material online.', owner: '', deadline: '2025-12-31', status: 'active', kpis: [{ id: 'k1', name: 'Paperless courses', current: 0, target: 40, unit: 'courses' }], history: [{ status: 'active', at: 0, by: 'System' }], createdAt: 0 },
+        { id: 'i2', title: 'GDPR Compliance', description: 'Review data processing in all student-facing services.', owner: '', deadline: '', status: 'planned', kpis: [], history: [{ status: 'planned', at: 0, by: 'System' }], createdAt: 0 },
+        { id: 'i3', title: 'Campus Diversity', description: '', owner: '', deadline: '', status: 'active', kpis: [], history: [{ status: 'active', at: 0, by: 'System' }], createdAt: 0 },
+        { id: 'i4', title: 'Budget Optimization', description: '', owner: '', deadline: '', status: 'planned', kpis: [], history: [{ status: 'planned', at: 0, by: 'System' }], createdAt: 0 }
+    ],
+    agentChats: {},
+    llmSettings: defaultLLMSettings(),
+    files: [
+        { id: 'f1', parentId: null, name: 'Course Material', type: 'folder', size: '-', date: '2025-01-01T00:00:00.000Z', perm: 'rw' },
+        { id: 'f2', parentId: null, name: 'Governance', type: 'folder', size: '-', date: '2025-01-01T00:00:00.000Z', perm: 'rw' },
+        { id: 'f3', parentId: 'f2', name: 'Policies (read-only)', type: 'folder', size: '-', date: '2025-01-01T00:00:00.000Z', perm: 'r-' },
+        { id: 'f4', parentId: null, name: 'Shared', type: 'folder', size: '-', date: '2025-01-01T00:00:00.000Z', perm: 'rw' }
+    ],
+    notes: [],
+    integrationSettings: defaultIntegrationSettings(),
+    integrationEvents: [],
+    routingRules: [
+        { id: 'r1', name: 'Urgent to a human', enabled: true, channels: [], keywords: ['urgent', 'complaint', 'emergency'], action: 'escalate', agentId: '', replyText: '' },
+        { id: 'r2', name: 'Homework help', enabled: true, channels: [], keywords: ['exam', 'homework', 'exercise'], action: 'route', agentId: 'a1', replyText: '' }
+    ],
+    agentTasks: [],
+    // The pairs AgentSwarm3D used to hardcode, plus analyst-creative for the digest pipeline
+    compatibilityRules: [
+        { id: 'c1', a: 'analyst', b: 'manager' },
+        { id: 'c2', a: 'creative', b: 'creative' },
+        { id: 'c3', a: 'analyst', b: 'creative' }
+    ],
+    pipelines: [
+        { id: 'p1', name: 'Source Digest', steps: [
+            { agentId: 'a3', instruction: 'Index this material: list its key topics, terms and structure.' },
+            { agentId: 'a1', instruction: 'Analyze the indexed material: check the central claims, find gaps and list open questions.' },
+            { agentId: 'a2', instruction: 'Draft a readable summary for students based on this analysis.' }
+        ] }
+    ],
+    pipelineRuns: [],
+    classifications: [],
+    projectTasks: [],
+    // The classic project phases as a starting structure
+    milestones: [
+        { id: 'm1', title: 'Initiation', dueDate: '' },
+        { id: 'm2', title: 'Planning', dueDate: '' },
+        { id: 'm3', title: 'Execution', dueDate: '' },
+        { id: 'm4', title: 'Closure', dueDate: '' }
+    ],
+    stickyNotes: [],
+    ledger: [],
+    focusBudgets: {},
+    skillActivity: {},
+    feedback: [],
+    promptExperiments: []
+};
+
+// Schema Migrations: each step upgrades stored state from version - 1 to version
+const MIGRATIONS: { version: number; migrate: (state: StoredState) => StoredState }[] = [
+    { version: 1, migrate: (state) => ({ ...SEED_DATA, ...state }) },
+    { version: 2, migrate: (state) => ({ accounts: [], sessions: [], ...state }) },
+    { version: 3, migrate: (state) => ({ ...state, agents: state.agents?.map(a => a.persona ? a : { ...a, persona: defaultPersona(a) }) }) },
+    { version: 4, migrate: (state) => ({
+        ...state,
+        llmSettings: state.llmSettings || defaultLLMSettings(),
+        // Persona models now override the configured chat model instead of always naming a Gemini model
+        agents: state.agents?.map(a => a.persona.model === 'gemini-3-flash-preview' ? { ...a, persona: { ...a.persona, model: '' } } : a),
+    }) },
+    { version: 5, migrate: (state) => ({
+        ...state,
+        sources: state.sources?.map(src => ({ ...src, size: src.size ?? src.content.length, addedAt: src.addedAt ?? 0, chunks: chunkText(src.id, src.content) })),
+    }) },
+    { version: 6, migrate: (state) => {
+        if (!state.llmSettings) return state;
+        const defaults = defaultLLMSettings();
+        return { ...state, llmSettings: { ...defaults, ...state.llmSettings, features: { ...defaults.features, ...state.llmSettings.features } } };
+    } },
+    { version: 7, migrate: (state) => ({ files: SEED_DATA.files, ...state }) },
+    { version: 8, migrate: (state) => ({ notes: [], ...state }) },
+    { version: 9, migrate: (state) => ({ integrationSettings: defaultIntegrationSettings(), integrationEvents: [], ...state }) },
+    { version: 10, migrate: (state) => ({ routingRules: SEED_DATA.routingRules, ...state }) },
+    { version: 11, migrate: (state) => ({
+        agentTasks: [],
+        ...state,
+        // Drop the simulated activity; these fields now track real task execution
+        agents: state.agents?.map(a => ({ ...a, load: 0, energy: 100, cooldown: 0, connectionQuality: 'optimal', ...restingState(100, 0) })),
+    }) },
+    { version: 12, migrate: (state) => ({ compatibilityRules: SEED_DATA.compatibilityRules, pipelines: SEED_DATA.pipelines, pipelineRuns: [], ...state }) },
+    // Adds the Quick Actions route, reusing the stored chat route
+    { version: 13, migrate: (state) => !state.llmSettings || state.llmSettings.features.actions ? state : {
+        ...state,
+        llmSettings: { ...state.llmSettings, features: { ...state.llmSettings.features, actions: { ...state.llmSettings.features.chat } } },
+    } },
+    { version: 14, migrate: (state) => ({ classifications: [], ...state }) },
+    // Initiatives grow from { id, title, active } into tracked records; classifications link to them
+    { version: 15, migrate: (state) => ({
+        ...state,
+        initiatives: state.initiatives?.map(i => {
+            const { active, ...rest } = i as GovernanceInitiative & { active?: boolean };
+            const status = rest.status || (active ? 'active' : 'planned');
+            return { description: '', owner: '', deadline: '', kpis: [], history: [{ status, at: 0, by: 'System' }], createdAt: 0, ...rest, status };
+        }),
+        classifications: state.classifications?.map(c => c.links ? c : { ...c, links: autoLinks(c.scores) }),
+    }) },
+    // The old extensions were install flags without code; real plugins come from the catalog, a URL or a folder
+    { version: 16, migrate: (state) => ({ ...state, extensions: [] }) },
+    { version: 17, migrate: (state) => ({ projectTasks: [], milestones: SEED_DATA.milestones, stickyNotes: [], ...state }) },
+    { version: 18, migrate: (state) => ({ ledger: [], focusBudgets: {}, ...state }) },
+    { version: 19, migrate: (state) => ({ skillActivity: {}, ...state }) },
+    // Feedback moves into its own log, backfilled from the ratings on stored chats; analytics get an LLM route
+    { version: 20, migrate: (state) => {
+        const next = { feedback: feedbackFromChats(state.agentChats || {}), promptExperiments: [], ...state };
+        return !next.llmSettings || next.llmSettings.features.analytics ? next
+            : { ...next, llmSettings: { ...next.llmSettings, features: { ...next.llmSettings.features, analytics: { ...next.llmSettings.features.classifier } } } };
+    } },
+    // API keys leave the shared settings (they now live in each user's browser); persona models record their provider
+    { version: 21, migrate: (state) => {
+        if (!state.llmSettings) return state;
+        const { apiKey, ...openai } = state.llmSettings.openai as LLMSettings['openai'] & { apiKey?: string };
+        const chatProvider = state.llmSettings.features.chat.provider;
+        return {
+            ...state,
+            llmSettings: { ...state.llmSettings, openai },
+            agents: state.agents?.map(a => a.persona.model && !a.persona.modelProvider ? { ...a, persona: { ...a.persona, modelProvider: chatProvider } } : a),
+        };
+    } },
+    // Plugins installed before code hashes existed cannot be verified and have to be reinstalled
+    { version: 22, migrate: (state) => ({ ...state, extensions: state.extensions?.map(p => ({ ...p, codeHash: p.codeHash || '' })) }) },
+    // Skill counters become distinct keys. Link and task counts could be inflated by repeating an edit and restart;
+    // classifications and feedback carry over as placeholder keys
+    { version: 23, migrate: (state) => ({
+        ...state,
+        skillActivity: state.skillActivity && Object.fromEntries(Object.entries(state.skillActivity as unknown as Record<string, Partial<SkillActivity>>).map(([userId, counts]) => {
+            const carried = (metric: SkillMetric) => Array.from({ length: counts[metric] || 0 }, (_, i) => `legacy:${i}`);
+            return [userId, { ...emptySkillLog(), documents_classified: carried('documents_classified'), feedback_given: carried('feedback_given') }];
+        })),
+    }) },
+    // Connection quality is measured per client and no longer stored on the shared agents
+    { version: 24, migrate: (state) => ({
+        ...state,
+        agents: state.agents?.map(a => {
+            const { connectionQuality, ...agent } = a as Agent & { connectionQuality?: unknown };
+            return agent;
+        }),
+    }) },
+    // Channel tokens leave the shared settings (they now live in the operator's browser)
+    { version: 25, migrate: (state) => !state.integrationSettings ? state : {
+        ...state,
+        integrationSettings: {
+            ...state.integrationSettings,
+            channels: Object.fromEntries(Object.entries(state.integrationSettings.channels).map(([id, config]) => {
+                const { token, ...channel } = config as ChannelConfig & { token?: string };
+                return [id, channel];
+            })) as Record<IntegrationType, ChannelConfig>,
+        },
+    } },
+    // Cancelled replies were only marked in their text
+    { version: 26, migrate: (state) => ({
+        ...state,
+        agentChats: state.agentChats && Object.fromEntries(Object.entries(state.agentChats).map(([id, msgs]) => [id, msgs.map(m => m.role === 'model' && m.text.endsWith('[cancelled]') ? { ...m, cancelled: true } : m)])),
+    }) },
+];
+const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+const migrateState = (state: StoredState): { state: StoredState; changed: boolean } => {
+    const from = state.meta?.schemaVersion ?? 0;
+    if (from > SCHEMA_VERSION) throw new Error(`Stored schema v${from} is newer than this client (v${SCHEMA_VERSION}).`);
+    let next = state;
+    for (const step of MIGRATIONS) {
+        if (step.version > from) next = step.migrate(next);
+    }
+    return { state: { ...next, meta: { schemaVersion: SCHEMA_VERSION } }, changed: from !== SCHEMA_VERSION };
+};
+
+interface BackendService {
+    readonly kind: 'indexeddb' | 'http';
+    register(username: string, password: string): Promise<User>;
+    login(username: string, password: string): Promise<User>;
+    loginGuest(): Promise<User>;
+    restoreSession(): Promise<User | null>;
+    logout(): Promise<void>;
+    saveUser(user: User): Promise<void>;
+    listMembers(): Promise<Member[]>;
+    setMemberRole(userId: string, role: User['role']): Promise<void>;
+    // The bearer token of the current session, also accepted by the webhook relay
+    sessionToken(): string | null;
+    // Uploaded file contents live outside the shared files slice, keyed by file id
+    saveFileBody(id: string, body: Blob): Promise<void>;
+    loadFileBody(id: string): Promise<Blob>;
+    deleteFileBodies(ids: string[]): Promise<void>;
+    syncData(): Promise<AppData>;
+    save<K extends AppDataKey>(key: K, value: AppData[K]): Promise<void>;
+}
+
+const PBKDF2_ITERATIONS = 210000;
+
+const randomHex = (bytes: number) =>
+    Array.from(crypto.getRandomValues(new Uint8Array(bytes)), b => b.toString(16).padStart(2, '0')).join('');
+
+const hashPassword = async (password: string, salt: string, iterations: number): Promise<string> => {
+    const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt: new TextEncoder().encode(salt), iterations }, key, 256);
+    return Array.from(new Uint8Array(bits), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+const timingSafeEqual = (a: string, b: string) => {
+    if (a.length !== b.length) return false;
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+    return diff === 0;
+};
+
+// Shared sync/migration logic; subclasses move raw key/value records and own authentication.
+abstract class StorageBackend implements BackendService {
+    abstract readonly kind: 'indexeddb' | 'http';
+    protected abstract readAll(): Promise<StoredState>;
+    protected abstract write(entries: Partial<StoredState>): Promise<void>;
+
+    protected static readonly SESSION_KEY = 'lumina-session';
+
+    abstract register(username: string, password: string): Promise<User>;
+    abstract login(username: string, password: string): Promise<User>;
+    abstract loginGuest(): Promise<User>;
+    abstract restoreSession(): Promise<User | null>;
+    abstract logout(): Promise<void>;
+    abstract saveUser(user: User): Promise<void>;
+    abstract listMembers(): Promise<Member[]>;
+    abstract setMemberRole(userId: string, role: User['role']): Promise<void>;
+    abstract saveFileBody(id: string, body: Blob): Promise<void>;
+    abstract loadFileBody(id: string): Promise<Blob>;
+    abstract deleteFileBodies(ids: string[]): Promise<void>;
+
+    sessionToken(): string | null {
+        return localStorage.getItem(StorageBackend.SESSION_KEY);
+    }
+
+    async syncData(): Promise<AppData> {
+        const migrated = migrateState(await this.readAll());
+        const state = await this.moveFileBodies(migrated.state).catch(e => {
+            console.warn('[Storage] Inlined file contents were not moved', e);
+            return migrated.state;
+        });
+        // A member without the permissions for every migrated slice cannot save the upgrade; the next Mentor does
+        if (migrated.changed || state !== migrated.state) await this.write(state).catch(e => console.warn('[Storage] Migrated state was not saved', e));
+        const { meta, accounts, sessions, ...data } = state;
+        return { ...SEED_DATA, ...data };
+    }
+
+    save<K extends AppDataKey>(key: K, value: AppData[K]): Promise<void> {
+        return this.write({ [key]: value } as Partial<StoredState>);
+    }
+
+    // Uploads used to be inlined as data URLs in the files slice; they move into the body store
+    private async moveFileBodies(state: StoredState): Promise<StoredState> {
+        const files = (state.files || []) as (FileNode & { data?: string })[];
+        if (!files.some(f => f.data)) return state;
+        for (const f of files) if (f.data) await this.saveFileBody(f.id, await (await fetch(f.data)).blob());
+        return { ...state, files: files.map(({ data, ...f }) => f) };
+    }
+}
+
+// Browser-local workspace; accounts and sessions are stored next to the data
+class IndexedDBBackend extends StorageBackend {
+    readonly kind = 'indexeddb';
+    private static readonly STORE = 'state';
+    private static readonly BODY_STORE = 'fileBodies';
+    private db: Promise<IDBDatabase> | null = null;
+
+    constructor(private dbName: string) { super(); }
+
+    private static readonly SESSION_TTL = 7 * 24 * 60 * 60 * 1000;
+
+    private async readAuth() {
+        const { state, changed } = migrateState(await this.readAll());
+        if (changed) await this.write(state);
+        return { accounts: state.accounts || [], sessions: (state.sessions || []).filter(s => s.expiresAt > Date.now()) };
+    }
+
+    private async startSession(userId: string, sessions: Session[]): Promise<void> {
+        const session: Session = { token: randomHex(32), userId, expiresAt: Date.now() + IndexedDBBackend.SESSION_TTL };
+        await this.write({ sessions: [...sessions, session] });
+        localStorage.setItem(StorageBackend.SESSION_KEY, session.token);
+    }
+
+    async register(username: string, password: string): Promise<User> {
+        const name = username.trim();
+        if (!/^[\w.-]{3,32}$/.test(name)) throw new Error('Username must be 3-32 letters, digits, dots or dashes.');
+        if (password.length < 8) throw new Error('Password must be at least 8 characters.');
+        const { accounts, sessions } = await this.readAuth();
+        if (accounts.some(a => a.username.toLowerCase() === name.toLowerCase())) throw new Error('Username is already taken.');
+        const salt = randomHex(16);
+        const user: User = {
+            id: `u_${randomHex(6)}`, name, avatar: '🎓',
+            // The first account bootstraps the workspace and may manage governance and tools
+            role: accounts.length === 0 ? 'Mentor' : 'Scholar',
+            tokens: { rep: 0, act: 100, edu: 0 }
+        };
+        const account: Account = { user, username: name, salt, iterations: PBKDF2_ITERATIONS, passwordHash: await hashPassword(password, salt, PBKDF2_ITERATIONS), createdAt: Date.now() };
+        await this.write({ accounts: [...accounts, account] });
+        await this.startSession(user.id, sessions);
+        return user;
+    }
+
+    async login(username: string, password: string): Promise<User> {
+        const { accounts, sessions } = await this.readAuth();
+        const account = accounts.find(a => a.username.toLowerCase() === username.trim().toLowerCase());
+        const hash = await hashPassword(password, account?.salt || randomHex(16), account?.iterations || PBKDF2_ITERATIONS);
+        if (!account || !timingSafeEqual(hash, account.passwordHash)) throw new Error('Invalid username or password.');
+        await this.startSession(account.user.id, sessions);
+        return account.user;
+    }
+
+    async loginGuest(): Promise<User> {
+        return { id: `guest_${randomHex(6)}`, name: 'Guest Student', avatar: '👤', role: 'Scholar', tokens: { rep: 0, act: 20, edu: 0 }, isGuest: true };
+    }
+
+    async restoreSession(): Promise<User | null> {
+        const token = localStorage.getItem(StorageBackend.SESSION_KEY);
+        if (!token) return null;
+        const { accounts, sessions } = await this.readAuth();
+        const session = sessions.find(s => s.token === token);
+        const account = session && accounts.find(a => a.user.id === session.userId);
+        if (!account) {
+            localStorage.removeItem(StorageBackend.SESSION_KEY);
+            return null;
+        }
+        return account.user;
+    }
+
+    async logout(): Promise<void> {
+        const token = localStorage.getItem(StorageBackend.SESSION_KEY);
+        localStorage.removeItem(StorageBackend.SESSION_KEY);
+        if (!token) return;
+        const { sessions } = await this.readAuth();
+        await this.write({ sessions: sessions.filter(s => s.token !== token) });
+    }
+
+    // Profile updates only change the profile fields, like on the server; the tokens follow the ledger
+    async saveUser(user: User): Promise<void> {
+        if (user.isGuest) return;
+        const { accounts } = await this.readAuth();
+        const { name, avatar, language } = user;
+        await this.write({ accounts: accounts.map(a => a.user.id === user.id ? { ...a, user: { ...a.user, name, avatar, language } } : a) });
+    }
+
+    // Registered accounts that tasks can be assigned to
+    async listMembers(): Promise<Member[]> {
+        const { accounts } = await this.readAuth();
+        return accounts.map(({ user: { id, name, avatar, role } }) => ({ id, name, avatar, role }));
+    }
+
+    // Promotions are confirmed by a Mentor for someone else, never lower a role and never exceed the promoter's own
+    async setMemberRole(userId: string, role: User['role']): Promise<void> {
+        const { accounts, sessions } = await this.readAuth();
+        const token = localStorage.getItem(StorageBackend.SESSION_KEY);
+        const session = sessions.find(s => s.token === token);
+        const actor = session && accounts.find(a => a.user.id === session.userId);
+        if (!actor || !can(actor.user, 'members:promote') || actor.user.id === userId) throw new Error('Only a Mentor can promote another member.');
+        if (!canGrantRole(actor.user, role)) throw new Error('You cannot promote above your own role.');
+        const target = accounts.find(a => a.user.id === userId);
+        if (!target || ROLE_RANK[role] <= ROLE_RANK[target.user.role]) throw new Error('Promotions can only raise a role.');
+        await this.write({ accounts: accounts.map(a => a === target ? { ...a, user: { ...a.user, role } } : a) });
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const req = indexedDB.open(this.dbName, 2);
+                req.onupgradeneeded = () => {
+                    [IndexedDBBackend.STORE, IndexedDBBackend.BODY_STORE].forEach(name => {
+                        if (!req.result.objectStoreNames.contains(name)) req.result.createObjectStore(name);
+                    });
+                };
+                req.onsuccess = () => resolve(req.result);
+                req.onerror = () => reject(req.error);
+            });
+        }
+        return this.db;
+    }
+
+    protected async readAll(): Promise<StoredState> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(IndexedDBBackend.STORE, 'readonly');
+            const store = tx.objectStore(IndexedDBBackend.STORE);
+            const keysReq = store.getAllKeys();
+            const valuesReq = store.getAll();
+            tx.oncomplete = () => resolve(Object.fromEntries(keysReq.result.map((k, i) => [k, valuesReq.result[i]])));
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    protected async write(entries: Partial<StoredState>): Promise<void> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(IndexedDBBackend.STORE, 'readwrite');
+            const store = tx.objectStore(IndexedDBBackend.STORE);
+            Object.entries(entries).forEach(([key, value]) => store.put(value, key));
+            tx.oncomplete = () => resolve();
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    private async bodies<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+        const db = await this.open();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(IndexedDBBackend.BODY_STORE, mode);
+            const req = run(tx.objectStore(IndexedDBBackend.BODY_STORE));
+            tx.oncomplete = () => resolve(req instanceof IDBRequest ? req.result : undefined);
+            tx.onerror = () => reject(tx.error);
+        });
+    }
+
+    async saveFileBody(id: string, body: Blob): Promise<void> {
+        await this.bodies('readwrite', store => store.put(body, id));
+    }
+
+    async loadFileBody(id: string): Promise<Blob> {
+        const body = await this.bodies<Blob>('readonly', store => store.get(id));
+        if (!body) throw new Error('The file contents are missing.');
+        return body;
+    }
+
+    async deleteFileBodies(ids: string[]): Promise<void> {
+        await this.bodies('readwrite', store => ids.forEach(id => store.delete(id)));
+    }
+}
+
+// Talks to the on-prem storage server (server.ts); accounts and sessions stay on the server
+class HttpBackend extends StorageBackend {
+    readonly kind = 'http';
+
+    constructor(private baseUrl: string) { super(); }
+
+    private async request(path: string, init: RequestInit = {}, contentType = 'application/json'): Promise<Response> {
+        const token = localStorage.getItem(StorageBackend.SESSION_KEY);
+        const res = await fetch(`${this.baseUrl}${path}`, {
+            ...init,
+            headers: { 'Content-Type': contentType, ...(token && { Authorization: `Bearer ${token}` }) },
+        });
+        if (!res.ok) {
+            const body = await res.json().catch(() => null);
+            throw new Error(body?.error || `Storage server responded ${res.status}`);
+        }
+        return res;
+    }
+
+    private async signIn(path: string, body?: object): Promise<User> {
+        const res = await this.request(path, { method: 'POST', body: JSON.stringify(body || {}) });
+        const { user, token } = await res.json();
+        localStorage.setItem(StorageBackend.SESSION_KEY, token);
+        return user;
+    }
+
+    register(username: string, password: string) { return this.signIn('/api/auth/register', { username, password }); }
+    login(username: string, password: string) { return this.signIn('/api/auth/login', { username, password }); }
+    loginGuest() { return this.signIn('/api/auth/guest'); }
+
+    async restoreSession(): Promise<User | null> {
+        if (!localStorage.getItem(StorageBackend.SESSION_KEY)) return null;
+        try {
+            return (await (await this.request('/api/auth/session')).json()).user;
+        } catch {
+            localStorage.removeItem(StorageBackend.SESSION_KEY);
+            return null;
+        }
+    }
+
+    async logout(): Promise<void> {
+        await this.request('/api/auth/logout', { method: 'POST' }).catch(() => {});
+        localStorage.removeItem(StorageBackend.SESSION_KEY);
+    }
+
+    async saveUser(user: User): Promise<void> {
+        await this.request('/api/auth/user', { method: 'PUT', body: JSON.stringify({ user }) });
+    }
+
+    async listMembers(): Promise<Member[]> {
+        return (await this.request('/api/auth/members')).json();
+    }
+
+    async setMemberRole(userId: string, role: User['role']): Promise<void> {
+        await this.request('/api/auth/role', { method: 'PUT', body: JSON.stringify({ userId, role }) });
+    }
+
+    async saveFileBody(id: string, body: Blob): Promise<void> {
+        await this.request(`/api/files/${encodeURIComponent(id)}`, { method: 'PUT', body }, 'application/octet-stream');
+    }
+
+    async loadFileBody(id: string): Promise<Blob> {
+        return (await this.request(`/api/files/${encodeURIComponent(id)}`)).blob();
+    }
+
+    async deleteFileBodies(ids: string[]): Promise<void> {
+        await Promise.all(ids.map(id => this.request(`/api/files/${encodeURIComponent(id)}`, { method: 'DELETE' })));
+    }
+
+    protected async readAll(): Promise<StoredState> {
+        return (await this.request('/api/state')).json();
+    }
+
+    protected async write(entries: Partial<StoredState>): Promise<void> {
+        await this.request('/api/state', { method: 'PATCH', body: JSON.stringify(entries) });
+    }
+}
+
+const createBackendService = (): BackendService =>
+    APP_CONFIG.storage.backend === 'http' ? new HttpBackend(APP_CONFIG.storage.url) : new IndexedDBBackend(APP_CONFIG.storage.dbName);
+
+const backend = createBackendService();
+
+// Shared slices only the holders of a permission may change; the storage server enforces the same map.
+// Guests never write: their changes stay in memory.
+const SLICE_PERMISSIONS: Partial<Record<AppDataKey, Permission>> = {
+    extensions: 'tools:install',
+    initiatives: 'initiatives:edit',
+    integrationSettings: 'integrations:manage',
+    routingRules: 'integrations:manage',
+    focusBudgets: 'budgets:manage',
+    promptExperiments: 'personas:manage',
+    llmSettings: 'ai:manage',
+};
+
+const canWriteSlice = (user: User | null, key: AppDataKey) => {
+    const permission = SLICE_PERMISSIONS[key];
+    return !!user && !user.isGuest && (!permission || can(user, permission));
+};
+
+// Debounced write-through of a state slice once the initial sync has finished
+const useAutoSave = <K extends AppDataKey>(key: K, value: AppData[K], enabled: boolean) => {
+    useEffect(() => {
+        if (!enabled) return;
+        const handle = setTimeout(() => {
+            backend.save(key, value).catch(e => console.error(`[Storage] Failed to save ${key}`, e));
+        }, 500);
+        return () => clearTimeout(handle);
+    }, [key, value, enabled]);
+};
+
+// --- NOTEBOOK SOURCES ---
+const SOURCE_CHUNK_SIZE = 1000;
+
+const SOURCE_EXTENSIONS: Record<string, SourceType> = { pdf: 'pdf', md: 'md', markdown: 'md', txt: 'txt', text: 'txt', html: 'html', htm: 'html' };
+
+// FNV-1a; chunk IDs derive from content so re-importing the same text yields the same IDs
+const hashText = (text: string) => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        h ^= text.charCodeAt(i);
+        h = Math.imul(h, 0x01000193) >>> 0;
+    }
+    return h.toString(16).padStart(8, '0');
+};
+
+// Packs paragraphs into chunks of roughly SOURCE_CHUNK_SIZE chars; oversized paragraphs split on sentences
+const chunkText = (sourceId: string, text: string, size = SOURCE_CHUNK_SIZE): SourceChunk[] => {
+    const pieces = text.split(/\n\s*\n/).map(p => p.replace(/[ \t]+/g, ' ').trim()).filter(Boolean)
+        .flatMap(p => p.length <= size ? [p] : p.split(/(?<=[.!?])\s+/));
+    const chunks: string[] = [];
+    let current = '';
+    for (const piece of pieces) {
+        if (current && current.length + piece.length + 2 > size) {
+            chunks.push(current);
+            current = '';
+        }
+        for (let i = 0; i < piece.length; i += size) {
+            const part = piece.slice(i, i + size);
+            current = current ? `${current}\n\n${part}` : part;
+            if (current.length >= size) { chunks.push(current); current = ''; }
+        }
+    }
+    if (current) chunks.push(current);
+
+    const seen: Record<string, number> = {};
+    return chunks.map((chunk, index) => {
+        const hash = hashText(chunk);
+        seen[hash] = (seen[hash] || 0) + 1;
+        return { id: `${sourceId}:${hash}${seen[hash] > 1 ? `-${seen[hash]}` : ''}`, index, text: chunk };
+    });
+};
+
+const extractPdfText = async (data: ArrayBuffer): Promise<string> => {
+    // Loading the worker module in-page registers globalThis.pdfjsWorker, so no separate worker URL is needed
+    const [pdfjs] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs')]);
+    const doc = await pdfjs.getDocument({ data }).promise;
+    const pages: string[] = [];
+    for (let n = 1; n <= doc.numPages; n++) {
+        const content = await (await doc.getPage(n)).getTextContent();
+        let page = '';
+        content.items.forEach(item => {
+            if (!('str' in item)) return;
+            page += item.str;
+            if (item.hasEOL) page += '\n';
+        });
+        pages.push(page.trim());
+    }
+    await doc.destroy();
+    return pages.join('\n\n');
+};
+
+const extractHtmlText = (html: string) => {
+    const doc = new DOMParser().parseFromString(html, 'text/html');
+    doc.querySelectorAll('script, style, noscript, template').forEach(el => el.remove());
+    doc.querySelectorAll('p, div, section, article, li, h1, h2, h3, h4, h5, h6, pre, blockquote, tr, br').forEach(el => el.append('\n\n'));
+    return (doc.body?.textContent || '').replace(/\n{3,}/g, '\n\n').trim();
+};
+
+const sourceTypeOf = (fileName: string): SourceType | undefined => SOURCE_EXTENSIONS[fileName.split('.').pop()?.toLowerCase() || ''];
+
+const extractText = async (blob: Blob, fileName: string): Promise<string> => {
+    const type = sourceTypeOf(fileName);
+    if (!type) throw new Error(`Unsupported file type: ${fileName}`);
+    const content = type === 'pdf' ? await extractPdfText(await blob.arrayBuffer())
+        : type === 'html' ? extractHtmlText(await blob.text())
+        : await blob.text();
+    if (!content.trim()) throw new Error(`No text could be extracted from ${fileName}`);
+    return content;
+};
+
+const parseSourceFile = async (file: File): Promise<Source> => {
+    const type = sourceTypeOf(file.name)!;
+    const content = await extractText(file, file.name);
+    const id = `src_${randomHex(6)}`;
+    return { id, title: file.name.replace(/\.[^.]+$/, ''), type, content, chunks: chunkText(id, content), size: file.size, addedAt: Date.now() };
+};
+
+// --- FILE ARCHIVE ---
+const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+const hasPerm = (node: FileNode | undefined, flag: 'r' | 'w') => !node || node.perm.includes(flag);
+
+const descendantsOf = (files: FileNode[], id: string): FileNode[] => {
+    const children = files.filter(f => f.parentId === id);
+    return [...children, ...children.flatMap(c => descendantsOf(files, c.id))];
+};
+
+const pathOf = (files: FileNode[], id: string | null): FileNode[] => {
+    const path: FileNode[] = [];
+    let node = files.find(f => f.id === id);
+    while (node) {
+        path.unshift(node);
+        node = files.find(f => f.id === node!.parentId);
+    }
+    return path;
+};
+
+// A node is writable only if it and every folder above it grant 'w'; Mentors bypass perm flags
+const canWrite = (files: FileNode[], id: string | null, user: User | null) =>
+    can(user, 'files:manage') || (!user?.isGuest && pathOf(files, id).every(n => hasPerm(n, 'w')));
+
+const canRead = (files: FileNode[], id: string | null, user: User | null) =>
+    can(user, 'files:manage') || pathOf(files, id).every(n => hasPerm(n, 'r'));
+
+// --- MIND PALACE ---
+const WIKI_LINK_RE = /\[\[([^\[\]|]+)(?:\|([^\[\]]+))?\]\]/g;
+
+const wikiTitles = (content: string) => [...content.matchAll(WIKI_LINK_RE)].map(m => m[1].trim());
+
+// Titles resolve case-insensitively, so renaming or creating a note can change links elsewhere; recompute for all notes
+const resolveNoteLinks = (notes: Note[]): Note[] => {
+    const byTitle = new Map(notes.map(n => [n.title.trim().toLowerCase(), n.id]));
+    return notes.map(note => {
+        const links = [...new Set(wikiTitles(note.content).map(t => byTitle.get(t.toLowerCase())).filter((id): id is string => !!id && id !== note.id))];
+        return links.join() === note.links.join() ? note : { ...note, links };
+    });
+};
+
+const backlinksOf = (notes: Note[], id: string) => notes.filter(n => n.links.includes(id));
+
+const renderInline = (text: string, onWikiLink: (title: string) => void, keyPrefix: string): React.ReactNode[] =>
+    text.split(/(\[\[[^\[\]]+\]\]|\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`)/g).filter(Boolean).map((part, i) => {
+        const key = `${keyPrefix}-${i}`;
+        const wiki = part.match(/^\[\[([^\[\]|]+)(?:\|([^\[\]]+))?\]\]$/);
+        if (wiki) return <button key={key} onClick={() => onWikiLink(wiki[1].trim())} className="text-indigo-600 hover:underline font-medium">{wiki[2] || wiki[1]}</button>;
+        if (part.startsWith('**')) return <strong key={key}>{part.slice(2, -2)}</strong>;
+        if (part.startsWith('`')) return <code key={key} className="bg-slate-100 px-1 rounded text-[0.9em]">{part.slice(1, -1)}</code>;
+        if (part.startsWith('*') && part.length > 2) return <em key={key}>{part.slice(1, -1)}</em>;
+        return <React.Fragment key={key}>{part}</React.Fragment>;
+    });
+
+// Deliberately small Markdown subset: headings, lists, quotes, code fences, emphasis and wiki-links
+const renderMarkdown = (content: string, onWikiLink: (title: string) => void): React.ReactNode[] => {
+    const out: React.ReactNode[] = [];
+    const lines = content.split('\n');
+    for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (line.startsWith('```')) {
+            const code: string[] = [];
+            while (++i < lines.length && !lines[i].startsWith('```')) code.push(lines[i]);
+            out.push(<pre key={i} className="bg-slate-900 text-slate-100 rounded p-3 text-xs overflow-x-auto my-2">{code.join('\n')}</pre>);
+            continue;
+        }
+        const heading = line.match(/^(#{1,3})\s+(.*)$/);
+        if (heading) {
+            const size = ['text-2xl', 'text-xl', 'text-lg'][heading[1].length - 1];
+            out.push(<div key={i} className={`${size} font-bold text-slate-800 mt-3 mb-1`}>{renderInline(heading[2], onWikiLink, `h${i}`)}</div>);
+        } else if (/^\s*[-*]\s+/.test(line)) {
+            out.push(<div key={i} className="flex gap-2 ml-2"><span className="text-slate-400">•</span><span>{renderInline(line.replace(/^\s*[-*]\s+/, ''), onWikiLink, `l${i}`)}</span></div>);
+        } else if (line.startsWith('>')) {
+            out.push(<div key={i} className="border-l-4 border-slate-200 pl-3 text-slate-500 italic">{renderInline(line.replace(/^>\s?/, ''), onWikiLink, `q${i}`)}</div>);
+        } else if (line.trim()) {
+            out.push(<p key={i} className="my-1">{renderInline(line, onWikiLink, `p${i}`)}</p>);
+        } else {
+            out.push(<div key={i} className="h-2" />);
+        }
+    }
+    return out;
+};
+
+// --- RETRIEVAL ---
+type SearchIndex = {
+    docs: { source: Source; chunk: SourceChunk; tf: Map<string, number>; length: number; }[];
+    df: Map<string, number>;
+    avgLength: number;
+};
+type Passage = { source: Source; chunk: SourceChunk; score: number; };
+
+const STOPWORDS = new Set([
+    'the', 'and', 'for', 'are', 'was', 'with', 'that', 'this', 'what', 'how', 'why', 'who', 'from', 'into', 'about', 'have', 'has', 'not', 'you', 'your', 'can', 'does', 'did', 'of', 'to', 'in', 'on', 'is', 'it', 'a', 'an', 'or', 'be', 'as', 'at', 'by',
+    'der', 'die', 'das', 'und', 'ist', 'ein', 'eine', 'mit', 'von', 'den', 'dem', 'des', 'für', 'auf', 'wie', 'nicht', 'sich', 'im', 'zu', 'es', 'er', 'sie',
+]);
+
+const tokenize = (text: string) =>
+    (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || ([] as string[])).filter(t => t.length > 1 && !STOPWORDS.has(t));
+
+const buildSearchIndex = (sources: Source[]): SearchIndex => {
+    const df = new Map<string, number>();
+    const docs = sources.flatMap(source => source.chunks.map(chunk => {
+        const terms = tokenize(chunk.text);
+        const tf = new Map<string, number>();
+        terms.forEach(t => tf.set(t, (tf.get(t) || 0) + 1));
+        tf.forEach((_, t) => df.set(t, (df.get(t) || 0) + 1));
+        return { source, chunk, tf, length: terms.length };
+    }));
+    return { docs, df, avgLength: docs.reduce((sum, d) => sum + d.length, 0) / (docs.length || 1) };
+};
+
+// Okapi BM25 with the usual k1/b defaults
+const searchIndex = (index: SearchIndex, query: string, limit: number, k1 = 1.2, b = 0.75): Passage[] => {
+    const terms = [...new Set(tokenize(query))];
+    const n = index.docs.length;
+    return index.docs
+        .map(doc => ({
+            source: doc.source,
+            chunk: doc.chunk,
+            score: terms.reduce((score, term) => {
+                const freq = doc.tf.get(term);
+                if (!freq) return score;
+                const df = index.df.get(term) || 0;
+                const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+                return score + idf * (freq * (k1 + 1)) / (freq + k1 * (1 - b + b * doc.length / (index.avgLength || 1)));
+            }, 0),
+        }))
+        .filter(p => p.score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
+
+// Embeddings are cached per model + chunk for the session; chunk IDs are content hashes so they never go stale
+const embeddingCache = new Map<string, number[]>();
+
+const cosine = (a: number[], b: number[]) => {
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) { dot += a[i] * b[i]; na += a[i] * a[i]; nb += b[i] * b[i]; }
+    return dot / (Math.sqrt(na * nb) || 1);
+};
+
+const retrievePassages = async (index: SearchIndex, query: string, settings: LLMSettings, secrets: LLMSecrets, limit = 4): Promise<Passage[]> => {
+    const candidates = searchIndex(index, query, settings.retrieval.embeddings ? limit * 5 : limit);
+    if (!settings.retrieval.embeddings || candidates.length <= 1) return candidates;
+    const model = settings.retrieval.model;
+    const missing = candidates.filter(c => !embeddingCache.has(`${model}:${c.chunk.id}`));
+    let vectors: number[][];
+    try {
+        vectors = await createProvider(settings.retrieval.provider, settings, secrets).embed([query, ...missing.map(c => c.chunk.text)], model);
+    } catch (e) {
+        console.warn('[Retrieval] Embedding rerank failed, using BM25 only', e);
+        return candidates.slice(0, limit);
+    }
+    missing.forEach((c, i) => embeddingCache.set(`${model}:${c.chunk.id}`, vectors[i + 1]));
+    const top = candidates[0].score;
+    return candidates
+        .map(c => ({ ...c, score: 0.5 * (c.score / top) + 0.5 * cosine(vectors[0], embeddingCache.get(`${model}:${c.chunk.id}`)!) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+};
+
+const toCitations = (passages: Passage[]): Citation[] =>
+    passages.map((p, i) => ({ marker: i + 1, sourceId: p.source.id, chunkId: p.chunk.id, title: p.source.title, excerpt: p.chunk.text.slice(0, 280) }));
+
+const buildGroundingInstruction = (passages: Passage[]) => passages.length === 0 ? '' : [
+    'Answer from the numbered source passages below when they are relevant and cite them inline as [1], [2] etc.',
+    'If the passages do not contain the answer, say so before answering from general knowledge.',
+    ...passages.map((p, i) => `[${i + 1}] (${p.source.title})\n${p.chunk.text}`),
+].join('\n\n');
+
+// --- 3D COMPONENTS (Advanced) ---
+const AgentAvatar3D: React.FC<{ position: THREE.Vector3, color: string, task: string, targetPosition?: THREE.Vector3 }> = ({ position, color, task, targetPosition }) => {
+    const ref = useRef<THREE.Group>(null);
+    useFrame((state) => {
+        if(ref.current) {
+            ref.current.position.lerp(position, 0.05);
+            ref.current.position.y = 1 + Math.sin(state.clock.elapsedTime * 3) * 0.1;
+        }
+    });
+    return (
+        <group ref={ref} position={position}>
+            {/* AI Task Suggestion Billboard */}
+            <Billboard position={[0, 1.5, 0]} follow={true} lockX={false} lockY={false} lockZ={false}>
+                 <Text fontSize={0.25} color="white" anchorX="center" anchorY="middle" outlineWidth={0.02} outlineColor="#000000">
+                    {task}
+                 </Text>
+            </Billboard>
+            <mesh>
+                <sphereGeometry args={[0.4, 16, 16]} />
+                <meshStandardMaterial color={color} emissive={color} emissiveIntensity={0.8} />
+            </mesh>
+            <mesh rotation={[-Math.PI/2, 0, 0]} position={[0, -0.4, 0]}>
+                <ringGeometry args={[0.5, 0.6, 32]} />
+                <meshBasicMaterial color={color} opacity={0.5} transparent />
+            </mesh>
+            {/* Visual Path Prediction */}
+            {targetPosition && <Line points={[new THREE.Vector3(0,0,0), targetPosition.clone().sub(position)]} color={color} opacity={0.5} transparent dashed dashScale={2} dashSize={0.5} gapSize={0.2} />}
+        </group>
+    );
+};
+
+// Interaction Pulse Line: dashes travel from start to end while data flows
+const InteractionLine: React.FC<{ start: THREE.Vector3; end: THREE.Vector3 }> = ({ start, end }) => {
+    const ref = useRef<any>(null);
+    useFrame((state) => {
+        if (ref.current && ref.current.material) {
+            ref.current.material.dashOffset -= 0.02; // Pulsating animation
+        }
+    });
+    return <Line ref={ref} points={[start, end]} color="cyan" opacity={0.6} transparent dashed dashScale={1} dashSize={1} gapSize={0.5} lineWidth={2} />;
+};
+
+const AgentSwarm3D = memo(({ agents, flows }: { agents: Agent[], flows: AgentFlow[] }) => {
+    const zonePositions: {[key: string]: [number, number, number]} = useMemo(() => ({
+        'dashboard': [0, 0, 0], 'studio': [-12, 0, -5], 'files': [12, 0, -5], 'chat': [0, 0, -15],
+    }), []);
+
+    const positions = new Map(agents.map((agent, i) => {
+        const basePos = zonePositions[agent.zoneId] || [0, 0, 0];
+        const angle = (Date.now() * 0.0005) + (i * (Math.PI * 2 / agents.length));
+        return [agent.id, new THREE.Vector3(basePos[0] + Math.cos(angle)*3, 1, basePos[2] + Math.sin(angle)*3)];
+    }));
+
+    return (
+        <group>
+            {agents.map(agent => {
+                const basePos = zonePositions[agent.zoneId] || [0, 0, 0];
+                const targetPos = new THREE.Vector3(basePos[0], 1, basePos[2]);
+                return <AgentAvatar3D key={agent.id} position={positions.get(agent.id)!} color={agent.type === 'security' ? '#ef4444' : agent.type === 'creative' ? '#a855f7' : '#3b82f6'} task={agent.currentTask} targetPosition={targetPos} />;
+            })}
+            {/* Live pipeline hand-offs between collaborating agents */}
+            {flows.filter(f => positions.has(f.from) && positions.has(f.to)).map(f => <InteractionLine key={f.key} start={positions.get(f.from)!} end={positions.get(f.to)!} />)}
+        </group>
+    );
+});
+
+// --- KNOWLEDGE GRAPH (3D) ---
+type GraphNode = { id: string; kind: 'note' | 'source'; label: string; };
+type KnowledgeGraphData = { nodes: GraphNode[]; edges: [number, number][]; };
+
+const KNOWLEDGE_GRAPH_ORIGIN: [number, number, number] = [15, 11, -5]; // hovers above the Data Archive
+const KNOWLEDGE_GRAPH_RADIUS = 6;
+
+// Notes link to notes via resolved wiki-links and to sources via [[Source Title]]
+const buildKnowledgeGraph = (notes: Note[], sources: Source[]): KnowledgeGraphData => {
+    const nodes: GraphNode[] = [
+        ...sources.map(src => ({ id: src.id, kind: 'source' as const, label: src.title })),
+        ...notes.map(n => ({ id: n.id, kind: 'note' as const, label: n.title })),
+    ];
+    const index = new Map(nodes.map((n, i) => [n.id, i]));
+    const sourceByTitle = new Map(sources.map(src => [src.title.trim().toLowerCase(), src.id]));
+    const seen = new Set<string>();
+    const edges: [number, number][] = [];
+    notes.forEach(note => {
+        const targets = [...note.links, ...wikiTitles(note.content).map(t => sourceByTitle.get(t.toLowerCase()))];
+        targets.forEach(target => {
+            const a = index.get(note.id)!, b = target ? index.get(target) : undefined;
+            const key = b === undefined ? '' : a < b ? `${a}-${b}` : `${b}-${a}`;
+            if (b === undefined || a === b || seen.has(key)) return;
+            seen.add(key);
+            edges.push([a, b]);
+        });
+    });
+    return { nodes, edges };
+};
+
+// Velocity-Verlet style force layout; repulsion only considers neighbours in a spatial hash so a few
+// thousand nodes stay interactive (O(n) per tick instead of O(n²))
+class ForceLayout3D {
+    static readonly CUTOFF = 4;
+    readonly positions: Float32Array;
+    private velocities: Float32Array;
+    alpha = 1;
+
+    constructor(private nodes: GraphNode[], private edges: [number, number][], previous?: Map<string, [number, number, number]>) {
+        this.positions = new Float32Array(nodes.length * 3);
+        this.velocities = new Float32Array(nodes.length * 3);
+        const spread = Math.cbrt(nodes.length) * 1.5;
+        nodes.forEach((node, i) => {
+            const seed = parseInt(hashText(node.id), 16);
+            const known = previous?.get(node.id);
+            this.positions[i * 3] = known ? known[0] : ((seed & 0x3ff) / 0x3ff - 0.5) * spread;
+            this.positions[i * 3 + 1] = known ? known[1] : (((seed >> 10) & 0x3ff) / 0x3ff - 0.5) * spread;
+            this.positions[i * 3 + 2] = known ? known[2] : (((seed >> 20) & 0x3ff) / 0x3ff - 0.5) * spread;
+        });
+        // Mostly-known layouts only need a gentle settle
+        if (previous && nodes.every(n => previous.has(n.id))) this.alpha = 0.3;
+    }
+
+    snapshot(): Map<string, [number, number, number]> {
+        return new Map(this.nodes.map((n, i) => [n.id, [this.positions[i * 3], this.positions[i * 3 + 1], this.positions[i * 3 + 2]]]));
+    }
+
+    tick() {
+        const p = this.positions, v = this.velocities, n = this.nodes.length, cutoff = ForceLayout3D.CUTOFF;
+        const grid = new Map<number, number[]>();
+        const cellKey = (x: number, y: number, z: number) => ((x + 512) * 1024 + (y + 512)) * 1024 + (z + 512);
+        const cells = new Int32Array(n * 3);
+        for (let i = 0; i < n * 3; i++) cells[i] = Math.floor(p[i] / cutoff);
+        for (let i = 0; i < n; i++) {
+            const key = cellKey(cells[i * 3], cells[i * 3 + 1], cells[i * 3 + 2]);
+            (grid.get(key) || grid.set(key, []).get(key)!).push(i);
+        }
+        for (let i = 0; i < n; i++) {
+            const cx = cells[i * 3], cy = cells[i * 3 + 1], cz = cells[i * 3 + 2];
+            for (let dx = -1; dx <= 1; dx++) for (let dy = -1; dy <= 1; dy++) for (let dz = -1; dz <= 1; dz++) {
+                for (const j of grid.get(cellKey(cx + dx, cy + dy, cz + dz)) || []) {
+                    if (j <= i) continue;
+                    const ddx = p[i * 3] - p[j * 3], ddy = p[i * 3 + 1] - p[j * 3 + 1], ddz = p[i * 3 + 2] - p[j * 3 + 2];
+                    const d2 = ddx * ddx + ddy * ddy + ddz * ddz + 0.01;
+                    if (d2 > cutoff * cutoff) continue;
+                    const f = (1.2 * this.alpha) / d2;
+                    v[i * 3] += ddx * f; v[i * 3 + 1] += ddy * f; v[i * 3 + 2] += ddz * f;
+                    v[j * 3] -= ddx * f; v[j * 3 + 1] -= ddy * f; v[j * 3 + 2] -= ddz * f;
+                }
+            }
+        }
+        for (const [a, b] of this.edges) {
+            const ddx = p[b * 3] - p[a * 3], ddy = p[b * 3 + 1] - p[a * 3 + 1], ddz = p[b * 3 + 2] - p[a * 3 + 2];
+            const d = Math.sqrt(ddx * ddx + ddy * ddy + ddz * ddz) || 0.01;
+            const f = ((d - 1.5) / d) * 0.1 * this.alpha;
+            v[a * 3] += ddx * f; v[a * 3 + 1] += ddy * f; v[a * 3 + 2] += ddz * f;
+            v[b * 3] -= ddx * f; v[b * 3 + 1] -= ddy * f; v[b * 3 + 2] -= ddz * f;
+        }
+        for (let i = 0; i < n * 3; i++) {
+            v[i] = (v[i] - p[i] * 0.01 * this.alpha) * 0.6; // gravity toward the origin, then damping
+            p[i] += v[i];
+        }
+        this.alpha *= 0.985;
+    }
+
+    radius() {
+        let r = 0;
+        for (let i = 0; i < this.positions.length; i += 3) r = Math.max(r, Math.hypot(this.positions[i], this.positions[i + 1], this.positions[i + 2]));
+        return r;
+    }
+}
+
+const KnowledgeGraph3D = ({ notes, sources, onOpenNode }: { notes: Note[], sources: Source[], onOpenNode: (kind: GraphNode['kind'], id: string) => void }) => {
+    const meshRef = useRef<THREE.InstancedMesh>(null);
+    const lineRef = useRef<React.ElementRef<typeof Line>>(null);
+    const groupRef = useRef<THREE.Group>(null);
+    const layoutRef = useRef<ForceLayout3D | null>(null);
+    const [hovered, setHovered] = useState<number | null>(null);
+    const dummy = useMemo(() => new THREE.Object3D(), []);
+
+    const graph = useMemo(() => buildKnowledgeGraph(notes, sources), [notes, sources]);
+    // Only a topology change restarts the layout; title edits keep positions
+    const topologyKey = useMemo(() => `${graph.nodes.map(n => n.id).join()}|${graph.edges.map(e => e.join('-')).join()}`, [graph]);
+
+    const layout = useMemo(() => {
+        layoutRef.current = new ForceLayout3D(graph.nodes, graph.edges, layoutRef.current?.snapshot());
+        return layoutRef.current;
+    }, [topologyKey]);
+
+    const edgePoints = useMemo(() => graph.edges.flatMap(([a, b]) => [
+        [layout.positions[a * 3], layout.positions[a * 3 + 1], layout.positions[a * 3 + 2]] as [number, number, number],
+        [layout.positions[b * 3], layout.positions[b * 3 + 1], layout.positions[b * 3 + 2]] as [number, number, number],
+    ]), [layout]);
+
+    const sync = () => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const p = layout.positions;
+        graph.nodes.forEach((node, i) => {
+            dummy.position.set(p[i * 3], p[i * 3 + 1], p[i * 3 + 2]);
+            dummy.scale.setScalar((node.kind === 'source' ? 1.6 : 1) * (hovered === i ? 1.8 : 1));
+            dummy.updateMatrix();
+            mesh.setMatrixAt(i, dummy.matrix);
+        });
+        mesh.instanceMatrix.needsUpdate = true;
+        const start = lineRef.current?.geometry.attributes.instanceStart;
+        if (start instanceof THREE.InterleavedBufferAttribute) {
+            const { data } = start;
+            graph.edges.forEach(([a, b], k) => {
+                data.array.set(p.subarray(a * 3, a * 3 + 3), k * 6);
+                data.array.set(p.subarray(b * 3, b * 3 + 3), k * 6 + 3);
+            });
+            data.needsUpdate = true;
+        }
+        groupRef.current?.scale.setScalar(Math.min(1, KNOWLEDGE_GRAPH_RADIUS / (layout.radius() || 1)));
+    };
+
+    useEffect(() => {
+        const mesh = meshRef.current;
+        if (!mesh) return;
+        const color = new THREE.Color();
+        graph.nodes.forEach((node, i) => mesh.setColorAt(i, color.set(node.kind === 'source' ? '#10b981' : '#818cf8')));
+        if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+        sync();
+    }, [layout, hovered]);
+
+    useFrame(() => {
+        if (layout.alpha < 0.005) return;
+        layout.tick();
+        sync();
+    });
+
+    if (graph.nodes.length === 0) return null;
+    const hoveredNode = hovered !== null ? graph.nodes[hovered] : null;
+
+    return (
+        <group position={KNOWLEDGE_GRAPH_ORIGIN}>
+            <group ref={groupRef}>
+                <instancedMesh
+                    key={graph.nodes.length}
+                    ref={meshRef}
+                    args={[undefined, undefined, graph.nodes.length]}
+                    frustumCulled={false}
+                    onPointerMove={(e: ThreeEvent<PointerEvent>) => { e.stopPropagation(); if (e.instanceId !== undefined && e.instanceId !== hovered) setHovered(e.instanceId); }}
+                    onPointerOut={() => setHovered(null)}
+                    onClick={(e: ThreeEvent<MouseEvent>) => {
+                        e.stopPropagation();
+                        const node = e.instanceId !== undefined ? graph.nodes[e.instanceId] : undefined;
+                        if (node) onOpenNode(node.kind, node.id);
+                    }}
+                >
+                    <sphereGeometry args={[0.18, 10, 10]} />
+                    <meshStandardMaterial emissive="#312e81" emissiveIntensity={0.6} toneMapped={false} />
+                </instancedMesh>
+                {edgePoints.length > 0 && <Line key={topologyKey} ref={lineRef} segments points={edgePoints} color="#a5b4fc" lineWidth={1} transparent opacity={0.35} frustumCulled={false} />}
+                {hoveredNode && hovered !== null && (
+                    <Html position={[layout.positions[hovered * 3], layout.positions[hovered * 3 + 1] + 0.4, layout.positions[hovered * 3 + 2]]} center style={{ pointerEvents: 'none' }}>
+                        <div className="bg-black/80 text-white text-xs px-2 py-1 rounded border border-indigo-500 whitespace-nowrap font-mono">
+                            <span className={hoveredNode.kind === 'source' ? 'text-emerald-400' : 'text-indigo-300'}>{hoveredNode.kind === 'source' ? 'SOURCE' : 'NOTE'}</span> {hoveredNode.label}
+                        </div>
+                    </Html>
+                )}
+            </group>
+        </group>
+    );
+};
+
+const Building = ({ position, color, label, type, onEnter, agentCount = 0, onHoverZone }: any) => {
+    const meshRef = useRef<THREE.Mesh>(null);
+    const auraRef = useRef<THREE.Mesh>(null);
+    const [hovered, setHovered] = useState(false);
+    const [summary, setSummary] = useState<string | null>(null);
+
+    useFrame((state) => {
+        // Visual Effect: Pulse scale based on agent count
+        const pulse = 1 + Math.sin(state.clock.elapsedTime * 2) * (0.05 + agentCount * 0.05); // More intense scaling
+        if (meshRef.current) meshRef.current.scale.setScalar(pulse);
+        if (auraRef.current) {
+            auraRef.current.rotation.z += 0.01;
+            auraRef.current.scale.setScalar(1 + agentCount * 0.3); 
+            // @ts-ignore
+            auraRef.current.material.opacity = 0.2 + (agentCount * 0.1);
+        }
+    });
+
+    const handlePointerOver = useCallback(() => {
+        setHovered(true);
+        if (!summary) onHoverZone(type).then(setSummary); // AI Lazy Load
+    }, [summary, type, onHoverZone]);
+
+    return (
+        <group position={position} onPointerOver={handlePointerOver} onPointerOut={() => setHovered(false)}>
+            <mesh ref={meshRef} position={[0, 3, 0]}>
+                <boxGeometry args={[5, 6, 5]} />
+                <meshStandardMaterial color={color} metalness={0.7} roughness={0.2} emissive={color} emissiveIntensity={agentCount > 0 ? 0.3 + (agentCount * 0.2) : 0.1} />
+            </mesh>
+            <mesh ref={auraRef} rotation={[-Math.PI/2, 0, 0]} position={[0, 0.1, 0]}>
+                <ringGeometry args={[4, 7, 32]} />
+                <meshBasicMaterial color={color} transparent opacity={0.3} />
+            </mesh>
+            <Text position={[0, 7, 0]} fontSize={0.8} color="white" anchorX="center">{label}</Text>
+            {hovered && (
+                <Html position={[0, 5, 0]} center distanceFactor={15} style={{pointerEvents: 'none'}}>
+                    <div className="bg-black/80 backdrop-blur text-white p-3 rounded-lg border border-indigo-500 w-64 text-xs font-mono shadow-[0_0_15px_rgba(99,102,241,0.5)] z-50">
+                        <div className="font-bold text-indigo-400 mb-1 flex items-center gap-2"><Icons.Activity/> AI Zone Analysis</div>
+                        <div className="mb-2 flex justify-between">
+                            <span>Agents Active:</span>
+                            <span className="font-bold text-white">{agentCount}</span>
+                        </div>
+                        <div className="text-gray-300 italic animate-pulse border-t border-gray-700 pt-2">
+                            {summary || "Analyzing neural activity..."}
+                        </div>
+                    </div>
+                </Html>
+            )}
+        </group>
+    );
+};
+
+const MetaScene = ({ systemHealth, agents, flows, notes, sources, onGetZoneSummary, onOpenGraphNode }: { systemHealth: number, agents: Agent[], flows: AgentFlow[], notes: Note[], sources: Source[], onGetZoneSummary: (zone: string) => Promise<string>, onOpenGraphNode: (kind: GraphNode['kind'], id: string) => void }) => {
+    const getAgentCount = (zone: string) => agents.filter(a => a.zoneId === zone).length;
+    // Falling health dims the lights, shifts them towards red and pulls the fog in
+    const health = Math.min(100, Math.max(0, systemHealth)) / 100;
+    const lightColor = useMemo(() => new THREE.Color('#ef4444').lerp(new THREE.Color('#4f46e5'), health), [health]);
+
+    return (
+        <>
+            <fog attach="fog" args={['#020617', 5 + 25 * health, 30 + 90 * health]} />
+            <ambientLight intensity={0.15 + 0.15 * health} />
+            <pointLight position={[10, 10, 10]} intensity={0.6 + 0.4 * health} color={lightColor} />
+            <Stars radius={100} depth={50} count={5000} factor={4} saturation={0} fade speed={1} />
+            <mesh rotation={[-Math.PI / 2, 0, 0]} position={[0, 0, 0]}>
+                <planeGeometry args={[100, 100]} />
+                <MeshReflectorMaterial blur={[300, 100]} resolution={1024} mixBlur={1} mixStrength={50} roughness={1} depthScale={1.2} minDepthThreshold={0.4} maxDepthThreshold={1.4} color="#0f172a" metalness={0.5} mirror={0} />
+            </mesh>
+            <Grid infiniteGrid sectionSize={1} cellSize={1} cellColor="#3b82f6" sectionColor="#1d4ed8" fadeDistance={30} />
+            
+            <Building position={[0, 0, 0]} color="#4f46e5" label="Governance Core" type="dashboard" agentCount={getAgentCount('dashboard')} onHoverZone={onGetZoneSummary} />
+            <Building position={[-15, 0, -5]} color="#ec4899" label="Creative Studio" type="studio" agentCount={getAgentCount('studio')} onHoverZone={onGetZoneSummary} />
+            <Building position={[15, 0, -5]} color="#10b981" label="Data Archive" type="files" agentCount={getAgentCount('files')} onHoverZone={onGetZoneSummary} />
+            <Building position={[0, 0, -20]} color="#f59e0b" label="Chat Nexus" type="chat" agentCount={getAgentCount('chat')} onHoverZone={onGetZoneSummary} />
+
+            <AgentSwarm3D agents={agents} flows={flows} />
+            <KnowledgeGraph3D notes={notes} sources={sources} onOpenNode={onOpenGraphNode} />
+        </>
+    );
+};
+
+// --- 2D UI COMPONENTS ---
+
+const AuthScreen = ({ onAuthenticated }: { onAuthenticated: (user: User) => void }) => {
+    const { t } = useI18n();
+    const [mode, setMode] = useState<'login' | 'register'>('login');
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState<string | null>(null);
+    const [isBusy, setIsBusy] = useState(false);
+
+    const run = async (action: () => Promise<User>) => {
+        setIsBusy(true);
+        setError(null);
+        try {
+            onAuthenticated(await action());
+        } catch (e) {
+            setError(e instanceof Error ? e.message : 'Authentication failed.');
+            setIsBusy(false);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        run(() => mode === 'login' ? backend.login(username, password) : backend.register(username, password));
+    };
+
+    return (
+        <div className="h-screen bg-slate-900 flex items-center justify-center p-4">
+            <form onSubmit={handleSubmit} className="bg-white text-slate-900 w-full max-w-sm rounded-2xl shadow-2xl p-8 space-y-4">
+                <div className="flex items-center gap-3 mb-2">
+                    <div className="bg-indigo-600 text-white p-2 rounded-lg shadow-lg shadow-indigo-500/30"><Icons.Brain /></div>
+                    <h1 className="text-xl font-bold text-slate-800">{t('auth.title')}</h1>
+                </div>
+                <input className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500" placeholder={t('auth.username')} autoComplete="username" value={username} onChange={e => setUsername(e.target.value)} />
+                <input type="password" className="w-full bg-slate-50 border border-slate-200 rounded-lg px-4 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500" placeholder={t('auth.password')} autoComplete={mode === 'login' ? 'current-password' : 'new-password'} value={password} onChange={e => setPassword(e.target.value)} />
+                {error && <div className="text-xs text-red-600 bg-red-50 border border-red-200 rounded p-2">{error}</div>}
+                <button type="submit" disabled={isBusy} className={`w-full py-2 bg-indigo-600 text-white rounded-lg font-bold transition-all ${isBusy ? 'opacity-70 cursor-wait' : 'hover:bg-indigo-700'}`}>
+                    {isBusy ? t('auth.connecting') : mode === 'login' ? t('auth.login_btn') : t('auth.register_btn')}
+                </button>
+                <button type="button" disabled={isBusy} onClick={() => run(() => backend.loginGuest())} className="w-full py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg font-bold text-sm transition-colors">{t('auth.guest_btn')}</button>
+                <button type="button" onClick={() => { setMode(mode === 'login' ? 'register' : 'login'); setError(null); }} className="w-full text-xs text-indigo-600 hover:underline">
+                    {mode === 'login' ? t('auth.to_register') : t('auth.to_login')}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+const QUALITY_DOTS: Record<ConnectionQuality, string> = { optimal: 'bg-green-500', unstable: 'bg-yellow-500', offline: 'bg-red-500' };
+const ADAPTER_DOTS: Record<AdapterState, string> = { online: 'bg-green-500', connecting: 'bg-slate-300', stale: 'bg-yellow-500', error: 'bg-red-500' };
+
+const healthDot = (health: number) => health >= 80 ? 'bg-green-500' : health >= 50 ? 'bg-yellow-500' : 'bg-red-500';
+
+const Header = ({ user, integrations, agents, health, onLogout, onLanguageChange, onOpenLedger }: { user: User, integrations: string[], agents: Agent[], health: HealthReport, onLogout: () => void, onLanguageChange: (lang: Language) => void, onOpenLedger: () => void }) => {
+    const { lang, t } = useI18n();
+    const [showStatus, setShowStatus] = useState(false);
+    const { level, floor, next } = levelFor(user.tokens.rep);
+
+    return (
+        <div className="h-16 bg-white/90 backdrop-blur border-b border-slate-200 flex items-center justify-between px-6 shadow-sm z-10 shrink-0 relative">
+            <div className="flex items-center gap-3">
+            <div className="bg-indigo-600 text-white p-2 rounded-lg shadow-lg shadow-indigo-500/30"><Icons.Brain /></div>
+            <div>
+                <div className="text-xs text-slate-500 font-bold uppercase tracking-wider">Lumina OS · {user.name}{user.isGuest && ` (${t('header.guest')})`}</div>
+                <div className="font-bold text-slate-800">{user.role} <span className="text-indigo-600">{t('header.level', { level })}</span></div>
+            </div>
+            </div>
+            <div className="flex items-center gap-6">
+                <div className="relative">
+                    <button 
+                        onClick={() => setShowStatus(!showStatus)}
+                        className="flex items-center gap-2 px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors text-xs font-bold text-slate-600"
+                    >
+                        <span className="relative flex h-2 w-2">
+                          <span className={`animate-ping absolute inline-flex h-full w-full rounded-full opacity-75 ${healthDot(health.systemHealth)}`}></span>
+                          <span className={`relative inline-flex rounded-full h-2 w-2 ${healthDot(health.systemHealth)}`}></span>
+                        </span>
+                        {t('header.agent_status')} · {health.systemHealth}%
+                    </button>
+                    {showStatus && (
+                        <div className="absolute top-10 right-0 w-80 bg-white rounded-xl shadow-xl border border-slate-200 p-3 z-50 space-y-3">
+                            <div>
+                                <h4 className="text-xs font-bold text-slate-400 uppercase mb-1">{t('header.network_health')}</h4>
+                                <div className="text-sm font-bold text-slate-700">{t('header.system_health', { value: health.systemHealth })}</div>
+                                <div className="mt-1 h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className={`h-full ${healthDot(health.systemHealth)}`} style={{ width: `${health.systemHealth}%` }} /></div>
+                            </div>
+                            <div>
+                                <h4 className="text-[10px] font-bold text-slate-400 uppercase mb-1">{t('header.providers')}</h4>
+                                {!health.providers.length && <div className="text-xs text-slate-400">{t('header.probing')}</div>}
+                                {health.providers.map(p => (
+                                    <div key={p.provider} className="flex justify-between items-center text-sm" title={p.error || (p.failureRate ? t('header.failed_probes', { rate: `${Math.round(p.failureRate * 100)}%` }) : undefined)}>
+                                        <div className="flex items-center gap-2">
+                                            <div className={`w-2 h-2 rounded-full ${!p.ok ? 'bg-red-500' : p.latencyMs > SLOW_PROBE_MS || p.failureRate > 0 ? 'bg-yellow-500' : 'bg-green-500'}`}></div>
+                                            <span className="text-slate-700 font-medium">{LLM_PROVIDERS.find(l => l.id === p.provider)?.label}</span>
+                                        </div>
+                                        <span className="text-xs text-slate-400 font-mono">{p.ok ? t('header.latency', { ms: p.latencyMs }) : t('header.quality.offline')}</span>
+                                    </div>
+                                ))}
+                            </div>
+                            {health.adapters.length > 0 && (
+                                <div>
+                                    <h4 className="text-[10px] font-bold text-slate-400 uppercase mb-1">{t('header.bridges')}</h4>
+                                    {health.adapters.map(a => (
+                                        <div key={a.channel} className="flex justify-between items-center text-sm" title={a.error || (a.lastSeen ? t('header.last_seen', { time: new Date(a.lastSeen).toLocaleTimeString() }) : undefined)}>
+                                            <div className="flex items-center gap-2">
+                                                <div className={`w-2 h-2 rounded-full ${ADAPTER_DOTS[a.state]}`}></div>
+                                                <span className="text-slate-700 font-medium">{INTEGRATION_CHANNELS.find(c => c.id === a.channel)?.label}</span>
+                                            </div>
+                                            <span className="text-xs text-slate-400">{t(`header.adapter.${a.state}`)}</span>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            <div>
+                                <h4 className="text-[10px] font-bold text-slate-400 uppercase mb-1">{t('header.agents')}</h4>
+                                {agents.map(agent => {
+                                    const stats = health.agents[agent.id], quality = qualityOf(health, agent.id);
+                                    return (
+                                        <div key={agent.id} className="flex justify-between items-center text-sm" title={stats?.successRate != null ? t('header.success_rate', { rate: `${Math.round(stats.successRate * 100)}%` }) : t('header.no_outcomes')}>
+                                            <div className="flex items-center gap-2">
+                                                <div className={`w-2 h-2 rounded-full ${QUALITY_DOTS[quality]}`}></div>
+                                                <span className="text-slate-700 font-medium">{agent.name}</span>
+                                            </div>
+                                            <span className="text-xs text-slate-400">{stats?.successRate != null && `${Math.round(stats.successRate * 100)}% · `}{t(`header.quality.${quality}`)}</span>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="hidden md:flex gap-2">
+                    <div className={`p-1.5 rounded-full ${integrations.includes('whatsapp') ? 'bg-green-100 text-green-600' : 'bg-slate-100 text-slate-300'}`} title="WhatsApp"><Icons.Phone /></div>
+                    <div className={`p-1.5 rounded-full ${integrations.includes('telegram') ? 'bg-blue-100 text-blue-500' : 'bg-slate-100 text-slate-300'}`} title="Telegram"><Icons.Send /></div>
+                </div>
+                <button onClick={onOpenLedger} title={t('header.ledger')} className="flex gap-4 px-2 py-1 rounded-lg hover:bg-slate-100 transition-colors">
+                    <div className="flex flex-col items-end" title={t('ledger.to_next', { xp: next - user.tokens.rep, level: level + 1 })}>
+                        <span className="text-[10px] uppercase font-bold text-slate-400">{t('tokens.rep')}</span>
+                        <span className="text-xl font-black text-indigo-600 leading-none">{user.tokens.rep}</span>
+                        <div className="w-12 h-1 bg-slate-100 rounded-full overflow-hidden mt-1"><div className="h-full bg-indigo-500" style={{ width: `${(user.tokens.rep - floor) / (next - floor) * 100}%` }} /></div>
+                    </div>
+                    <div className="flex flex-col items-end">
+                        <span className="text-[10px] uppercase font-bold text-slate-400">{t('tokens.act')}</span>
+                        <span className={`text-xl font-black leading-none ${user.tokens.act > 0 ? 'text-amber-500' : 'text-red-500'}`}>{user.tokens.act}</span>
+                    </div>
+                    <div className="flex flex-col items-end">
+                        <span className="text-[10px] uppercase font-bold text-slate-400">{t('tokens.edu')}</span>
+                        <span className="text-xl font-black text-emerald-600 leading-none">{user.tokens.edu}</span>
+                    </div>
+                </button>
+                <div className="flex rounded-lg bg-slate-100 p-0.5" title={t('header.language')}>
+                    {LANGUAGES.map(l => (
+                        <button key={l.id} onClick={() => onLanguageChange(l.id)} className={`px-2 py-1 rounded-md text-xs font-bold transition-colors ${lang === l.id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400 hover:text-slate-600'}`}>{l.label}</button>
+                    ))}
+                </div>
+                <button onClick={onLogout} className="px-3 py-1.5 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors text-xs font-bold text-slate-600">{t('auth.logout')}</button>
+            </div>
+        </div>
+    );
+};
+
+// Tree layout: one column per branch, one row per tier
+const SKILL_CELL = { width: 200, height: 140, node: 168, nodeHeight: 96 };
+
+const SkillTreePanel = ({ user, activity, members, skillActivity, canPromote, onPromote }: { user: User, activity: SkillActivity, members: Member[], skillActivity: Record<string, SkillLog>, canPromote: boolean, onPromote: (member: Member, role: User['role']) => void }) => {
+    const { t } = useI18n();
+    const unlocked = useMemo(() => unlockedSkills(activity), [activity]);
+    const eligible = user.isGuest ? undefined : pendingPromotion(user, skillActivity[user.id]);
+    const candidates = canPromote ? members.flatMap(m => {
+        const role = m.id !== user.id && pendingPromotion(m, skillActivity[m.id]);
+        return role && canGrantRole(user, role) ? [{ member: m, role }] : [];
+    }) : [];
+    const position = (node: SkillNode) => ({ x: SKILL_BRANCHES.indexOf(node.branch) * SKILL_CELL.width, y: node.tier * SKILL_CELL.height });
+    const next = [...ROLE_PROMOTIONS].reverse().find(p => ROLE_RANK[p.role] > ROLE_RANK[user.role]);
+    const width = SKILL_BRANCHES.length * SKILL_CELL.width;
+    const height = Math.max(...SKILL_TREE.map(n => n.tier)) * SKILL_CELL.height + SKILL_CELL.nodeHeight;
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <h2 className="text-xl font-bold text-slate-800 mb-2 flex items-center gap-2"><Icons.Award /> {t('nav.growth')}</h2>
+            <div className="text-sm text-slate-600 mb-1 font-bold">{t('growth.role', { role: user.role })}</div>
+            <p className="text-xs text-slate-500 mb-4">
+                {user.isGuest ? t('growth.guest') : eligible ? t('growth.awaiting', { role: eligible }) : next ? t('growth.next_role', { role: next.role, branches: next.branches.map(b => t(`growth.branches.${b}`)).join(' + ') }) : t('growth.top_role')}
+            </p>
+            {candidates.length > 0 && (
+                <div className="bg-white border border-slate-200 rounded-xl p-4 mb-4">
+                    <div className="text-xs font-bold uppercase text-slate-400 mb-2">{t('growth.pending')}</div>
+                    {candidates.map(({ member, role }) => (
+                        <div key={member.id} className="flex items-center justify-between gap-2 py-1 text-sm">
+                            <span>{member.avatar} {member.name} <span className="text-slate-400">{member.role} → {role}</span></span>
+                            <button onClick={() => onPromote(member, role)} className="px-3 py-1 bg-green-600 text-white rounded-lg text-xs font-bold">{t('growth.confirm')}</button>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+                {(Object.keys(activity) as SkillMetric[]).map(metric => (
+                    <div key={metric} className="bg-white border border-slate-200 rounded-xl p-3">
+                        <div className="text-[10px] uppercase font-bold text-slate-400">{t(`growth.metrics.${metric}`)}</div>
+                        <div className="text-2xl font-black text-slate-800">{activity[metric]}</div>
+                    </div>
+                ))}
+            </div>
+            <div className="bg-white border border-slate-200 rounded-xl p-6 overflow-x-auto">
+                <div className="relative mx-auto" style={{ width, height: height + 32 }}>
+                    {SKILL_BRANCHES.map((branch, i) => (
+                        <div key={branch} className={`absolute top-0 text-center text-xs font-bold uppercase ${branchComplete(branch, unlocked) ? 'text-green-600' : 'text-slate-400'}`} style={{ left: i * SKILL_CELL.width, width: SKILL_CELL.node }}>{t(`growth.branches.${branch}`)}</div>
+                    ))}
+                    <svg className="absolute left-0 top-8 pointer-events-none" width={width} height={height}>
+                        {SKILL_TREE.flatMap(node => node.requires.map(id => {
+                            const from = position(SKILL_TREE.find(n => n.id === id)!), to = position(node);
+                            return <line key={`${id}-${node.id}`} x1={from.x + SKILL_CELL.node / 2} y1={from.y + SKILL_CELL.nodeHeight} x2={to.x + SKILL_CELL.node / 2} y2={to.y} stroke={unlocked.has(id) ? '#6366f1' : '#cbd5e1'} strokeWidth={2} strokeDasharray={unlocked.has(node.id) ? undefined : '4 4'} />;
+                        }))}
+                    </svg>
+                    {SKILL_TREE.map(node => {
+                        const { x, y } = position(node);
+                        const done = unlocked.has(node.id);
+                        const ready = !done && node.requires.every(id => unlocked.has(id));
+                        const progress = Math.min(1, activity[node.metric] / node.target);
+                        return (
+                            <div key={node.id} className={`absolute rounded-xl border-2 p-3 ${done ? 'bg-green-50 border-green-400' : ready ? 'bg-white border-indigo-300' : 'bg-slate-50 border-slate-200 opacity-70'}`} style={{ left: x, top: y + 32, width: SKILL_CELL.node, height: SKILL_CELL.nodeHeight }}
+                                title={node.requires.length ? t('growth.requires', { skills: node.requires.map(id => t(`growth.skills.${id}`)).join(', ') }) : undefined}>
+                                <div className="flex justify-between items-start gap-1">
+                                    <span className={`text-sm font-bold ${done ? 'text-green-700' : 'text-slate-700'}`}>{t(`growth.skills.${node.id}`)}</span>
+                                    <span className={`text-[10px] font-bold uppercase ${done ? 'text-green-600' : 'text-slate-400'}`}>{done ? t('growth.unlocked') : ready ? '' : t('growth.locked')}</span>
+                                </div>
+                                <div className="text-[10px] text-slate-500 mt-1">{t(`growth.metrics.${node.metric}`)}: {Math.min(activity[node.metric], node.target)} / {node.target}</div>
+                                <div className="mt-2 h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className={`h-full ${done ? 'bg-green-500' : 'bg-indigo-500'}`} style={{ width: `${progress * 100}%` }} /></div>
+                            </div>
+                        );
+                    })}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const CURRENCY_STYLES: Record<TokenCurrency, string> = { rep: 'text-indigo-600', act: 'text-amber-500', edu: 'text-emerald-600' };
+
+const LedgerPanel = ({ user, ledger, members, budgets, canManage, onChangeBudget }: { user: User, ledger: LedgerEntry[], members: Member[], budgets: Record<string, number>, canManage: boolean, onChangeBudget: (userId: string, budget: number | null) => void }) => {
+    const { t } = useI18n();
+    const [currency, setCurrency] = useState<TokenCurrency | 'all'>('all');
+    const { level, floor, next } = levelFor(user.tokens.rep);
+    const budget = focusBudgetOf(user, budgets);
+
+    // Running balances are computed oldest-first, then shown newest-first
+    const rows = useMemo(() => {
+        const balance = { rep: 0, act: 0, edu: 0 };
+        return ledger.filter(e => e.userId === user.id).reverse().map(e => ({ ...e, balance: balance[e.currency] += e.amount })).reverse();
+    }, [ledger, user.id]);
+    const shown = currency === 'all' ? rows : rows.filter(e => e.currency === currency);
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-2"><Icons.Wallet /> {t('modules.ledger')}</h2>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                <div className="bg-white border border-slate-200 rounded-xl p-4">
+                    <div className="text-[10px] uppercase font-bold text-slate-400">{t('tokens.rep')} · {t('header.level', { level })}</div>
+                    <div className={`text-3xl font-black ${CURRENCY_STYLES.rep}`}>{user.tokens.rep}</div>
+                    <div className="mt-2 h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500" style={{ width: `${(user.tokens.rep - floor) / (next - floor) * 100}%` }} /></div>
+                    <div className="text-xs text-slate-400 mt-1">{t('ledger.to_next', { xp: next - user.tokens.rep, level: level + 1 })}</div>
+                </div>
+                <div className="bg-white border border-slate-200 rounded-xl p-4">
+                    <div className="text-[10px] uppercase font-bold text-slate-400">{t('tokens.act')}</div>
+                    <div className={`text-3xl font-black ${user.tokens.act > 0 ? CURRENCY_STYLES.act : 'text-red-500'}`}>{user.tokens.act}</div>
+                    <div className="mt-2 h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-amber-400" style={{ width: `${Math.min(1, Math.max(0, user.tokens.act / budget)) * 100}%` }} /></div>
+                    <div className="text-xs text-slate-400 mt-1">{t('ledger.budget', { budget })}</div>
+                </div>
+                <div className="bg-white border border-slate-200 rounded-xl p-4">
+                    <div className="text-[10px] uppercase font-bold text-slate-400">{t('tokens.edu')}</div>
+                    <div className={`text-3xl font-black ${CURRENCY_STYLES.edu}`}>{user.tokens.edu}</div>
+                </div>
+            </div>
+            {user.tokens.act <= 0 && <div className="mb-6 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{t('ledger.out_of_focus', { budget })}</div>}
+            <div className="bg-white border border-slate-200 rounded-xl p-4 mb-6">
+                <div className="flex justify-between items-center mb-3">
+                    <h3 className="text-xs font-bold text-slate-500 uppercase">{t('ledger.history')}</h3>
+                    <div className="flex bg-slate-100 rounded-lg p-1">
+                        {(['all', ...TOKEN_CURRENCIES] as const).map(c => <button key={c} onClick={() => setCurrency(c)} className={`px-3 py-1 rounded-md text-xs font-bold ${currency === c ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{c === 'all' ? t('ledger.all') : t(`tokens.${c}`)}</button>)}
+                    </div>
+                </div>
+                {!shown.length ? <p className="text-sm text-slate-400">{t('ledger.empty')}</p> : (
+                    <table className="w-full text-sm">
+                        <thead className="text-[10px] uppercase text-slate-400">
+                            <tr><th className="text-left p-2">{t('ledger.date')}</th><th className="text-left p-2">{t('ledger.reason')}</th><th className="text-right p-2">{t('ledger.amount')}</th><th className="text-right p-2">{t('ledger.balance')}</th></tr>
+                        </thead>
+                        <tbody>
+                            {shown.slice(0, 200).map(e => (
+                                <tr key={e.id} className="border-t border-slate-100">
+                                    <td className="p-2 text-xs text-slate-400 whitespace-nowrap">{new Date(e.at).toLocaleString()}</td>
+                                    <td className="p-2 text-slate-700">{t(`ledger.reasons.${e.reason}`)}{e.detail && <span className="text-xs text-slate-400"> · {e.detail}</span>}</td>
+                                    <td className={`p-2 text-right font-mono font-bold ${e.amount < 0 ? 'text-red-500' : 'text-green-600'}`}>{e.amount > 0 ? '+' : ''}{e.amount} {t(`tokens.${e.currency}`)}</td>
+                                    <td className="p-2 text-right font-mono text-slate-500">{e.balance}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                )}
+            </div>
+            {canManage && (
+                <div className="bg-white border border-slate-200 rounded-xl p-4">
+                    <h3 className="text-xs font-bold text-slate-500 uppercase mb-1">{t('ledger.budgets')}</h3>
+                    <p className="text-xs text-slate-400 mb-3">{t('ledger.budgets_hint', { budget: DEFAULT_FOCUS_BUDGET })}</p>
+                    <div className="space-y-2">
+                        {members.map(m => (
+                            <div key={m.id} className="flex items-center gap-3 text-sm">
+                                <span className="flex-1 text-slate-700">{m.avatar} {m.name}</span>
+                                <input type="number" min={0} step={10} placeholder={String(DEFAULT_FOCUS_BUDGET)} className="w-28 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-sm" value={budgets[m.id] ?? ''} onChange={e => onChangeBudget(m.id, e.target.value === '' ? null : Math.max(0, Math.round(Number(e.target.value))))} />
+                                <span className="text-xs text-slate-400 w-20">{t('ledger.daily_focus')}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const SEVERITY_STYLES: Record<RiskSeverity, string> = {
+    low: 'bg-slate-100 text-slate-600',
+    medium: 'bg-amber-100 text-amber-700',
+    high: 'bg-red-100 text-red-700',
+};
+
+const AIClassifier = ({ initiatives, history, canLink, onClassify, onDelete, onToggleLink }: { initiatives: GovernanceInitiative[], history: Classification[], canLink: boolean, onClassify: (text: string, initiativeIds: string[]) => Promise<Classification>, onDelete: (id: string) => void, onToggleLink: (classificationId: string, initiativeId: string) => void }) => {
+    const { t } = useI18n();
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [input, setInput] = useState("");
+    const [activeId, setActiveId] = useState<string | null>(history[0]?.id || null);
+    const [error, setError] = useState<string | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+    const active = history.find(c => c.id === activeId);
+    const segments = useMemo(() => active ? highlightSegments(active.text, active) : [], [active]);
+
+    const handleClassify = async () => {
+        if (!input.trim() || !selectedIds.length) return;
+        setIsProcessing(true);
+        setError(null);
+        try {
+            const result = await onClassify(input, selectedIds);
+            setActiveId(result.id);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t('classifier.failed'));
+        } finally {
+            setIsProcessing(false);
+        }
+    };
+
+    const stamp = new Date().toISOString().slice(0, 10);
+
+    return (
+        <div className="h-full flex flex-col p-6 overflow-hidden">
+            <h2 className="text-xl font-bold text-slate-800 mb-4 flex items-center gap-2"><Icons.Brain /> {t('modules.classifier')}</h2>
+            <div className="grid grid-cols-3 gap-6 flex-1 min-h-0">
+                <div className="col-span-1 flex flex-col gap-4 min-h-0">
+                    <div className="bg-white border border-slate-200 rounded-xl p-4 overflow-y-auto max-h-[45%]">
+                        <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">{t('classifier.context')}</h3>
+                        <div className="space-y-2">
+                            {initiatives.map(init => (
+                                <label key={init.id} className={`flex items-center gap-3 p-3 rounded-lg border cursor-pointer transition-all ${selectedIds.includes(init.id) ? 'bg-indigo-50 border-indigo-500' : 'bg-slate-50 border-slate-200 hover:border-indigo-300'}`}>
+                                    <input 
+                                        type="checkbox" 
+                                        checked={selectedIds.includes(init.id)} 
+                                        onChange={() => setSelectedIds(prev => prev.includes(init.id) ? prev.filter(id => id !== init.id) : [...prev, init.id])}
+                                        className="w-4 h-4 text-indigo-600 rounded focus:ring-indigo-500"
+                                    />
+                                    <span className="text-sm font-medium text-slate-700">{init.title}</span>
+                                </label>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="bg-white border border-slate-200 rounded-xl p-4 flex-1 min-h-0 flex flex-col">
+                        <div className="flex items-center justify-between mb-3">
+                            <h3 className="text-sm font-bold text-slate-500 uppercase">{t('classifier.history')}</h3>
+                            <div className="flex gap-1">
+                                <button disabled={!history.length} onClick={() => downloadText(`classifications-${stamp}.csv`, classificationsToCsv(history), 'text/csv')} className="px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded text-[10px] font-bold text-slate-600 flex items-center gap-1 disabled:opacity-50"><Icons.Download /> {t('classifier.export_csv')}</button>
+                                <button disabled={!history.length} onClick={() => downloadText(`classifications-${stamp}.json`, JSON.stringify(history, null, 2), 'application/json')} className="px-2 py-1 bg-slate-100 hover:bg-slate-200 rounded text-[10px] font-bold text-slate-600 flex items-center gap-1 disabled:opacity-50"><Icons.Download /> {t('classifier.export_json')}</button>
+                            </div>
+                        </div>
+                        <div className="overflow-y-auto space-y-1 flex-1">
+                            {!history.length && <p className="text-xs text-slate-400 text-center py-4">{t('classifier.history_empty')}</p>}
+                            {history.map(c => (
+                                <div key={c.id} onClick={() => setActiveId(c.id)} className={`group p-2 rounded-lg cursor-pointer border text-xs ${c.id === activeId ? 'bg-indigo-50 border-indigo-300' : 'border-transparent hover:bg-slate-50'}`}>
+                                    <div className="flex justify-between text-slate-400">
+                                        <span>{new Date(c.createdAt).toLocaleString()}</span>
+                                        <button onClick={e => { e.stopPropagation(); onDelete(c.id); }} className="opacity-0 group-hover:opacity-100 hover:text-red-500" title={t('classifier.delete')}><Icons.Trash /></button>
+                                    </div>
+                                    <div className="text-slate-700 truncate">{clip(c.text, 80)}</div>
+                                    {c.scores[0] && <div className="text-indigo-600 font-bold">{c.scores[0].title} · {Math.round(c.scores[0].relevance * 100)}%</div>}
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+                <div className="col-span-2 flex flex-col gap-4 min-h-0 overflow-y-auto">
+                    <div className="relative shrink-0">
+                        <textarea 
+                            className="h-32 w-full bg-slate-50 border border-slate-200 rounded-xl p-4 pr-12 text-slate-700 resize-none focus:ring-2 focus:ring-indigo-500 outline-none font-mono text-sm"
+                            placeholder={t('classifier.placeholder')}
+                            value={input}
+                            onChange={e => setInput(e.target.value)}
+                        />
+                        <MicButton onText={text => setInput(prev => prev ? `${prev} ${text}` : text)} className="absolute top-3 right-3 p-1 rounded-lg text-slate-400 hover:text-indigo-600" />
+                    </div>
+                    <div className="flex justify-end items-center gap-3">
+                        {!selectedIds.length && <span className="text-xs text-slate-400">{t('classifier.select_hint')}</span>}
+                        {error && <span className="text-xs text-red-500">{error}</span>}
+                        <button 
+                            onClick={handleClassify} 
+                            disabled={isProcessing || !selectedIds.length || !input.trim()}
+                            className={`px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold flex items-center gap-2 transition-all disabled:opacity-50 ${isProcessing ? 'cursor-wait' : 'hover:bg-indigo-700'}`}
                         >
-                            {tool.installed ? 'Installed' : 'Install Module'}
+                            {isProcessing ? t('classifier.analyzing') : <><Icons.Spark /> {t('classifier.classify')}</>}
+                        </button>
+                    </div>
+                    {active && (
+                        <div className="space-y-4">
+                            {active.summary && <div className="bg-white border border-slate-200 rounded-xl p-4 text-sm text-slate-700"><span className="font-bold text-slate-500 uppercase text-xs mr-2">{t('classifier.summary')}</span>{active.summary}</div>}
+                            <div className="bg-white border border-slate-200 rounded-xl overflow-hidden">
+                                <table className="w-full text-sm">
+                                    <thead className="bg-slate-50 text-xs uppercase text-slate-500">
+                                        <tr><th className="text-left p-3">{t('classifier.initiative')}</th><th className="text-left p-3 w-36">{t('classifier.relevance')}</th><th className="text-left p-3">{t('classifier.rationale')}</th><th className="text-left p-3">{t('classifier.evidence')}</th><th className="p-3" /></tr>
+                                    </thead>
+                                    <tbody>
+                                        {active.scores.map(score => (
+                                            <tr key={score.initiativeId} className="border-t border-slate-100 align-top">
+                                                <td className="p-3 font-bold text-slate-700">{score.title}</td>
+                                                <td className="p-3">
+                                                    <div className="flex items-center gap-2">
+                                                        <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500" style={{ width: `${score.relevance * 100}%` }} /></div>
+                                                        <span className="text-xs font-mono text-slate-500">{Math.round(score.relevance * 100)}%</span>
+                                                    </div>
+                                                </td>
+                                                <td className="p-3 text-slate-600">{score.rationale}</td>
+                                                <td className="p-3 space-y-1">
+                                                    {score.evidence.map((quote, i) => (
+                                                        <div key={i} className="text-xs text-slate-600 italic">
+                                                            “{quote}”{findQuote(active.text, quote) < 0 && <span className="not-italic text-amber-600"> ({t('classifier.not_in_text')})</span>}
+                                                        </div>
+                                                    ))}
+                                                </td>
+                                                <td className="p-3">
+                                                    {initiatives.some(i => i.id === score.initiativeId) && (
+                                                        <button disabled={!canLink} onClick={() => onToggleLink(active.id, score.initiativeId)} className={`px-2 py-1 rounded text-[10px] font-bold uppercase flex items-center gap-1 disabled:cursor-not-allowed ${active.links.includes(score.initiativeId) ? 'bg-indigo-100 text-indigo-700' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>
+                                                            <Icons.Link /> {active.links.includes(score.initiativeId) ? t('classifier.linked') : t('classifier.link')}
+                                                        </button>
+                                                    )}
+                                                </td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                            <div className="grid grid-cols-2 gap-4">
+                                <div className="bg-white border border-slate-200 rounded-xl p-4">
+                                    <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">{t('classifier.risks')}</h3>
+                                    {!active.risks.length && <p className="text-xs text-slate-400">{t('classifier.no_risks')}</p>}
+                                    <div className="space-y-2">
+                                        {active.risks.map((risk, i) => (
+                                            <div key={i} className="text-sm">
+                                                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase mr-2 ${SEVERITY_STYLES[risk.severity]}`}>{t(`classifier.severity.${risk.severity}`)}</span>
+                                                <span className="text-slate-700">{risk.label}</span>
+                                                {risk.evidence && <div className="text-xs text-slate-500 italic mt-0.5">“{risk.evidence}”</div>}
+                                            </div>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div className="bg-white border border-slate-200 rounded-xl p-4">
+                                    <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">{t('classifier.actions')}</h3>
+                                    <ol className="list-decimal list-inside space-y-1 text-sm text-slate-700">
+                                        {active.actions.map((action, i) => <li key={i}>{action}</li>)}
+                                    </ol>
+                                </div>
+                            </div>
+                            <div className="bg-white border border-slate-200 rounded-xl p-4">
+                                <h3 className="text-xs font-bold text-slate-500 uppercase mb-2">{t('classifier.highlighted')}</h3>
+                                <p className="text-sm text-slate-700 whitespace-pre-wrap leading-relaxed">
+                                    {segments.map((seg, i) => seg.kind
+                                        ? <mark key={i} className={seg.kind === 'risk' ? 'bg-red-100 text-red-800 rounded px-0.5' : 'bg-yellow-100 text-slate-900 rounded px-0.5'}>{seg.text}</mark>
+                                        : <React.Fragment key={i}>{seg.text}</React.Fragment>)}
+                                </p>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const PRIORITY_STYLES: Record<TaskPriority, string> = {
+    high: 'bg-red-100 text-red-700', medium: 'bg-amber-100 text-amber-700', low: 'bg-blue-100 text-blue-700',
+};
+
+// Assignees are encoded as "user:<id>" / "agent:<id>" for the select
+const encodeAssignee = (assignee?: TaskAssignee) => assignee ? `${assignee.kind}:${assignee.id}` : '';
+const decodeAssignee = (value: string): TaskAssignee | undefined => {
+    const [kind, id] = value.split(':');
+    return kind === 'user' || kind === 'agent' ? { kind, id } : undefined;
+};
+
+const Taskbook = ({ tasks, milestones, stickies, members, agents, user, onChangeTasks, onChangeMilestones, onChangeStickies, onSuggest, onDelegate }: { tasks: ProjectTask[], milestones: Milestone[], stickies: StickyNote[], members: Member[], agents: Agent[], user: User, onChangeTasks: (update: (tasks: ProjectTask[]) => ProjectTask[]) => void, onChangeMilestones: (update: (milestones: Milestone[]) => Milestone[]) => void, onChangeStickies: (update: (notes: StickyNote[]) => StickyNote[]) => void, onSuggest: (agentId: string) => Promise<void>, onDelegate: (task: ProjectTask) => void }) => {
+    const { t } = useI18n();
+    const [view, setView] = useState<'board' | 'list'>('board');
+    const [milestoneFilter, setMilestoneFilter] = useState('');
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [dragId, setDragId] = useState<string | null>(null);
+    const [dropStatus, setDropStatus] = useState<ProjectTaskStatus | null>(null);
+    const [ideaAgentId, setIdeaAgentId] = useState(agents[0]?.id || '');
+    const [ideaText, setIdeaText] = useState('');
+    const [milestoneTitle, setMilestoneTitle] = useState('');
+    const [suggesting, setSuggesting] = useState(false);
+    const [error, setError] = useState('');
+    const [delegated, setDelegated] = useState('');
+
+    const visible = milestoneFilter ? tasks.filter(task => task.milestoneId === milestoneFilter) : tasks;
+    const open = visible.filter(task => task.status !== 'done');
+    const editing = tasks.find(task => task.id === editingId);
+    const milestoneName = (id?: string) => milestones.find(m => m.id === id)?.title;
+    const assigneeName = (assignee?: TaskAssignee) => !assignee ? '' : assignee.kind === 'agent' ? agents.find(a => a.id === assignee.id)?.name || '?' : members.find(m => m.id === assignee.id)?.name || '?';
+
+    const update = (id: string, patch: Partial<ProjectTask>) => onChangeTasks(prev => prev.map(task => task.id === id ? { ...task, ...patch, updatedAt: Date.now() } : task));
+
+    const create = (status: ProjectTaskStatus) => {
+        const now = Date.now();
+        const task: ProjectTask = { id: `pt_${randomHex(6)}`, title: t('taskbook.untitled'), description: '', status, priority: 'medium', estimateHours: 1, tokenCost: 0, tokensSpent: 0, milestoneId: milestoneFilter || undefined, createdAt: now, updatedAt: now };
+        onChangeTasks(prev => [...prev, task]);
+        setEditingId(task.id);
+    };
+
+    const remove = (task: ProjectTask) => {
+        if (!window.confirm(t('taskbook.confirm_delete', { title: task.title }))) return;
+        onChangeTasks(prev => prev.filter(x => x.id !== task.id));
+        setEditingId(null);
+    };
+
+    const drop = (status: ProjectTaskStatus) => {
+        if (dragId) update(dragId, { status });
+        setDragId(null);
+        setDropStatus(null);
+    };
+
+    const suggest = async () => {
+        setSuggesting(true);
+        setError('');
+        try {
+            await onSuggest(ideaAgentId);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t('taskbook.suggest_failed'));
+        } finally {
+            setSuggesting(false);
+        }
+    };
+
+    const addIdea = () => {
+        if (!ideaText.trim()) return;
+        const note: StickyNote = { id: `st_${randomHex(6)}`, text: ideaText.trim(), detail: '', priority: 'medium', estimateHours: 1, tokenCost: 0, author: user.name, createdAt: Date.now() };
+        onChangeStickies(prev => [note, ...prev].slice(0, MAX_STICKY_NOTES));
+        setIdeaText('');
+    };
+
+    const promote = (note: StickyNote) => {
+        const task = stickyToTask(note, milestoneFilter || undefined);
+        onChangeTasks(prev => [...prev, task]);
+        onChangeStickies(prev => prev.filter(n => n.id !== note.id));
+        setEditingId(task.id);
+    };
+
+    const addMilestone = () => {
+        if (!milestoneTitle.trim()) return;
+        onChangeMilestones(prev => [...prev, { id: `m_${randomHex(4)}`, title: milestoneTitle.trim(), dueDate: '' }]);
+        setMilestoneTitle('');
+    };
+
+    const removeMilestone = (milestone: Milestone) => {
+        if (!window.confirm(t('taskbook.confirm_delete_milestone', { title: milestone.title }))) return;
+        onChangeMilestones(prev => prev.filter(m => m.id !== milestone.id));
+        onChangeTasks(prev => prev.map(task => task.milestoneId === milestone.id ? { ...task, milestoneId: undefined } : task));
+        if (milestoneFilter === milestone.id) setMilestoneFilter('');
+    };
+
+    const delegate = (task: ProjectTask) => {
+        onDelegate(task);
+        setDelegated(task.id);
+    };
+
+    const inputClass = 'w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500';
+    const sorted = [...visible].sort((a, b) => TASK_PRIORITIES.indexOf(a.priority) - TASK_PRIORITIES.indexOf(b.priority) || PROJECT_TASK_STATUSES.indexOf(a.status) - PROJECT_TASK_STATUSES.indexOf(b.status));
+
+    const card = (task: ProjectTask) => (
+        <div key={task.id} draggable onDragStart={e => { e.dataTransfer.setData('text/plain', task.id); setDragId(task.id); }} onDragEnd={() => { setDragId(null); setDropStatus(null); }} onClick={() => setEditingId(task.id)}
+            className={`bg-white border rounded-lg p-3 shadow-sm cursor-grab active:cursor-grabbing space-y-2 ${task.id === editingId ? 'border-indigo-400' : 'border-slate-200 hover:border-indigo-200'} ${task.id === dragId ? 'opacity-50' : ''}`}>
+            <div className="flex justify-between items-start gap-2">
+                <span className="text-sm font-bold text-slate-700">{task.title}</span>
+                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase shrink-0 ${PRIORITY_STYLES[task.priority]}`}>{t(`taskbook.priorities.${task.priority}`)}</span>
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-500 font-mono">
+                <span>⏱ {task.estimateHours} h</span>
+                <span title={t('taskbook.tokens_spent', { tokens: task.tokensSpent })}>🪙 {task.tokensSpent ? `${formatTokens(task.tokensSpent)}/` : ''}{formatTokens(task.tokenCost)}</span>
+                {task.milestoneId && <span>◆ {milestoneName(task.milestoneId)}</span>}
+            </div>
+            {task.assignee && <div className="text-[10px] text-slate-500 flex items-center gap-1">{task.assignee.kind === 'agent' ? <Icons.Cpu /> : <Icons.Users />} <span className="truncate">{assigneeName(task.assignee)}</span></div>}
+        </div>
+    );
+
+    return (
+        <div className="h-full flex flex-col p-6 overflow-hidden">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                <div>
+                    <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Icons.Kanban /> {t('modules.taskbook')}</h2>
+                    <p className="text-xs text-slate-400 font-mono mt-1">{t('taskbook.open_summary', { count: open.length, hours: open.reduce((sum, task) => sum + task.estimateHours, 0), tokens: formatTokens(open.reduce((sum, task) => sum + task.tokenCost, 0)) })}</p>
+                </div>
+                <div className="flex items-center gap-2">
+                    <select className="bg-white border border-slate-200 rounded-lg px-2 py-2 text-xs" value={milestoneFilter} onChange={e => setMilestoneFilter(e.target.value)}>
+                        <option value="">{t('taskbook.all_milestones')}</option>
+                        {milestones.map(m => <option key={m.id} value={m.id}>{m.title}</option>)}
+                    </select>
+                    <div className="flex bg-slate-100 rounded-lg p-1">
+                        {(['board', 'list'] as const).map(v => <button key={v} onClick={() => setView(v)} className={`px-3 py-1 rounded-md text-xs font-bold ${view === v ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'}`}>{t(`taskbook.${v}`)}</button>)}
+                    </div>
+                    <button onClick={() => create('todo')} className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-bold flex items-center gap-1"><Icons.Plus /> {t('taskbook.new_task')}</button>
+                </div>
+            </div>
+            <div className="flex gap-4 flex-1 min-h-0">
+                <div className="flex-1 min-w-0 overflow-auto">
+                    {view === 'board' ? (
+                        <div className="grid grid-cols-5 gap-3 min-w-[56rem] h-full">
+                            {PROJECT_TASK_STATUSES.map(status => {
+                                const column = visible.filter(task => task.status === status);
+                                return (
+                                    <div key={status} onDragOver={e => { e.preventDefault(); setDropStatus(status); }} onDragLeave={() => setDropStatus(null)} onDrop={e => { e.preventDefault(); drop(status); }}
+                                        className={`rounded-xl p-2 flex flex-col gap-2 transition-colors ${dropStatus === status ? 'bg-indigo-100' : 'bg-slate-100'}`}>
+                                        <div className="flex justify-between items-center px-1">
+                                            <span className="text-xs font-bold text-slate-500 uppercase">{t(`taskbook.statuses.${status}`)} · {column.length}</span>
+                                            <button onClick={() => create(status)} className="text-slate-400 hover:text-indigo-600" title={t('taskbook.new_task')}><Icons.Plus /></button>
+                                        </div>
+                                        {column.map(card)}
+                                        {!column.length && <div className="text-[10px] text-slate-400 text-center py-6 border-2 border-dashed border-slate-200 rounded-lg">{t('taskbook.drop_here')}</div>}
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    ) : (
+                        <table className="w-full text-sm bg-white border border-slate-200 rounded-xl overflow-hidden">
+                            <thead className="bg-slate-50 text-[10px] uppercase text-slate-500">
+                                <tr>{(['title', 'status', 'priority', 'estimate', 'token_cost', 'milestone', 'assignee'] as const).map(col => <th key={col} className="text-left p-2">{t(`taskbook.${col}`)}</th>)}</tr>
+                            </thead>
+                            <tbody>
+                                {sorted.map(task => (
+                                    <tr key={task.id} onClick={() => setEditingId(task.id)} className={`border-t border-slate-100 cursor-pointer ${task.id === editingId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                                        <td className="p-2 font-bold text-slate-700">{task.title}</td>
+                                        <td className="p-2" onClick={e => e.stopPropagation()}>
+                                            <select className="bg-transparent text-xs" value={task.status} onChange={e => update(task.id, { status: e.target.value as ProjectTaskStatus })}>
+                                                {PROJECT_TASK_STATUSES.map(status => <option key={status} value={status}>{t(`taskbook.statuses.${status}`)}</option>)}
+                                            </select>
+                                        </td>
+                                        <td className="p-2"><span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${PRIORITY_STYLES[task.priority]}`}>{t(`taskbook.priorities.${task.priority}`)}</span></td>
+                                        <td className="p-2 font-mono text-xs">{task.estimateHours} h</td>
+                                        <td className="p-2 font-mono text-xs">{task.tokensSpent ? `${formatTokens(task.tokensSpent)}/` : ''}{formatTokens(task.tokenCost)}</td>
+                                        <td className="p-2 text-xs text-slate-500">{milestoneName(task.milestoneId) || '—'}</td>
+                                        <td className="p-2 text-xs text-slate-500">{assigneeName(task.assignee) || '—'}</td>
+                                    </tr>
+                                ))}
+                                {!sorted.length && <tr><td colSpan={7} className="p-6 text-center text-xs text-slate-400">{t('taskbook.empty')}</td></tr>}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+                <div className="w-80 shrink-0 overflow-y-auto space-y-4">
+                    {editing ? (
+                        <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-3">
+                            <label className="block text-xs font-bold text-slate-500 uppercase">{t('taskbook.title')}
+                                <input className={`${inputClass} mt-1 normal-case font-bold`} value={editing.title} onChange={e => update(editing.id, { title: e.target.value })} />
+                            </label>
+                            <label className="block text-xs font-bold text-slate-500 uppercase">{t('taskbook.description')}
+                                <textarea className={`${inputClass} mt-1 h-24 resize-none normal-case font-normal`} value={editing.description} onChange={e => update(editing.id, { description: e.target.value })} />
+                            </label>
+                            <div className="grid grid-cols-2 gap-3">
+                                <label className="block text-xs font-bold text-slate-500 uppercase">{t('taskbook.status')}
+                                    <select className={`${inputClass} mt-1 normal-case font-normal`} value={editing.status} onChange={e => update(editing.id, { status: e.target.value as ProjectTaskStatus })}>
+                                        {PROJECT_TASK_STATUSES.map(status => <option key={status} value={status}>{t(`taskbook.statuses.${status}`)}</option>)}
+                                    </select>
+                                </label>
+                                <label className="block text-xs font-bold text-slate-500 uppercase">{t('taskbook.priority')}
+                                    <select className={`${inputClass} mt-1 normal-case font-normal`} value={editing.priority} onChange={e => update(editing.id, { priority: e.target.value as TaskPriority })}>
+                                        {TASK_PRIORITIES.map(priority => <option key={priority} value={priority}>{t(`taskbook.priorities.${priority}`)}</option>)}
+                                    </select>
+                                </label>
+                                <label className="block text-xs font-bold text-slate-500 uppercase">{t('taskbook.estimate')}
+                                    <input type="number" min={0} step={0.5} className={`${inputClass} mt-1 font-normal`} value={editing.estimateHours} onChange={e => update(editing.id, { estimateHours: Math.max(0, Number(e.target.value)) })} />
+                                </label>
+                                <label className="block text-xs font-bold text-slate-500 uppercase">{t('taskbook.token_cost')}
+                                    <input type="number" min={0} step={100} className={`${inputClass} mt-1 font-normal`} value={editing.tokenCost} onChange={e => update(editing.id, { tokenCost: Math.max(0, Math.round(Number(e.target.value))) })} />
+                                </label>
+                            </div>
+                            <p className="text-[10px] text-slate-400 font-mono">{t('taskbook.tokens_spent', { tokens: editing.tokensSpent })}</p>
+                            <label className="block text-xs font-bold text-slate-500 uppercase">{t('taskbook.milestone')}
+                                <select className={`${inputClass} mt-1 normal-case font-normal`} value={editing.milestoneId || ''} onChange={e => update(editing.id, { milestoneId: e.target.value || undefined })}>
+                                    <option value="">{t('taskbook.no_milestone')}</option>
+                                    {milestones.map(m => <option key={m.id} value={m.id}>{m.title}</option>)}
+                                </select>
+                            </label>
+                            <label className="block text-xs font-bold text-slate-500 uppercase">{t('taskbook.assignee')}
+                                <select className={`${inputClass} mt-1 normal-case font-normal`} value={encodeAssignee(editing.assignee)} onChange={e => update(editing.id, { assignee: decodeAssignee(e.target.value) })}>
+                                    <option value="">{t('taskbook.unassigned')}</option>
+                                    <optgroup label={t('taskbook.members')}>{members.map(m => <option key={m.id} value={`user:${m.id}`}>{m.avatar} {m.name}</option>)}</optgroup>
+                                    <optgroup label={t('taskbook.agents')}>{agents.map(a => <option key={a.id} value={`agent:${a.id}`}>{a.name} ({a.role})</option>)}</optgroup>
+                                </select>
+                            </label>
+                            {editing.assignee?.kind === 'agent' && (
+                                <div className="flex items-center gap-2">
+                                    <button onClick={() => delegate(editing)} className="px-3 py-2 bg-indigo-50 hover:bg-indigo-100 text-indigo-700 rounded-lg text-xs font-bold flex items-center gap-1"><Icons.Cpu /> {t('taskbook.delegate')}</button>
+                                    {delegated === editing.id && <span className="text-xs text-green-600">{t('taskbook.delegated')}</span>}
+                                </div>
+                            )}
+                            {editing.agentResult && (
+                                <div>
+                                    <h4 className="text-xs font-bold text-slate-500 uppercase mb-1">{t('taskbook.agent_result')}</h4>
+                                    <div className="text-xs text-slate-600 bg-slate-50 rounded-lg p-2 max-h-40 overflow-y-auto whitespace-pre-wrap">{editing.agentResult}</div>
+                                </div>
+                            )}
+                            <div className="flex justify-between pt-2">
+                                <button onClick={() => remove(editing)} className="px-3 py-2 bg-red-50 hover:bg-red-100 text-red-600 rounded-lg text-xs font-bold flex items-center gap-1"><Icons.Trash /> {t('taskbook.delete')}</button>
+                                <button onClick={() => setEditingId(null)} className="px-3 py-2 bg-slate-100 hover:bg-slate-200 text-slate-600 rounded-lg text-xs font-bold">{t('taskbook.close')}</button>
+                            </div>
+                        </div>
+                    ) : (
+                        <>
+                            <div className="bg-white border border-slate-200 rounded-xl p-4">
+                                <h3 className="text-xs font-bold text-slate-500 uppercase mb-3">{t('taskbook.ideas')}</h3>
+                                <div className="flex gap-2 mb-2">
+                                    <select className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs" value={ideaAgentId} onChange={e => setIdeaAgentId(e.target.value)}>
+                                        {agents.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                                    </select>
+                                    <button disabled={suggesting || !ideaAgentId} onClick={suggest} className="px-3 py-1 bg-amber-400 hover:bg-amber-500 text-amber-950 rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50"><Icons.Wand /> {suggesting ? t('taskbook.suggesting') : t('taskbook.suggest')}</button>
+                                </div>
+                                <div className="flex gap-2 mb-3">
+                                    <input className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs outline-none" placeholder={t('taskbook.idea_placeholder')} value={ideaText} onChange={e => setIdeaText(e.target.value)} onKeyDown={e => e.key === 'Enter' && addIdea()} />
+                                    <button disabled={!ideaText.trim()} onClick={addIdea} className="px-3 py-1 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold text-slate-600 disabled:opacity-50">{t('taskbook.add')}</button>
+                                </div>
+                                {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+                                {!stickies.length && <p className="text-xs text-slate-400">{t('taskbook.no_ideas')}</p>}
+                                <div className="space-y-2">
+                                    {stickies.map(note => (
+                                        <div key={note.id} className="bg-yellow-100 border border-yellow-200 rounded-lg p-3 shadow-sm rotate-[-0.5deg]">
+                                            <div className="flex justify-between items-start gap-2">
+                                                <span className="text-sm font-bold text-yellow-900">{note.text}</span>
+                                                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase shrink-0 ${PRIORITY_STYLES[note.priority]}`}>{t(`taskbook.priorities.${note.priority}`)}</span>
+                                            </div>
+                                            {note.detail && <p className="text-xs text-yellow-900/80 mt-1">{note.detail}</p>}
+                                            <div className="text-[10px] text-yellow-800/70 mt-2 font-mono">{note.agentId ? `${t('taskbook.proposed_by', { name: note.author })} · ` : ''}⏱ {note.estimateHours} h · 🪙 {formatTokens(note.tokenCost)}</div>
+                                            <div className="flex gap-2 mt-2">
+                                                <button onClick={() => promote(note)} className="text-xs font-bold text-indigo-700 hover:text-indigo-900">{t('taskbook.promote')}</button>
+                                                <button onClick={() => onChangeStickies(prev => prev.filter(n => n.id !== note.id))} className="text-xs text-yellow-800/70 hover:text-red-600">{t('taskbook.dismiss')}</button>
+                                            </div>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="bg-white border border-slate-200 rounded-xl p-4">
+                                <h3 className="text-xs font-bold text-slate-500 uppercase mb-3">{t('taskbook.milestones')}</h3>
+                                <div className="space-y-3">
+                                    {milestones.map(m => (
+                                        <div key={m.id}>
+                                            <div className="flex items-center gap-2">
+                                                <input className="flex-1 min-w-0 text-sm font-bold text-slate-700 bg-transparent outline-none" value={m.title} onChange={e => onChangeMilestones(prev => prev.map(x => x.id === m.id ? { ...x, title: e.target.value } : x))} />
+                                                <input type="date" className="text-[10px] text-slate-500 bg-transparent" value={m.dueDate} onChange={e => onChangeMilestones(prev => prev.map(x => x.id === m.id ? { ...x, dueDate: e.target.value } : x))} />
+                                                <button onClick={() => removeMilestone(m)} className="text-slate-400 hover:text-red-500"><Icons.Trash /></button>
+                                            </div>
+                                            <div className="mt-1 h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500" style={{ width: `${milestoneProgress(m.id, tasks) * 100}%` }} /></div>
+                                        </div>
+                                    ))}
+                                </div>
+                                <div className="flex gap-2 mt-3">
+                                    <input className="flex-1 min-w-0 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-xs outline-none" placeholder={t('taskbook.milestone_placeholder')} value={milestoneTitle} onChange={e => setMilestoneTitle(e.target.value)} onKeyDown={e => e.key === 'Enter' && addMilestone()} />
+                                    <button disabled={!milestoneTitle.trim()} onClick={addMilestone} className="px-3 py-1 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold text-slate-600 disabled:opacity-50">{t('taskbook.add')}</button>
+                                </div>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const INITIATIVE_STATUSES: InitiativeStatus[] = ['planned', 'active', 'on_hold', 'completed'];
+const STATUS_STYLES: Record<InitiativeStatus, string> = {
+    planned: 'bg-slate-100 text-slate-600',
+    active: 'bg-green-100 text-green-700',
+    on_hold: 'bg-amber-100 text-amber-700',
+    completed: 'bg-indigo-100 text-indigo-700',
+};
+
+const InitiativesPanel = ({ initiatives, classifications, user, canEdit, focusId, onChange, onUnlink }: { initiatives: GovernanceInitiative[], classifications: Classification[], user: User, canEdit: boolean, focusId: string | null, onChange: (update: (initiatives: GovernanceInitiative[]) => GovernanceInitiative[]) => void, onUnlink: (classificationId: string, initiativeId: string) => void }) => {
+    const { t } = useI18n();
+    const [selectedId, setSelectedId] = useState<string | null>(focusId || initiatives[0]?.id || null);
+    const selected = initiatives.find(i => i.id === selectedId);
+    const linked = selected ? classifications.filter(c => c.links.includes(selected.id)) : [];
+
+    const update = (patch: Partial<GovernanceInitiative>) => onChange(prev => prev.map(i => i.id === selectedId ? { ...i, ...patch } : i));
+    const updateKpi = (id: string, patch: Partial<InitiativeKpi>) => selected && update({ kpis: selected.kpis.map(k => k.id === id ? { ...k, ...patch } : k) });
+
+    const setStatus = (status: InitiativeStatus) => {
+        if (!selected || selected.status === status) return;
+        update({ status, history: [...selected.history, { status, at: Date.now(), by: user.name }] });
+    };
+
+    const create = () => {
+        const now = Date.now();
+        const initiative: GovernanceInitiative = { id: `i_${randomHex(6)}`, title: t('initiatives.untitled'), description: '', owner: user.name, deadline: '', status: 'planned', kpis: [], history: [{ status: 'planned', at: now, by: user.name }], createdAt: now };
+        onChange(prev => [...prev, initiative]);
+        setSelectedId(initiative.id);
+    };
+
+    const remove = () => {
+        if (!selected || !window.confirm(t('initiatives.confirm_delete', { title: selected.title }))) return;
+        onChange(prev => prev.filter(i => i.id !== selected.id));
+        setSelectedId(null);
+    };
+
+    const inputClass = 'w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500 disabled:opacity-70';
+
+    return (
+        <div className="h-full flex flex-col p-6 overflow-hidden">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Icons.Flag /> {t('modules.initiatives')}</h2>
+                {canEdit && <button onClick={create} className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-xs font-bold flex items-center gap-1"><Icons.Plus /> {t('initiatives.new')}</button>}
+            </div>
+            {!canEdit && <div className="mb-4 text-xs bg-amber-50 border border-amber-200 text-amber-700 rounded-lg px-3 py-2">{t('initiatives.mentor_only')}</div>}
+            <div className="grid grid-cols-3 gap-6 flex-1 min-h-0">
+                <div className="col-span-1 bg-white border border-slate-200 rounded-xl p-2 overflow-y-auto space-y-1">
+                    {!initiatives.length && <p className="text-xs text-slate-400 text-center py-4">{t('initiatives.empty')}</p>}
+                    {initiatives.map(i => (
+                        <button key={i.id} onClick={() => setSelectedId(i.id)} className={`w-full text-left p-3 rounded-lg border ${i.id === selectedId ? 'bg-indigo-50 border-indigo-300' : 'border-transparent hover:bg-slate-50'}`}>
+                            <div className="flex justify-between items-center gap-2">
+                                <span className="text-sm font-bold text-slate-700 truncate">{i.title}</span>
+                                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase shrink-0 ${STATUS_STYLES[i.status]}`}>{t(`initiatives.statuses.${i.status}`)}</span>
+                            </div>
+                            <div className="mt-2 h-1.5 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-500" style={{ width: `${initiativeProgress(i) * 100}%` }} /></div>
+                        </button>
+                    ))}
+                </div>
+                <div className="col-span-2 overflow-y-auto">
+                    {!selected ? <div className="text-sm text-slate-400 text-center mt-8">{t('initiatives.select')}</div> : (
+                        <div className="space-y-4">
+                            <div className="bg-white border border-slate-200 rounded-xl p-4 space-y-3">
+                                <label className="block text-xs font-bold text-slate-500 uppercase">{t('initiatives.title')}
+                                    <input disabled={!canEdit} className={`${inputClass} mt-1 normal-case font-bold`} value={selected.title} onChange={e => update({ title: e.target.value })} />
+                                </label>
+                                <label className="block text-xs font-bold text-slate-500 uppercase">{t('initiatives.description')}
+                                    <textarea disabled={!canEdit} className={`${inputClass} mt-1 h-20 resize-none normal-case font-normal`} value={selected.description} onChange={e => update({ description: e.target.value })} />
+                                </label>
+                                <div className="grid grid-cols-3 gap-3">
+                                    <label className="block text-xs font-bold text-slate-500 uppercase">{t('initiatives.owner')}
+                                        <input disabled={!canEdit} className={`${inputClass} mt-1 normal-case font-normal`} value={selected.owner} onChange={e => update({ owner: e.target.value })} />
+                                    </label>
+                                    <label className="block text-xs font-bold text-slate-500 uppercase">{t('initiatives.deadline')}
+                                        <input type="date" disabled={!canEdit} className={`${inputClass} mt-1 font-normal ${isOverdue(selected) ? 'text-red-600' : ''}`} value={selected.deadline} onChange={e => update({ deadline: e.target.value })} />
+                                    </label>
+                                    <label className="block text-xs font-bold text-slate-500 uppercase">{t('initiatives.status')}
+                                        <select disabled={!canEdit} className={`${inputClass} mt-1 normal-case font-normal`} value={selected.status} onChange={e => setStatus(e.target.value as InitiativeStatus)}>
+                                            {INITIATIVE_STATUSES.map(status => <option key={status} value={status}>{t(`initiatives.statuses.${status}`)}</option>)}
+                                        </select>
+                                    </label>
+                                </div>
+                            </div>
+                            <div className="bg-white border border-slate-200 rounded-xl p-4">
+                                <div className="flex justify-between items-center mb-3">
+                                    <h3 className="text-xs font-bold text-slate-500 uppercase">{t('initiatives.kpis')} · {t('initiatives.progress')} {Math.round(initiativeProgress(selected) * 100)}%</h3>
+                                    {canEdit && <button onClick={() => update({ kpis: [...selected.kpis, { id: `k_${randomHex(4)}`, name: '', current: 0, target: 100, unit: '%' }] })} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">{t('initiatives.add_kpi')}</button>}
+                                </div>
+                                {!!selected.kpis.length && (
+                                    <div className="grid grid-cols-[1fr_5rem_5rem_5rem_1.5rem] gap-2 text-[10px] font-bold uppercase text-slate-400 mb-1">
+                                        <span>{t('initiatives.kpi_name')}</span><span>{t('initiatives.current')}</span><span>{t('initiatives.target')}</span><span>{t('initiatives.unit')}</span><span />
+                                    </div>
+                                )}
+                                <div className="space-y-2">
+                                    {selected.kpis.map(kpi => (
+                                        <div key={kpi.id} className="grid grid-cols-[1fr_5rem_5rem_5rem_1.5rem] gap-2 items-center">
+                                            <input disabled={!canEdit} className={inputClass} value={kpi.name} onChange={e => updateKpi(kpi.id, { name: e.target.value })} />
+                                            <input type="number" disabled={!canEdit} className={inputClass} value={kpi.current} onChange={e => updateKpi(kpi.id, { current: Number(e.target.value) })} />
+                                            <input type="number" min={0} disabled={!canEdit} className={inputClass} value={kpi.target} onChange={e => updateKpi(kpi.id, { target: Number(e.target.value) })} />
+                                            <input disabled={!canEdit} className={inputClass} value={kpi.unit} onChange={e => updateKpi(kpi.id, { unit: e.target.value })} />
+                                            {canEdit && <button onClick={() => update({ kpis: selected.kpis.filter(k => k.id !== kpi.id) })} className="text-slate-400 hover:text-red-500"><Icons.Trash /></button>}
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="bg-white border border-slate-200 rounded-xl p-4">
+                                <h3 className="text-xs font-bold text-slate-500 uppercase mb-3">{t('initiatives.linked')}</h3>
+                                {!linked.length && <p className="text-xs text-slate-400">{t('initiatives.no_linked')}</p>}
+                                <div className="space-y-2">
+                                    {linked.map(c => {
+                                        const score = c.scores.find(s => s.initiativeId === selected.id);
+                                        return (
+                                            <div key={c.id} className="flex items-start gap-3 p-2 rounded-lg bg-slate-50 text-sm">
+                                                <div className="flex-1 min-w-0">
+                                                    <div className="text-slate-700">{clip(c.summary || c.text, 160)}</div>
+                                                    <div className="text-xs text-slate-400">{new Date(c.createdAt).toLocaleDateString()}{score && ` · ${t('classifier.relevance')} ${Math.round(score.relevance * 100)}%`}</div>
+                                                </div>
+                                                {canEdit && <button onClick={() => onUnlink(c.id, selected.id)} className="text-xs text-slate-400 hover:text-red-500 shrink-0">{t('initiatives.unlink')}</button>}
+                                            </div>
+                                        );
+                                    })}
+                                </div>
+                            </div>
+                            <div className="bg-white border border-slate-200 rounded-xl p-4">
+                                <h3 className="text-xs font-bold text-slate-500 uppercase mb-3">{t('initiatives.history')}</h3>
+                                <ol className="space-y-1 text-sm">
+                                    {[...selected.history].reverse().map((change, i) => (
+                                        <li key={i} className="flex items-center gap-2 text-slate-600">
+                                            <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${STATUS_STYLES[change.status]}`}>{t(`initiatives.statuses.${change.status}`)}</span>
+                                            <span className="text-xs text-slate-400">{change.at ? new Date(change.at).toLocaleString() : '—'} · {change.by}</span>
+                                        </li>
+                                    ))}
+                                </ol>
+                            </div>
+                            {canEdit && <button onClick={remove} className="px-3 py-2 bg-red-50 hover:bg-red-100 text-red-600 rounded-lg text-xs font-bold flex items-center gap-1"><Icons.Trash /> {t('initiatives.delete')}</button>}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const InitiativeCards = ({ initiatives, classifications, onOpen }: { initiatives: GovernanceInitiative[], classifications: Classification[], onOpen: (id: string) => void }) => {
+    const { t } = useI18n();
+    if (!initiatives.length) return null;
+    return (
+        <div className="mt-6">
+            <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2"><Icons.Flag /> {t('modules.initiatives')}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+                {initiatives.map(i => {
+                    const docs = classifications.filter(c => c.links.includes(i.id));
+                    const progress = Math.round(initiativeProgress(i) * 100);
+                    return (
+                        <button key={i.id} onClick={() => onOpen(i.id)} className="text-left bg-white border border-slate-200 rounded-xl p-4 hover:border-indigo-300 hover:shadow-md transition-all">
+                            <div className="flex justify-between items-start gap-2 mb-1">
+                                <span className="font-bold text-slate-800">{i.title}</span>
+                                <span className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase shrink-0 ${STATUS_STYLES[i.status]}`}>{t(`initiatives.statuses.${i.status}`)}</span>
+                            </div>
+                            <div className="text-xs text-slate-400 mb-3">
+                                {[i.owner, i.deadline && (isOverdue(i) ? t('initiatives.overdue') : t('initiatives.due', { date: new Date(`${i.deadline}T00:00:00`).toLocaleDateString() }))].filter(Boolean).join(' · ') || '—'}
+                            </div>
+                            <div className="flex items-center gap-2 mb-3">
+                                <div className="flex-1 h-2 bg-slate-100 rounded-full overflow-hidden"><div className={`h-full ${isOverdue(i) ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${progress}%` }} /></div>
+                                <span className="text-xs font-mono text-slate-500">{progress}%</span>
+                            </div>
+                            {i.kpis.slice(0, 3).map(k => <div key={k.id} className="text-xs text-slate-600 flex justify-between"><span className="truncate">{k.name}</span><span className="font-mono">{k.current}/{k.target} {k.unit}</span></div>)}
+                            <div className="mt-3 pt-2 border-t border-slate-100 text-xs text-slate-500">
+                                <span className="font-bold">{t('initiatives.documents', { count: docs.length })}</span>
+                                {docs.slice(0, 2).map(c => <div key={c.id} className="truncate text-slate-400">{clip(c.summary || c.text, 80)}</div>)}
+                            </div>
+                        </button>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+const PLUGIN_STATE_STYLES: Record<PluginState['state'] | 'disabled', string> = {
+    starting: 'bg-slate-100 text-slate-500 animate-pulse',
+    running: 'bg-green-100 text-green-700',
+    error: 'bg-red-100 text-red-600',
+    incompatible: 'bg-amber-100 text-amber-700',
+    disabled: 'bg-slate-100 text-slate-400',
+};
+
+const ToolRegistry = ({ plugins, status, canInstall, onInstall, onToggle, onUninstall }: { plugins: Extension[], status: Record<string, PluginState>, canInstall: boolean, onInstall: (plugin: LoadedPlugin) => void, onToggle: (id: string) => void, onUninstall: (id: string) => void }) => {
+    const { t } = useI18n();
+    const [url, setUrl] = useState('');
+    const [busy, setBusy] = useState(false);
+    const [error, setError] = useState('');
+
+    // Every install path shows the requested permissions before anything runs
+    const install = async (load: () => Promise<LoadedPlugin>) => {
+        setBusy(true);
+        setError('');
+        try {
+            const plugin = await load();
+            const { name, version, permissions } = plugin.manifest;
+            const existing = plugins.find(p => p.id === plugin.manifest.id);
+            if (existing && compareVersions(version, existing.manifest.version) <= 0 && !window.confirm(t('tools.confirm_replace', { name, installed: existing.manifest.version, version }))) return;
+            if (!window.confirm(t('tools.confirm_install', { name, version, permissions: permissions.join(', ') || t('tools.no_permissions') }))) return;
+            onInstall(plugin);
+            setUrl('');
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t('tools.install_failed'));
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Icons.Settings /> {t('modules.tools')}</h2>
+                <span className="text-xs font-mono text-slate-400">{t('tools.api', { version: PLUGIN_API_VERSION })}</span>
+            </div>
+            {!canInstall && <div className="mb-6 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">{t('tools.mentor_only')}</div>}
+            {canInstall && (
+                <div className="mb-6 bg-white border border-slate-200 rounded-xl p-4 space-y-3">
+                    <div className="flex gap-2">
+                        <input className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono outline-none focus:ring-2 focus:ring-indigo-500" placeholder={t('tools.url_placeholder')} value={url} onChange={e => setUrl(e.target.value)} onKeyDown={e => e.key === 'Enter' && url.trim() && install(() => loadPluginFromUrl(url.trim()))} />
+                        <button disabled={busy || !url.trim()} onClick={() => install(() => loadPluginFromUrl(url.trim()))} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-bold disabled:opacity-50">{t('tools.install_url')}</button>
+                        <label className={`px-4 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg text-sm font-bold text-slate-600 flex items-center gap-2 cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+                            <Icons.Folder /> {t('tools.install_folder')}
+                            <input type="file" className="hidden" {...{ webkitdirectory: '' }} onChange={e => { const files = Array.from(e.target.files || []); e.target.value = ''; if (files.length) install(() => loadPluginFromFolder(files)); }} />
+                        </label>
+                    </div>
+                    {error && <div className="text-xs text-red-500">{error}</div>}
+                </div>
+            )}
+            <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">{t('tools.installed_title')}</h3>
+            {!plugins.length && <p className="text-sm text-slate-400 mb-6">{t('tools.none')}</p>}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-8">
+                {plugins.map(plugin => {
+                    const { manifest } = plugin;
+                    const state = plugin.enabled ? status[plugin.id]?.state || 'starting' : 'disabled';
+                    const adds = [
+                        manifest.contributes.tabs.length && t('tools.tabs', { count: manifest.contributes.tabs.length }),
+                        manifest.contributes.actions.length && t('tools.actions', { count: manifest.contributes.actions.length }),
+                        manifest.contributes.tools.length && t('tools.agent_tools', { count: manifest.contributes.tools.length }),
+                    ].filter(Boolean);
+                    return (
+                        <div key={plugin.id} className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm flex flex-col">
+                            <div className="flex justify-between items-start mb-3">
+                                <div className="bg-slate-100 p-3 rounded-lg text-indigo-600"><Icons.Code /></div>
+                                <div className="flex flex-col items-end gap-1">
+                                    <span className="text-xs font-mono text-slate-400 bg-slate-50 px-2 py-1 rounded">{manifest.version}</span>
+                                    <span title={status[plugin.id]?.error} className={`px-1.5 py-0.5 rounded text-[10px] font-bold uppercase ${PLUGIN_STATE_STYLES[state]}`}>{t(`tools.status.${state}`)}</span>
+                                </div>
+                            </div>
+                            <h3 className="font-bold text-slate-800 mb-1">{manifest.name}</h3>
+                            <p className="text-sm text-slate-500 mb-3">{manifest.description}</p>
+                            {plugin.enabled && status[plugin.id]?.error && <p className="text-xs text-red-500 mb-3">{status[plugin.id].error}</p>}
+                            <div className="text-xs text-slate-500 space-y-1 mb-4">
+                                <div><span className="font-bold">{t('tools.permissions')}:</span> {manifest.permissions.join(', ') || t('tools.no_permissions')}</div>
+                                {!!adds.length && <div><span className="font-bold">{t('tools.adds')}:</span> {adds.join(', ')}</div>}
+                                <div className="font-mono text-slate-400 truncate" title={plugin.source}>{plugin.source}</div>
+                            </div>
+                            <div className="mt-auto flex gap-2">
+                                <button disabled={!canInstall} onClick={() => onToggle(plugin.id)} className="flex-1 py-2 rounded-lg font-bold text-sm bg-slate-100 hover:bg-slate-200 text-slate-600 disabled:opacity-50 disabled:cursor-not-allowed">{plugin.enabled ? t('tools.disable') : t('tools.enable')}</button>
+                                <button disabled={!canInstall} onClick={() => window.confirm(t('tools.confirm_uninstall', { name: manifest.name })) && onUninstall(plugin.id)} className="px-3 py-2 rounded-lg bg-red-50 hover:bg-red-100 text-red-600 disabled:opacity-50 disabled:cursor-not-allowed" title={t('tools.uninstall')}><Icons.Trash /></button>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+            <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">{t('tools.catalog')}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+                {PLUGIN_CATALOG.map(entry => {
+                    const installed = plugins.some(p => p.source === new URL(entry.url, window.location.href).href);
+                    return (
+                        <div key={entry.url} className="bg-white border border-slate-200 rounded-xl p-5 shadow-sm flex flex-col">
+                            <h3 className="font-bold text-slate-800 mb-1">{entry.name}</h3>
+                            <p className="text-sm text-slate-500 mb-4">{entry.description}</p>
+                            <button
+                                onClick={() => install(() => loadPluginFromUrl(entry.url))}
+                                disabled={!canInstall || busy || installed}
+                                className={`mt-auto w-full py-2 rounded-lg font-bold text-sm transition-all ${installed ? 'bg-slate-100 text-slate-400 cursor-default' : !canInstall ? 'bg-slate-100 text-slate-400 cursor-not-allowed' : 'bg-indigo-600 text-white hover:bg-indigo-700 shadow-lg shadow-indigo-200'}`}
+                            >
+                                {installed ? t('tools.installed') : t('tools.install')}
+                            </button>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+// Renders a plugin's tab from the blocks it returns; buttons round-trip to the plugin
+const PluginTabView = ({ sandbox, tab }: { sandbox: PluginSandbox | undefined, tab: PluginContribution }) => {
+    const { t } = useI18n();
+    const [blocks, setBlocks] = useState<PluginBlock[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState('');
+
+    const send = useCallback(async (event: { type: 'open' } | { type: 'click'; id: string }) => {
+        if (!sandbox) return;
+        setLoading(true);
+        setError('');
+        try {
+            setBlocks(sanitizeBlocks(await sandbox.invoke('tab', tab.id, event)));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t('tools.failed'));
+        } finally {
+            setLoading(false);
+        }
+    }, [sandbox, tab.id]);
+
+    useEffect(() => { send({ type: 'open' }); }, [send]);
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-2"><Icons.Code /> {tab.title}</h2>
+            {!sandbox && <p className="text-sm text-slate-400">{t('tools.not_running')}</p>}
+            {loading && !blocks.length && <p className="text-sm text-slate-400 animate-pulse">{t('tools.loading')}</p>}
+            {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+            <div className="space-y-4">
+                {blocks.map((block, i) => {
+                    switch (block.type) {
+                        case 'heading': return <h3 key={i} className="font-bold text-slate-800">{block.text}</h3>;
+                        case 'text': return <p key={i} className="text-sm text-slate-600 whitespace-pre-wrap">{block.text}</p>;
+                        case 'metric': return <div key={i} className="inline-block mr-4 bg-white border border-slate-200 rounded-xl px-4 py-3"><div className="text-[10px] uppercase font-bold text-slate-400">{block.label}</div><div className="text-2xl font-bold text-slate-800">{block.value}</div></div>;
+                        case 'list': return <ul key={i} className="list-disc list-inside text-sm text-slate-600 space-y-1">{block.items.map((item, j) => <li key={j}>{item}</li>)}</ul>;
+                        case 'table': return (
+                            <table key={i} className="w-full text-sm bg-white border border-slate-200 rounded-xl overflow-hidden">
+                                <thead className="bg-slate-50 text-xs uppercase text-slate-500"><tr>{block.columns.map((c, j) => <th key={j} className="text-left p-2">{c}</th>)}</tr></thead>
+                                <tbody>{block.rows.map((row, j) => <tr key={j} className="border-t border-slate-100">{row.map((cell, k) => <td key={k} className="p-2 text-slate-600">{cell}</td>)}</tr>)}</tbody>
+                            </table>
+                        );
+                        case 'button': return <button key={i} disabled={loading} onClick={() => send({ type: 'click', id: block.id })} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg text-sm font-bold disabled:opacity-50 mr-2">{block.label}</button>;
+                    }
+                })}
+            </div>
+        </div>
+    );
+};
+
+// Renders [n] markers that match a citation as clickable chips
+const CitedText = ({ text, citations, onOpen }: { text: string, citations?: Citation[], onOpen: (citation: Citation) => void }) => {
+    if (!citations?.length) return <>{text}</>;
+    return (
+        <>
+            {text.split(/(\[\d+\])/g).map((part, i) => {
+                const citation = citations.find(c => `[${c.marker}]` === part);
+                return citation
+                    ? <button key={i} onClick={() => onOpen(citation)} title={`${citation.title}: ${citation.excerpt}`} className="inline-flex items-center justify-center align-super text-[10px] font-bold min-w-[1.1rem] h-4 px-1 mx-0.5 rounded bg-indigo-500/20 text-indigo-300 hover:bg-indigo-500 hover:text-white">{citation.marker}</button>
+                    : <React.Fragment key={i}>{part}</React.Fragment>;
+            })}
+        </>
+    );
+};
+
+// Push-to-talk: listens while held and hands each recognized phrase to onText
+const MicButton = ({ onText, disabled, className = '' }: { onText: (text: string) => void, disabled?: boolean, className?: string }) => {
+    const { lang, t } = useI18n();
+    const { supported, listening, error, start, stop } = useSpeechRecognition(lang, onText);
+    if (!supported) return <button type="button" disabled title={t('voice.unsupported')} className={`${className} opacity-40 cursor-not-allowed`}><Icons.Mic /></button>;
+    return (
+        <button
+            type="button"
+            disabled={disabled}
+            onPointerDown={e => { e.preventDefault(); start(); }}
+            onPointerUp={stop}
+            onPointerLeave={() => listening && stop()}
+            onKeyDown={e => { if ((e.key === ' ' || e.key === 'Enter') && !e.repeat) start(); }}
+            onKeyUp={e => { if (e.key === ' ' || e.key === 'Enter') stop(); }}
+            title={error ? t(`voice.${error}`) : t('voice.hold_to_talk')}
+            className={`${className} disabled:opacity-40 ${listening ? 'text-red-500 animate-pulse' : error ? 'text-amber-500' : ''}`}
+        >
+            <Icons.Mic />
+        </button>
+    );
+};
+
+const PersonaEditor = ({ agent, onSave, onClose }: { agent: Agent, onSave: (persona: AgentPersona) => void, onClose: () => void }) => {
+    const { lang, t } = useI18n();
+    const voices = useVoices();
+    const [draft, setDraft] = useState<AgentPersona>(agent.persona);
+    return (
+        <div className="p-4 border-b border-slate-700 bg-slate-800 space-y-3 text-xs">
+            <label className="block text-slate-400 font-bold uppercase">{t('agents.system_prompt')}
+                <textarea className="mt-1 w-full h-24 bg-slate-900 border border-slate-600 rounded p-2 text-white font-mono normal-case font-normal resize-none outline-none focus:border-indigo-500" value={draft.systemPrompt} onChange={e => setDraft({ ...draft, systemPrompt: e.target.value })} />
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+                <label className="block text-slate-400 font-bold uppercase">{t('agents.temperature')} <span className="text-white">{draft.temperature.toFixed(1)}</span>
+                    <input type="range" min={0} max={2} step={0.1} className="mt-2 w-full accent-indigo-500" value={draft.temperature} onChange={e => setDraft({ ...draft, temperature: Number(e.target.value) })} />
+                </label>
+                <label className="block text-slate-400 font-bold uppercase">{t('agents.model')}
+                    <input className="mt-1 w-full bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white font-mono normal-case font-normal outline-none focus:border-indigo-500" placeholder={t('agents.default_model')} value={draft.model} onChange={e => setDraft({ ...draft, model: e.target.value })} />
+                </label>
+            </div>
+            <label className="block text-slate-400 font-bold uppercase">{t('voice.voice')}
+                {canSynthesize() ? (
+                    <div className="mt-1 flex gap-2">
+                        <select className="flex-1 bg-slate-900 border border-slate-600 rounded px-2 py-1 text-white normal-case font-normal outline-none focus:border-indigo-500" value={draft.voice || ''} onChange={e => setDraft({ ...draft, voice: e.target.value })}>
+                            <option value="">{t('voice.default_voice')}</option>
+                            {voices.map(v => <option key={v.voiceURI} value={v.voiceURI}>{v.name} ({v.lang})</option>)}
+                        </select>
+                        <button type="button" onClick={() => speak(`${agent.name}. ${agent.role}.`, lang, draft.voice)} className="px-2 rounded bg-slate-700 hover:bg-slate-600 text-white flex items-center gap-1 normal-case"><Icons.Volume /> {t('voice.preview')}</button>
+                    </div>
+                ) : <div className="mt-1 normal-case font-normal text-slate-500">{t('voice.no_synthesis')}</div>}
+            </label>
+            <div className="flex justify-between">
+                <button onClick={() => setDraft(defaultPersona(agent))} className="text-slate-400 hover:text-white">{t('agents.reset')}</button>
+                <div className="flex gap-2">
+                    <button onClick={onClose} className="px-3 py-1 rounded text-slate-300 hover:text-white">{t('agents.cancel')}</button>
+                    <button onClick={() => { onSave(draft); onClose(); }} disabled={!draft.systemPrompt.trim()} className="px-3 py-1 rounded bg-indigo-600 hover:bg-indigo-500 text-white font-bold disabled:opacity-50">{t('agents.save')}</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const BoardAgents = ({ agents, health, chats, selectedAgentId, onSelectAgent: setSelectedAgentId, onChatStart, onCancel, onFeedback, canManagePersonas, onUpdatePersona, onOpenCitation, onSaveAsNote }: { agents: Agent[], health: HealthReport, chats: Record<string, Message[]>, selectedAgentId: string | null, onSelectAgent: (agentId: string | null) => void, onChatStart: (agent: Agent, query: string) => void, onCancel: (agentId: string) => void, onFeedback: (agentId: string, msgId: number, type: 'up'|'down', comment: string) => void, canManagePersonas: boolean, onUpdatePersona: (agentId: string, persona: AgentPersona) => void, onOpenCitation: (citation: Citation) => void, onSaveAsNote: (agent: Agent, msg: Message) => void }) => {
+    const { lang, t } = useI18n();
+    const [query, setQuery] = useState('');
+    const [feedbackInput, setFeedbackInput] = useState<{msgId: number, type: 'up'|'down'} | null>(null);
+    const [feedbackComment, setFeedbackComment] = useState("");
+    const [editingPersona, setEditingPersona] = useState(false);
+    const [speakReplies, setSpeakReplies] = useState(false);
+    const [handsFree, setHandsFree] = useState(false);
+    const [speaking, setSpeaking] = useState(false);
+    // Set when a question was sent whose answer should be read out
+    const awaitingSpeech = useRef(false);
+    
+    const selectedAgent = agents.find(a => a.id === selectedAgentId);
+    const currentChat = selectedAgentId ? chats[selectedAgentId] || [] : [];
+    const streamingMsg = currentChat.find(m => m.isStreaming);
+    const lastReply = currentChat[currentChat.length - 1];
+
+    const send = (text: string) => {
+        if (!selectedAgent || !text.trim() || streamingMsg) return;
+        awaitingSpeech.current = speakReplies || handsFree;
+        onChatStart(selectedAgent, text);
+    };
+
+    const handleSubmit = () => {
+        if (!selectedAgent || !query.trim() || streamingMsg) return;
+        send(query);
+        setQuery('');
+    };
+
+    // Hands-free: each recognized phrase is sent; listening pauses until the reply has been spoken
+    const conversation = useSpeechRecognition(lang, text => {
+        if (streamingMsg) return;
+        conversation.stop();
+        send(text);
+    });
+
+    const speakReply = (msg: Message, onEnd?: () => void) => {
+        setSpeaking(true);
+        speak(msg.text, lang, selectedAgent?.persona.voice, () => { setSpeaking(false); onEnd?.(); });
+    };
+
+    useEffect(() => {
+        if (!awaitingSpeech.current || !lastReply || lastReply.role !== 'model' || lastReply.isStreaming) return;
+        awaitingSpeech.current = false;
+        const resume = () => { if (handsFree) conversation.start(true); };
+        if (lastReply.isError) resume();
+        else speakReply(lastReply, resume);
+    }, [lastReply?.id, lastReply?.isStreaming]);
+
+    const toggleHandsFree = () => {
+        if (handsFree) {
+            conversation.stop();
+            stopSpeaking();
+        } else {
+            conversation.start(true);
+        }
+        setHandsFree(!handsFree);
+    };
+
+    // Leaving an agent ends the spoken conversation with it
+    useEffect(() => {
+        setHandsFree(false);
+        conversation.stop();
+        stopSpeaking();
+        awaitingSpeech.current = false;
+    }, [selectedAgentId]);
+
+    const submitFeedback = () => {
+        if(selectedAgentId && feedbackInput) {
+            onFeedback(selectedAgentId, feedbackInput.msgId, feedbackInput.type, feedbackComment);
+            setFeedbackInput(null);
+            setFeedbackComment("");
+        }
+    }
+
+    return (
+        <div className="mt-6 grid grid-cols-1 lg:grid-cols-3 gap-6 h-[500px]">
+            <div className={`bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-y-auto ${selectedAgentId ? 'hidden lg:block' : ''}`}>
+                <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2"><Icons.Users /> {t('governance.agents')}</h3>
+                <div className="space-y-3">
+                    {agents.map(agent => (
+                        <div key={agent.id} onClick={() => setSelectedAgentId(agent.id)} className={`p-3 border rounded-lg cursor-pointer transition-all ${selectedAgentId === agent.id ? 'border-indigo-500 bg-indigo-50 ring-1 ring-indigo-500' : 'border-slate-100 bg-white hover:border-indigo-300'}`}>
+                            <div className="flex justify-between items-center mb-1">
+                                <div className="font-bold text-slate-700">{agent.name}</div>
+                                <div className="flex items-center gap-1.5">
+                                    <span className={`w-2 h-2 rounded-full ${qualityOf(health, agent.id) === 'optimal' ? 'bg-green-500 animate-pulse' : qualityOf(health, agent.id) === 'unstable' ? 'bg-amber-500' : 'bg-red-500'}`}></span>
+                                </div>
+                            </div>
+                            <div className="text-xs text-slate-500 flex justify-between">
+                                <span>{agent.role}</span>
+                                <span className={agent.status === 'Active' ? 'text-green-600 font-bold' : 'text-slate-400'}>{agent.status}</span>
+                            </div>
+                             <div className="text-[10px] text-indigo-400 mt-1 italic truncate">{t('agents.task', { task: agent.currentTask })}</div>
+                             <div className="text-[10px] text-slate-400 mt-1 flex gap-3 font-mono">
+                                <span>{t('agents.load', { load: agent.load })}</span>
+                                <span className={agent.energy < AGENT_MIN_ENERGY ? 'text-red-500' : ''}>{t('agents.energy', { energy: agent.energy })}</span>
+                                {agent.cooldown > 0 && <span>{t('agents.cooldown', { seconds: agent.cooldown })}</span>}
+                             </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+            <div className={`col-span-2 bg-slate-900 rounded-xl border border-slate-800 flex flex-col overflow-hidden ${!selectedAgentId ? 'hidden lg:flex' : 'flex'}`}>
+                {selectedAgent ? (
+                    <>
+                        <div className="p-4 border-b border-slate-700 bg-slate-800/50 flex justify-between items-center">
+                            <div className="flex items-center gap-3">
+                                <div className={`w-3 h-3 rounded-full ${qualityOf(health, selectedAgent.id) === 'optimal' ? 'bg-green-400' : 'bg-red-400'}`}></div>
+                                <span className="text-white font-mono font-bold">{t('agents.uplink', { name: selectedAgent.name })}</span>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                {(conversation.listening || speaking) && <span className="text-[10px] font-mono text-indigo-300 animate-pulse">{speaking ? t('voice.speaking') : t('voice.listening')}</span>}
+                                <button onClick={toggleHandsFree} disabled={!conversation.supported} title={conversation.supported ? (conversation.error ? t(`voice.${conversation.error}`) : t('voice.hands_free')) : t('voice.unsupported')} className={`px-2 py-1 rounded text-[10px] font-bold uppercase flex items-center gap-1 disabled:opacity-40 disabled:cursor-not-allowed ${handsFree ? 'bg-red-600 text-white' : 'text-slate-400 hover:text-white'}`}><Icons.Mic /> {t('voice.hands_free')}</button>
+                                {canSynthesize() && <button onClick={() => { if (speakReplies) stopSpeaking(); setSpeakReplies(!speakReplies); }} className={`hover:text-white ${speakReplies ? 'text-indigo-400' : 'text-slate-400'}`} title={t('voice.speak_replies')}><Icons.Volume /></button>}
+                                {canManagePersonas && <button onClick={() => setEditingPersona(!editingPersona)} className={`hover:text-white ${editingPersona ? 'text-indigo-400' : 'text-slate-400'}`} title={t('agents.persona')}><Icons.Settings /></button>}
+                                <button onClick={() => setSelectedAgentId(null)} className="lg:hidden text-slate-400 hover:text-white"><Icons.X /></button>
+                            </div>
+                        </div>
+                        {canManagePersonas && editingPersona && <PersonaEditor key={selectedAgent.id} agent={selectedAgent} onSave={p => onUpdatePersona(selectedAgent.id, p)} onClose={() => setEditingPersona(false)} />}
+                        <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                            {currentChat.length === 0 && <div className="text-slate-500 text-center text-sm mt-10 italic">{t('agents.established')}</div>}
+                            {currentChat.map(msg => (
+                                <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
+                                    <div className={`max-w-[80%] rounded-xl p-3 text-sm whitespace-pre-wrap ${msg.role === 'user' ? 'bg-indigo-600 text-white' : msg.isError ? 'bg-red-950/60 text-red-300 border border-red-800' : 'bg-slate-800 text-slate-200 border border-slate-700'}`}>
+                                        <CitedText text={msg.text} citations={msg.citations} onOpen={onOpenCitation} />
+                                        {msg.isStreaming && <span className="inline-block w-2 h-4 ml-1 bg-indigo-400 animate-pulse align-middle"></span>}
+                                        {msg.role === 'model' && !msg.isStreaming && !msg.isError && (
+                                            <div className="mt-2 flex flex-col gap-2 pt-2 border-t border-slate-700/50">
+                                                {msg.feedback ? (
+                                                     <div className="text-xs text-slate-400 flex items-center gap-1">
+                                                        {t('agents.feedback')} {msg.feedback === 'up' ? '👍' : '👎'} {msg.feedbackComment && `"${msg.feedbackComment}"`}
+                                                     </div>
+                                                ) : (
+                                                    feedbackInput?.msgId === msg.id ? (
+                                                        <div className="flex gap-2">
+                                                            <input 
+                                                                className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white flex-1"
+                                                                placeholder={t('agents.comment')}
+                                                                value={feedbackComment}
+                                                                onChange={e => setFeedbackComment(e.target.value)}
+                                                                autoFocus
+                                                            />
+                                                            <button onClick={submitFeedback} className="text-xs bg-green-600 text-white px-2 rounded">{t('agents.ok')}</button>
+                                                        </div>
+                                                    ) : (
+                                                        <div className="flex justify-end gap-2">
+                                                            {msg.savedNoteId
+                                                                ? <span className="text-[10px] text-indigo-400 mr-auto">{t('agents.saved_note')}</span>
+                                                                : <button onClick={() => onSaveAsNote(selectedAgent, msg)} className="hover:text-indigo-400 text-slate-500 mr-auto" title={t('agents.save_note')}><Icons.Edit /></button>}
+                                                            {canSynthesize() && <button onClick={() => speakReply(msg)} className="hover:text-indigo-400 text-slate-500" title={t('voice.read_aloud')}><Icons.Volume /></button>}
+                                                            <button onClick={() => setFeedbackInput({msgId: msg.id, type: 'up'})} className="hover:text-green-400 text-slate-500"><Icons.ThumbsUp /></button>
+                                                            <button onClick={() => setFeedbackInput({msgId: msg.id, type: 'down'})} className="hover:text-red-400 text-slate-500"><Icons.ThumbsDown /></button>
+                                                        </div>
+                                                    )
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                            {streamingMsg && !streamingMsg.text && <div className="text-indigo-400 text-xs animate-pulse ml-2">{t('agents.processing')}</div>}
+                        </div>
+                        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex gap-2">
+                            <input className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-white text-sm outline-none focus:border-indigo-500" placeholder={t('agents.query', { name: selectedAgent.name })} value={query} onChange={e => setQuery(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSubmit()} />
+                            <MicButton disabled={handsFree} onText={text => setQuery(q => q ? `${q} ${text}` : text)} className="text-slate-400 hover:text-white px-2 rounded-lg" />
+                            {streamingMsg ? (
+                                <button onClick={() => onCancel(selectedAgent.id)} className="bg-red-600 hover:bg-red-500 text-white px-3 py-2 rounded-lg transition-colors text-xs font-bold" title={t('agents.cancel_reply')}>{t('agents.stop')}</button>
+                            ) : (
+                                <button onClick={handleSubmit} className="bg-indigo-600 hover:bg-indigo-500 text-white p-2 rounded-lg transition-colors"><Icons.Send /></button>
+                            )}
+                        </div>
+                    </>
+                ) : <div className="flex items-center justify-center h-full text-slate-600 font-mono">{t('agents.select')}</div>}
+            </div>
+        </div>
+    );
+};
+
+const formatRate = (rate: number | null) => rate === null ? '–' : `${Math.round(rate * 100)}%`;
+
+const rateColor = (rate: number | null) => rate === null ? 'bg-slate-200' : rate >= 0.7 ? 'bg-green-500' : rate >= 0.4 ? 'bg-amber-400' : 'bg-red-500';
+
+const FeedbackAnalytics = ({ agents, feedback, experiments, canManage, onCluster, onSuggest, onStartTest, onEndTest }: { agents: Agent[], feedback: FeedbackRecord[], experiments: PromptExperiment[], canManage: boolean, onCluster: (agentId: string) => Promise<ComplaintTheme[]>, onSuggest: (agentId: string, themes: ComplaintTheme[]) => Promise<PromptRevision>, onStartTest: (agentId: string, revision: PromptRevision) => void, onEndTest: (experimentId: string, winner: PromptVariant) => void }) => {
+    const { t } = useI18n();
+    const [agentId, setAgentId] = useState(agents[0]?.id || '');
+    // Themes and revisions are kept per agent while the view is open
+    const [themes, setThemes] = useState<Record<string, ComplaintTheme[]>>({});
+    const [revisions, setRevisions] = useState<Record<string, PromptRevision>>({});
+    const [busy, setBusy] = useState<'cluster' | 'suggest' | null>(null);
+    const [error, setError] = useState('');
+
+    const agent = agents.find(a => a.id === agentId);
+    const records = useMemo(() => feedback.filter(r => r.agentId === agentId), [feedback, agentId]);
+    const series = useMemo(() => approvalSeries(records), [records]);
+    const worst = useMemo(() => worstExchanges(records), [records]);
+    const complaints = records.filter(r => r.rating === 'down').length;
+    const running = runningExperiment(experiments, agentId);
+    const pastTests = experiments.filter(e => e.agentId === agentId && e.endedAt).sort((a, b) => b.startedAt - a.startedAt);
+    const agentThemes = themes[agentId] || [];
+    const revision = revisions[agentId];
+
+    const run = async (kind: 'cluster' | 'suggest') => {
+        setBusy(kind);
+        setError('');
+        try {
+            if (kind === 'cluster') {
+                const found = await onCluster(agentId);
+                setThemes(prev => ({ ...prev, [agentId]: found }));
+            } else {
+                const proposed = await onSuggest(agentId, agentThemes);
+                setRevisions(prev => ({ ...prev, [agentId]: proposed }));
+            }
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t(kind === 'cluster' ? 'feedback.cluster_failed' : 'feedback.suggest_failed'));
+        } finally {
+            setBusy(null);
+        }
+    };
+
+    const discardRevision = () => setRevisions(({ [agentId]: _, ...rest }) => rest);
+
+    // An empty candidate would replace the persona prompt with nothing if it won
+    const startTest = () => {
+        if (!revision?.systemPrompt.trim()) return;
+        onStartTest(agentId, revision);
+        discardRevision();
+    };
+
+    const endTest = (winner: PromptVariant) => {
+        if (!running || !agent) return;
+        if (!window.confirm(t(winner === 'candidate' ? 'feedback.confirm_adopt' : 'feedback.confirm_keep', { name: agent.name }))) return;
+        onEndTest(running.id, winner);
+    };
+
+    const testStats = running && (['baseline', 'candidate'] as const).map(variant => ({ variant, prompt: running[variant], ...variantStats(running, feedback, variant) }));
+    const decided = testStats && testStats.every(s => s.count >= MIN_TEST_RATINGS);
+    const leader = decided && testStats[0].rate !== testStats[1].rate ? (testStats[0].rate! > testStats[1].rate! ? 'baseline' : 'candidate') : null;
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-2"><Icons.ThumbsUp /> {t('modules.feedback')}</h2>
+            <div className="flex flex-wrap gap-2 mb-6">
+                {agents.map(a => (
+                    <button key={a.id} onClick={() => { setAgentId(a.id); setError(''); }} className={`px-3 py-1 rounded-lg text-xs font-bold ${agentId === a.id ? 'bg-indigo-600 text-white' : 'bg-white border border-slate-200 text-slate-500 hover:bg-slate-100'}`}>
+                        {a.name}{runningExperiment(experiments, a.id) && ' · A/B'}
+                    </button>
+                ))}
+            </div>
+            {agent && (
+                <>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                        <div className="bg-white border border-slate-200 rounded-xl p-4">
+                            <div className="text-[10px] uppercase font-bold text-slate-400">{t('feedback.approval')}</div>
+                            <div className="text-3xl font-black text-slate-800">{formatRate(approvalRate(records))}</div>
+                            <div className="text-xs text-slate-400 mt-1">{records.length ? t('feedback.ratings', { count: records.length }) : t('feedback.no_ratings')}</div>
+                        </div>
+                        <div className="bg-white border border-slate-200 rounded-xl p-4">
+                            <div className="text-[10px] uppercase font-bold text-slate-400 flex items-center gap-1"><Icons.ThumbsUp /></div>
+                            <div className="text-3xl font-black text-green-600">{records.length - complaints}</div>
+                        </div>
+                        <div className="bg-white border border-slate-200 rounded-xl p-4">
+                            <div className="text-[10px] uppercase font-bold text-slate-400 flex items-center gap-1"><Icons.ThumbsDown /></div>
+                            <div className="text-3xl font-black text-red-500">{complaints}</div>
+                        </div>
+                    </div>
+                    <div className="bg-white border border-slate-200 rounded-xl p-4 mb-6">
+                        <h3 className="text-xs font-bold text-slate-500 uppercase mb-3">{t('feedback.over_time', { days: APPROVAL_DAYS })}</h3>
+                        <div className="flex items-end gap-1 h-28">
+                            {series.map(day => {
+                                const date = new Date(day.from).toLocaleDateString();
+                                return (
+                                    <div key={day.from} title={day.count ? t('feedback.day_tooltip', { date, rate: formatRate(day.rate), count: day.count }) : t('feedback.no_day', { date })} className="flex-1 h-full flex flex-col justify-end bg-slate-50 rounded">
+                                        <div className={`rounded ${rateColor(day.rate)}`} style={{ height: day.rate === null ? 2 : `${Math.max(4, day.rate * 100)}%` }} />
+                                    </div>
+                                );
+                            })}
+                        </div>
+                        <div className="flex justify-between text-[10px] text-slate-400 mt-1">
+                            <span>{new Date(series[0].from).toLocaleDateString()}</span>
+                            <span>{new Date(series[series.length - 1].from).toLocaleDateString()}</span>
+                        </div>
+                    </div>
+                    {error && <div className="mb-6 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">{error}</div>}
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+                        <div className="bg-white border border-slate-200 rounded-xl p-4">
+                            <div className="flex justify-between items-center mb-1">
+                                <h3 className="text-xs font-bold text-slate-500 uppercase">{t('feedback.themes')}</h3>
+                                <button disabled={!!busy || !complaints} onClick={() => run('cluster')} className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50"><Icons.Wand /> {busy === 'cluster' ? t('feedback.clustering') : t('feedback.cluster')}</button>
+                            </div>
+                            <p className="text-xs text-slate-400 mb-3">{complaints ? t('feedback.themes_hint') : t('feedback.no_complaints')}</p>
+                            <div className="space-y-2">
+                                {agentThemes.map(theme => (
+                                    <div key={theme.label} className="border border-slate-100 rounded-lg p-3">
+                                        <div className="flex justify-between items-center">
+                                            <span className="font-bold text-sm text-slate-700">{theme.label}</span>
+                                            <span className="text-[10px] font-bold text-red-500 bg-red-50 px-2 py-0.5 rounded-full">{t('feedback.complaints', { count: theme.feedbackIds.length })}</span>
+                                        </div>
+                                        {theme.summary && <p className="text-xs text-slate-500 mt-1">{theme.summary}</p>}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                        <div className="bg-white border border-slate-200 rounded-xl p-4">
+                            <h3 className="text-xs font-bold text-slate-500 uppercase mb-3">{t('feedback.worst')}</h3>
+                            {!worst.length ? <p className="text-sm text-slate-400">{t('feedback.no_complaints')}</p> : (
+                                <div className="space-y-3">
+                                    {worst.map(r => (
+                                        <div key={r.id} className="border-l-2 border-red-400 pl-3 text-xs">
+                                            <div className="font-bold text-red-600">👎 {r.comment || <span className="italic text-slate-400 font-normal">{t('feedback.no_comment')}</span>}</div>
+                                            {r.question && <div className="text-slate-500 mt-1"><span className="font-bold">{t('feedback.asked')}:</span> {clip(r.question, 160)}</div>}
+                                            <div className="text-slate-500"><span className="font-bold">{t('feedback.answered')}:</span> {clip(r.answer, 240)}</div>
+                                            <div className="text-[10px] text-slate-400 mt-1">{new Date(r.at).toLocaleString()}{r.variant && ` · ${t(`feedback.${r.variant}`)}`}</div>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+                    <div className="bg-white border border-slate-200 rounded-xl p-4 mb-6">
+                        <h3 className="text-xs font-bold text-slate-500 uppercase mb-1">{t('feedback.prompt')}</h3>
+                        {!canManage ? <p className="text-xs text-slate-400">{t('feedback.manager_only')}</p> : running && testStats ? (
+                            <>
+                                <p className="text-xs text-slate-400 mb-3">{t('feedback.running', { date: new Date(running.startedAt).toLocaleDateString() })}{running.rationale && ` · ${running.rationale}`}</p>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    {testStats.map(stat => (
+                                        <div key={stat.variant} className={`border rounded-lg p-3 ${leader === stat.variant ? 'border-green-400 bg-green-50' : 'border-slate-200'}`}>
+                                            <div className="flex justify-between items-center mb-2">
+                                                <span className="text-xs font-bold text-slate-600">{t(`feedback.${stat.variant}`)}</span>
+                                                <span className="text-xs font-mono text-slate-500">{formatRate(stat.rate)} · {t('feedback.ratings', { count: stat.count })}{leader === stat.variant && <span className="ml-2 text-green-600 font-bold">{t('feedback.leading')}</span>}</span>
+                                            </div>
+                                            <pre className="text-[11px] text-slate-600 whitespace-pre-wrap font-mono max-h-40 overflow-y-auto">{stat.prompt}</pre>
+                                        </div>
+                                    ))}
+                                </div>
+                                {!decided && <p className="text-xs text-amber-600 mt-3">{t('feedback.too_few', { count: MIN_TEST_RATINGS })}</p>}
+                                <div className="flex justify-end gap-2 mt-3">
+                                    <button onClick={() => endTest('baseline')} className="px-3 py-1 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100">{t('feedback.keep')}</button>
+                                    <button onClick={() => endTest('candidate')} className="px-3 py-1 rounded-lg text-xs font-bold bg-green-600 hover:bg-green-500 text-white">{t('feedback.adopt')}</button>
+                                </div>
+                            </>
+                        ) : revision ? (
+                            <>
+                                {revision.rationale && <p className="text-sm text-slate-600 mb-2">{revision.rationale}</p>}
+                                {revision.changes.length > 0 && <ul className="list-disc list-inside text-xs text-slate-500 mb-3 space-y-1">{revision.changes.map((c, i) => <li key={i}>{c}</li>)}</ul>}
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                                    <div>
+                                        <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">{t('feedback.current_prompt')}</div>
+                                        <pre className="text-[11px] text-slate-600 whitespace-pre-wrap font-mono bg-slate-50 rounded-lg p-2 max-h-48 overflow-y-auto">{agent.persona.systemPrompt}</pre>
+                                    </div>
+                                    <div>
+                                        <div className="text-[10px] uppercase font-bold text-slate-400 mb-1">{t('feedback.proposed_prompt')}</div>
+                                        <textarea className="w-full h-48 text-[11px] text-slate-700 font-mono bg-indigo-50 border border-indigo-100 rounded-lg p-2 resize-none outline-none focus:border-indigo-400" value={revision.systemPrompt} onChange={e => setRevisions(prev => ({ ...prev, [agentId]: { ...revision, systemPrompt: e.target.value } }))} />
+                                    </div>
+                                </div>
+                                <div className="flex justify-end gap-2 mt-3">
+                                    <button onClick={discardRevision} className="px-3 py-1 rounded-lg text-xs font-bold text-slate-500 hover:bg-slate-100">{t('feedback.discard')}</button>
+                                    <button onClick={startTest} disabled={!revision.systemPrompt.trim() || revision.systemPrompt.trim() === agent.persona.systemPrompt} className="px-3 py-1 rounded-lg text-xs font-bold bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50">{t('feedback.start_test')}</button>
+                                </div>
+                            </>
+                        ) : (
+                            <div className="flex items-center justify-between gap-4">
+                                <p className="text-xs text-slate-400">{complaints ? t('feedback.suggest_hint') : t('feedback.no_complaints')}</p>
+                                <button disabled={!!busy || !complaints} onClick={() => run('suggest')} className="shrink-0 px-3 py-1 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50"><Icons.Wand /> {busy === 'suggest' ? t('feedback.suggesting') : t('feedback.suggest')}</button>
+                            </div>
+                        )}
+                    </div>
+                    {pastTests.length > 0 && (
+                        <div className="bg-white border border-slate-200 rounded-xl p-4">
+                            <h3 className="text-xs font-bold text-slate-500 uppercase mb-3">{t('feedback.past_tests')}</h3>
+                            <table className="w-full text-sm">
+                                <tbody>
+                                    {pastTests.map(e => (
+                                        <tr key={e.id} className="border-t border-slate-100 first:border-0">
+                                            <td className="p-2 text-xs text-slate-400 whitespace-nowrap">{new Date(e.startedAt).toLocaleDateString()} – {new Date(e.endedAt!).toLocaleDateString()}</td>
+                                            <td className="p-2 text-slate-700">{t(e.winner === 'candidate' ? 'feedback.adopted' : 'feedback.kept')}</td>
+                                            {(['baseline', 'candidate'] as const).map(variant => {
+                                                const stat = variantStats(e, feedback, variant);
+                                                return <td key={variant} className="p-2 text-right font-mono text-xs text-slate-500">{variant === 'baseline' ? 'A' : 'B'} {formatRate(stat.rate)} ({stat.count})</td>;
+                                            })}
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+const QUICK_ACTION_ICONS: Record<QuickAction, () => React.ReactElement> = { summarize: Icons.FileText, workflow: Icons.Git, next_step: Icons.ArrowUp };
+
+const QuickActionsPanel = ({ onAction, onSaveNote, onSaveTasks, pluginActions, onPluginAction }: { onAction: (action: QuickAction, goal?: string) => Promise<string>, onSaveNote: (title: string, content: string) => void, onSaveTasks: (steps: string[]) => void, pluginActions: PluginContribution[], onPluginAction: (key: string, input: string) => Promise<string> }) => {
+    const { t } = useI18n();
+    // A built-in QuickAction or the key of a plugin action
+    const [active, setActive] = useState<string | null>(null);
+    const [goal, setGoal] = useState('');
+    const [input, setInput] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [result, setResult] = useState('');
+    // Workflow results are edited step by step; the other actions as plain text
+    const [steps, setSteps] = useState<string[]>([]);
+    const [error, setError] = useState('');
+    const [saved, setSaved] = useState('');
+
+    const activePlugin = pluginActions.find(a => a.key === active);
+
+    const run = async (action: string) => {
+        const plugin = pluginActions.find(a => a.key === action);
+        setActive(action);
+        setResult('');
+        setSteps([]);
+        setError('');
+        setSaved('');
+        if (action === 'workflow' && !goal.trim()) return;
+        if (plugin?.input && !input.trim()) return;
+        setLoading(true);
+        try {
+            const text = plugin ? await onPluginAction(plugin.key, input.trim()) : await onAction(action as QuickAction, goal.trim());
+            if (action === 'workflow') setSteps(parseWorkflowSteps(text));
+            else setResult(text);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t('actions.failed'));
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const content = active === 'workflow' ? steps.map((step, i) => `${i + 1}. ${step}`).join('\n') : result;
+    const title = active === 'workflow' ? `${t('actions.workflow')}: ${goal.trim()}` : `${activePlugin ? activePlugin.title : active ? t(`actions.${active as QuickAction}`) : ''} · ${new Date().toLocaleDateString()}`;
+
+    return (
+        <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+            <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2"><Icons.Wand /> {t('governance.quick_actions')}</h3>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                {(['summarize', 'workflow', 'next_step'] as const).map(action => {
+                    const Icon = QUICK_ACTION_ICONS[action];
+                    return (
+                        <button key={action} disabled={loading} onClick={() => run(action)} className={`flex flex-col items-center justify-center p-4 border rounded-lg transition-all group disabled:opacity-50 ${active === action ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 hover:bg-indigo-50 border-slate-200 hover:border-indigo-200'}`}>
+                            <div className="text-slate-400 group-hover:text-indigo-600 mb-2"><Icon /></div>
+                            <span className="text-xs font-bold text-slate-600 group-hover:text-indigo-700">{t(`actions.${action}`)}</span>
                         </button>
+                    );
+                })}
+                {pluginActions.map(action => (
+                    <button key={action.key} disabled={loading} onClick={() => run(action.key)} className={`flex flex-col items-center justify-center p-4 border rounded-lg transition-all group disabled:opacity-50 ${active === action.key ? 'bg-indigo-50 border-indigo-200' : 'bg-slate-50 hover:bg-indigo-50 border-slate-200 hover:border-indigo-200'}`}>
+                        <div className="text-slate-400 group-hover:text-indigo-600 mb-2"><Icons.Code /></div>
+                        <span className="text-xs font-bold text-slate-600 group-hover:text-indigo-700">{action.title}</span>
+                    </button>
+                ))}
+            </div>
+            {activePlugin?.input && (
+                <div className="flex gap-2 mt-4">
+                    <input className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none" placeholder={activePlugin.input} value={input} onChange={e => setInput(e.target.value)} onKeyDown={e => e.key === 'Enter' && run(activePlugin.key)} />
+                    <button disabled={loading || !input.trim()} onClick={() => run(activePlugin.key)} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm disabled:opacity-50">{t('actions.generate')}</button>
+                </div>
+            )}
+            {active === 'workflow' && (
+                <div className="flex gap-2 mt-4">
+                    <input className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none" placeholder={t('placeholders.goal')} value={goal} onChange={e => setGoal(e.target.value)} onKeyDown={e => e.key === 'Enter' && run('workflow')} />
+                    <button disabled={loading || !goal.trim()} onClick={() => run('workflow')} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm disabled:opacity-50">{t('actions.generate')}</button>
+                </div>
+            )}
+            {loading && <div className="mt-4 text-sm text-slate-400 animate-pulse">{t('actions.thinking')}</div>}
+            {error && <div className="mt-4 text-sm text-red-500">{error}</div>}
+            {!loading && content && (
+                <div className="mt-4 space-y-3">
+                    {active === 'workflow' ? (
+                        <div className="space-y-2">
+                            {steps.map((step, i) => (
+                                <div key={i} className="flex items-center gap-2">
+                                    <span className="text-xs font-bold text-slate-400 w-6">{i + 1}.</span>
+                                    <input className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-sm" value={step} onChange={e => setSteps(prev => prev.map((st, j) => j === i ? e.target.value : st))} />
+                                    <button onClick={() => setSteps(prev => prev.filter((_, j) => j !== i))} className="p-1 text-slate-400 hover:text-red-500" title={t('actions.remove_step')}><Icons.Trash /></button>
+                                </div>
+                            ))}
+                            <button onClick={() => setSteps(prev => [...prev, ''])} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">{t('actions.add_step')}</button>
+                        </div>
+                    ) : (
+                        <textarea className="w-full h-32 bg-slate-50 border border-slate-200 rounded-lg p-3 text-sm outline-none resize-y" value={result} onChange={e => setResult(e.target.value)} />
+                    )}
+                    <div className="flex gap-2 items-center">
+                        <button onClick={() => { onSaveNote(title, content); setSaved(t('actions.saved_note')); }} className="px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold text-slate-600 flex items-center gap-1"><Icons.Edit /> {t('actions.save_note')}</button>
+                        <button onClick={() => { onSaveTasks(active === 'workflow' ? steps.filter(st => st.trim()) : [result]); setSaved(t('actions.saved_tasks')); }} className="px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold text-slate-600 flex items-center gap-1"><Icons.Plus /> {active === 'workflow' ? t('actions.save_tasks') : t('actions.save_task')}</button>
+                        {saved && <span className="text-xs text-green-600">{saved}</span>}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const TASK_STATUS_STYLES: Record<AgentTask['status'], string> = {
+    queued: 'bg-slate-100 text-slate-500', running: 'bg-indigo-100 text-indigo-600 animate-pulse', done: 'bg-green-100 text-green-700', failed: 'bg-red-100 text-red-600', cancelled: 'bg-slate-100 text-slate-400',
+};
+
+const TaskQueuePanel = ({ tasks, agents, onEnqueue, onCancel, onRetry }: { tasks: AgentTask[], agents: Agent[], onEnqueue: (task: Pick<AgentTask, 'title' | 'prompt' | 'source' | 'preferredType' | 'agentId'>) => void, onCancel: (id: string) => void, onRetry: (task: AgentTask) => void }) => {
+    const { t } = useI18n();
+    const [prompt, setPrompt] = useState('');
+    // 'any', 'type:<agent type>' or 'agent:<agent id>'
+    const [target, setTarget] = useState('any');
+    const [expandedId, setExpandedId] = useState<string | null>(null);
+
+    const submit = () => {
+        if (!prompt.trim()) return;
+        const [kind, value] = target.split(':');
+        onEnqueue({
+            title: prompt.trim().split('\n')[0].slice(0, 60),
+            prompt: prompt.trim(),
+            source: 'user',
+            preferredType: kind === 'type' ? value as Agent['type'] : undefined,
+            agentId: kind === 'agent' ? value : undefined,
+        });
+        setPrompt('');
+    };
+
+    const open = tasks.filter(task => task.status === 'queued' || task.status === 'running').length;
+
+    return (
+        <div className="mt-6 bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="font-bold text-slate-800 flex items-center gap-2"><Icons.Terminal /> {t('tasks.title')}</h3>
+                <span className="text-xs text-slate-400">{t('tasks.open', { count: open })} · {t('tasks.total', { count: tasks.length })}</span>
+            </div>
+            <div className="flex gap-2 mb-4">
+                <input className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none" placeholder={t('placeholders.task')} value={prompt} onChange={e => setPrompt(e.target.value)} onKeyDown={e => e.key === 'Enter' && submit()} />
+                <select className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-2 text-sm" value={target} onChange={e => setTarget(e.target.value)}>
+                    <option value="any">{t('tasks.any_agent')}</option>
+                    {AGENT_TYPES.map(type => <option key={type} value={`type:${type}`}>{t('tasks.any_type', { type })}</option>)}
+                    {agents.map(a => <option key={a.id} value={`agent:${a.id}`}>{a.name}</option>)}
+                </select>
+                <button onClick={submit} disabled={!prompt.trim()} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm flex items-center gap-2 disabled:opacity-50"><Icons.Plus /> {t('tasks.enqueue')}</button>
+            </div>
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+                {tasks.length === 0 && <p className="text-sm text-slate-400 text-center py-4">{t('tasks.empty')}</p>}
+                {tasks.slice(0, 50).map(task => (
+                    <div key={task.id} className="border border-slate-100 rounded-lg p-3 text-sm">
+                        <div className="flex items-center gap-2">
+                            <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${TASK_STATUS_STYLES[task.status]}`}>{t(`tasks.statuses.${task.status}`)}</span>
+                            <button onClick={() => setExpandedId(expandedId === task.id ? null : task.id)} className="flex-1 text-left font-bold text-slate-700 truncate">{task.title}</button>
+                            <span className="text-xs text-slate-400">{agents.find(a => a.id === task.agentId)?.name || t('tasks.unassigned')}</span>
+                            {task.usage && <span className="text-[10px] font-mono text-slate-400">{t('tasks.tokens', { count: task.usage.inputTokens + task.usage.outputTokens })}</span>}
+                            {task.status === 'queued' && <button onClick={() => onCancel(task.id)} className="text-xs text-slate-400 hover:text-red-500">{t('tasks.cancel')}</button>}
+                            {task.status === 'failed' && <button onClick={() => onRetry(task)} className="text-xs text-indigo-500 hover:text-indigo-700">{t('tasks.retry')}</button>}
+                        </div>
+                        {expandedId === task.id && (
+                            <div className="mt-2 space-y-2 text-xs">
+                                <div className="text-slate-500 whitespace-pre-wrap">{task.prompt}</div>
+                                {task.result && <div className="pl-3 border-l-2 border-indigo-200 text-slate-700 whitespace-pre-wrap">{task.result}</div>}
+                                {task.error && <div className="text-red-500">{task.error}</div>}
+                                <div className="text-slate-400">
+                                    {task.source} · {t('tasks.queued_at', { time: new Date(task.createdAt).toLocaleTimeString() })}
+                                    {task.startedAt && task.finishedAt && ` · ${t('tasks.ran', { seconds: ((task.finishedAt - task.startedAt) / 1000).toFixed(1) })}`}
+                                </div>
+                            </div>
+                        )}
                     </div>
                 ))}
             </div>
@@ -506,135 +5333,851 @@ const ToolRegistry = ({ tools, onInstall }: { tools: Extension[], onInstall: (id
     );
 };
 
-const BoardAgents = ({ agents, chats, onChatStart, onFeedback }: { agents: Agent[], chats: Record<string, Message[]>, onChatStart: (agent: Agent, query: string) => void, onFeedback: (agentId: string, msgId: number, type: 'up'|'down', comment: string) => void }) => {
-    const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
+const RUN_STATUS_STYLES: Record<PipelineRun['status'], string> = {
+    running: 'bg-indigo-100 text-indigo-600 animate-pulse', done: 'bg-green-100 text-green-700', failed: 'bg-red-100 text-red-600', cancelled: 'bg-slate-100 text-slate-400',
+};
+
+const PipelinesPanel = ({ pipelines, runs, rules, agents, sources, onChangePipelines, onChangeRules, onStart, onCancelRun }: { pipelines: Pipeline[], runs: PipelineRun[], rules: CompatibilityRule[], agents: Agent[], sources: Source[], onChangePipelines: (pipelines: Pipeline[]) => void, onChangeRules: (rules: CompatibilityRule[]) => void, onStart: (pipeline: Pipeline, input: string) => void, onCancelRun: (runId: string) => void }) => {
+    const { t } = useI18n();
+    const [selectedId, setSelectedId] = useState<string | null>(pipelines[0]?.id || null);
+    const [input, setInput] = useState('');
+    const [sourceId, setSourceId] = useState('');
+    const [expandedRunId, setExpandedRunId] = useState<string | null>(null);
+
+    const pipeline = pipelines.find(p => p.id === selectedId);
+    const problems = pipeline ? pipelineProblems(pipeline.steps, agents, rules, t) : [];
+    const runInput = sourceId ? sources.find(src => src.id === sourceId)?.content || '' : input;
+
+    const updatePipeline = (patch: Partial<Pipeline>) => onChangePipelines(pipelines.map(p => p.id === selectedId ? { ...p, ...patch } : p));
+    const updateStep = (index: number, patch: Partial<PipelineStep>) => pipeline && updatePipeline({ steps: pipeline.steps.map((st, i) => i === index ? { ...st, ...patch } : st) });
+    const moveStep = (index: number, delta: number) => {
+        if (!pipeline) return;
+        const steps = [...pipeline.steps];
+        const [step] = steps.splice(index, 1);
+        steps.splice(index + delta, 0, step);
+        updatePipeline({ steps });
+    };
+    const createPipeline = () => {
+        const created: Pipeline = { id: `p_${randomHex(6)}`, name: t('pipelines.untitled'), steps: [] };
+        onChangePipelines([...pipelines, created]);
+        setSelectedId(created.id);
+    };
+
+    return (
+        <div className="h-full flex flex-col p-6 overflow-hidden">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Icons.Git /> {t('modules.pipelines')}</h2>
+                <button onClick={createPipeline} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm flex items-center gap-2"><Icons.Plus /> {t('pipelines.new')}</button>
+            </div>
+            <div className="grid grid-cols-3 gap-4 flex-1 min-h-0">
+                <div className="col-span-1 flex flex-col gap-4 min-h-0">
+                    <div className="bg-white border border-slate-200 rounded-xl overflow-y-auto">
+                        {pipelines.map(p => (
+                            <button key={p.id} onClick={() => setSelectedId(p.id)} className={`w-full text-left px-3 py-2 border-b border-slate-50 ${p.id === selectedId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                                <div className="text-sm font-bold text-slate-700 truncate">{p.name}</div>
+                                <div className="text-[10px] text-slate-400 truncate">{p.steps.map(st => agents.find(a => a.id === st.agentId)?.name || '?').join(' → ') || t('pipelines.no_steps')}</div>
+                            </button>
+                        ))}
+                    </div>
+                    <div className="bg-white border border-slate-200 rounded-xl p-3">
+                        <div className="text-xs font-bold text-slate-500 uppercase mb-2">{t('pipelines.compatible')}</div>
+                        <div className="space-y-1">
+                            {rules.map(rule => (
+                                <div key={rule.id} className="flex items-center gap-1 text-xs">
+                                    <select className="flex-1 bg-slate-50 border border-slate-200 rounded px-1 py-1" value={rule.a} onChange={e => onChangeRules(rules.map(r => r.id === rule.id ? { ...r, a: e.target.value as Agent['type'] } : r))}>
+                                        {AGENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                    <span className="text-slate-400">↔</span>
+                                    <select className="flex-1 bg-slate-50 border border-slate-200 rounded px-1 py-1" value={rule.b} onChange={e => onChangeRules(rules.map(r => r.id === rule.id ? { ...r, b: e.target.value as Agent['type'] } : r))}>
+                                        {AGENT_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+                                    </select>
+                                    <button onClick={() => onChangeRules(rules.filter(r => r.id !== rule.id))} className="p-1 text-slate-400 hover:text-red-500" title={t('pipelines.remove_rule')}><Icons.Trash /></button>
+                                </div>
+                            ))}
+                        </div>
+                        <button onClick={() => onChangeRules([...rules, { id: `c_${randomHex(6)}`, a: 'analyst', b: 'analyst' }])} className="mt-2 text-xs font-bold text-indigo-600 hover:text-indigo-800">{t('pipelines.add_pair')}</button>
+                    </div>
+                </div>
+                <div className="col-span-2 bg-white border border-slate-200 rounded-xl p-4 overflow-y-auto">
+                    {!pipeline ? <div className="text-sm text-slate-400 text-center mt-8">{t('pipelines.select')}</div> : (
+                        <div className="space-y-4">
+                            <div className="flex gap-2 items-center">
+                                <input className="flex-1 text-lg font-bold text-slate-800 outline-none" value={pipeline.name} onChange={e => updatePipeline({ name: e.target.value })} />
+                                <button onClick={() => { onChangePipelines(pipelines.filter(p => p.id !== pipeline.id)); setSelectedId(null); }} className="p-1 text-slate-400 hover:text-red-500" title={t('pipelines.delete')}><Icons.Trash /></button>
+                            </div>
+                            {pipeline.steps.map((step, i) => (
+                                <div key={i} className="border border-slate-100 rounded-lg p-3 space-y-2">
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-xs font-bold text-slate-400 w-12">{t('pipelines.step', { index: i + 1 })}</span>
+                                        <select className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-sm" value={step.agentId} onChange={e => updateStep(i, { agentId: e.target.value })}>
+                                            <option value="" disabled>{t('pipelines.choose_agent')}</option>
+                                            {agents.map(a => <option key={a.id} value={a.id}>{a.name} ({a.type})</option>)}
+                                        </select>
+                                        <button disabled={i === 0} onClick={() => moveStep(i, -1)} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title={t('pipelines.move_up')}><Icons.ArrowUp /></button>
+                                        <button disabled={i === pipeline.steps.length - 1} onClick={() => moveStep(i, 1)} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30 rotate-180" title={t('pipelines.move_down')}><Icons.ArrowUp /></button>
+                                        <button onClick={() => updatePipeline({ steps: pipeline.steps.filter((_, j) => j !== i) })} className="p-1 text-slate-400 hover:text-red-500" title={t('pipelines.remove_step')}><Icons.Trash /></button>
+                                    </div>
+                                    <textarea className="w-full h-16 bg-slate-50 border border-slate-200 rounded-lg p-2 text-sm outline-none resize-none" placeholder={t('pipelines.instruction')} value={step.instruction} onChange={e => updateStep(i, { instruction: e.target.value })} />
+                                </div>
+                            ))}
+                            <button onClick={() => updatePipeline({ steps: [...pipeline.steps, { agentId: agents[0]?.id || '', instruction: '' }] })} className="text-xs font-bold text-indigo-600 hover:text-indigo-800">{t('pipelines.add_step')}</button>
+                            {problems.length > 0 && (
+                                <ul className="text-xs text-red-500 list-disc pl-5">{problems.map(problem => <li key={problem}>{problem}</li>)}</ul>
+                            )}
+                            <div className="border-t border-slate-100 pt-4 space-y-2">
+                                <div className="text-xs font-bold text-slate-500 uppercase">{t('pipelines.run')}</div>
+                                <select className="w-full bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-sm" value={sourceId} onChange={e => setSourceId(e.target.value)}>
+                                    <option value="">{t('pipelines.free_text')}</option>
+                                    {sources.map(src => <option key={src.id} value={src.id}>{t('pipelines.source', { title: src.title })}</option>)}
+                                </select>
+                                {!sourceId && <textarea className="w-full h-20 bg-slate-50 border border-slate-200 rounded-lg p-2 text-sm outline-none resize-none" placeholder={t('pipelines.input')} value={input} onChange={e => setInput(e.target.value)} />}
+                                <button disabled={problems.length > 0 || !runInput.trim()} onClick={() => { onStart(pipeline, runInput); setInput(''); }} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm flex items-center gap-2 disabled:opacity-50"><Icons.Send /> {t('pipelines.start')}</button>
+                            </div>
+                            <div className="space-y-2">
+                                {runs.filter(r => r.pipelineId === pipeline.id).map(run => (
+                                    <div key={run.id} className="border border-slate-100 rounded-lg p-3 text-sm">
+                                        <div className="flex items-center gap-2">
+                                            <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${RUN_STATUS_STYLES[run.status]}`}>{t(`pipelines.statuses.${run.status}`)}</span>
+                                            <button onClick={() => setExpandedRunId(expandedRunId === run.id ? null : run.id)} className="flex-1 text-left text-slate-600 truncate">{new Date(run.startedAt).toLocaleString()} · {t('pipelines.progress', { step: Math.min(run.currentStep + 1, run.steps.length), total: run.steps.length })}</button>
+                                            {run.status === 'running' && <button onClick={() => onCancelRun(run.id)} className="text-xs text-slate-400 hover:text-red-500">{t('pipelines.cancel')}</button>}
+                                        </div>
+                                        {run.error && <div className="mt-1 text-xs text-red-500">{run.error}</div>}
+                                        {expandedRunId === run.id && (
+                                            <div className="mt-2 space-y-2 text-xs">
+                                                {run.outputs.map((output, i) => (
+                                                    <div key={i}>
+                                                        <div className="font-bold text-slate-500">{i + 1}. {agents.find(a => a.id === run.steps[i].agentId)?.name || t('pipelines.agent')}</div>
+                                                        <div className="pl-3 border-l-2 border-indigo-200 text-slate-700 whitespace-pre-wrap">{output}</div>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const formatBytes = (bytes: number) =>
+    bytes < 1024 ? `${bytes} B` : bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const SourcesPanel = ({ sources, focus, onAdd, onDelete, onAsk }: { sources: Source[], focus: SourceFocus | null, onAdd: (sources: Source[]) => void, onDelete: (id: string) => void, onAsk: (query: string) => Promise<{ text: string, citations: Citation[] }> }) => {
+    const { t } = useI18n();
+    const [expandedId, setExpandedId] = useState<string | null>(focus?.sourceId || null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [isImporting, setIsImporting] = useState(false);
     const [query, setQuery] = useState('');
-    const [feedbackInput, setFeedbackInput] = useState<{msgId: number, type: 'up'|'down'} | null>(null);
-    const [feedbackComment, setFeedbackComment] = useState("");
-    
-    const selectedAgent = agents.find(a => a.id === selectedAgentId);
-    const currentChat = selectedAgentId ? chats[selectedAgentId] || [] : [];
-    const [isThinking, setIsThinking] = useState(false);
+    const [answer, setAnswer] = useState<{ text: string, citations: Citation[] } | null>(null);
+    const [isAsking, setIsAsking] = useState(false);
+    const [highlightId, setHighlightId] = useState<string | null>(focus?.chunkId || null);
+    const fileInput = useRef<HTMLInputElement>(null);
 
-    const handleSubmit = () => {
-        if (!selectedAgent || !query.trim()) return;
-        setIsThinking(true);
-        onChatStart(selectedAgent, query);
-        setQuery('');
-        setTimeout(() => setIsThinking(false), 1500); 
+    const openCitation = (citation: SourceFocus) => {
+        setExpandedId(citation.sourceId);
+        setHighlightId(citation.chunkId || null);
     };
 
-    const submitFeedback = () => {
-        if(selectedAgentId && feedbackInput) {
-            onFeedback(selectedAgentId, feedbackInput.msgId, feedbackInput.type, feedbackComment);
-            setFeedbackInput(null);
-            setFeedbackComment("");
+    useEffect(() => {
+        if (focus) openCitation(focus);
+    }, [focus]);
+
+    useEffect(() => {
+        if (highlightId) document.getElementById(`chunk-${highlightId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, [highlightId, expandedId]);
+
+    const handleAsk = async () => {
+        if (!query.trim() || isAsking) return;
+        setIsAsking(true);
+        try {
+            setAnswer(await onAsk(query));
+        } catch (e) {
+            setAnswer({ text: `⚠ ${e instanceof Error ? e.message : t('sources.search_failed')}`, citations: [] });
         }
-    }
+        setIsAsking(false);
+    };
+
+    const handleFiles = async (files: FileList | null) => {
+        if (!files?.length) return;
+        setIsImporting(true);
+        const results = await Promise.allSettled(Array.from(files).map(parseSourceFile));
+        onAdd(results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []));
+        setErrors(results.flatMap(r => r.status === 'rejected' ? [r.reason?.message || String(r.reason)] : []));
+        setIsImporting(false);
+        if (fileInput.current) fileInput.current.value = '';
+    };
 
     return (
-        <div className="mt-6 grid grid-cols-1 lg:grid-cols-3 gap-6 h-[500px]">
-            <div className={`bg-white p-6 rounded-xl shadow-sm border border-slate-200 overflow-y-auto ${selectedAgentId ? 'hidden lg:block' : ''}`}>
-                <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2"><Icons.Users /> Agent Swarm</h3>
-                <div className="space-y-3">
-                    {agents.map(agent => (
-                        <div key={agent.id} onClick={() => setSelectedAgentId(agent.id)} className={`p-3 border rounded-lg cursor-pointer transition-all ${selectedAgentId === agent.id ? 'border-indigo-500 bg-indigo-50 ring-1 ring-indigo-500' : 'border-slate-100 bg-white hover:border-indigo-300'}`}>
-                            <div className="flex justify-between items-center mb-1">
-                                <div className="font-bold text-slate-700">{agent.name}</div>
-                                <div className="flex items-center gap-1.5">
-                                    <span className={`w-2 h-2 rounded-full ${agent.connectionQuality === 'optimal' ? 'bg-green-500 animate-pulse' : agent.connectionQuality === 'unstable' ? 'bg-amber-500' : 'bg-red-500'}`}></span>
-                                </div>
+        <div className="p-6 h-full overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Icons.FileText /> {t('modules.sources')}</h2>
+                <button onClick={() => fileInput.current?.click()} disabled={isImporting} className={`px-4 py-2 bg-indigo-600 text-white rounded-lg font-bold text-sm flex items-center gap-2 ${isImporting ? 'opacity-70 cursor-wait' : 'hover:bg-indigo-700'}`}>
+                    <Icons.Plus /> {isImporting ? t('sources.extracting') : t('sources.add')}
+                </button>
+                <input ref={fileInput} type="file" multiple accept=".pdf,.md,.markdown,.txt,.text,.html,.htm" className="hidden" onChange={e => handleFiles(e.target.files)} />
+            </div>
+            <div className="flex gap-2 mb-4">
+                <div className="flex-1 flex items-center gap-2 bg-white border border-slate-200 rounded-lg px-3 focus-within:ring-2 focus-within:ring-indigo-500">
+                    <span className="text-slate-400"><Icons.Search /></span>
+                    <input className="flex-1 py-2 text-sm outline-none bg-transparent" placeholder={t('placeholders.search_sources')} value={query} onChange={e => setQuery(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleAsk()} />
+                </div>
+                <button onClick={handleAsk} disabled={isAsking || sources.length === 0} className="px-4 py-2 bg-slate-800 text-white rounded-lg font-bold text-sm disabled:opacity-50">{isAsking ? t('sources.searching') : t('sources.ask')}</button>
+            </div>
+            {answer && (
+                <div className="mb-6 bg-slate-900 text-slate-200 rounded-xl p-4 text-sm whitespace-pre-wrap">
+                    <CitedText text={answer.text} citations={answer.citations} onOpen={openCitation} />
+                    {answer.citations.length > 0 && (
+                        <div className="mt-3 pt-3 border-t border-slate-700 space-y-1">
+                            {answer.citations.map(c => (
+                                <button key={c.marker} onClick={() => openCitation(c)} className="block text-left text-xs text-slate-400 hover:text-white truncate w-full">[{c.marker}] {c.title}: {c.excerpt}</button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+            {errors.length > 0 && (
+                <div className="mb-4 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">
+                    {errors.map((err, i) => <div key={i}>{err}</div>)}
+                </div>
+            )}
+            {sources.length === 0 && <div className="text-center text-slate-400 mt-20">{t('sources.empty')}</div>}
+            <div className="space-y-3">
+                {sources.map(src => (
+                    <div key={src.id} className="bg-white border border-slate-200 rounded-xl shadow-sm">
+                        <div className="p-4 flex items-center gap-3 cursor-pointer" onClick={() => setExpandedId(expandedId === src.id ? null : src.id)}>
+                            <span className="text-[10px] font-bold uppercase bg-indigo-50 text-indigo-600 px-2 py-1 rounded">{src.type}</span>
+                            <div className="flex-1 min-w-0">
+                                <div className="font-bold text-slate-800 truncate">{src.title}</div>
+                                <div className="text-xs text-slate-400">{formatBytes(src.size)} • {t('sources.chunks', { count: src.chunks.length })}{src.addedAt ? ` • ${new Date(src.addedAt).toLocaleDateString()}` : ''}</div>
                             </div>
-                            <div className="text-xs text-slate-500 flex justify-between">
-                                <span>{agent.role}</span>
-                                <span className={agent.status === 'Active' ? 'text-green-600 font-bold' : 'text-slate-400'}>{agent.status}</span>
+                            <button onClick={e => { e.stopPropagation(); onDelete(src.id); }} className="text-slate-400 hover:text-red-500 p-2" title={t('sources.delete')}><Icons.Trash /></button>
+                        </div>
+                        {expandedId === src.id && (
+                            <div className="border-t border-slate-100 p-4 space-y-2 max-h-80 overflow-y-auto">
+                                {src.chunks.map(chunk => (
+                                    <div key={chunk.id} id={`chunk-${chunk.id}`} className={`text-xs border rounded p-2 ${highlightId === chunk.id ? 'bg-amber-50 border-amber-300' : 'bg-slate-50 border-slate-100'}`}>
+                                        <div className="font-mono text-[10px] text-slate-400 mb-1">#{chunk.index + 1} · {chunk.id}</div>
+                                        <div className={`text-slate-600 whitespace-pre-wrap ${highlightId === chunk.id ? '' : 'line-clamp-4'}`}>{chunk.text}</div>
+                                    </div>
+                                ))}
                             </div>
-                             <div className="text-[10px] text-indigo-400 mt-1 italic truncate">Task: {agent.currentTask}</div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+const FileArchive = ({ files, user, agents, onChange, onSummarize }: { files: FileNode[], user: User, agents: Agent[], onChange: (update: (files: FileNode[]) => FileNode[]) => void, onSummarize: (node: FileNode, agent: Agent) => Promise<void> }) => {
+    const { t } = useI18n();
+    const [currentId, setCurrentId] = useState<string | null>(null);
+    const [search, setSearch] = useState('');
+    const [renamingId, setRenamingId] = useState<string | null>(null);
+    const [renameValue, setRenameValue] = useState('');
+    const [movingId, setMovingId] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [summaryAgentId, setSummaryAgentId] = useState(() => agents.find(a => a.zoneId === 'files')?.id || agents[0]?.id || '');
+    const fileInput = useRef<HTMLInputElement>(null);
+
+    const folders = files.filter(f => f.type === 'folder');
+    const canManage = can(user, 'files:manage');
+    const writableHere = canWrite(files, currentId, user);
+    const listed = search.trim()
+        ? files.filter(f => f.name.toLowerCase().includes(search.trim().toLowerCase()) && canRead(files, f.id, user))
+        : canRead(files, currentId, user) ? files.filter(f => f.parentId === currentId) : [];
+    const sorted = [...listed].sort((a, b) => a.type === b.type ? a.name.localeCompare(b.name) : a.type === 'folder' ? -1 : 1);
+
+    const guard = (ok: boolean, message: string) => {
+        setError(ok ? null : message);
+        return ok;
+    };
+
+    const uniqueName = (name: string, parentId: string | null, exceptId?: string) => {
+        const taken = new Set(files.filter(f => f.parentId === parentId && f.id !== exceptId).map(f => f.name.toLowerCase()));
+        if (!taken.has(name.toLowerCase())) return name;
+        const [, base, ext] = name.match(/^(.*?)(\.[^.]*)?$/)!;
+        let n = 2;
+        while (taken.has(`${base} (${n})${ext || ''}`.toLowerCase())) n++;
+        return `${base} (${n})${ext || ''}`;
+    };
+
+    const createFolder = () => {
+        if (!guard(writableHere, t('files.folder_read_only'))) return;
+        const folder: FileNode = { id: `f_${randomHex(6)}`, parentId: currentId, name: uniqueName(t('files.new_folder'), currentId), type: 'folder', size: '-', date: new Date().toISOString(), perm: 'rw' };
+        onChange(prev => [...prev, folder]);
+        setRenamingId(folder.id);
+        setRenameValue(folder.name);
+    };
+
+    const upload = async (list: FileList | null) => {
+        if (!list?.length || !guard(writableHere, t('files.folder_read_only'))) return;
+        const tooLarge = Array.from(list).filter(f => f.size > MAX_UPLOAD_BYTES);
+        const accepted = Array.from(list).filter(f => f.size <= MAX_UPLOAD_BYTES);
+        try {
+            // Contents go to the body store first so no entry ever points at a missing body
+            const nodes = await Promise.all(accepted.map(async (file): Promise<FileNode> => {
+                const id = `f_${randomHex(6)}`;
+                await backend.saveFileBody(id, file);
+                return { id, parentId: currentId, name: uniqueName(file.name, currentId), type: 'file', size: formatBytes(file.size), date: new Date().toISOString(), perm: 'rw', mime: file.type || 'application/octet-stream' };
+            }));
+            onChange(prev => [...prev, ...nodes]);
+            setError(tooLarge.length ? t('files.skipped', { size: formatBytes(MAX_UPLOAD_BYTES), names: tooLarge.map(f => f.name).join(', ') }) : null);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t('files.upload_failed'));
+        }
+        if (fileInput.current) fileInput.current.value = '';
+    };
+
+    const commitRename = (node: FileNode) => {
+        const name = renameValue.trim();
+        setRenamingId(null);
+        if (!name || name === node.name || !guard(canWrite(files, node.id, user), t('files.read_only', { name: node.name }))) return;
+        onChange(prev => prev.map(f => f.id === node.id ? { ...f, name: uniqueName(name, node.parentId, node.id) } : f));
+    };
+
+    const move = (node: FileNode, targetId: string | null) => {
+        setMovingId(null);
+        if (targetId === node.parentId) return;
+        if (!guard(canWrite(files, node.id, user) && canWrite(files, targetId, user), t('files.move_read_only'))) return;
+        if (!guard(targetId !== node.id && !descendantsOf(files, node.id).some(d => d.id === targetId), t('files.move_into_self'))) return;
+        onChange(prev => prev.map(f => f.id === node.id ? { ...f, parentId: targetId, name: uniqueName(node.name, targetId, node.id) } : f));
+    };
+
+    const remove = (node: FileNode) => {
+        const subtree = [node, ...descendantsOf(files, node.id)];
+        if (!guard(canWrite(files, node.id, user) && (canManage || subtree.every(n => hasPerm(n, 'w'))), t('files.subtree_read_only', { name: node.name }))) return;
+        if (node.type === 'folder' && subtree.length > 1 && !window.confirm(t('files.confirm_delete', { name: node.name, count: subtree.length - 1 }))) return;
+        const ids = new Set(subtree.map(n => n.id));
+        onChange(prev => prev.filter(f => !ids.has(f.id)));
+        backend.deleteFileBodies(subtree.filter(n => n.type === 'file').map(n => n.id)).catch(e => console.error('[Files] Failed to delete contents', e));
+    };
+
+    const download = async (node: FileNode) => {
+        if (!guard(canRead(files, node.id, user), t('files.not_readable', { name: node.name }))) return;
+        try {
+            downloadBlob(node.name, await backend.loadFileBody(node.id));
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t('files.read_failed'));
+        }
+    };
+
+    const summarize = async (node: FileNode) => {
+        const agent = agents.find(a => a.id === summaryAgentId);
+        if (!agent || !guard(canRead(files, node.id, user), t('files.not_readable', { name: node.name }))) return;
+        if (!guard(!!sourceTypeOf(node.name), t('files.not_summarizable'))) return;
+        try {
+            await onSummarize(node, agent);
+        } catch (e) {
+            setError(e instanceof Error ? e.message : t('files.read_failed'));
+        }
+    };
+
+    const openFolder = (node: FileNode) => {
+        if (!guard(canRead(files, node.id, user), t('files.not_readable', { name: node.name }))) return;
+        setCurrentId(node.id);
+        setSearch('');
+    };
+
+    const togglePerm = (node: FileNode, flag: 'r' | 'w') => {
+        const next = { r: hasPerm(node, 'r'), w: hasPerm(node, 'w'), [flag]: !hasPerm(node, flag) };
+        onChange(prev => prev.map(f => f.id === node.id ? { ...f, perm: `${next.r ? 'r' : '-'}${next.w ? 'w' : '-'}` } : f));
+    };
+
+    const renderTree = (parentId: string | null, depth: number): React.ReactNode => (
+        <>
+            {folders.filter(f => f.parentId === parentId).sort((a, b) => a.name.localeCompare(b.name)).map(folder => {
+                // Unreadable folders stay visible by name but cannot be opened or expanded
+                const readable = canRead(files, folder.id, user);
+                return (
+                    <div key={folder.id}>
+                        <button onClick={() => { setCurrentId(folder.id); setSearch(''); }} disabled={!readable} style={{ paddingLeft: `${depth * 12 + 8}px` }} className={`w-full text-left py-1.5 pr-2 rounded flex items-center gap-2 text-sm truncate disabled:opacity-50 disabled:cursor-not-allowed ${currentId === folder.id ? 'bg-indigo-100 text-indigo-700 font-bold' : 'text-slate-600 hover:bg-slate-100'}`}>
+                            <Icons.Folder /> <span className="truncate">{folder.name}</span>{!hasPerm(folder, 'w') && <span className="text-[10px] text-amber-600">{t('files.read_only_badge')}</span>}
+                        </button>
+                        {readable && renderTree(folder.id, depth + 1)}
+                    </div>
+                );
+            })}
+        </>
+    );
+
+    return (
+        <div className="h-full flex flex-col p-6 overflow-hidden">
+            <div className="flex justify-between items-center mb-4 gap-4">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2 shrink-0"><Icons.HardDrive /> {t('modules.files')}</h2>
+                <div className="flex-1 max-w-sm flex items-center gap-2 bg-white border border-slate-200 rounded-lg px-3 focus-within:ring-2 focus-within:ring-indigo-500">
+                    <span className="text-slate-400"><Icons.Search /></span>
+                    <input className="flex-1 py-2 text-sm outline-none bg-transparent" placeholder={t('files.search')} value={search} onChange={e => setSearch(e.target.value)} />
+                </div>
+                <div className="flex gap-2 shrink-0">
+                    <button onClick={createFolder} disabled={!writableHere} className="px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold text-slate-600 flex items-center gap-1 disabled:opacity-50"><Icons.Plus /> {t('files.folder')}</button>
+                    <button onClick={() => fileInput.current?.click()} disabled={!writableHere} className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 rounded-lg text-xs font-bold text-white flex items-center gap-1 disabled:opacity-50"><Icons.ArrowUp /> {t('files.upload')}</button>
+                    <input ref={fileInput} type="file" multiple className="hidden" onChange={e => upload(e.target.files)} />
+                </div>
+            </div>
+            {error && <div className="mb-3 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-2 flex justify-between">{error}<button onClick={() => setError(null)}>✕</button></div>}
+            <div className="grid grid-cols-4 gap-4 flex-1 min-h-0">
+                <div className="col-span-1 bg-white border border-slate-200 rounded-xl p-2 overflow-y-auto">
+                    <button onClick={() => { setCurrentId(null); setSearch(''); }} className={`w-full text-left px-2 py-1.5 rounded flex items-center gap-2 text-sm ${currentId === null ? 'bg-indigo-100 text-indigo-700 font-bold' : 'text-slate-600 hover:bg-slate-100'}`}><Icons.HardDrive /> {t('files.archive')}</button>
+                    {renderTree(null, 1)}
+                </div>
+                <div className="col-span-3 bg-white border border-slate-200 rounded-xl flex flex-col overflow-hidden">
+                    <div className="px-4 py-2 border-b border-slate-100 flex justify-between items-center text-xs text-slate-500">
+                        <div className="truncate">
+                            {search.trim() ? t('files.results', { query: search.trim() }) : [t('files.archive'), ...pathOf(files, currentId).map(n => n.name)].join(' / ')}
                         </div>
-                    ))}
+                        <label className="flex items-center gap-2 shrink-0">{t('files.summarize_with')}
+                            <select className="bg-slate-50 border border-slate-200 rounded px-2 py-1" value={summaryAgentId} onChange={e => setSummaryAgentId(e.target.value)}>
+                                {agents.map(a => <option key={a.id} value={a.id}>{a.name}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    <div className="flex-1 overflow-y-auto divide-y divide-slate-100">
+                        {sorted.length === 0 && <div className="text-center text-slate-400 text-sm mt-16">{search.trim() ? t('files.no_matches') : t('files.empty_folder')}</div>}
+                        {sorted.map(node => (
+                            <div key={node.id} className="px-4 py-2 flex items-center gap-3 text-sm hover:bg-slate-50 group">
+                                <span className={node.type === 'folder' ? 'text-amber-500' : 'text-slate-400'}>{node.type === 'folder' ? <Icons.Folder /> : <Icons.FileText />}</span>
+                                <div className="flex-1 min-w-0">
+                                    {renamingId === node.id ? (
+                                        <input autoFocus className="w-full border border-indigo-300 rounded px-2 py-0.5 outline-none" value={renameValue} onChange={e => setRenameValue(e.target.value)} onBlur={() => commitRename(node)} onKeyDown={e => { if (e.key === 'Enter') commitRename(node); if (e.key === 'Escape') setRenamingId(null); }} />
+                                    ) : (
+                                        <button onClick={() => node.type === 'folder' ? openFolder(node) : download(node)} className="font-medium text-slate-700 hover:text-indigo-600 truncate block text-left max-w-full">{node.name}</button>
+                                    )}
+                                    {search.trim() && <div className="text-[10px] text-slate-400 truncate">{[t('files.archive'), ...pathOf(files, node.parentId).map(n => n.name)].join(' / ')}</div>}
+                                </div>
+                                <span className="text-xs text-slate-400 w-16 text-right">{node.size}</span>
+                                <span className="text-xs text-slate-400 w-20 text-right">{new Date(node.date).toLocaleDateString()}</span>
+                                {canManage ? (
+                                    <span className="font-mono text-xs flex">
+                                        <button onClick={() => togglePerm(node, 'r')} className={hasPerm(node, 'r') ? 'text-green-600' : 'text-slate-300'}>r</button>
+                                        <button onClick={() => togglePerm(node, 'w')} className={hasPerm(node, 'w') ? 'text-green-600' : 'text-slate-300'}>w</button>
+                                    </span>
+                                ) : <span className="font-mono text-xs text-slate-400 w-6">{node.perm}</span>}
+                                {movingId === node.id ? (
+                                    <select autoFocus className="text-xs bg-slate-50 border border-slate-200 rounded px-1 py-1" defaultValue={node.parentId ?? ''} onBlur={() => setMovingId(null)} onChange={e => move(node, e.target.value || null)}>
+                                        <option value="">{t('files.archive')}</option>
+                                        {folders.filter(f => f.id !== node.id).map(f => <option key={f.id} value={f.id}>{pathOf(files, f.id).map(n => n.name).join(' / ')}</option>)}
+                                    </select>
+                                ) : (
+                                    <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity text-slate-400">
+                                        {node.type === 'file' && <button onClick={() => summarize(node)} className="p-1 hover:text-indigo-600" title={t('files.summarize')}><Icons.Brain /></button>}
+                                        {node.type === 'file' && <button onClick={() => download(node)} className="p-1 hover:text-indigo-600" title={t('files.download')}><Icons.Download /></button>}
+                                        <button onClick={() => { setRenamingId(node.id); setRenameValue(node.name); }} className="p-1 hover:text-indigo-600" title={t('files.rename')}><Icons.Edit /></button>
+                                        <button onClick={() => setMovingId(node.id)} className="p-1 hover:text-indigo-600" title={t('files.move')}><Icons.Link /></button>
+                                        <button onClick={() => remove(node)} className="p-1 hover:text-red-500" title={t('files.delete')}><Icons.Trash /></button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
                 </div>
             </div>
-            <div className={`col-span-2 bg-slate-900 rounded-xl border border-slate-800 flex flex-col overflow-hidden ${!selectedAgentId ? 'hidden lg:flex' : 'flex'}`}>
-                {selectedAgent ? (
+        </div>
+    );
+};
+
+// Two-hop neighbourhood of the active note laid out on concentric rings
+const LocalGraph = ({ notes, activeId, onOpen }: { notes: Note[], activeId: string, onOpen: (id: string) => void }) => {
+    const { nodes, edges } = useMemo(() => {
+        const neighbours = (id: string) => [...(notes.find(n => n.id === id)?.links || []), ...backlinksOf(notes, id).map(n => n.id)];
+        const ring1 = [...new Set(neighbours(activeId))].filter(id => id !== activeId);
+        const ring2 = [...new Set(ring1.flatMap(neighbours))].filter(id => id !== activeId && !ring1.includes(id)).slice(0, 24);
+        const place = (ids: string[], radius: number) => ids.map((id, i) => ({ id, x: 150 + radius * Math.cos((i / ids.length) * Math.PI * 2), y: 110 + radius * Math.sin((i / ids.length) * Math.PI * 2) }));
+        const nodes = [{ id: activeId, x: 150, y: 110 }, ...place(ring1, 55), ...place(ring2, 95)];
+        const ids = new Set(nodes.map(n => n.id));
+        const edges = notes.filter(n => ids.has(n.id)).flatMap(n => n.links.filter(l => ids.has(l)).map(l => [n.id, l] as [string, string]));
+        return { nodes, edges };
+    }, [notes, activeId]);
+    const pos = Object.fromEntries(nodes.map(n => [n.id, n]));
+
+    return (
+        <svg viewBox="0 0 300 220" className="w-full bg-slate-900 rounded-lg">
+            {edges.map(([a, b]) => <line key={`${a}-${b}`} x1={pos[a].x} y1={pos[a].y} x2={pos[b].x} y2={pos[b].y} stroke="#6366f1" strokeOpacity={0.5} />)}
+            {nodes.map(n => {
+                const note = notes.find(x => x.id === n.id);
+                return (
+                    <g key={n.id} onClick={() => onOpen(n.id)} className="cursor-pointer">
+                        <circle cx={n.x} cy={n.y} r={n.id === activeId ? 7 : 4.5} fill={n.id === activeId ? '#f59e0b' : '#818cf8'} />
+                        <text x={n.x} y={n.y - 9} textAnchor="middle" fontSize={8} fill="#cbd5e1">{(note?.title || '').slice(0, 18)}</text>
+                    </g>
+                );
+            })}
+        </svg>
+    );
+};
+
+const MindPalace = ({ notes, sources, activeId, onSelect, onChange, onCreate, onDelete, onOpenSource }: { notes: Note[], sources: Source[], activeId: string | null, onSelect: (id: string | null) => void, onChange: (id: string, patch: Partial<Pick<Note, 'title' | 'content'>>) => void, onCreate: (title: string) => string, onDelete: (id: string) => void, onOpenSource: (sourceId: string) => void }) => {
+    const { t } = useI18n();
+    const [search, setSearch] = useState('');
+    const [isPreview, setIsPreview] = useState(true);
+    const active = notes.find(n => n.id === activeId);
+    const backlinks = active ? backlinksOf(notes, active.id) : [];
+    const filtered = [...notes]
+        .filter(n => !search.trim() || `${n.title}\n${n.content}`.toLowerCase().includes(search.trim().toLowerCase()))
+        .sort((a, b) => b.updatedAt - a.updatedAt);
+
+    // Following a link to a note that does not exist yet creates it, wiki-style; source titles open the source
+    const openTitle = (title: string) => {
+        const target = notes.find(n => n.title.trim().toLowerCase() === title.toLowerCase());
+        const source = !target && sources.find(src => src.title.trim().toLowerCase() === title.toLowerCase());
+        if (source) onOpenSource(source.id);
+        else onSelect(target ? target.id : onCreate(title));
+    };
+
+    return (
+        <div className="h-full flex flex-col p-6 overflow-hidden">
+            <div className="flex justify-between items-center mb-4">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Icons.Brain /> {t('modules.notes')}</h2>
+                <button onClick={() => { onSelect(onCreate(t('notes.untitled'))); setIsPreview(false); }} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm flex items-center gap-2"><Icons.Plus /> {t('notes.new')}</button>
+            </div>
+            <div className="grid grid-cols-4 gap-4 flex-1 min-h-0">
+                <div className="col-span-1 bg-white border border-slate-200 rounded-xl flex flex-col overflow-hidden">
+                    <div className="p-2 border-b border-slate-100">
+                        <input className="w-full bg-slate-50 border border-slate-200 rounded px-2 py-1 text-sm outline-none" placeholder={t('placeholders.filter_notes')} value={search} onChange={e => setSearch(e.target.value)} />
+                    </div>
+                    <div className="flex-1 overflow-y-auto">
+                        {filtered.length === 0 && <div className="text-xs text-slate-400 text-center mt-8">{t('notes.empty')}</div>}
+                        {filtered.map(n => (
+                            <button key={n.id} onClick={() => onSelect(n.id)} className={`w-full text-left px-3 py-2 border-b border-slate-50 ${n.id === activeId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                                <div className="text-sm font-bold text-slate-700 truncate">{n.title}</div>
+                                <div className="text-[10px] text-slate-400">{new Date(n.updatedAt).toLocaleString()} • {t('notes.links', { count: n.links.length })}</div>
+                            </button>
+                        ))}
+                    </div>
+                </div>
+                {active ? (
                     <>
-                        <div className="p-4 border-b border-slate-700 bg-slate-800/50 flex justify-between items-center">
-                            <div className="flex items-center gap-3">
-                                <div className={`w-3 h-3 rounded-full ${selectedAgent.connectionQuality === 'optimal' ? 'bg-green-400' : 'bg-red-400'}`}></div>
-                                <span className="text-white font-mono font-bold">UPLINK: {selectedAgent.name}</span>
+                        <div className="col-span-2 bg-white border border-slate-200 rounded-xl flex flex-col overflow-hidden">
+                            <div className="p-3 border-b border-slate-100 flex gap-2 items-center">
+                                <input className="flex-1 text-lg font-bold text-slate-800 outline-none" value={active.title} onChange={e => onChange(active.id, { title: e.target.value })} />
+                                <button onClick={() => setIsPreview(!isPreview)} className="px-3 py-1 bg-slate-100 hover:bg-slate-200 rounded text-xs font-bold text-slate-600">{isPreview ? t('notes.edit') : t('notes.preview')}</button>
+                                <button onClick={() => { onDelete(active.id); onSelect(null); }} className="p-1 text-slate-400 hover:text-red-500" title={t('notes.delete')}><Icons.Trash /></button>
                             </div>
-                            <button onClick={() => setSelectedAgentId(null)} className="lg:hidden text-slate-400 hover:text-white"><Icons.X /></button>
+                            {isPreview ? (
+                                <div className="flex-1 overflow-y-auto p-4 text-sm text-slate-700">{renderMarkdown(active.content, openTitle)}</div>
+                            ) : (
+                                <textarea autoFocus className="flex-1 p-4 text-sm font-mono text-slate-700 resize-none outline-none" placeholder={t('notes.placeholder')} value={active.content} onChange={e => onChange(active.id, { content: e.target.value })} />
+                            )}
                         </div>
-                        <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                            {currentChat.length === 0 && <div className="text-slate-500 text-center text-sm mt-10 italic">Secure channel established.</div>}
-                            {currentChat.map(msg => (
-                                <div key={msg.id} className={`flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
-                                    <div className={`max-w-[80%] rounded-xl p-3 text-sm ${msg.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-800 text-slate-200 border border-slate-700'}`}>
-                                        {msg.text}
-                                        {msg.role === 'model' && (
-                                            <div className="mt-2 flex flex-col gap-2 pt-2 border-t border-slate-700/50">
-                                                {msg.feedback ? (
-                                                     <div className="text-xs text-slate-400 flex items-center gap-1">
-                                                        Feedback: {msg.feedback === 'up' ? '👍' : '👎'} {msg.feedbackComment && `"${msg.feedbackComment}"`}
-                                                     </div>
-                                                ) : (
-                                                    feedbackInput?.msgId === msg.id ? (
-                                                        <div className="flex gap-2">
-                                                            <input 
-                                                                className="bg-slate-900 border border-slate-600 rounded px-2 py-1 text-xs text-white flex-1"
-                                                                placeholder="Add comment (optional)..."
-                                                                value={feedbackComment}
-                                                                onChange={e => setFeedbackComment(e.target.value)}
-                                                                autoFocus
-                                                            />
-                                                            <button onClick={submitFeedback} className="text-xs bg-green-600 text-white px-2 rounded">OK</button>
-                                                        </div>
-                                                    ) : (
-                                                        <div className="flex justify-end gap-2">
-                                                            <button onClick={() => setFeedbackInput({msgId: msg.id, type: 'up'})} className="hover:text-green-400 text-slate-500"><Icons.ThumbsUp /></button>
-                                                            <button onClick={() => setFeedbackInput({msgId: msg.id, type: 'down'})} className="hover:text-red-400 text-slate-500"><Icons.ThumbsDown /></button>
-                                                        </div>
-                                                    )
-                                                )}
-                                            </div>
-                                        )}
+                        <div className="col-span-1 flex flex-col gap-4 overflow-y-auto">
+                            <LocalGraph notes={notes} activeId={active.id} onOpen={onSelect} />
+                            <div className="bg-white border border-slate-200 rounded-xl p-3">
+                                <h3 className="text-xs font-bold text-slate-400 uppercase mb-2">{t('notes.backlinks', { count: backlinks.length })}</h3>
+                                {backlinks.length === 0 && <div className="text-xs text-slate-400">{t('notes.no_backlinks')}</div>}
+                                {backlinks.map(n => <button key={n.id} onClick={() => onSelect(n.id)} className="block text-sm text-indigo-600 hover:underline truncate">{n.title}</button>)}
+                            </div>
+                        </div>
+                    </>
+                ) : <div className="col-span-3 flex items-center justify-center text-slate-400">{t('notes.select')}</div>}
+            </div>
+        </div>
+    );
+};
+
+const INBOX_TIME_FILTERS: { id: string; label: TranslationKey; ms: number; }[] = [
+    { id: 'all', label: 'integrations.time.any', ms: Infinity },
+    { id: '1h', label: 'integrations.time.hour', ms: 60 * 60 * 1000 },
+    { id: '24h', label: 'integrations.time.day', ms: 24 * 60 * 60 * 1000 },
+    { id: '7d', label: 'integrations.time.week', ms: 7 * 24 * 60 * 60 * 1000 },
+];
+
+const EVENT_STATUS_STYLES: Record<IntegrationEvent['status'], string> = {
+    received: 'text-amber-500', replying: 'text-amber-500', delivered: 'text-green-600', failed: 'text-red-500', escalated: 'text-purple-600',
+};
+
+const IntegrationInbox = ({ events, agents, rules, canOperate, onReassign, onReply }: { events: IntegrationEvent[], agents: Agent[], rules: RoutingRule[], canOperate: boolean, onReassign: (event: IntegrationEvent, agentId: string) => void, onReply: (event: IntegrationEvent, text: string) => void }) => {
+    const { t } = useI18n();
+    const [channel, setChannel] = useState<IntegrationType | 'all'>('all');
+    const [state, setState] = useState<'all' | 'open' | 'handled' | 'escalated'>('open');
+    const [timeFilter, setTimeFilter] = useState('all');
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [replyText, setReplyText] = useState('');
+    const [reassignTo, setReassignTo] = useState('');
+
+    const since = Date.now() - INBOX_TIME_FILTERS.find(f => f.id === timeFilter)!.ms;
+    const filtered = events.filter(e =>
+        (channel === 'all' || e.type === channel)
+        && (state === 'all' || (state === 'handled' ? e.handled : state === 'escalated' ? e.status === 'escalated' : !e.handled))
+        && e.timestamp >= since);
+    const selected = events.find(e => e.id === selectedId);
+    const busy = selected?.status === 'replying';
+
+    return (
+        <div className="h-full flex flex-col p-6 overflow-hidden">
+            <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Icons.MessageCircle /> {t('integrations.inbox')} <span className="text-xs font-normal text-slate-400">{t('integrations.shown', { count: filtered.length })}</span></h2>
+                <div className="flex gap-2 items-center text-sm">
+                    <Icons.Filter />
+                    <select className="bg-white border border-slate-200 rounded-lg px-2 py-1" value={channel} onChange={e => setChannel(e.target.value as IntegrationType | 'all')}>
+                        <option value="all">{t('integrations.all_channels')}</option>
+                        {INTEGRATION_CHANNELS.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+                    </select>
+                    <select className="bg-white border border-slate-200 rounded-lg px-2 py-1" value={state} onChange={e => setState(e.target.value as typeof state)}>
+                        <option value="open">{t('integrations.open')}</option>
+                        <option value="escalated">{t('integrations.escalated')}</option>
+                        <option value="handled">{t('integrations.handled')}</option>
+                        <option value="all">{t('integrations.all')}</option>
+                    </select>
+                    <select className="bg-white border border-slate-200 rounded-lg px-2 py-1" value={timeFilter} onChange={e => setTimeFilter(e.target.value)}>
+                        {INBOX_TIME_FILTERS.map(f => <option key={f.id} value={f.id}>{t(f.label)}</option>)}
+                    </select>
+                </div>
+            </div>
+            <div className="grid grid-cols-5 gap-4 flex-1 min-h-0">
+                <div className="col-span-2 bg-white border border-slate-200 rounded-xl overflow-y-auto">
+                    {filtered.length === 0 && <div className="text-xs text-slate-400 text-center mt-8">{t('integrations.empty')}</div>}
+                    {filtered.map(ev => (
+                        <button key={ev.id} onClick={() => { setSelectedId(ev.id); setReplyText(''); setReassignTo(ev.agentId || ''); }} className={`w-full text-left px-3 py-2 border-b border-slate-50 ${ev.id === selectedId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                            <div className="flex justify-between text-[10px] uppercase font-bold">
+                                <span className="text-slate-400">{ev.type} · {new Date(ev.timestamp).toLocaleString()}</span>
+                                <span className={EVENT_STATUS_STYLES[ev.status]}>{t(`integrations.statuses.${ev.status}`)}</span>
+                            </div>
+                            <div className="text-sm font-bold text-slate-700 truncate">{ev.sender}</div>
+                            <div className="text-xs text-slate-500 truncate">{ev.message}</div>
+                        </button>
+                    ))}
+                </div>
+                <div className="col-span-3 bg-white border border-slate-200 rounded-xl p-4 overflow-y-auto">
+                    {!selected ? <div className="text-sm text-slate-400 text-center mt-8">{t('integrations.select')}</div> : (
+                        <div className="space-y-4 text-sm">
+                            <div>
+                                <div className="text-xs text-slate-400 uppercase font-bold mb-1">{t('integrations.chat', { channel: selected.type, chatId: selected.chatId, sender: selected.sender })}</div>
+                                <div className="bg-slate-50 rounded-lg p-3 text-slate-800 whitespace-pre-wrap">{selected.message}</div>
+                            </div>
+                            <div className="text-xs text-slate-500 space-y-1">
+                                <div>{t('integrations.status')} <span className={`font-bold ${EVENT_STATUS_STYLES[selected.status]}`}>{t(`integrations.statuses.${selected.status}`)}</span></div>
+                                <div>{t('integrations.agent', { name: agents.find(a => a.id === selected.agentId)?.name || '—' })}</div>
+                                <div>{t('integrations.rule', { name: rules.find(r => r.id === selected.ruleId)?.name || t('integrations.default_route') })}</div>
+                            </div>
+                            {selected.reply && (
+                                <div>
+                                    <div className="text-xs text-slate-400 uppercase font-bold mb-1">{t('integrations.reply', { by: selected.repliedBy || '' })}</div>
+                                    <div className="pl-3 border-l-2 border-indigo-200 text-slate-600 whitespace-pre-wrap">{selected.reply}</div>
+                                </div>
+                            )}
+                            {selected.error && <div className="text-xs text-red-500">{selected.error}</div>}
+                            {canOperate ? (
+                                <div className="border-t border-slate-100 pt-4 space-y-3">
+                                    <div className="flex gap-2">
+                                        <select className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1" value={reassignTo} onChange={e => setReassignTo(e.target.value)}>
+                                            <option value="" disabled>{t('integrations.choose_agent')}</option>
+                                            {agents.map(a => <option key={a.id} value={a.id}>{a.name} ({a.role})</option>)}
+                                        </select>
+                                        <button disabled={!reassignTo || busy} onClick={() => onReassign(selected, reassignTo)} className="px-3 py-1 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold text-slate-600 disabled:opacity-50">{t('integrations.reassign')}</button>
                                     </div>
+                                    <textarea className="w-full h-24 bg-slate-50 border border-slate-200 rounded-lg p-2 outline-none resize-none" placeholder={t('integrations.reply_placeholder')} value={replyText} onChange={e => setReplyText(e.target.value)} />
+                                    <button disabled={!replyText.trim() || busy} onClick={() => { onReply(selected, replyText.trim()); setReplyText(''); }} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm flex items-center gap-2 disabled:opacity-50"><Icons.Send /> {t('integrations.send')}</button>
                                 </div>
+                            ) : <p className="text-xs text-amber-600">{t('integrations.inbox_mentor_only')}</p>}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+const RoutingRulesPanel = ({ rules, agents, canManage, onChange }: { rules: RoutingRule[], agents: Agent[], canManage: boolean, onChange: (rules: RoutingRule[]) => void }) => {
+    const { t } = useI18n();
+    const setRule = (id: string, patch: Partial<RoutingRule>) => onChange(rules.map(r => r.id === id ? { ...r, ...patch } : r));
+    const move = (index: number, delta: number) => {
+        const next = [...rules];
+        const [rule] = next.splice(index, 1);
+        next.splice(index + delta, 0, rule);
+        onChange(next);
+    };
+    const addRule = () => onChange([...rules, { id: `r_${randomHex(6)}`, name: t('integrations.new_rule'), enabled: true, channels: [], keywords: [], action: 'route', agentId: agents[0]?.id || '', replyText: '' }]);
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <div className="flex justify-between items-center mb-2">
+                <h2 className="text-xl font-bold text-slate-800 flex items-center gap-2"><Icons.Filter /> {t('integrations.rules')}</h2>
+                <button disabled={!canManage} onClick={addRule} className="px-4 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-lg font-bold text-sm flex items-center gap-2 disabled:opacity-50"><Icons.Plus /> {t('integrations.add_rule')}</button>
+            </div>
+            <p className="text-xs text-slate-400 mb-6">{t('integrations.rules_hint')}</p>
+            {!canManage && <p className="mb-4 text-xs text-amber-600">{t('integrations.rules_mentor_only')}</p>}
+            <fieldset disabled={!canManage} className="space-y-3">
+                {rules.map((rule, i) => (
+                    <div key={rule.id} className={`bg-white border border-slate-200 rounded-xl p-4 space-y-3 ${rule.enabled ? '' : 'opacity-60'}`}>
+                        <div className="flex items-center gap-3">
+                            <input type="checkbox" checked={rule.enabled} onChange={e => setRule(rule.id, { enabled: e.target.checked })} title={t('integrations.enabled')} />
+                            <input className="flex-1 font-bold text-slate-700 outline-none" value={rule.name} onChange={e => setRule(rule.id, { name: e.target.value })} />
+                            <button disabled={i === 0} onClick={() => move(i, -1)} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30" title={t('integrations.move_up')}><Icons.ArrowUp /></button>
+                            <button disabled={i === rules.length - 1} onClick={() => move(i, 1)} className="p-1 text-slate-400 hover:text-slate-700 disabled:opacity-30 rotate-180" title={t('integrations.move_down')}><Icons.ArrowUp /></button>
+                            <button onClick={() => onChange(rules.filter(r => r.id !== rule.id))} className="p-1 text-slate-400 hover:text-red-500" title={t('integrations.delete_rule')}><Icons.Trash /></button>
+                        </div>
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                            <span className="font-bold text-slate-500 w-20">{t('integrations.channels')}</span>
+                            {INTEGRATION_CHANNELS.map(c => (
+                                <button key={c.id} onClick={() => setRule(rule.id, { channels: rule.channels.includes(c.id) ? rule.channels.filter(x => x !== c.id) : [...rule.channels, c.id] })} className={`px-2 py-1 rounded border font-bold ${rule.channels.includes(c.id) ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-400'}`}>{c.label}</button>
                             ))}
-                            {isThinking && <div className="text-indigo-400 text-xs animate-pulse ml-2">Agent processing data packet...</div>}
+                            {!rule.channels.length && <span className="text-slate-400">{t('integrations.any')}</span>}
                         </div>
-                        <div className="p-4 bg-slate-800/50 border-t border-slate-700 flex gap-2">
-                            <input className="flex-1 bg-slate-900 border border-slate-700 rounded-lg px-4 py-2 text-white text-sm outline-none focus:border-indigo-500" placeholder={`Query ${selectedAgent.name}...`} value={query} onChange={e => setQuery(e.target.value)} onKeyDown={e => e.key === 'Enter' && handleSubmit()} />
-                            <button onClick={handleSubmit} className="bg-indigo-600 hover:bg-indigo-500 text-white p-2 rounded-lg transition-colors"><Icons.Send /></button>
+                        <label className="flex items-center gap-2 text-xs">
+                            <span className="font-bold text-slate-500 w-20">{t('integrations.keywords')}</span>
+                            {/* Committed on blur so typing a comma is not swallowed */}
+                            <input key={rule.keywords.join(',')} className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-sm" placeholder={t('integrations.any_message')} defaultValue={rule.keywords.join(', ')} onBlur={e => setRule(rule.id, { keywords: e.target.value.split(',').map(k => k.trim()).filter(Boolean) })} />
+                        </label>
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                            <span className="font-bold text-slate-500 w-20">{t('integrations.action')}</span>
+                            <select className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-sm" value={rule.action} onChange={e => setRule(rule.id, { action: e.target.value as RoutingRule['action'] })}>
+                                {(['route', 'auto_reply', 'escalate'] as const).map(action => <option key={action} value={action}>{t(`integrations.actions.${action}`)}</option>)}
+                            </select>
+                            {rule.action === 'route' && (
+                                <select className="bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-sm" value={rule.agentId} onChange={e => setRule(rule.id, { agentId: e.target.value })}>
+                                    {agents.map(a => <option key={a.id} value={a.id}>{a.name} ({a.role})</option>)}
+                                </select>
+                            )}
+                            {rule.action === 'auto_reply' && <input className="flex-1 bg-slate-50 border border-slate-200 rounded-lg px-2 py-1 text-sm" placeholder={t('integrations.reply_text')} value={rule.replyText} onChange={e => setRule(rule.id, { replyText: e.target.value })} />}
                         </div>
-                    </>
-                ) : <div className="flex items-center justify-center h-full text-slate-600 font-mono">Select an Agent to establish uplink.</div>}
-            </div>
+                    </div>
+                ))}
+            </fieldset>
+        </div>
+    );
+};
+
+const IntegrationsPanel = ({ settings, secrets, status, agents, canManage, onChange, onSecretsChange }: { settings: IntegrationSettings, secrets: IntegrationSecrets, status: Partial<Record<IntegrationType, string>>, agents: Agent[], canManage: boolean, onChange: (settings: IntegrationSettings) => void, onSecretsChange: (secrets: IntegrationSecrets) => void }) => {
+    const { t } = useI18n();
+    const setChannel = (channel: IntegrationType, patch: Partial<ChannelConfig>) =>
+        onChange({ ...settings, channels: { ...settings.channels, [channel]: { ...settings.channels[channel], ...patch } } });
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-2"><Icons.MessageCircle /> {t('integrations.bridges')}</h2>
+            {!canManage && <p className="mb-4 text-xs text-amber-600">{t('integrations.bridges_mentor_only')}</p>}
+            <fieldset disabled={!canManage} className="space-y-3">
+                <label className="block text-xs font-bold text-slate-500">{t('integrations.relay')}
+                    <input className="mt-1 w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono font-normal" value={settings.relayUrl} onChange={e => onChange({ ...settings, relayUrl: e.target.value })} />
+                </label>
+                {INTEGRATION_CHANNELS.map(({ id, label }) => {
+                    const config = settings.channels[id];
+                    const channelStatus = config.enabled ? status[id] || 'connecting' : t('integrations.disabled');
+                    return (
+                        <div key={id} className="bg-white border border-slate-200 rounded-xl p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                            <div className="md:col-span-2 flex items-center gap-3">
+                                <label className="flex items-center gap-2 text-sm font-bold text-slate-700 w-32">
+                                    <input type="checkbox" checked={config.enabled} onChange={e => setChannel(id, { enabled: e.target.checked })} />
+                                    {label}
+                                </label>
+                                <span className={`text-xs font-mono truncate ${channelStatus === 'online' ? 'text-green-600' : channelStatus.startsWith('error') ? 'text-red-500' : 'text-slate-400'}`}>{channelStatus}</span>
+                            </div>
+                            <label className="text-xs font-bold text-slate-500">{t('integrations.default_agent')}
+                                <select className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-normal" value={config.agentId} onChange={e => setChannel(id, { agentId: e.target.value })}>
+                                    {agents.map(a => <option key={a.id} value={a.id}>{a.name} ({a.role})</option>)}
+                                </select>
+                            </label>
+                            <label className="text-xs font-bold text-slate-500">{id === 'telegram' ? t('integrations.bot_token') : t('integrations.access_token')}
+                                <input type="password" className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono font-normal" value={secrets[id]} onChange={e => onSecretsChange({ ...secrets, [id]: e.target.value })} />
+                                <span className="block mt-1 font-normal text-slate-400">{t('integrations.token_hint')}</span>
+                            </label>
+                            {id === 'telegram' ? (
+                                <label className="md:col-span-2 text-xs font-bold text-slate-500">{t('integrations.api_base')}
+                                    <input className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono font-normal" placeholder="https://api.telegram.org" value={config.apiBase} onChange={e => setChannel(id, { apiBase: e.target.value })} />
+                                </label>
+                            ) : (
+                                <label className="md:col-span-2 text-xs font-bold text-slate-500">{t('integrations.send_endpoint')}
+                                    <input className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono font-normal" placeholder={id === 'whatsapp' ? 'https://graph.facebook.com/v19.0/<phone-id>/messages' : 'https://chatapi.viber.com/pa/send_message'} value={config.outboundUrl} onChange={e => setChannel(id, { outboundUrl: e.target.value })} />
+                                    <span className="block mt-1 font-normal text-slate-400">{t('integrations.inbound', { url: `${settings.relayUrl}/webhook/${id}` })}</span>
+                                </label>
+                            )}
+                        </div>
+                    );
+                })}
+            </fieldset>
         </div>
     );
 };
 
-const QuickActionsPanel = ({ onAction, t }: { onAction: (action: string) => void, t: (key: string) => string }) => (
-    <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200">
-        <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2"><Icons.Wand /> {t('governance.quick_actions')}</h3>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            <button onClick={() => onAction('summarize')} className="flex flex-col items-center justify-center p-4 bg-slate-50 hover:bg-indigo-50 border border-slate-200 hover:border-indigo-200 rounded-lg transition-all group">
-                <div className="text-slate-400 group-hover:text-indigo-600 mb-2"><Icons.FileText /></div>
-                <span className="text-xs font-bold text-slate-600 group-hover:text-indigo-700">{t('actions.summarize')}</span>
-            </button>
-            <button onClick={() => onAction('workflow')} className="flex flex-col items-center justify-center p-4 bg-slate-50 hover:bg-indigo-50 border border-slate-200 hover:border-indigo-200 rounded-lg transition-all group">
-                <div className="text-slate-400 group-hover:text-indigo-600 mb-2"><Icons.Git /></div>
-                <span className="text-xs font-bold text-slate-600 group-hover:text-indigo-700">{t('actions.workflow')}</span>
-            </button>
+const LLMSettingsPanel = ({ settings, secrets, canManage, onChange, onSecretsChange }: { settings: LLMSettings, secrets: LLMSecrets, canManage: boolean, onChange: (settings: LLMSettings) => void, onSecretsChange: (secrets: LLMSecrets) => void }) => {
+    const { t } = useI18n();
+    const [testResults, setTestResults] = useState<Record<string, string>>({});
+
+    const setRoute = (feature: LLMFeature, route: Partial<LLMRoute>) =>
+        onChange({ ...settings, features: { ...settings.features, [feature]: { ...settings.features[feature], ...route } } });
+
+    const testFeature = async (feature: LLMFeature) => {
+        setTestResults(prev => ({ ...prev, [feature]: t('ai.testing') }));
+        const started = performance.now();
+        try {
+            const { provider, model } = resolveLLM(settings, secrets, feature);
+            const result = await provider.generate({ model, contents: [{ role: 'user', parts: [{ text: 'Reply with the single word: ready' }] }] });
+            setTestResults(prev => ({ ...prev, [feature]: t('ai.test_ok', { ms: Math.round(performance.now() - started), text: result.text.slice(0, 60) }) }));
+        } catch (e) {
+            setTestResults(prev => ({ ...prev, [feature]: t('ai.test_failed', { error: e instanceof Error ? e.message : t('ai.unknown_error') }) }));
+        }
+    };
+
+    return (
+        <div className="p-6 h-full overflow-y-auto">
+            <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-2"><Icons.Cpu /> {t('modules.ai')}</h2>
+            {!canManage && <div className="mb-6 text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-3">{t('ai.mentor_only')}</div>}
+            <div className="space-y-3 mb-8">
+                {LLM_FEATURES.map(f => (
+                    <div key={f} className="bg-white border border-slate-200 rounded-xl p-4 flex flex-wrap items-center gap-3">
+                        <div className="w-48 font-bold text-slate-700">{t(`ai.features.${f}`)}</div>
+                        <select
+                            disabled={!canManage}
+                            className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm"
+                            value={settings.features[f].provider}
+                            onChange={e => {
+                                const provider = e.target.value as LLMProviderId;
+                                setRoute(f, { provider, model: LLM_PROVIDERS.find(p => p.id === provider)!.defaultModel });
+                            }}
+                        >
+                            {LLM_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                        </select>
+                        <input disabled={!canManage} className="flex-1 min-w-[10rem] bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono" value={settings.features[f].model} onChange={e => setRoute(f, { model: e.target.value })} />
+                        <button onClick={() => testFeature(f)} className="px-3 py-2 bg-slate-100 hover:bg-slate-200 rounded-lg text-xs font-bold text-slate-600">{t('ai.test')}</button>
+                        {testResults[f] && <div className="w-full text-xs font-mono text-slate-500">{testResults[f]}</div>}
+                    </div>
+                ))}
+            </div>
+            <h3 className="text-sm font-bold text-slate-500 uppercase mb-3">{t('ai.openai')}</h3>
+            <div className="bg-white border border-slate-200 rounded-xl p-4 grid grid-cols-1 md:grid-cols-2 gap-3">
+                <label className="text-xs font-bold text-slate-500">{t('ai.base_url')}
+                    <input disabled={!canManage} className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono font-normal" value={settings.openai.baseUrl} onChange={e => onChange({ ...settings, openai: { ...settings.openai, baseUrl: e.target.value } })} />
+                </label>
+                <label className="text-xs font-bold text-slate-500">{t('ai.api_key')}
+                    <input type="password" className="mt-1 w-full bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono font-normal" value={secrets.openaiApiKey} onChange={e => onSecretsChange({ ...secrets, openaiApiKey: e.target.value })} />
+                </label>
+            </div>
+            <h3 className="text-sm font-bold text-slate-500 uppercase mt-8 mb-3">{t('ai.retrieval')}</h3>
+            <div className="bg-white border border-slate-200 rounded-xl p-4 flex flex-wrap items-center gap-3">
+                <label className="flex items-center gap-2 text-sm font-bold text-slate-700 w-48">
+                    <input type="checkbox" disabled={!canManage} checked={settings.retrieval.embeddings} onChange={e => onChange({ ...settings, retrieval: { ...settings.retrieval, embeddings: e.target.checked } })} />
+                    {t('ai.rerank')}
+                </label>
+                <select
+                    disabled={!canManage}
+                    className="bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm"
+                    value={settings.retrieval.provider}
+                    onChange={e => {
+                        const provider = e.target.value as LLMProviderId;
+                        onChange({ ...settings, retrieval: { ...settings.retrieval, provider, model: EMBEDDING_MODELS[provider] } });
+                    }}
+                >
+                    {LLM_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                </select>
+                <input disabled={!canManage} className="flex-1 min-w-[10rem] bg-slate-50 border border-slate-200 rounded-lg px-3 py-2 text-sm font-mono" value={settings.retrieval.model} onChange={e => onChange({ ...settings, retrieval: { ...settings.retrieval, model: e.target.value } })} />
+                <p className="w-full text-xs text-slate-400">{t('ai.rerank_hint')}</p>
+            </div>
+            {!process.env.API_KEY && <p className="mt-4 text-xs text-slate-400">{t('ai.no_gemini')}</p>}
         </div>
-    </div>
-);
+    );
+};
 
 // --- APP ---
 const App = () => {
     const [user, setUser] = useState<User|null>(null);
+    const lang = user?.language || browserLanguage();
+    const t = useMemo(() => createTranslator(lang), [lang]);
     const [activeTab, setActiveTab] = useState('dashboard');
     const [agents, setAgents] = useState<Agent[]>([]);
-    const [integrations, setIntegrations] = useState<string[]>(['whatsapp', 'telegram']);
     const [agentChats, setAgentChats] = useState<Record<string, Message[]>>({});
     const [integrationEvents, setIntegrationEvents] = useState<IntegrationEvent[]>([]);
     const [zoneSummaries, setZoneSummaries] = useState<Record<string, string>>({});
@@ -642,36 +6185,260 @@ const App = () => {
     // New State for Features
     const [initiatives, setInitiatives] = useState<GovernanceInitiative[]>([]);
     const [extensions, setExtensions] = useState<Extension[]>([]);
+    const [pluginStatus, setPluginStatus] = useState<Record<string, PluginState>>({});
+    const sandboxes = useRef(new Map<string, PluginSandbox>());
+    // Sandboxes outlive renders, so their host calls go through this ref to reach current state
+    const pluginApi = useRef<PluginHostApi>(null!);
+
+    const [hydrated, setHydrated] = useState(false);
+    const [authChecked, setAuthChecked] = useState(false);
+    const [sources, setSources] = useState<Source[]>([]);
+    const [llmSettings, setLLMSettings] = useState<LLMSettings>(defaultLLMSettings);
+    const [llmSecrets, setLLMSecrets] = useState<LLMSecrets>({ openaiApiKey: '' });
+    const [integrationSecrets, setIntegrationSecrets] = useState<IntegrationSecrets>(defaultIntegrationSecrets);
+    const streamControllers = useRef<Record<string, AbortController>>({});
+    const [sourceFocus, setSourceFocus] = useState<SourceFocus | null>(null);
+    const [selectedAgentId, setSelectedAgentId] = useState<string | null>(null);
+    const [files, setFiles] = useState<FileNode[]>([]);
+    const [notes, setNotes] = useState<Note[]>([]);
+    const [activeNoteId, setActiveNoteId] = useState<string | null>(null);
+    const [integrationSettings, setIntegrationSettings] = useState<IntegrationSettings>(defaultIntegrationSettings);
+    const [routingRules, setRoutingRules] = useState<RoutingRule[]>([]);
+    const [agentTasks, setAgentTasks] = useState<AgentTask[]>([]);
+    const runningAgents = useRef(new Set<string>());
+    const [compatibilityRules, setCompatibilityRules] = useState<CompatibilityRule[]>([]);
+    const [pipelines, setPipelines] = useState<Pipeline[]>([]);
+    const [pipelineRuns, setPipelineRuns] = useState<PipelineRun[]>([]);
+    // Task completions read runs through this ref so a cancel is seen immediately
+    const pipelineRunsRef = useRef(pipelineRuns);
+    pipelineRunsRef.current = pipelineRuns;
+    const agentFlows = useMemo(() => agentFlowsOf(pipelineRuns), [pipelineRuns]);
+    const [classifications, setClassifications] = useState<Classification[]>([]);
+    const [initiativeFocus, setInitiativeFocus] = useState<string | null>(null);
+    const [projectTasks, setProjectTasks] = useState<ProjectTask[]>([]);
+    const [milestones, setMilestones] = useState<Milestone[]>([]);
+    const [stickyNotes, setStickyNotes] = useState<StickyNote[]>([]);
+    const [members, setMembers] = useState<Member[]>([]);
+    const [ledger, setLedger] = useState<LedgerEntry[]>([]);
+    const [focusBudgets, setFocusBudgets] = useState<Record<string, number>>({});
+    const [skillActivity, setSkillActivity] = useState<Record<string, SkillLog>>({});
+    const [feedback, setFeedback] = useState<FeedbackRecord[]>([]);
+    const [promptExperiments, setPromptExperiments] = useState<PromptExperiment[]>([]);
+    const [promotion, setPromotion] = useState<User['role'] | null>(null);
+    const [integrationView, setIntegrationView] = useState<'inbox' | 'rules' | 'bridges'>('inbox');
+    const [integrationStatus, setIntegrationStatus] = useState<Partial<Record<IntegrationType, string>>>({});
+    const adapterHeartbeats = useRef<Partial<Record<IntegrationType, number>>>({});
+    const [providerProbes, setProviderProbes] = useState<ProviderProbe[]>([]);
+    const [healthClock, setHealthClock] = useState(Date.now());
+    const inboundHandler = useRef<(adapter: IntegrationAdapter, msg: InboundMessage) => void>(() => {});
+    const seenInbound = useRef(new Set<string>());
+    const integrations = INTEGRATION_CHANNELS.filter(c => integrationSettings.channels[c.id].enabled).map(c => c.id);
+    const searchIndexMemo = useMemo(() => buildSearchIndex(sources), [sources]);
+    const runningPlugins = extensions.filter(p => p.enabled && pluginStatus[p.id]?.state === 'running');
+    const pluginContributions = (kind: 'tabs' | 'actions'): PluginContribution[] =>
+        runningPlugins.flatMap(p => p.manifest.contributes[kind].map(c => ({ ...c, key: `${p.id}:${c.id}`, pluginId: p.id })));
+    const pluginTabs = pluginContributions('tabs');
+    const pluginActions = pluginContributions('actions');
+    const pluginTools = runningPlugins.flatMap(p => p.manifest.contributes.tools.map(tool => ({ name: `${p.id}.${tool.id}`, description: tool.description })));
 
     useEffect(() => {
-        BackendService.login('wallet').then(u => {
-            setUser(u);
-            BackendService.syncData().then(d => {
-                setAgents(d.agents as Agent[]);
-                setInitiatives(d.initiatives);
-                setExtensions(d.extensions);
-            });
-        });
+        backend.restoreSession()
+            .then(setUser)
+            .catch(e => console.error('[Auth] Session restore failed', e))
+            .finally(() => setAuthChecked(true));
     }, []);
 
-    // Simulation Loop
     useEffect(() => {
         if (!user) return;
+        backend.syncData().then(d => {
+            setSources(d.sources);
+            setAgents(d.agents);
+            setLLMSettings(d.llmSettings);
+            setFiles(d.files);
+            setNotes(d.notes);
+            setIntegrationSettings(d.integrationSettings);
+            setRoutingRules(d.routingRules);
+            setAgentTasks(d.agentTasks.map(t => t.status === 'running' ? { ...t, status: 'failed', error: 'Interrupted by reload', finishedAt: Date.now() } : t));
+            setCompatibilityRules(d.compatibilityRules);
+            setPipelines(d.pipelines);
+            setClassifications(d.classifications);
+            setProjectTasks(d.projectTasks);
+            setMilestones(d.milestones);
+            setStickyNotes(d.stickyNotes);
+            setLedger(d.ledger);
+            setFocusBudgets(d.focusBudgets);
+            setSkillActivity(d.skillActivity);
+            setFeedback(d.feedback);
+            setPromptExperiments(d.promptExperiments);
+            setPipelineRuns(d.pipelineRuns.map(r => r.status === 'running' ? { ...r, status: 'failed', error: 'Interrupted by reload', finishedAt: Date.now() } : r));
+            // Replies that were in flight at reload were never confirmed by the channel
+            setIntegrationEvents(d.integrationEvents.map(e => e.status === 'received' || e.status === 'replying' ? { ...e, status: 'failed', error: 'Interrupted by reload' } : e));
+            setInitiatives(d.initiatives);
+            setExtensions(d.extensions);
+            // Streams never survive a reload; settle any that were persisted mid-flight
+            setAgentChats(Object.fromEntries(Object.entries(d.agentChats).map(([id, msgs]) => [id, msgs.map(m => m.isStreaming ? { ...m, isStreaming: false } : m)])));
+            setHydrated(true);
+        }).catch(e => console.error('[Storage] Sync failed', e));
+        backend.listMembers().then(setMembers).catch(e => console.error('[Auth] Failed to list members', e));
+    }, [user?.id]);
+
+    useEffect(() => {
+        if (user && hydrated) backend.saveUser(user).catch(e => console.error('[Auth] Failed to save profile', e));
+    }, [user, hydrated]);
+
+    // The ledger is the source of truth; this books opening balances and daily refills and mirrors the result into User.tokens
+    useEffect(() => {
+        if (!user || !hydrated) return;
+        if (!ledger.some(e => e.userId === user.id)) {
+            setLedger(prev => appendLedger(prev, openingEntries(user)));
+            return;
+        }
+        const tokens = ledgerBalances(ledger, user.id);
+        const refill = focusRefillDue(ledger, user.id, tokens.act, focusBudgetOf(user, focusBudgets));
+        if (refill > 0) {
+            setLedger(prev => appendLedger(prev, [ledgerEntry(user.id, 'act', refill, 'focus_refill')]));
+            return;
+        }
+        if (TOKEN_CURRENCIES.some(c => tokens[c] !== user.tokens[c])) setUser(u => u && { ...u, tokens });
+    }, [ledger, focusBudgets, user?.id, hydrated]);
+
+    // Completed skill branches only make registered users eligible; the role changes once a Mentor confirms it
+    const announcedPromotion = useRef('');
+    useEffect(() => {
+        if (!user || user.isGuest || !hydrated) return;
+        const role = pendingPromotion(user, skillActivity[user.id]);
+        const key = role ? `${user.id}:${role}` : '';
+        if (role && key !== announcedPromotion.current) setPromotion(role);
+        announcedPromotion.current = key;
+    }, [skillActivity, user?.id, user?.role, hydrated]);
+
+    // Keys already logged are ignored, so this is safe to call from state updaters
+    const trackActivity = (metric: SkillMetric, keys: string[]) => {
+        if (!user || !keys.length) return;
+        setSkillActivity(prev => {
+            const own = { ...emptySkillLog(), ...prev[user.id] };
+            const added = [...new Set(keys)].filter(k => !own[metric].includes(k));
+            return added.length ? { ...prev, [user.id]: { ...own, [metric]: [...own[metric], ...added] } } : prev;
+        });
+    };
+
+    const recordLedger = (currency: TokenCurrency, amount: number, reason: LedgerReason, detail = '') => {
+        if (user && amount) setLedger(prev => appendLedger(prev, [ledgerEntry(user.id, currency, amount, reason, detail)]));
+    };
+
+    // AI calls made on the user's behalf are refused without Focus and charged by their token usage
+    const ensureFocus = () => {
+        if (user && user.tokens.act <= 0) throw new Error(t('ledger.out_of_focus', { budget: focusBudgetOf(user, focusBudgets) }));
+    };
+    const chargeFocus = (usage: LLMUsage, detail: string) =>
+        recordLedger('act', -focusCost(usage), 'ai_call', `${detail} · ${usage.inputTokens + usage.outputTokens} tokens`);
+
+    const canSave = (key: AppDataKey) => hydrated && canWriteSlice(user, key);
+    useAutoSave('sources', sources, canSave('sources'));
+    useAutoSave('agents', agents, canSave('agents'));
+    useAutoSave('initiatives', initiatives, canSave('initiatives'));
+    useAutoSave('extensions', extensions, canSave('extensions'));
+    useAutoSave('agentChats', agentChats, canSave('agentChats'));
+    useAutoSave('llmSettings', llmSettings, canSave('llmSettings'));
+
+    useEffect(() => {
+        if (user) setLLMSecrets(loadLLMSecrets(user.id));
+    }, [user?.id]);
+
+    // The shared routes and the base URL every member's key is sent to are Mentor-only
+    const handleChangeLLMSettings = (settings: LLMSettings) => {
+        if (can(user, 'ai:manage')) setLLMSettings(settings);
+    };
+
+    const handleChangeLLMSecrets = (secrets: LLMSecrets) => {
+        setLLMSecrets(secrets);
+        if (user) saveLLMSecrets(user.id, secrets);
+    };
+
+    useEffect(() => {
+        if (user) setIntegrationSecrets(loadIntegrationSecrets(user.id));
+    }, [user?.id]);
+
+    const handleChangeIntegrationSecrets = (secrets: IntegrationSecrets) => {
+        setIntegrationSecrets(secrets);
+        if (user) saveIntegrationSecrets(user.id, secrets);
+    };
+    useAutoSave('files', files, canSave('files'));
+    useAutoSave('notes', notes, canSave('notes'));
+    useAutoSave('integrationSettings', integrationSettings, canSave('integrationSettings'));
+    useAutoSave('integrationEvents', integrationEvents, canSave('integrationEvents'));
+    useAutoSave('routingRules', routingRules, canSave('routingRules'));
+    useAutoSave('agentTasks', agentTasks, canSave('agentTasks'));
+    useAutoSave('compatibilityRules', compatibilityRules, canSave('compatibilityRules'));
+    useAutoSave('pipelines', pipelines, canSave('pipelines'));
+    useAutoSave('pipelineRuns', pipelineRuns, canSave('pipelineRuns'));
+    useAutoSave('classifications', classifications, canSave('classifications'));
+    useAutoSave('projectTasks', projectTasks, canSave('projectTasks'));
+    useAutoSave('milestones', milestones, canSave('milestones'));
+    useAutoSave('stickyNotes', stickyNotes, canSave('stickyNotes'));
+    useAutoSave('ledger', ledger, canSave('ledger'));
+    useAutoSave('focusBudgets', focusBudgets, canSave('focusBudgets'));
+    useAutoSave('skillActivity', skillActivity, canSave('skillActivity'));
+    useAutoSave('feedback', feedback, canSave('feedback'));
+    useAutoSave('promptExperiments', promptExperiments, canSave('promptExperiments'));
+
+    // Polling restarts only when the adapters' connection settings settle, not on every keystroke;
+    // the agent a channel routes to is read per message
+    const adapterConfigKey = JSON.stringify([integrationSettings.relayUrl, integrationSecrets, INTEGRATION_CHANNELS.map(({ id }) => {
+        const { agentId, ...config } = integrationSettings.channels[id];
+        return config;
+    })]);
+    const [pollingKey, setPollingKey] = useState(adapterConfigKey);
+    useEffect(() => {
+        const handle = setTimeout(() => setPollingKey(adapterConfigKey), 1000);
+        return () => clearTimeout(handle);
+    }, [adapterConfigKey]);
+
+    // One polling loop per enabled channel, run by the members who operate the bridges
+    useEffect(() => {
+        if (!can(user, 'integrations:manage') || !hydrated) return;
+        const controller = new AbortController();
+        INTEGRATION_CHANNELS.filter(c => integrationSettings.channels[c.id].enabled).forEach(({ id }) => {
+            const adapter = createIntegrationAdapter(id, integrationSettings, integrationSecrets, backend.sessionToken());
+            setIntegrationStatus(prev => ({ ...prev, [id]: 'connecting' }));
+            runIntegrationAdapter(adapter, msg => inboundHandler.current(adapter, msg), status => {
+                if (status === 'online') adapterHeartbeats.current[id] = Date.now();
+                setIntegrationStatus(prev => ({ ...prev, [id]: status }));
+            }, controller.signal);
+        });
+        return () => controller.abort();
+    }, [user?.id, user?.role, hydrated, pollingKey]);
+
+    // Only the probed routes and the OpenAI credentials restart the probes, debounced like the adapters
+    const probeKey = JSON.stringify([probeTargets(llmSettings), llmSettings.openai.baseUrl, llmSecrets.openaiApiKey]);
+    const [probingKey, setProbingKey] = useState(probeKey);
+    useEffect(() => {
+        const handle = setTimeout(() => setProbingKey(probeKey), 1000);
+        return () => clearTimeout(handle);
+    }, [probeKey]);
+
+    // Provider probes run once a minute; the clock re-evaluates heartbeats in between
+    useEffect(() => {
+        if (!user || !hydrated) return;
+        let cancelled = false;
+        const probe = async () => {
+            const results = await Promise.all(probeTargets(llmSettings).map(([id, model]) => probeProvider(createProvider(id, llmSettings, llmSecrets), model)));
+            if (!cancelled) setProviderProbes(prev => appendProbes(prev, results));
+        };
+        probe();
+        const probes = setInterval(probe, HEALTH_PROBE_MS);
+        const clock = setInterval(() => setHealthClock(Date.now()), HEALTH_TICK_MS);
+        return () => { cancelled = true; clearInterval(probes); clearInterval(clock); };
+    }, [user?.id, hydrated, probingKey]);
+
+    const health = useMemo(() => computeHealth({
+        probes: providerProbes, llmSettings, integrationSettings, integrationStatus, heartbeats: adapterHeartbeats.current, agents, agentTasks, agentChats, now: healthClock,
+    }), [providerProbes, llmSettings, integrationSettings, integrationStatus, agents, agentTasks, agentChats, healthClock]);
+
+    // Demo Simulation Loop
+    useEffect(() => {
+        if (!user || !APP_CONFIG.simulationMode) return;
         const interval = setInterval(() => {
-            // Random Integration Events
-            if (Math.random() > 0.95) {
-                const types: IntegrationType[] = ['whatsapp', 'telegram', 'viber'];
-                const type = types[Math.floor(Math.random() * types.length)];
-                if (integrations.includes(type)) {
-                    const newEvent: IntegrationEvent = { id: Date.now().toString(), type, message: `Incoming ${type} query.`, handled: false, timestamp: Date.now() };
-                    setIntegrationEvents(prev => [newEvent, ...prev]);
-                    setTimeout(() => {
-                        setIntegrationEvents(prev => prev.map(e => e.id === newEvent.id ? { ...e, handled: true } : e));
-                        setUser(u => u ? ({ ...u, tokens: { ...u.tokens, rep: u.tokens.rep + 5 } }) : null);
-                    }, 3000);
-                }
-            }
-            
             // Agent Status Simulation
             setAgents(prev => prev.map(a => {
                 const tasks = {
@@ -700,120 +6467,707 @@ const App = () => {
                     energy: Math.min(100, newEnergy),
                     currentTask: newTask,
                     status: newStatus as any,
-                    connectionQuality: Math.random() > 0.9 ? (Math.random() > 0.5 ? 'unstable' : 'offline') : 'optimal', 
                 };
             }));
         }, 2000);
         return () => clearInterval(interval);
-    }, [user, integrations]);
+    }, [user]);
+
+    // Dispatcher: each ready agent takes the oldest task from its own queue
+    useEffect(() => {
+        if (!hydrated || APP_CONFIG.simulationMode) return;
+        setAgents(prev => withAgentLoad(prev, agentTasks));
+        agents.forEach(agent => {
+            if (runningAgents.current.has(agent.id) || agent.cooldown > 0 || agent.energy < AGENT_MIN_ENERGY) return;
+            const next = [...agentTasks].reverse().find(t => t.status === 'queued' && t.agentId === agent.id);
+            if (next) runAgentTask(next, agent);
+        });
+    }, [agentTasks, agents, hydrated]);
+
+    // Idle agents cool down and recharge between tasks
+    useEffect(() => {
+        if (!hydrated || APP_CONFIG.simulationMode) return;
+        const interval = setInterval(() => setAgents(prev => {
+            const next = prev.map(a => {
+                if (runningAgents.current.has(a.id) || (a.cooldown === 0 && a.energy >= 100)) return a;
+                const cooldown = Math.max(0, a.cooldown - AGENT_TICK_MS / 1000);
+                const energy = Math.min(100, a.energy + 2);
+                return { ...a, cooldown, energy, ...restingState(energy, cooldown) };
+            });
+            return next.some((a, i) => a !== prev[i]) ? next : prev;
+        }), AGENT_TICK_MS);
+        return () => clearInterval(interval);
+    }, [hydrated]);
+
+    // One sandbox per enabled plugin; a reinstall (new installedAt) restarts it with the new code
+    useEffect(() => {
+        const running = sandboxes.current;
+        const wanted = hydrated ? extensions.filter(p => p.enabled) : [];
+        const setStatus = (id: string, status: PluginState) => setPluginStatus(prev => ({ ...prev, [id]: status }));
+        running.forEach((sandbox, id) => {
+            if (wanted.some(p => p.id === id && p.installedAt === sandbox.plugin.installedAt)) return;
+            running.delete(id);
+            sandbox.dispose();
+        });
+        wanted.forEach(plugin => {
+            if (running.has(plugin.id)) return;
+            if (!isPluginCompatible(plugin.manifest)) {
+                setStatus(plugin.id, { state: 'incompatible', error: `Needs plugin API ${plugin.manifest.engines.lumina}; this Lumina OS provides ${PLUGIN_API_VERSION}.` });
+                return;
+            }
+            const sandbox = new PluginSandbox(plugin, () => pluginApi.current, error => setStatus(plugin.id, { state: 'error', error }));
+            running.set(plugin.id, sandbox);
+            setStatus(plugin.id, { state: 'starting' });
+            sandbox.invoke('activate', '', { apiVersion: PLUGIN_API_VERSION, language: lang })
+                .then(() => running.get(plugin.id) === sandbox && setStatus(plugin.id, { state: 'running' }))
+                .catch(e => running.get(plugin.id) === sandbox && setStatus(plugin.id, { state: 'error', error: e instanceof Error ? e.message : 'Activation failed.' }));
+        });
+    }, [extensions, hydrated]);
+
+    useEffect(() => () => {
+        sandboxes.current.forEach(sandbox => sandbox.dispose());
+        sandboxes.current.clear();
+    }, []);
+
+    // Tool failures go back to the model as text so it can recover
+    const runPluginTool = async (name: string, input: string) => {
+        const [pluginId, toolId] = name.split('.');
+        const sandbox = sandboxes.current.get(pluginId);
+        if (!sandbox || !pluginTools.some(tool => tool.name === name)) return `Error: there is no tool named "${name}".`;
+        try {
+            const output = await sandbox.invoke('tool', toolId, { input });
+            return typeof output === 'string' ? output : JSON.stringify(output);
+        } catch (e) {
+            return `Error: ${e instanceof Error ? e.message : 'The tool failed.'}`;
+        }
+    };
 
     const getZoneSummary = useCallback(async (zone: string): Promise<string> => {
-        if (zoneSummaries[zone]) return zoneSummaries[zone]; 
+        const cacheKey = `${lang}:${zone}`;
+        if (zoneSummaries[cacheKey]) return zoneSummaries[cacheKey]; 
         try {
-            if(!process.env.API_KEY) return "AI Offline";
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const result = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
+            const { provider, model } = resolveLLM(llmSettings, llmSecrets, 'zone');
+            if(!provider.isConfigured()) return "AI Offline";
+            ensureFocus();
+            const result = await provider.generate({
+                model,
+                systemInstruction: languageInstruction(lang),
                 contents: [{ role: 'user', parts: [{ text: `Generate a 1-sentence summary of simulated activity in the ${zone} zone of a digital university.` }] }]
             });
+            chargeFocus(result.usage, `Zone summary: ${zone}`);
             const text = result.text || "No activity detected.";
-            setZoneSummaries(prev => ({...prev, [zone]: text}));
+            setZoneSummaries(prev => ({...prev, [cacheKey]: text}));
             return text;
         } catch(e) { return "Analysis Failed"; }
-    }, [zoneSummaries]);
+    }, [zoneSummaries, llmSettings, lang, user, focusBudgets]);
 
     const handleAgentChat = async (agent: Agent, query: string) => {
         const userMsg: Message = { id: Date.now(), role: 'user', text: query };
-        setAgentChats(prev => ({ ...prev, [agent.id]: [...(prev[agent.id] || []), userMsg] }));
+        const replyId = userMsg.id + 1;
+        const experiment = runningExperiment(promptExperiments, agent.id);
+        const variant: PromptVariant | undefined = experiment ? (Math.random() < 0.5 ? 'baseline' : 'candidate') : undefined;
+        const persona = experiment && variant ? { ...agent.persona, systemPrompt: experiment[variant] } : agent.persona;
+        const updateReply = (patch: (m: Message) => Partial<Message>) =>
+            setAgentChats(prev => ({ ...prev, [agent.id]: (prev[agent.id] || []).map(m => m.id === replyId ? { ...m, ...patch(m) } : m) }));
+
+        setAgentChats(prev => ({ ...prev, [agent.id]: [...(prev[agent.id] || []), userMsg, { id: replyId, role: 'model', text: '', isStreaming: true, experimentId: experiment?.id, variant }] }));
+        const controller = new AbortController();
+        streamControllers.current[agent.id] = controller;
         try {
-            if(!process.env.API_KEY) throw new Error("No API Key");
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const result = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: [{ role: 'user', parts: [{ text: `Act as agent ${agent.name} (${agent.role}). User says: ${query}` }] }]
-            });
-            const reply: Message = { id: Date.now() + 1, role: 'model', text: result.text || "Error." };
-            setAgentChats(prev => ({ ...prev, [agent.id]: [...(prev[agent.id] || []), reply] }));
-        } catch (e) { console.error(e); }
+            const { provider, model } = resolveLLM(llmSettings, llmSecrets, 'chat', agent.persona);
+            if(!provider.isConfigured()) throw new Error(`The ${provider.id} provider is not configured.`);
+            ensureFocus();
+            const { contents, recap } = buildChatHistory(agentChats[agent.id] || [], query);
+            const passages = await retrievePassages(searchIndexMemo, query, llmSettings, llmSecrets);
+            if (passages.length) updateReply(() => ({ citations: toCitations(passages) }));
+            const systemInstruction = [buildSystemInstruction({ ...agent, persona }, recap), buildGroundingInstruction(passages), buildToolInstruction(pluginTools), languageInstruction(lang)].filter(Boolean).join('\n\n');
+            const usage = { inputTokens: 0, outputTokens: 0 };
+            for (let round = 0; ; round++) {
+                let text = '';
+                const result = await provider.stream({ model, contents, systemInstruction, temperature: agent.persona.temperature, signal: controller.signal }, delta => {
+                    text += delta;
+                    if (!controller.signal.aborted) updateReply(m => ({ text: m.text + delta }));
+                });
+                usage.inputTokens += result.usage.inputTokens;
+                usage.outputTokens += result.usage.outputTokens;
+                const call = round < MAX_TOOL_ROUNDS ? parseToolCall(text) : null;
+                if (!call || controller.signal.aborted) break;
+                // The raw tool tag is replaced by a readable trace line
+                updateReply(m => ({ text: `${m.text.slice(0, m.text.length - text.length)}🔧 ${call.name}(${call.input})\n\n` }));
+                const output = await runPluginTool(call.name, call.input);
+                contents.push({ role: 'model', parts: [{ text }] }, { role: 'user', parts: [{ text: formatToolResult(call.name, output) }] });
+            }
+            chargeFocus(usage, `Chat with ${agent.name}`);
+            if (!controller.signal.aborted) updateReply(m => ({ isStreaming: false, text: m.text || 'No response.' }));
+        } catch (e) {
+            if (!controller.signal.aborted) updateReply(m => ({ isStreaming: false, isError: true, text: `${m.text ? `${m.text}\n\n` : ''}⚠ ${e instanceof Error ? e.message : 'Agent request failed.'}` }));
+        } finally {
+            if (streamControllers.current[agent.id] === controller) delete streamControllers.current[agent.id];
+        }
     };
 
-    const handleFeedback = (agentId: string, msgId: number, type: 'up'|'down', comment: string) => {
-        setAgentChats(prev => ({ ...prev, [agentId]: prev[agentId].map(m => m.id === msgId ? { ...m, feedback: type, feedbackComment: comment } : m) }));
-        console.log(`[Analytics] Feedback: ${type}, Comment: "${comment}"`);
+    // Single-turn, non-streaming answer in the agent's persona, grounded like the chat
+    const generateAgentReply = async (agent: Agent, text: string, languageHint: string): Promise<LLMResult> => {
+        const { provider, model } = resolveLLM(llmSettings, llmSecrets, 'chat', agent.persona);
+        if (!provider.isConfigured()) throw new Error(`The ${provider.id} provider is not configured.`);
+        const passages = await retrievePassages(searchIndexMemo, text, llmSettings, llmSecrets);
+        const contents: ChatContent[] = [{ role: 'user', parts: [{ text }] }];
+        const systemInstruction = [buildSystemInstruction(agent, ''), buildGroundingInstruction(passages), buildToolInstruction(pluginTools), languageHint].filter(Boolean).join('\n\n');
+        let result = await provider.generate({ model, contents, systemInstruction, temperature: agent.persona.temperature });
+        const usage = { ...result.usage };
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+            const call = parseToolCall(result.text);
+            if (!call) break;
+            contents.push({ role: 'model', parts: [{ text: result.text }] }, { role: 'user', parts: [{ text: formatToolResult(call.name, await runPluginTool(call.name, call.input)) }] });
+            result = await provider.generate({ model, contents, systemInstruction, temperature: agent.persona.temperature });
+            usage.inputTokens += result.usage.inputTokens;
+            usage.outputTokens += result.usage.outputTokens;
+        }
+        return { usage, text: result.text || 'No response.' };
+    };
+
+    const handleEnqueueTask = (task: Pick<AgentTask, 'title' | 'prompt' | 'source' | 'preferredType' | 'agentId' | 'eventId' | 'runId' | 'step' | 'projectTaskId'>) => {
+        setAgentTasks(prev => {
+            const agentId = task.agentId || pickAgentForTask(agents, prev, task.preferredType)?.id;
+            const next: AgentTask = { ...task, id: `t_${randomHex(6)}`, agentId, status: agentId ? 'queued' : 'failed', error: agentId ? undefined : 'No agent available.', createdAt: Date.now() };
+            return [next, ...prev].slice(0, MAX_AGENT_TASKS);
+        });
+    };
+
+    const handleCancelTask = (id: string) => {
+        setAgentTasks(prev => prev.map(t => t.id === id && t.status === 'queued' ? { ...t, status: 'cancelled', finishedAt: Date.now() } : t));
+    };
+
+    const handleRetryTask = (task: AgentTask) => {
+        const run = task.runId ? pipelineRuns.find(r => r.id === task.runId) : undefined;
+        // A pipeline step keeps its agent and revives the run it belonged to
+        if (run) setPipelineRuns(prev => prev.map(r => r.id === run.id ? { ...r, status: 'running', currentStep: task.step!, error: undefined, finishedAt: undefined } : r));
+        handleEnqueueTask({ title: task.title, prompt: task.prompt, source: task.source, preferredType: task.preferredType, agentId: run || task.projectTaskId ? task.agentId : undefined, eventId: task.eventId, runId: task.runId, step: task.step, projectTaskId: task.projectTaskId });
+    };
+
+    const enqueuePipelineStep = (run: PipelineRun, index: number, input: string) => {
+        handleEnqueueTask({ title: `${run.name} ${index + 1}/${run.steps.length}`, prompt: buildStepPrompt(run, index, input), source: 'pipeline', agentId: run.steps[index].agentId, runId: run.id, step: index });
+    };
+
+    const handleStartPipeline = (pipeline: Pipeline, input: string) => {
+        if (pipelineProblems(pipeline.steps, agents, compatibilityRules, t).length || !input.trim()) return;
+        const run: PipelineRun = {
+            id: `run_${randomHex(6)}`, pipelineId: pipeline.id, name: pipeline.name, steps: pipeline.steps,
+            input: input.length > PIPELINE_INPUT_LIMIT ? `${input.slice(0, PIPELINE_INPUT_LIMIT)}\n[...truncated]` : input,
+            status: 'running', currentStep: 0, outputs: [], startedAt: Date.now(),
+        };
+        setPipelineRuns(prev => [run, ...prev].slice(0, MAX_PIPELINE_RUNS));
+        enqueuePipelineStep(run, 0, run.input);
     };
 
-    const handleClassify = async (text: string, context: string[]) => {
-        if(!process.env.API_KEY) return "No API Key configured.";
+    // Each finished step feeds its output into the next agent's task
+    const advancePipelineRun = (task: AgentTask, output: string) => {
+        const run = pipelineRunsRef.current.find(r => r.id === task.runId);
+        if (!run || run.status !== 'running') return;
+        const next = task.step! + 1;
+        const outputs = [...run.outputs.slice(0, task.step), output];
+        const done = next >= run.steps.length;
+        setPipelineRuns(prev => prev.map(r => r.id === run.id ? { ...r, outputs, currentStep: done ? task.step! : next, status: done ? 'done' : 'running', finishedAt: done ? Date.now() : undefined } : r));
+        if (!done) enqueuePipelineStep(run, next, output);
+    };
+
+    const handleCancelPipelineRun = (runId: string) => {
+        setPipelineRuns(prev => prev.map(r => r.id === runId && r.status === 'running' ? { ...r, status: 'cancelled', finishedAt: Date.now() } : r));
+        setAgentTasks(prev => prev.map(t => t.runId === runId && t.status === 'queued' ? { ...t, status: 'cancelled', finishedAt: Date.now() } : t));
+    };
+
+    const runAgentTask = async (task: AgentTask, agent: Agent) => {
+        runningAgents.current.add(agent.id);
+        setAgentTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: 'running', startedAt: Date.now() } : t));
+        setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, status: 'Active', currentTask: task.title } : a));
+        const event = task.eventId ? integrationEvents.find(e => e.id === task.eventId) : undefined;
         try {
-             const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-             const prompt = `Classify this text based on the following initiatives: ${context.join(', ')}. Return a concise analysis. Text: "${text}"`;
-             const result = await ai.models.generateContent({
-                model: 'gemini-3-flash-preview',
-                contents: [{ role: 'user', parts: [{ text: prompt }] }]
-            });
-            return result.text || "Classification failed.";
-        } catch (e) { return "Error calling AI service."; }
+            // Messaging replies run unattended and are not charged to the operator's Focus
+            if (task.source !== 'integration') ensureFocus();
+            // Messaging replies follow the sender's language, everything else the operator's
+            const result = await generateAgentReply(agent, task.prompt, event ? 'Reply in the language of the incoming message.' : languageInstruction(lang));
+            if (task.source !== 'integration') chargeFocus(result.usage, `${agent.name}: ${task.title}`);
+            setAgentTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: 'done', result: result.text, usage: result.usage, finishedAt: Date.now() } : t));
+            setAgents(prev => prev.map(a => {
+                if (a.id !== agent.id) return a;
+                const energy = Math.max(0, a.energy - taskEnergyCost(result.usage));
+                return { ...a, energy, cooldown: TASK_COOLDOWN_S, ...restingState(energy, TASK_COOLDOWN_S) };
+            }));
+            if (event) deliverIntegrationReply(event, createIntegrationAdapter(event.type, integrationSettings, integrationSecrets, backend.sessionToken()), 'agent', async () => result.text);
+            if (task.runId) advancePipelineRun(task, result.text);
+            if (task.projectTaskId) setProjectTasks(prev => prev.map(p => p.id !== task.projectTaskId ? p : {
+                ...p, agentResult: result.text, tokensSpent: p.tokensSpent + result.usage.inputTokens + result.usage.outputTokens,
+                status: p.status === 'in_progress' ? 'review' : p.status, updatedAt: Date.now(),
+            }));
+        } catch (e) {
+            const error = e instanceof Error ? e.message : 'Task failed.';
+            setAgentTasks(prev => prev.map(t => t.id === task.id ? { ...t, status: 'failed', error, finishedAt: Date.now() } : t));
+            setAgents(prev => prev.map(a => a.id === agent.id ? { ...a, cooldown: FAILED_TASK_COOLDOWN_S, ...restingState(a.energy, FAILED_TASK_COOLDOWN_S) } : a));
+            if (event) updateIntegrationEvent(event.id, { status: 'failed', error });
+            if (task.runId) setPipelineRuns(prev => prev.map(r => r.id === task.runId && r.status === 'running' ? { ...r, status: 'failed', error: `Step ${task.step! + 1}: ${error}`, finishedAt: Date.now() } : r));
+        } finally {
+            runningAgents.current.delete(agent.id);
+        }
+    };
+
+    const updateIntegrationEvent = (id: string, patch: Partial<IntegrationEvent>) =>
+        setIntegrationEvents(prev => prev.map(e => e.id === id ? { ...e, ...patch } : e));
+
+    // The event only counts as handled once the channel accepted the reply
+    const deliverIntegrationReply = async (event: IntegrationEvent, adapter: IntegrationAdapter, repliedBy: IntegrationEvent['repliedBy'], produce: () => Promise<string>) => {
+        updateIntegrationEvent(event.id, { status: 'replying', error: undefined });
+        try {
+            const reply = await produce();
+            updateIntegrationEvent(event.id, { reply, repliedBy });
+            await adapter.send(event.chatId, reply);
+            updateIntegrationEvent(event.id, { status: 'delivered', handled: true });
+            recordLedger('rep', XP_PER_REPLY, 'integration_reply', `${event.sender} (${event.type})`);
+        } catch (e) {
+            updateIntegrationEvent(event.id, { status: 'failed', error: e instanceof Error ? e.message : 'Delivery failed.' });
+        }
+    };
+
+    // Agent replies go through the task queue; the dispatcher delivers the result
+    const replyAsAgent = (event: IntegrationEvent, agentId: string) => {
+        const agent = agents.find(a => a.id === agentId);
+        handleEnqueueTask({ title: `Reply to ${event.sender} (${event.type})`, prompt: event.message, source: 'integration', agentId: agent?.id, eventId: event.id });
+    };
+
+    const handleInboundMessage = (adapter: IntegrationAdapter, msg: InboundMessage) => {
+        const id = `${msg.channel}:${msg.externalId}`;
+        // A cursor saved just before a reload can make the relay hand out a message twice
+        if (seenInbound.current.has(id) || integrationEvents.some(e => e.id === id)) return;
+        seenInbound.current.add(id);
+        const rule = matchRoutingRule(routingRules, msg);
+        const agentId = rule?.action === 'route' ? rule.agentId : integrationSettings.channels[msg.channel].agentId;
+        const event: IntegrationEvent = {
+            id, type: msg.channel, message: msg.text, handled: false, timestamp: Date.now(), chatId: msg.chatId, sender: msg.sender,
+            agentId: rule?.action === 'route' || !rule ? agentId : undefined, ruleId: rule?.id, status: rule?.action === 'escalate' ? 'escalated' : 'received',
+        };
+        setIntegrationEvents(prev => [event, ...prev].slice(0, MAX_INTEGRATION_EVENTS));
+        if (rule?.action === 'escalate') return;
+        if (rule?.action === 'auto_reply') deliverIntegrationReply(event, adapter, 'auto', async () => {
+            if (!rule.replyText.trim()) throw new Error(`Rule "${rule.name}" has no reply text.`);
+            return rule.replyText;
+        });
+        else replyAsAgent(event, agentId);
+    };
+    inboundHandler.current = handleInboundMessage;
+
+    // Operator actions send through a fresh adapter so they work even while the channel is paused
+    const handleReassignEvent = (event: IntegrationEvent, agentId: string) => {
+        if (!can(user, 'integrations:manage')) return;
+        updateIntegrationEvent(event.id, { agentId, status: 'received', error: undefined });
+        replyAsAgent(event, agentId);
+    };
+
+    const handleOperatorReply = (event: IntegrationEvent, text: string) => {
+        if (!can(user, 'integrations:manage')) return;
+        deliverIntegrationReply(event, createIntegrationAdapter(event.type, integrationSettings, integrationSecrets, backend.sessionToken()), 'operator', async () => text);
+    };
+
+    const handleToggleChannel = (channel: IntegrationType) => {
+        if (!can(user, 'integrations:manage')) return;
+        setIntegrationSettings(prev => ({ ...prev, channels: { ...prev.channels, [channel]: { ...prev.channels[channel], enabled: !prev.channels[channel].enabled } } }));
+    };
+
+    const handleQuickAction = async (action: QuickAction, goal?: string) => {
+        const { provider, model } = resolveLLM(llmSettings, llmSecrets, 'actions');
+        if (!provider.isConfigured()) throw new Error(`The ${provider.id} provider is not configured.`);
+        const context = action === 'workflow'
+            ? `## Goal\n${goal}`
+            : buildWorkspaceContext({ agents, agentChats, integrationEvents, initiatives, agentTasks, notes });
+        ensureFocus();
+        const result = await provider.generate({ model, systemInstruction: `${QUICK_ACTION_PROMPTS[action]}\n\n${languageInstruction(lang)}`, contents: [{ role: 'user', parts: [{ text: context }] }] });
+        chargeFocus(result.usage, `Quick action: ${action}`);
+        return result.text || 'No result.';
+    };
+
+    const handlePluginAction = async (key: string, input: string) => {
+        const action = pluginActions.find(a => a.key === key);
+        const sandbox = action && sandboxes.current.get(action.pluginId);
+        if (!action || !sandbox) throw new Error(t('tools.not_running'));
+        const output = await sandbox.invoke('action', action.id, { input, language: lang });
+        return typeof output === 'string' ? output : JSON.stringify(output, null, 2);
+    };
+
+    const handleSaveActionTasks = (steps: string[]) => {
+        steps.forEach(step => handleEnqueueTask({ title: step.split('\n')[0].slice(0, 60), prompt: step, source: 'user' }));
+    };
+
+    const handleAskSources = async (query: string) => {
+        const { provider, model } = resolveLLM(llmSettings, llmSecrets, 'qa');
+        if (!provider.isConfigured()) throw new Error(`The ${provider.id} provider is not configured.`);
+        const passages = await retrievePassages(searchIndexMemo, query, llmSettings, llmSecrets, 5);
+        if (!passages.length) return { text: 'No passage in your sources matches this question.', citations: [] };
+        ensureFocus();
+        const result = await provider.generate({ model, systemInstruction: `${buildGroundingInstruction(passages)}\n\n${languageInstruction(lang)}`, contents: [{ role: 'user', parts: [{ text: query }] }] });
+        chargeFocus(result.usage, 'Source Q&A');
+        return { text: result.text || 'No answer.', citations: toCitations(passages) };
+    };
+
+    const handleSummarizeFile = async (node: FileNode, agent: Agent) => {
+        const text = await extractText(await backend.loadFileBody(node.id), node.name);
+        const excerpt = text.length > 12000 ? `${text.slice(0, 12000)}\n[...truncated]` : text;
+        setSelectedAgentId(agent.id);
+        setActiveTab('dashboard');
+        handleAgentChat(agent, `Summarize the file "${node.name}" for the archive:\n\n${excerpt}`);
+    };
+
+    const handleCreateNote = (title: string, content = '') => {
+        const note: Note = { id: `n_${randomHex(6)}`, title, content, updatedAt: Date.now(), links: [] };
+        setNotes(prev => resolveNoteLinks([note, ...prev]));
+        recordLedger('edu', KNOWLEDGE_PER_NOTE, 'note_created', title);
+        return note.id;
+    };
+
+    pluginApi.current = {
+        snapshot: () => ({
+            agents: agents.map(a => ({ id: a.id, name: a.name, role: a.role, type: a.type, status: a.status })),
+            notes: notes.map(n => ({ id: n.id, title: n.title, content: n.content, updatedAt: n.updatedAt })),
+            sources: sources.map(src => ({ id: src.id, title: src.title, type: src.type, size: src.size })),
+            initiatives: initiatives.map(i => ({ id: i.id, title: i.title, status: i.status, deadline: i.deadline })),
+            openTasks: agentTasks.filter(task => task.status === 'queued' || task.status === 'running').length,
+        }),
+        generate: async (prompt, system) => {
+            const { provider, model } = resolveLLM(llmSettings, llmSecrets, 'actions');
+            if (!provider.isConfigured()) throw new Error(`The ${provider.id} provider is not configured.`);
+            ensureFocus();
+            const result = await provider.generate({ model, systemInstruction: [system, languageInstruction(lang)].filter(Boolean).join('\n\n'), contents: [{ role: 'user', parts: [{ text: prompt }] }] });
+            chargeFocus(result.usage, 'Plugin request');
+            return result.text;
+        },
+        createNote: (title, content) => { handleCreateNote(title, content); },
+    };
+
+    const handleAddSources = (added: Source[]) => {
+        setSources(prev => [...added, ...prev]);
+        added.forEach(src => recordLedger('edu', KNOWLEDGE_PER_SOURCE, 'source_added', src.title));
+    };
+
+    const handleUpdateNote = (id: string, patch: Partial<Pick<Note, 'title' | 'content'>>) => {
+        setNotes(prev => {
+            const next = resolveNoteLinks(prev.map(n => n.id === id ? { ...n, ...patch, updatedAt: Date.now() } : n));
+            // Each new note→target link counts once towards the Knowledge branch of the skill tree
+            const before = prev.find(n => n.id === id), after = next.find(n => n.id === id);
+            if (before && after) trackActivity('notes_linked', after.links.filter(l => !before.links.includes(l)).map(l => `${id}>${l}`));
+            return next;
+        });
+    };
+
+    const handleDeleteNote = (id: string) => {
+        setNotes(prev => resolveNoteLinks(prev.filter(n => n.id !== id)));
+    };
+
+    const handleSaveMessageAsNote = (agent: Agent, msg: Message) => {
+        const question = [...(agentChats[agent.id] || [])].reverse().find(m => m.role === 'user' && m.id < msg.id);
+        const references = (msg.citations || []).map(c => `- [${c.marker}] [[${c.title}]]: ${c.excerpt.replace(/\s+/g, ' ')}`);
+        const content = [
+            question && `> ${question.text.split('\n')[0]}`,
+            msg.text,
+            references.length && `## Sources\n${references.join('\n')}`,
+            `*Saved from a chat with ${agent.name} on ${new Date(msg.id).toLocaleString()}*`,
+        ].filter(Boolean).join('\n\n');
+        const noteId = handleCreateNote(`${agent.name}: ${(question?.text || msg.text).replace(/\s+/g, ' ').slice(0, 48)}`, content);
+        setAgentChats(prev => ({ ...prev, [agent.id]: (prev[agent.id] || []).map(m => m.id === msg.id ? { ...m, savedNoteId: noteId } : m) }));
+    };
+
+    const handleOpenGraphNode = (kind: GraphNode['kind'], id: string) => {
+        if (kind === 'note') {
+            setActiveNoteId(id);
+            setActiveTab('notes');
+        } else {
+            setSourceFocus({ sourceId: id });
+            setActiveTab('sources');
+        }
+    };
+
+    const handleOpenCitation = (citation: Citation) => {
+        setSourceFocus({ sourceId: citation.sourceId, chunkId: citation.chunkId });
+        setActiveTab('sources');
+    };
+
+    const handleUpdatePersona = (agentId: string, persona: AgentPersona) => {
+        if (!can(user, 'personas:manage')) return;
+        // A model override only applies to the chat provider it was entered for
+        setAgents(prev => prev.map(a => {
+            if (a.id !== agentId) return a;
+            const modelProvider = !persona.model.trim() ? undefined : persona.model === a.persona.model ? a.persona.modelProvider : llmSettings.features.chat.provider;
+            return { ...a, persona: { ...persona, modelProvider } };
+        }));
+        // A hand-edited prompt invalidates the baseline of a running A/B test
+        const running = runningExperiment(promptExperiments, agentId);
+        if (running && running.baseline !== persona.systemPrompt) setPromptExperiments(prev => prev.map(e => e.id === running.id ? { ...e, endedAt: Date.now() } : e));
+    };
+
+    // Settles the bubble immediately; the stream loop drops whatever arrives afterwards
+    const handleCancelChat = (agentId: string) => {
+        streamControllers.current[agentId]?.abort();
+        setAgentChats(prev => ({ ...prev, [agentId]: (prev[agentId] || []).map(m => m.isStreaming ? { ...m, isStreaming: false, cancelled: true, text: `${m.text}${m.text ? ' ' : ''}[cancelled]` } : m) }));
+    };
+
+    const handleFeedback = (agentId: string, msgId: number, type: FeedbackRating, comment: string) => {
+        const chat = agentChats[agentId] || [];
+        const msg = chat.find(m => m.id === msgId);
+        if (!user || !msg) return;
+        trackActivity('feedback_given', [`${agentId}:${msgId}`]);
+        setAgentChats(prev => ({ ...prev, [agentId]: prev[agentId].map(m => m.id === msgId ? { ...m, feedback: type, feedbackComment: comment } : m) }));
+        const record: FeedbackRecord = {
+            id: `fb_${randomHex(6)}`, agentId, messageId: msgId, userId: user.id, rating: type, comment: comment.trim(),
+            question: [...chat].reverse().find(m => m.role === 'user' && m.id < msgId)?.text || '', answer: msg.text, at: Date.now(),
+            experimentId: msg.experimentId, variant: msg.variant,
+        };
+        setFeedback(prev => [record, ...prev.filter(r => r.agentId !== agentId || r.messageId !== msgId)].slice(0, MAX_FEEDBACK));
+    };
+
+    const handleClusterComplaints = async (agentId: string) => {
+        const complaints = recentComplaints(feedback.filter(r => r.agentId === agentId));
+        if (!complaints.length) return [];
+        const { provider, model } = resolveLLM(llmSettings, llmSecrets, 'analytics');
+        if (!provider.isConfigured()) throw new Error(`The ${provider.id} provider is not configured.`);
+        ensureFocus();
+        const result = await provider.generate({
+            model,
+            systemInstruction: `${buildThemeInstruction()}\n\n${languageInstruction(lang)}`,
+            responseSchema: themeSchema(complaints),
+            contents: [{ role: 'user', parts: [{ text: formatComplaints(complaints) }] }]
+        });
+        chargeFocus(result.usage, 'Feedback themes');
+        return toComplaintThemes(parseJsonReply(result.text), complaints);
+    };
+
+    const handleSuggestRevision = async (agentId: string, themes: ComplaintTheme[]) => {
+        const agent = agents.find(a => a.id === agentId);
+        if (!agent || !can(user, 'personas:manage')) throw new Error('Only Mentors can revise agent prompts.');
+        const complaints = recentComplaints(feedback.filter(r => r.agentId === agentId));
+        const { provider, model } = resolveLLM(llmSettings, llmSecrets, 'analytics');
+        if (!provider.isConfigured()) throw new Error(`The ${provider.id} provider is not configured.`);
+        ensureFocus();
+        // The revised prompt stays in the persona's language; only the rationale follows the UI language
+        const result = await provider.generate({
+            model,
+            systemInstruction: `${buildRevisionInstruction(agent)}\n\n${languageInstruction(lang)} Write the system prompt itself in the language of the current prompt.`,
+            responseSchema: revisionSchema,
+            contents: [{ role: 'user', parts: [{ text: buildRevisionContext(agent, complaints, themes) }] }]
+        });
+        chargeFocus(result.usage, `Prompt revision for ${agent.name}`);
+        return toPromptRevision(parseJsonReply(result.text));
+    };
+
+    const handleStartPromptTest = (agentId: string, revision: PromptRevision) => {
+        const agent = agents.find(a => a.id === agentId);
+        if (!agent || !can(user, 'personas:manage') || runningExperiment(promptExperiments, agentId)) return;
+        setPromptExperiments(prev => [...prev, { id: `ab_${randomHex(6)}`, agentId, baseline: agent.persona.systemPrompt, candidate: revision.systemPrompt.trim(), rationale: revision.rationale, startedAt: Date.now() }]);
+    };
+
+    const handleEndPromptTest = (experimentId: string, winner: PromptVariant) => {
+        const experiment = promptExperiments.find(e => e.id === experimentId);
+        if (!experiment || experiment.endedAt || !can(user, 'personas:manage')) return;
+        setPromptExperiments(prev => prev.map(e => e.id === experimentId ? { ...e, endedAt: Date.now(), winner } : e));
+        if (winner === 'candidate') setAgents(prev => prev.map(a => a.id === experiment.agentId ? { ...a, persona: { ...a.persona, systemPrompt: experiment.candidate } } : a));
+    };
+
+    const handleClassify = async (text: string, initiativeIds: string[]) => {
+        const { provider, model } = resolveLLM(llmSettings, llmSecrets, 'classifier');
+        if (!provider.isConfigured()) throw new Error(`The ${provider.id} provider is not configured.`);
+        const selected = initiatives.filter(i => initiativeIds.includes(i.id));
+        ensureFocus();
+        const result = await provider.generate({
+            model,
+            systemInstruction: `${buildClassifierInstruction(selected)}\n\n${languageInstruction(lang)}`,
+            responseSchema: classificationSchema(selected),
+            contents: [{ role: 'user', parts: [{ text }] }]
+        });
+        chargeFocus(result.usage, 'Governance classifier');
+        trackActivity('documents_classified', [hashText(text)]);
+        const classification = toClassification(parseJsonReply(result.text), text, selected, model);
+        setClassifications(prev => [classification, ...prev].slice(0, MAX_CLASSIFICATIONS));
+        return classification;
+    };
+
+    // Each task moved to Done counts once towards the Execution branch of the skill tree
+    const handleChangeProjectTasks = (update: (tasks: ProjectTask[]) => ProjectTask[]) => {
+        setProjectTasks(prev => {
+            const next = update(prev);
+            trackActivity('tasks_completed', next.filter(task => task.status === 'done' && prev.some(p => p.id === task.id && p.status !== 'done')).map(task => task.id));
+            return next;
+        });
+    };
+
+    const handlePromoteMember = (member: Member, role: User['role']) => {
+        if (!canGrantRole(user, role) || member.id === user?.id) return;
+        if (!window.confirm(t('growth.confirm_promotion', { name: member.name, role }))) return;
+        backend.setMemberRole(member.id, role)
+            .then(() => setMembers(prev => prev.map(m => m.id === member.id ? { ...m, role } : m)))
+            .catch(e => console.error('[Auth] Failed to promote member', e));
     };
 
-    const handleInstallTool = (id: string) => {
-        setExtensions(prev => prev.map(t => t.id === id ? { ...t, installed: !t.installed } : t));
+    const handleChangeFocusBudget = (userId: string, budget: number | null) => {
+        if (!can(user, 'budgets:manage')) return;
+        setFocusBudgets(prev => {
+            const { [userId]: _, ...rest } = prev;
+            return budget === null ? rest : { ...rest, [userId]: budget };
+        });
+    };
+
+    const handleSuggestIdeas = async (agentId: string) => {
+        const agent = agents.find(a => a.id === agentId);
+        if (!agent) return;
+        const { provider, model } = resolveLLM(llmSettings, llmSecrets, 'chat', agent.persona);
+        if (!provider.isConfigured()) throw new Error(`The ${provider.id} provider is not configured.`);
+        ensureFocus();
+        const context = `${buildBoardContext(projectTasks, milestones)}\n\n${buildWorkspaceContext({ agents, agentChats, integrationEvents, initiatives, agentTasks, notes })}`;
+        const result = await provider.generate({
+            model,
+            systemInstruction: [buildSystemInstruction(agent, null), buildIdeaInstruction(), languageInstruction(lang)].join('\n\n'),
+            responseSchema: ideaSchema,
+            temperature: agent.persona.temperature,
+            contents: [{ role: 'user', parts: [{ text: context }] }]
+        });
+        chargeFocus(result.usage, `Ideas from ${agent.name}`);
+        const ideas = toStickyNotes(parseJsonReply(result.text), agent);
+        setStickyNotes(prev => [...ideas, ...prev].slice(0, MAX_STICKY_NOTES));
+    };
+
+    // Sends an agent-assigned Taskbook task through the task queue; the result comes back to the card
+    const handleDelegateProjectTask = (task: ProjectTask) => {
+        if (task.assignee?.kind !== 'agent') return;
+        handleEnqueueTask({ title: task.title, prompt: buildProjectTaskPrompt(task), source: 'user', agentId: task.assignee.id, projectTaskId: task.id });
+        setProjectTasks(prev => prev.map(p => p.id === task.id && (p.status === 'backlog' || p.status === 'todo') ? { ...p, status: 'in_progress', updatedAt: Date.now() } : p));
+    };
+
+    const handleChangeInitiatives = (update: (prev: GovernanceInitiative[]) => GovernanceInitiative[]) => {
+        if (!can(user, 'initiatives:edit')) return;
+        setInitiatives(update);
+    };
+
+    // Files or unfiles a classified document under an initiative
+    const handleToggleClassificationLink = (classificationId: string, initiativeId: string) => {
+        if (!can(user, 'initiatives:edit')) return;
+        setClassifications(prev => prev.map(c => c.id !== classificationId ? c : { ...c, links: c.links.includes(initiativeId) ? c.links.filter(id => id !== initiativeId) : [...c.links, initiativeId] }));
+    };
+
+    const handleOpenInitiative = (id: string) => {
+        setInitiativeFocus(id);
+        setActiveTab('initiatives');
+    };
+
+    const handleLogout = async () => {
+        await backend.logout();
+        setHydrated(false);
+        setUser(null);
+        setActiveTab('dashboard');
+    };
+
+    // Installing an installed id replaces it in place
+    const handleInstallPlugin = (plugin: LoadedPlugin) => {
+        if (!can(user, 'tools:install')) return;
+        const installed: Extension = { ...plugin, id: plugin.manifest.id, enabled: true, installedAt: Date.now() };
+        setExtensions(prev => [installed, ...prev.filter(p => p.id !== installed.id)]);
     };
 
-    if (!user) return <div className="h-screen bg-slate-900 flex items-center justify-center text-white font-mono animate-pulse">Initializing Lumina OS...</div>;
+    const handleTogglePlugin = (id: string) => {
+        if (!can(user, 'tools:install')) return;
+        setExtensions(prev => prev.map(p => p.id === id ? { ...p, enabled: !p.enabled } : p));
+        if (activeTab.startsWith(`plugin:${id}:`)) setActiveTab('tools');
+    };
+
+    const handleUninstallPlugin = (id: string) => {
+        if (!can(user, 'tools:install')) return;
+        setExtensions(prev => prev.filter(p => p.id !== id));
+        setPluginStatus(prev => { const { [id]: _, ...rest } = prev; return rest; });
+        if (activeTab.startsWith(`plugin:${id}:`)) setActiveTab('tools');
+    };
+
+    if (!authChecked || (user && !hydrated)) return <div className="h-screen bg-slate-900 flex items-center justify-center text-white font-mono animate-pulse">{t('meta.initializing')}</div>;
+    if (!user) return <I18nContext.Provider value={{ lang, t }}><AuthScreen onAuthenticated={setUser} /></I18nContext.Provider>;
 
     return (
+        <I18nContext.Provider value={{ lang, t }}>
         <ErrorBoundary>
             <div className="flex h-screen bg-black text-white font-sans overflow-hidden">
                 <div className="absolute inset-0 z-0">
                     <Canvas shadows camera={{ position: [0, 5, 10], fov: 50 }}>
-                        <MetaScene systemHealth={80} agents={agents} onGetZoneSummary={getZoneSummary} />
+                        <MetaScene systemHealth={health.systemHealth} agents={agents} flows={agentFlows} notes={notes} sources={sources} onGetZoneSummary={getZoneSummary} onOpenGraphNode={handleOpenGraphNode} />
                     </Canvas>
                 </div>
                 <div className="absolute top-0 left-0 right-0 z-10">
-                    <Header user={user} integrations={integrations} agents={agents} />
-                </div>
-                <div className="absolute bottom-4 right-4 z-10 w-64 space-y-2 pointer-events-none">
-                    {integrationEvents.slice(0, 3).map(ev => (
-                        <div key={ev.id} className={`bg-slate-900/90 backdrop-blur border-l-4 p-3 rounded shadow-lg text-xs font-mono transition-all ${ev.handled ? 'border-green-500 opacity-50' : 'border-amber-500 opacity-100 animate-bounce'}`}>
-                            <div className="flex justify-between items-center mb-1">
-                                <span className="uppercase font-bold text-slate-400">{ev.type}</span>
-                                {ev.handled && <span className="text-green-400">RESOLVED</span>}
-                            </div>
-                            <div className="text-white truncate">{ev.message}</div>
-                        </div>
-                    ))}
+                    <Header user={user} integrations={integrations} agents={agents} health={health} onLogout={handleLogout} onLanguageChange={language => setUser(u => u ? { ...u, language } : u)} onOpenLedger={() => setActiveTab('ledger')} />
+                    {promotion && (
+                        <button onClick={() => { setPromotion(null); setActiveTab('growth'); }} className="mx-auto mt-2 flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-full shadow-lg text-sm font-bold">
+                            <Icons.Award /> {t('growth.eligible', { role: promotion })}
+                        </button>
+                    )}
                 </div>
                 <div className="absolute inset-0 z-20 flex items-center justify-center bg-black/40 backdrop-blur-sm p-4 md:p-8 pointer-events-none">
                     <div className="bg-white text-slate-900 w-full max-w-6xl h-[90vh] rounded-2xl shadow-2xl flex overflow-hidden pointer-events-auto border border-white/10">
                         <div className="w-20 md:w-64 bg-slate-50 border-r border-slate-200 p-4 flex flex-col shrink-0 items-center md:items-stretch">
-                            <div className="text-xs font-bold uppercase text-slate-400 mb-4 hidden md:block">Modules</div>
-                            <button onClick={() => setActiveTab('dashboard')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'dashboard' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Activity /></button>
-                            <button onClick={() => setActiveTab('classifier')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'classifier' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Brain /></button>
-                            <button onClick={() => setActiveTab('tools')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'tools' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Settings /></button>
-                            <button onClick={() => setActiveTab('files')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'files' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Folder /></button>
+                            <div className="text-xs font-bold uppercase text-slate-400 mb-4 hidden md:block">{t('modules.title')}</div>
+                            <button onClick={() => setActiveTab('dashboard')} title={t('modules.dashboard')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'dashboard' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Activity /></button>
+                            <button onClick={() => setActiveTab('classifier')} title={t('modules.classifier')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'classifier' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Brain /></button>
+                            <button onClick={() => setActiveTab('feedback')} title={t('modules.feedback')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'feedback' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.ThumbsUp /></button>
+                            <button onClick={() => setActiveTab('growth')} title={t('nav.growth')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'growth' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Award /></button>
+                            <button onClick={() => setActiveTab('taskbook')} title={t('modules.taskbook')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'taskbook' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Kanban /></button>
+                            <button onClick={() => setActiveTab('initiatives')} title={t('modules.initiatives')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'initiatives' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Flag /></button>
+                            <button onClick={() => setActiveTab('tools')} title={t('modules.tools')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'tools' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Settings /></button>
+                            <button onClick={() => setActiveTab('pipelines')} title={t('modules.pipelines')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'pipelines' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Git /></button>
+                            <button onClick={() => setActiveTab('files')} title={t('modules.files')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'files' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Folder /></button>
+                            <button onClick={() => setActiveTab('notes')} title={t('modules.notes')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'notes' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Edit /></button>
+                            <button onClick={() => setActiveTab('sources')} title={t('modules.sources')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'sources' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.FileText /></button>
+                            <button onClick={() => setActiveTab('integrations')} title={t('modules.integrations')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'integrations' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.MessageCircle /></button>
+                            <button onClick={() => setActiveTab('ai')} title={t('modules.ai')} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === 'ai' ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Cpu /></button>
+                            {pluginTabs.map(tab => (
+                                <button key={tab.key} onClick={() => setActiveTab(`plugin:${tab.key}`)} title={tab.title} className={`p-3 rounded-lg mb-2 transition-colors ${activeTab === `plugin:${tab.key}` ? 'bg-indigo-600 text-white' : 'hover:bg-slate-200'}`}><Icons.Code /></button>
+                            ))}
                         </div>
                         <div className="flex-1 flex flex-col relative bg-slate-50 min-w-0 p-6 overflow-y-auto">
                             {activeTab === 'dashboard' && (
                                 <>
                                     <div className="flex justify-between items-center mb-6">
-                                        <h1 className="text-2xl font-bold text-slate-900">Ops Center</h1>
+                                        <h1 className="text-2xl font-bold text-slate-900">{t('governance.title')}</h1>
                                         <div className="flex gap-2">
-                                            <button onClick={() => setIntegrations(p => p.includes('whatsapp') ? p.filter(x=>x!=='whatsapp') : [...p,'whatsapp'])} className={`px-3 py-1 rounded text-xs font-bold border ${integrations.includes('whatsapp') ? 'bg-green-50 border-green-200 text-green-700' : 'bg-white border-slate-200 text-slate-400'}`}>WhatsApp</button>
-                                            <button onClick={() => setIntegrations(p => p.includes('telegram') ? p.filter(x=>x!=='telegram') : [...p,'telegram'])} className={`px-3 py-1 rounded text-xs font-bold border ${integrations.includes('telegram') ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-400'}`}>Telegram</button>
+                                            <button disabled={!can(user, 'integrations:manage')} onClick={() => handleToggleChannel('whatsapp')} className={`px-3 py-1 rounded text-xs font-bold border disabled:cursor-not-allowed ${integrations.includes('whatsapp') ? 'bg-green-50 border-green-200 text-green-700' : 'bg-white border-slate-200 text-slate-400'}`}>WhatsApp</button>
+                                            <button disabled={!can(user, 'integrations:manage')} onClick={() => handleToggleChannel('telegram')} className={`px-3 py-1 rounded text-xs font-bold border disabled:cursor-not-allowed ${integrations.includes('telegram') ? 'bg-blue-50 border-blue-200 text-blue-700' : 'bg-white border-slate-200 text-slate-400'}`}>Telegram</button>
+                                            <button disabled={!can(user, 'integrations:manage')} onClick={() => handleToggleChannel('viber')} className={`px-3 py-1 rounded text-xs font-bold border disabled:cursor-not-allowed ${integrations.includes('viber') ? 'bg-purple-50 border-purple-200 text-purple-700' : 'bg-white border-slate-200 text-slate-400'}`}>Viber</button>
                                         </div>
                                     </div>
-                                    <BoardAgents agents={agents} chats={agentChats} onChatStart={handleAgentChat} onFeedback={handleFeedback} />
-                                    <div className="mt-6"><QuickActionsPanel onAction={() => {}} t={(k:any) => k} /></div>
+                                    <BoardAgents agents={agents} health={health} chats={agentChats} selectedAgentId={selectedAgentId} onSelectAgent={setSelectedAgentId} onChatStart={handleAgentChat} onCancel={handleCancelChat} onFeedback={handleFeedback} canManagePersonas={can(user, 'personas:manage')} onUpdatePersona={handleUpdatePersona} onOpenCitation={handleOpenCitation} onSaveAsNote={handleSaveMessageAsNote} />
+                                    <TaskQueuePanel tasks={agentTasks} agents={agents} onEnqueue={handleEnqueueTask} onCancel={handleCancelTask} onRetry={handleRetryTask} />
+                                    <InitiativeCards initiatives={initiatives} classifications={classifications} onOpen={handleOpenInitiative} />
+                                    <div className="mt-6"><QuickActionsPanel onAction={handleQuickAction} onSaveNote={(title, content) => handleCreateNote(title, content)} onSaveTasks={handleSaveActionTasks} pluginActions={pluginActions} onPluginAction={handlePluginAction} /></div>
+                                </>
+                            )}
+                            {activeTab === 'classifier' && <AIClassifier initiatives={initiatives} history={classifications} canLink={can(user, 'initiatives:edit')} onClassify={handleClassify} onDelete={id => setClassifications(prev => prev.filter(c => c.id !== id))} onToggleLink={handleToggleClassificationLink} />}
+                            {activeTab === 'feedback' && <FeedbackAnalytics agents={agents} feedback={feedback} experiments={promptExperiments} canManage={can(user, 'personas:manage')} onCluster={handleClusterComplaints} onSuggest={handleSuggestRevision} onStartTest={handleStartPromptTest} onEndTest={handleEndPromptTest} />}
+                            {activeTab === 'growth' && <SkillTreePanel user={user} activity={activityOf(skillActivity[user.id])} members={members} skillActivity={skillActivity} canPromote={can(user, 'members:promote')} onPromote={handlePromoteMember} />}
+                            {activeTab === 'ledger' && <LedgerPanel user={user} ledger={ledger} members={members} budgets={focusBudgets} canManage={can(user, 'budgets:manage')} onChangeBudget={handleChangeFocusBudget} />}
+                            {activeTab === 'taskbook' && <Taskbook tasks={projectTasks} milestones={milestones} stickies={stickyNotes} members={members} agents={agents} user={user} onChangeTasks={handleChangeProjectTasks} onChangeMilestones={setMilestones} onChangeStickies={setStickyNotes} onSuggest={handleSuggestIdeas} onDelegate={handleDelegateProjectTask} />}
+                            {activeTab === 'initiatives' && <InitiativesPanel initiatives={initiatives} classifications={classifications} user={user} canEdit={can(user, 'initiatives:edit')} focusId={initiativeFocus} onChange={handleChangeInitiatives} onUnlink={handleToggleClassificationLink} />}
+                            {activeTab === 'tools' && <ToolRegistry plugins={extensions} status={pluginStatus} canInstall={can(user, 'tools:install')} onInstall={handleInstallPlugin} onToggle={handleTogglePlugin} onUninstall={handleUninstallPlugin} />}
+                            {pluginTabs.filter(tab => activeTab === `plugin:${tab.key}`).map(tab => <PluginTabView key={tab.key} sandbox={sandboxes.current.get(tab.pluginId)} tab={tab} />)}
+                            {activeTab === 'pipelines' && <PipelinesPanel pipelines={pipelines} runs={pipelineRuns} rules={compatibilityRules} agents={agents} sources={sources} onChangePipelines={setPipelines} onChangeRules={setCompatibilityRules} onStart={handleStartPipeline} onCancelRun={handleCancelPipelineRun} />}
+                            {activeTab === 'files' && <FileArchive files={files} user={user} agents={agents} onChange={setFiles} onSummarize={handleSummarizeFile} />}
+                            {activeTab === 'notes' && <MindPalace notes={notes} sources={sources} activeId={activeNoteId} onSelect={setActiveNoteId} onChange={handleUpdateNote} onCreate={handleCreateNote} onDelete={handleDeleteNote} onOpenSource={id => handleOpenGraphNode('source', id)} />}
+                            {activeTab === 'sources' && <SourcesPanel sources={sources} focus={sourceFocus} onAsk={handleAskSources} onAdd={handleAddSources} onDelete={id => setSources(prev => prev.filter(src => src.id !== id))} />}
+                            {activeTab === 'integrations' && (
+                                <>
+                                    <div className="flex gap-2 px-6 pt-2">
+                                        {(['inbox', 'rules', 'bridges'] as const).map(view => (
+                                            <button key={view} onClick={() => setIntegrationView(view)} className={`px-3 py-1 rounded-lg text-xs font-bold uppercase ${integrationView === view ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-500 hover:bg-slate-200'}`}>{t(`integrations.${view}`)}</button>
+                                        ))}
+                                    </div>
+                                    {integrationView === 'inbox' && <IntegrationInbox events={integrationEvents} agents={agents} rules={routingRules} canOperate={can(user, 'integrations:manage')} onReassign={handleReassignEvent} onReply={handleOperatorReply} />}
+                                    {integrationView === 'rules' && <RoutingRulesPanel rules={routingRules} agents={agents} canManage={can(user, 'integrations:manage')} onChange={setRoutingRules} />}
+                                    {integrationView === 'bridges' && <IntegrationsPanel settings={integrationSettings} secrets={integrationSecrets} status={integrationStatus} agents={agents} canManage={can(user, 'integrations:manage')} onChange={setIntegrationSettings} onSecretsChange={handleChangeIntegrationSecrets} />}
                                 </>
                             )}
-                            {activeTab === 'classifier' && <AIClassifier initiatives={initiatives} onClassify={handleClassify} />}
-                            {activeTab === 'tools' && <ToolRegistry tools={extensions} onInstall={handleInstallTool} />}
-                            {activeTab === 'files' && <div className="text-center text-slate-500 mt-20">File Archive Module Loaded.</div>}
+                            {activeTab === 'ai' && <LLMSettingsPanel settings={llmSettings} secrets={llmSecrets} canManage={can(user, 'ai:manage')} onChange={handleChangeLLMSettings} onSecretsChange={handleChangeLLMSecrets} />}
                         </div>
                     </div>
                 </div>
             </div>
         </ErrorBoundary>
+        </I18nContext.Provider>
     );
 };
 
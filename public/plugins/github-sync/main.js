@@ -0,0 +1,36 @@
+// GitHub Sync: reads public repositories through the GitHub REST API (no token needed).
+
+const REPO = /^[\w.-]+\/[\w.-]+$/;
+
+const fetchCommits = async (repo) => {
+    if (!REPO.test(repo)) throw new Error('Expected a repository as owner/repo.');
+    const res = await fetch(`https://api.github.com/repos/${repo}/commits?per_page=10`, { headers: { Accept: 'application/vnd.github+json' } });
+    if (!res.ok) throw new Error(`GitHub answered ${res.status} for ${repo}.`);
+    return (await res.json()).map(c => ({
+        sha: c.sha.slice(0, 7),
+        author: (c.commit.author && c.commit.author.name) || 'unknown',
+        date: c.commit.author ? c.commit.author.date.slice(0, 10) : '',
+        message: c.commit.message.split('\n')[0],
+    }));
+};
+
+const formatCommits = (commits) => commits.map(c => `${c.sha} ${c.date} ${c.author}: ${c.message}`).join('\n');
+
+lumina.definePlugin({
+    activate: () => lumina.log('GitHub Sync ready'),
+
+    actions: {
+        repo_digest: async ({ input }) => {
+            const commits = await fetchCommits(input);
+            if (!commits.length) return `${input} has no commits.`;
+            return lumina.llm.generate(
+                formatCommits(commits),
+                `Summarize the recent work in the GitHub repository ${input} for a project lead: themes, notable changes and who is active. Be brief.`,
+            );
+        },
+    },
+
+    tools: {
+        commits: async ({ input }) => formatCommits(await fetchCommits(input.trim())),
+    },
+});
@@ -0,0 +1,53 @@
+// Workspace Stats: a read-only overview of the workspace, rendered as Lumina view blocks.
+
+const words = (text) => text.split(/\s+/).filter(Boolean).length;
+
+const collect = async () => {
+    const ws = await lumina.workspace.snapshot();
+    const byStatus = {};
+    ws.initiatives.forEach(i => { byStatus[i.status] = (byStatus[i.status] || 0) + 1; });
+    return {
+        ws,
+        byStatus,
+        noteWords: ws.notes.reduce((sum, n) => sum + words(n.content), 0),
+        sourceKb: Math.round(ws.sources.reduce((sum, s) => sum + s.size, 0) / 1024),
+        recent: [...ws.notes].sort((a, b) => b.updatedAt - a.updatedAt).slice(0, 5),
+    };
+};
+
+const toMarkdown = ({ ws, byStatus, noteWords, sourceKb }) => [
+    `- Agents: ${ws.agents.length}`,
+    `- Notes: ${ws.notes.length} (${noteWords} words)`,
+    `- Sources: ${ws.sources.length} (${sourceKb} KB)`,
+    `- Open tasks: ${ws.openTasks}`,
+    ...Object.entries(byStatus).map(([status, count]) => `- Initiatives ${status}: ${count}`),
+].join('\n');
+
+const render = (stats, message) => [
+    { type: 'heading', text: 'Workspace' },
+    { type: 'metric', label: 'Agents', value: stats.ws.agents.length },
+    { type: 'metric', label: 'Notes', value: stats.ws.notes.length },
+    { type: 'metric', label: 'Note words', value: stats.noteWords },
+    { type: 'metric', label: 'Sources', value: stats.ws.sources.length },
+    { type: 'metric', label: 'Source KB', value: stats.sourceKb },
+    { type: 'metric', label: 'Open tasks', value: stats.ws.openTasks },
+    { type: 'heading', text: 'Initiatives by status' },
+    { type: 'table', columns: ['Status', 'Count'], rows: Object.entries(stats.byStatus) },
+    { type: 'heading', text: 'Recently edited notes' },
+    { type: 'list', items: stats.recent.map(n => `${n.title} · ${new Date(n.updatedAt).toLocaleDateString()}`) },
+    { type: 'button', id: 'save', label: 'Save as note' },
+    ...(message ? [{ type: 'text', text: message }] : []),
+];
+
+lumina.definePlugin({
+    tabs: {
+        overview: async (event) => {
+            const stats = await collect();
+            if (event.type === 'click' && event.id === 'save') {
+                await lumina.notes.create(`Workspace Stats ${new Date().toLocaleDateString()}`, toMarkdown(stats));
+                return render(stats, 'Saved to the Mind Palace.');
+            }
+            return render(stats);
+        },
+    },
+});
@@ -0,0 +1,530 @@
+// Lumina OS on-prem storage server.
+// Persists the client's state slices as a single JSON document; schema
+// migrations run in the client, this server only stores what it is given.
+// Accounts and sessions live in a separate file that is never served; every
+// state request needs a session token issued by the /api/auth endpoints.
+//
+// It also relays messaging webhooks (browsers cannot receive them) and ships
+// mock Telegram / WhatsApp / Viber endpoints so the adapters run fully offline.
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { promises as fs } from 'node:fs';
+import { createHmac, pbkdf2, randomBytes, randomUUID, timingSafeEqual } from 'node:crypto';
+import { promisify } from 'node:util';
+import path from 'node:path';
+
+const PORT = Number(process.env.PORT || 8787);
+const STATE_FILE = path.resolve(process.env.STATE_FILE || './data/lumina-state.json');
+const AUTH_FILE = path.resolve(process.env.AUTH_FILE || './data/lumina-auth.json');
+// Uploaded file contents, one file per archive entry id; the shared state only holds their metadata
+const FILES_DIR = path.resolve(process.env.FILES_DIR || './data/files');
+const MAX_BODY_BYTES = Number(process.env.MAX_BODY_BYTES || 16 * 1024 * 1024);
+const MAX_FILE_BYTES = 10 * 1024 * 1024;
+// Only the app itself may call the API from a browser
+const APP_ORIGIN = process.env.APP_ORIGIN || 'http://localhost:3000';
+// Webhook credentials: the verify token answers Meta's subscription check, the app secret and the
+// Viber auth token sign deliveries. Unset secrets leave that channel's webhook unauthenticated.
+const WHATSAPP_VERIFY_TOKEN = process.env.WHATSAPP_VERIFY_TOKEN || '';
+const WHATSAPP_APP_SECRET = process.env.WHATSAPP_APP_SECRET || '';
+const VIBER_AUTH_TOKEN = process.env.VIBER_AUTH_TOKEN || '';
+
+type State = Record<string, unknown>;
+
+// Same shapes and PBKDF2 parameters as the browser backend, so its accounts carry over
+type Role = 'Scholar' | 'Mentor' | 'Pioneer';
+const ROLE_RANK: Record<Role, number> = { Scholar: 0, Mentor: 1, Pioneer: 2 };
+type User = { id: string; name: string; avatar: string; role: Role; tokens: { rep: number; act: number; edu: number; }; isGuest?: boolean; language?: string; };
+type Account = { user: User; username: string; passwordHash: string; salt: string; iterations: number; createdAt: number; };
+// Guest sessions carry their profile; there is no account behind them
+type Session = { token: string; userId: string; expiresAt: number; guest?: User; };
+type Auth = { accounts: Account[]; sessions: Session[]; };
+
+// Same minimum roles as PERMISSION_ROLES in the client; guests never hold permissions
+type Permission = 'initiatives:edit' | 'tools:install' | 'integrations:manage' | 'budgets:manage' | 'personas:manage' | 'members:promote' | 'ai:manage';
+const PERMISSION_ROLES: Record<Permission, Role> = {
+    'initiatives:edit': 'Mentor',
+    'tools:install': 'Mentor',
+    'integrations:manage': 'Mentor',
+    'budgets:manage': 'Mentor',
+    'personas:manage': 'Mentor',
+    'members:promote': 'Mentor',
+    'ai:manage': 'Mentor',
+};
+// State slices that need a permission to change; the rest are open to every registered member
+const SLICE_PERMISSIONS: Record<string, Permission> = {
+    extensions: 'tools:install',
+    initiatives: 'initiatives:edit',
+    integrationSettings: 'integrations:manage',
+    routingRules: 'integrations:manage',
+    focusBudgets: 'budgets:manage',
+    promptExperiments: 'personas:manage',
+    llmSettings: 'ai:manage',
+};
+
+const PROFILE_FIELDS = ['name', 'avatar', 'language'] as const;
+
+const can = (user: User, permission: Permission) => !user.isGuest && ROLE_RANK[user.role] >= ROLE_RANK[PERMISSION_ROLES[permission]];
+
+const PBKDF2_ITERATIONS = 210000;
+const SESSION_TTL = 7 * 24 * 60 * 60 * 1000;
+const pbkdf2Async = promisify(pbkdf2);
+
+let state: State = {};
+let auth: Auth = { accounts: [], sessions: [] };
+let writeQueue: Promise<void> = Promise.resolve();
+
+// Normalized inbound messages, as polled by the client's WebhookAdapter
+type InboundMessage = { seq: number; channel: string; chatId: string; sender: string; text: string; externalId: string; };
+const WEBHOOK_CHANNELS = ['whatsapp', 'viber'];
+const inbox: InboundMessage[] = [];
+// Starts at boot time so a client cursor from before a restart never hides new messages
+let inboxSeq = Date.now();
+
+// Mock provider state: what the adapters "sent", plus queued Telegram updates
+const mockSent: Record<string, unknown[]> = {};
+const telegramUpdates: { update_id: number; message: unknown }[] = [];
+let telegramUpdateId = 0;
+let telegramMessageId = 0;
+
+const readDocument = async <T>(file: string, fallback: T): Promise<T> => {
+    try {
+        return JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch (e) {
+        if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+        return fallback;
+    }
+};
+
+// Writes are serialized and atomic (tmp file + rename) so a crash never leaves half a document.
+// A failed write is reported to its caller only; the queue carries on with the next one.
+const writeDocument = (file: string, data: unknown) => {
+    writeQueue = writeQueue.catch(() => {}).then(async () => {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        const tmp = `${file}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(data));
+        await fs.rename(tmp, file);
+    });
+    return writeQueue;
+};
+
+const persist = () => writeDocument(STATE_FILE, state);
+const persistAuth = () => writeDocument(AUTH_FILE, auth);
+
+// Older servers kept accounts and sessions inside the shared state; they move to the auth file
+const loadState = async () => {
+    state = await readDocument<State>(STATE_FILE, {});
+    auth = await readDocument<Auth>(AUTH_FILE, { accounts: [], sessions: [] });
+    const { accounts, sessions, ...rest } = state as State & Partial<Auth>;
+    if (!accounts && !sessions) return;
+    auth = { accounts: [...auth.accounts, ...(accounts || [])], sessions: [...auth.sessions, ...(sessions || [])] };
+    state = rest;
+    await persistAuth();
+    await persist();
+};
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) { super(message); }
+}
+
+// Oversized bodies are refused as soon as they cross the limit; the rest of the upload is discarded
+const readRaw = (req: IncomingMessage, limit = MAX_BODY_BYTES): Promise<Buffer> => new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, `Request body exceeds ${limit} bytes.`);
+    if (Number(req.headers['content-length'] || 0) > limit) {
+        req.resume();
+        return reject(tooLarge());
+    }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size <= limit) return chunks.push(chunk);
+        chunks.length = 0;
+        reject(tooLarge());
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+});
+
+const readBody = async (req: IncomingMessage) => (await readRaw(req)).toString('utf8');
+
+// An empty body reads as {}; anything that is not JSON is the client's fault
+const parseJson = (body: string): unknown => {
+    if (!body) return {};
+    try {
+        return JSON.parse(body);
+    } catch {
+        throw new HttpError(400, 'Malformed JSON body.');
+    }
+};
+
+const readJson = async (req: IncomingMessage) => parseJson(await readBody(req));
+
+const CORS_HEADERS = {
+    'Access-Control-Allow-Origin': APP_ORIGIN,
+    'Vary': 'Origin',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Viber-Auth-Token',
+};
+
+const send = (res: ServerResponse, status: number, payload?: unknown) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+    res.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+// The parts of the provider payloads the relay reads; everything else is ignored
+type WhatsAppWebhook = {
+    entry: { changes?: { value?: {
+        contacts?: { wa_id: string; profile?: { name?: string } }[];
+        messages?: { id: string; from: string; type: string; text?: { body?: string } }[];
+    } }[] }[];
+};
+type ViberWebhook = { event: 'message'; message_token: number | string; sender: { id: string; name?: string }; message: { type: string; text?: string } };
+type PlainWebhook = { chatId: string | number; sender?: string; text: string };
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isWhatsAppWebhook = (body: unknown): body is WhatsAppWebhook => isRecord(body) && Array.isArray(body.entry);
+const isViberWebhook = (body: unknown): body is ViberWebhook =>
+    isRecord(body) && body.event === 'message' && isRecord(body.sender) && isRecord(body.message);
+const isPlainWebhook = (body: unknown): body is PlainWebhook =>
+    isRecord(body) && typeof body.text === 'string' && (typeof body.chatId === 'string' || typeof body.chatId === 'number');
+
+// Accepts WhatsApp Cloud API and Viber REST webhook shapes, plus a plain { chatId, sender, text } body
+const normalizeWebhook = (channel: string, body: unknown): Omit<InboundMessage, 'seq'>[] => {
+    if (isWhatsAppWebhook(body)) {
+        return body.entry.flatMap(entry => (entry.changes || []).flatMap(change => {
+            const names = Object.fromEntries((change.value?.contacts || []).map(c => [c.wa_id, c.profile?.name]));
+            return (change.value?.messages || []).flatMap(m => m.type === 'text' && typeof m.text?.body === 'string' ? [{
+                channel, chatId: String(m.from), sender: names[m.from] || String(m.from), text: m.text.body, externalId: String(m.id),
+            }] : []);
+        }));
+    }
+    if (isViberWebhook(body)) {
+        if (body.message.type !== 'text' || typeof body.message.text !== 'string') return [];
+        return [{ channel, chatId: String(body.sender.id), sender: body.sender.name || String(body.sender.id), text: body.message.text, externalId: String(body.message_token) }];
+    }
+    if (isPlainWebhook(body) && body.chatId) {
+        return [{ channel, chatId: String(body.chatId), sender: String(body.sender || body.chatId), text: body.text, externalId: `local-${randomUUID()}` }];
+    }
+    return [];
+};
+
+// WhatsApp signs the raw body with the app secret (X-Hub-Signature-256: sha256=<hex>), Viber with the bot's auth token
+const verifyWebhookSignature = (channel: string, req: IncomingMessage, body: string) => {
+    const [secret, header, prefix] = channel === 'whatsapp'
+        ? [WHATSAPP_APP_SECRET, 'x-hub-signature-256', 'sha256=']
+        : [VIBER_AUTH_TOKEN, 'x-viber-content-signature', ''];
+    if (!secret) return;
+    const given = req.headers[header];
+    const expected = prefix + createHmac('sha256', secret).update(body).digest('hex');
+    if (typeof given !== 'string' || !sameHash(given.toLowerCase(), expected)) throw new HttpError(401, 'Invalid webhook signature.');
+};
+
+const handleWebhooks = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> => {
+    const webhook = url.pathname.match(/^\/webhook\/(\w+)(\/inbox)?$/);
+    if (webhook && WEBHOOK_CHANNELS.includes(webhook[1])) {
+        const channel = webhook[1];
+        // The inbox holds customer messages; only members who operate the bridges may read it
+        if (webhook[2] && req.method === 'GET') {
+            if (!can(requireUser(req), 'integrations:manage')) throw new HttpError(403, 'Reading the inbox requires the integrations:manage permission.');
+            const after = Number(url.searchParams.get('after') || 0);
+            send(res, 200, inbox.filter(m => m.channel === channel && m.seq > after));
+            return true;
+        }
+        // Meta's subscription check: echo hub.challenge when the verify token matches
+        if (!webhook[2] && req.method === 'GET' && channel === 'whatsapp') {
+            const token = url.searchParams.get('hub.verify_token') || '';
+            if (url.searchParams.get('hub.mode') !== 'subscribe' || !WHATSAPP_VERIFY_TOKEN || !sameHash(token, WHATSAPP_VERIFY_TOKEN)) throw new HttpError(403, 'Verification failed.');
+            res.writeHead(200, { 'Content-Type': 'text/plain' });
+            res.end(url.searchParams.get('hub.challenge') || '');
+            return true;
+        }
+        if (!webhook[2] && req.method === 'POST') {
+            const body = await readBody(req);
+            verifyWebhookSignature(channel, req, body);
+            const messages = normalizeWebhook(channel, parseJson(body));
+            messages.forEach(m => inbox.push({ ...m, seq: ++inboxSeq }));
+            if (inbox.length > 1000) inbox.splice(0, inbox.length - 1000);
+            send(res, 200, { accepted: messages.length });
+            return true;
+        }
+    }
+
+    // Mock WhatsApp / Viber send APIs: record outbound payloads for inspection
+    const mockSend = url.pathname.match(/^\/mock\/(whatsapp|viber)\/(send|sent)$/);
+    if (mockSend) {
+        const channel = mockSend[1];
+        if (mockSend[2] === 'send' && req.method === 'POST') {
+            (mockSent[channel] ||= []).push(await readJson(req));
+            send(res, 200, channel === 'whatsapp' ? { messages: [{ id: `wamid.mock${mockSent[channel].length}` }] } : { status: 0, status_message: 'ok' });
+            return true;
+        }
+        if (mockSend[2] === 'sent' && req.method === 'GET') {
+            send(res, 200, mockSent[channel] || []);
+            return true;
+        }
+    }
+
+    // Mock Telegram Bot API (getUpdates / sendMessage) plus an inject endpoint to simulate users
+    const telegram = url.pathname.match(/^\/mock\/telegram\/bot[^/]+\/(\w+)$/);
+    if (telegram) {
+        const body = req.method === 'POST' ? await readJson(req) as Record<string, unknown> : {};
+        const params = { ...Object.fromEntries(url.searchParams), ...body };
+        if (telegram[1] === 'getUpdates') {
+            const offset = Number(params.offset || 0);
+            send(res, 200, { ok: true, result: telegramUpdates.filter(u => u.update_id >= offset) });
+        } else if (telegram[1] === 'sendMessage') {
+            (mockSent.telegram ||= []).push(params);
+            send(res, 200, { ok: true, result: { message_id: ++telegramMessageId, chat: { id: params.chat_id }, text: params.text } });
+        } else {
+            send(res, 404, { ok: false, description: 'Not Found' });
+        }
+        return true;
+    }
+    if (url.pathname === '/mock/telegram/inject' && req.method === 'POST') {
+        const { chatId = 1, sender = 'Test User', text = '' } = await readJson(req) as { chatId?: number | string; sender?: string; text?: string };
+        const update = { update_id: ++telegramUpdateId, message: { message_id: ++telegramMessageId, chat: { id: chatId }, from: { first_name: sender }, text, date: Math.floor(Date.now() / 1000) } };
+        telegramUpdates.push(update);
+        send(res, 200, update);
+        return true;
+    }
+    if (url.pathname === '/mock/telegram/sent' && req.method === 'GET') {
+        send(res, 200, mockSent.telegram || []);
+        return true;
+    }
+    return false;
+};
+
+const hashPassword = async (password: string, salt: string, iterations: number) =>
+    (await pbkdf2Async(password, salt, iterations, 32, 'sha256')).toString('hex');
+
+const sameHash = (a: string, b: string) => a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+
+const startSession = async (userId: string, guest?: User) => {
+    const session: Session = { token: randomBytes(32).toString('hex'), userId, expiresAt: Date.now() + SESSION_TTL, ...(guest && { guest }) };
+    auth.sessions = [...auth.sessions.filter(s => s.expiresAt > Date.now()), session];
+    await persistAuth();
+    return session.token;
+};
+
+const sessionOf = (req: IncomingMessage) => {
+    const token = req.headers.authorization?.match(/^Bearer (\w+)$/)?.[1];
+    return token ? auth.sessions.find(s => s.token === token && s.expiresAt > Date.now()) : undefined;
+};
+
+// The signed-in user, or a 401 for requests without a valid session
+const requireUser = (req: IncomingMessage): User => {
+    const session = sessionOf(req);
+    const user = session?.guest || auth.accounts.find(a => a.user.id === session?.userId)?.user;
+    if (!user) throw new HttpError(401, 'Not signed in.');
+    return user;
+};
+
+const readCredentials = async (req: IncomingMessage) => {
+    const body = await readJson(req) as { username?: unknown; password?: unknown };
+    if (typeof body.username !== 'string' || typeof body.password !== 'string') throw new HttpError(400, 'Username and password are required.');
+    return { username: body.username.trim(), password: body.password };
+};
+
+const handleAuth = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> => {
+    const route = `${req.method} ${url.pathname}`;
+    if (route === 'POST /api/auth/register') {
+        const { username, password } = await readCredentials(req);
+        if (!/^[\w.-]{3,32}$/.test(username)) throw new HttpError(400, 'Username must be 3-32 letters, digits, dots or dashes.');
+        if (password.length < 8) throw new HttpError(400, 'Password must be at least 8 characters.');
+        if (auth.accounts.some(a => a.username.toLowerCase() === username.toLowerCase())) throw new HttpError(409, 'Username is already taken.');
+        const salt = randomBytes(16).toString('hex');
+        const user: User = {
+            id: `u_${randomBytes(6).toString('hex')}`, name: username, avatar: '🎓',
+            // The first account bootstraps the workspace and may manage governance and tools
+            role: auth.accounts.length === 0 ? 'Mentor' : 'Scholar',
+            tokens: { rep: 0, act: 100, edu: 0 },
+        };
+        auth.accounts = [...auth.accounts, { user, username, salt, iterations: PBKDF2_ITERATIONS, passwordHash: await hashPassword(password, salt, PBKDF2_ITERATIONS), createdAt: Date.now() }];
+        send(res, 200, { user, token: await startSession(user.id) });
+        return true;
+    }
+    if (route === 'POST /api/auth/login') {
+        const { username, password } = await readCredentials(req);
+        const account = auth.accounts.find(a => a.username.toLowerCase() === username.toLowerCase());
+        const hash = await hashPassword(password, account?.salt || randomBytes(16).toString('hex'), account?.iterations || PBKDF2_ITERATIONS);
+        if (!account || !sameHash(hash, account.passwordHash)) throw new HttpError(401, 'Invalid username or password.');
+        send(res, 200, { user: account.user, token: await startSession(account.user.id) });
+        return true;
+    }
+    if (route === 'POST /api/auth/guest') {
+        const guest: User = { id: `guest_${randomBytes(6).toString('hex')}`, name: 'Guest Student', avatar: '👤', role: 'Scholar', tokens: { rep: 0, act: 20, edu: 0 }, isGuest: true };
+        send(res, 200, { user: guest, token: await startSession(guest.id, guest) });
+        return true;
+    }
+    if (route === 'GET /api/auth/session') {
+        send(res, 200, { user: requireUser(req) });
+        return true;
+    }
+    if (route === 'POST /api/auth/logout') {
+        const session = sessionOf(req);
+        if (session) {
+            auth.sessions = auth.sessions.filter(s => s !== session);
+            await persistAuth();
+        }
+        send(res, 204);
+        return true;
+    }
+    // Profile updates only change the profile fields; the role is promoted and the tokens follow the ledger
+    if (route === 'PUT /api/auth/user') {
+        const current = requireUser(req);
+        if (current.isGuest) return send(res, 204), true;
+        const body = await readJson(req);
+        if (!isRecord(body) || !isRecord(body.user)) throw new HttpError(400, 'Expected { user }.');
+        const { user } = body;
+        const profile = Object.fromEntries(PROFILE_FIELDS.filter(key => typeof user[key] === 'string').map(key => [key, user[key]]));
+        auth.accounts = auth.accounts.map(a => a.user.id === current.id ? { ...a, user: { ...a.user, ...profile } } : a);
+        await persistAuth();
+        send(res, 204);
+        return true;
+    }
+    if (route === 'GET /api/auth/members') {
+        requireUser(req);
+        send(res, 200, auth.accounts.map(({ user: { id, name, avatar, role } }) => ({ id, name, avatar, role })));
+        return true;
+    }
+    // Promotions are confirmed by a Mentor for someone else, never lower a role and never exceed the promoter's own
+    if (route === 'PUT /api/auth/role') {
+        const current = requireUser(req);
+        if (!can(current, 'members:promote')) throw new HttpError(403, 'Only a Mentor can promote members.');
+        const body = await readJson(req);
+        if (!isRecord(body) || typeof body.userId !== 'string' || typeof body.role !== 'string' || !Object.keys(ROLE_RANK).includes(body.role)) throw new HttpError(400, 'Expected { userId, role }.');
+        const { userId } = body, role = body.role as Role;
+        if (userId === current.id) throw new HttpError(403, 'You cannot promote yourself.');
+        if (ROLE_RANK[role] > ROLE_RANK[current.role]) throw new HttpError(403, 'You cannot promote above your own role.');
+        const target = auth.accounts.find(a => a.user.id === userId);
+        if (!target) throw new HttpError(404, 'Unknown member.');
+        if (ROLE_RANK[role] <= ROLE_RANK[target.user.role]) throw new HttpError(400, 'Promotions can only raise a role.');
+        auth.accounts = auth.accounts.map(a => a === target ? { ...a, user: { ...a.user, role } } : a);
+        await persistAuth();
+        send(res, 204);
+        return true;
+    }
+    return false;
+};
+
+const unchanged = (key: string, value: unknown) => JSON.stringify(value) === JSON.stringify(state[key]);
+
+// Keeps each agent's stored persona; only the runtime fields (status, load, energy, ...) are open to every member
+const keepPersonas = (agents: unknown) => {
+    const stored = Array.isArray(state.agents) ? state.agents.filter(isRecord) : [];
+    return Array.isArray(agents) ? agents.map(agent => {
+        const previous = isRecord(agent) && stored.find(a => a.id === agent.id);
+        return previous ? { ...agent, persona: previous.persona } : agent;
+    }) : agents;
+};
+
+type LedgerEntry = { id: string; userId: string; currency: string; amount: number; reason: string; detail: string; at: number; };
+const TOKEN_CURRENCIES = ['rep', 'act', 'edu'];
+const MAX_LEDGER_ENTRIES = 2000;
+
+const isLedgerEntry = (value: unknown): value is LedgerEntry => isRecord(value)
+    && typeof value.id === 'string' && typeof value.userId === 'string' && typeof value.currency === 'string' && TOKEN_CURRENCIES.includes(value.currency)
+    && typeof value.amount === 'number' && Number.isFinite(value.amount) && typeof value.reason === 'string';
+
+// Same fold as appendLedger in the client: the oldest entries become one carry-over per user and currency
+const compactLedger = (ledger: LedgerEntry[]) => {
+    if (ledger.length <= MAX_LEDGER_ENTRIES) return ledger;
+    const keep = ledger.slice(0, MAX_LEDGER_ENTRIES * 0.9);
+    const carried = new Map<string, LedgerEntry>();
+    ledger.slice(keep.length).forEach(e => {
+        const key = `${e.userId}:${e.currency}`;
+        const carry = carried.get(key);
+        carried.set(key, carry ? { ...carry, amount: carry.amount + e.amount } : { ...e, id: `l_${randomBytes(6).toString('hex')}`, reason: 'carryover', detail: '' });
+    });
+    return [...keep, ...carried.values()];
+};
+
+// The ledger is append-only: stored entries keep their stored values, and new ones must be the caller's own.
+// Carry-overs are recomputed here, and the opening balance is booked once per member.
+const appendLedger = (user: User, ledger: unknown) => {
+    if (!Array.isArray(ledger)) throw new HttpError(400, 'Expected the ledger to be a list.');
+    const stored = Array.isArray(state.ledger) ? state.ledger.filter(isLedgerEntry) : [];
+    const known = new Set(stored.map(e => e.id));
+    const added = ledger.filter(e => !(isRecord(e) && typeof e.id === 'string' && known.has(e.id)));
+    if (!added.every(isLedgerEntry)) throw new HttpError(400, 'Malformed ledger entry.');
+    const booked = added.filter(e => e.reason !== 'carryover');
+    if (booked.some(e => e.userId !== user.id)) throw new HttpError(403, 'Ledger entries can only be booked for yourself.');
+    if (booked.some(e => e.reason === 'opening') && stored.some(e => e.userId === user.id)) throw new HttpError(403, 'The opening balance is already booked.');
+    return compactLedger([...booked, ...stored]);
+};
+
+// Restricted slices may be resent unchanged (clients save every slice after a migration), never altered
+const authorizeSlices = (user: User, slices: State): State => {
+    for (const [key, value] of Object.entries(slices)) {
+        const permission = SLICE_PERMISSIONS[key];
+        if (permission && !can(user, permission) && !unchanged(key, value)) throw new HttpError(403, `Changing ${key} requires the ${permission} permission.`);
+    }
+    const next = 'ledger' in slices ? { ...slices, ledger: appendLedger(user, slices.ledger) } : slices;
+    return 'agents' in next && !can(user, 'personas:manage') ? { ...next, agents: keepPersonas(next.agents) } : next;
+};
+
+// Archive uploads: PUT stores the raw body, GET returns it, DELETE removes it. Guests only read.
+const handleFiles = async (req: IncomingMessage, res: ServerResponse, url: URL): Promise<boolean> => {
+    const id = url.pathname.match(/^\/api\/files\/([\w-]+)$/)?.[1];
+    if (!id) return false;
+    const user = requireUser(req);
+    const file = path.join(FILES_DIR, id);
+    if (req.method === 'GET') {
+        const body = await fs.readFile(file).catch(() => null);
+        if (!body) throw new HttpError(404, 'Unknown file.');
+        res.writeHead(200, { 'Content-Type': 'application/octet-stream', ...CORS_HEADERS });
+        res.end(body);
+        return true;
+    }
+    if (user.isGuest) throw new HttpError(403, 'Guests cannot change the archive.');
+    if (req.method === 'PUT') {
+        const body = await readRaw(req, MAX_FILE_BYTES);
+        await fs.mkdir(FILES_DIR, { recursive: true });
+        await fs.writeFile(`${file}.tmp`, body);
+        await fs.rename(`${file}.tmp`, file);
+        send(res, 204);
+        return true;
+    }
+    if (req.method === 'DELETE') {
+        await fs.rm(file, { force: true });
+        send(res, 204);
+        return true;
+    }
+    return false;
+};
+
+const server = createServer(async (req, res) => {
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    try {
+        if (req.method === 'OPTIONS') return send(res, 204);
+        if (await handleAuth(req, res, url)) return;
+        if (await handleFiles(req, res, url)) return;
+        if (url.pathname === '/api/state' && req.method === 'GET') {
+            requireUser(req);
+            return send(res, 200, state);
+        }
+        if (url.pathname === '/api/state' && req.method === 'PATCH') {
+            const user = requireUser(req);
+            if (user.isGuest) throw new HttpError(403, 'Guests cannot change the shared workspace.');
+            const entries = await readJson(req);
+            if (!isRecord(entries)) return send(res, 400, { error: 'Expected an object of state slices.' });
+            // Accounts and sessions are managed by /api/auth only
+            const { accounts, sessions, ...slices } = entries;
+            state = { ...state, ...authorizeSlices(user, slices) };
+            await persist();
+            return send(res, 204);
+        }
+        if (await handleWebhooks(req, res, url)) return;
+        send(res, 404, { error: 'Not found' });
+    } catch (e) {
+        send(res, e instanceof HttpError ? e.status : 500, { error: e instanceof Error ? e.message : 'Internal error' });
+    }
+});
+
+loadState().then(() => {
+    server.listen(PORT, () => {
+        console.log(`[Lumina Storage] ${STATE_FILE} served on http://localhost:${PORT}`);
+        if (!WHATSAPP_APP_SECRET) console.warn('[Lumina Storage] WHATSAPP_APP_SECRET is not set; WhatsApp webhooks are not signature-checked.');
+        if (!VIBER_AUTH_TOKEN) console.warn('[Lumina Storage] VIBER_AUTH_TOKEN is not set; Viber webhooks are not signature-checked.');
+    });
+});